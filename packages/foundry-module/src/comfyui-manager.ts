@@ -304,7 +304,7 @@ export class ComfyUIManager {
   /**
    * Generate a map using ComfyUI
    */
-  async generateMap(data: { prompt: string; size?: string; grid_size?: number }): Promise<any> {
+  async generateMap(data: { prompt: string; size?: string; grid_size?: number; style?: string; seed?: number }): Promise<any> {
     try {
       const bridge = (globalThis as any).foundryMCPBridge;
       if (!bridge?.socketBridge?.isConnected()) {
@@ -60,4 +60,35 @@ export const ERROR_MESSAGES = {
   QUERY_TIMEOUT: 'Query timeout',
   UNKNOWN_METHOD: 'Unknown method',
   BRIDGE_NOT_RUNNING: 'MCP Bridge is not running',
-} as const;
\ No newline at end of file
+} as const;
+/**
+ * WFRP 4e Basic Skills (testable untrained) and their governing characteristic
+ */
+export const WFRP_BASIC_SKILLS: Record<string, string> = {
+  art: 'dex',
+  athletics: 'ag',
+  bribery: 'fel',
+  charm: 'fel',
+  'charm animal': 'wp',
+  climb: 's',
+  cool: 'wp',
+  'consume alcohol': 't',
+  dodge: 'ag',
+  drive: 'ag',
+  endurance: 't',
+  entertain: 'fel',
+  gamble: 'int',
+  gossip: 'fel',
+  haggle: 'fel',
+  intimidate: 's',
+  intuition: 'i',
+  leadership: 'fel',
+  'melee (basic)': 'ws',
+  melee: 'ws',
+  navigation: 'i',
+  'outdoor survival': 'int',
+  perception: 'i',
+  ride: 'ag',
+  row: 's',
+  stealth: 'ag',
+};
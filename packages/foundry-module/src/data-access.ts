@@ -1,5 +1,20 @@
-import { MODULE_ID, ERROR_MESSAGES, TOKEN_DISPOSITIONS } from './constants.js';
+import {
+  describeTestOutcome,
+  resolveCharacteristicKey,
+  resolveTest,
+  WFRP_CHARACTERISTICS,
+  WFRP_DIFFICULTIES,
+  WFRPCharacteristicKey,
+  WFRPDifficulty,
+} from '@foundry-mcp/shared';
+import {
+  MODULE_ID,
+  ERROR_MESSAGES,
+  TOKEN_DISPOSITIONS,
+  WFRP_BASIC_SKILLS,
+} from './constants.js';
 import { permissionManager } from './permissions.js';
+import { CreatureTrait, formatTrait, matchesTraitFilter, parseTrait, parseTraitFilter, SearchField, TextSearchIndex, tokenize, TraitFilter } from './search-index.js';
 import { transactionManager } from './transaction-manager.js';
 // Local type definitions to avoid shared package import issues
 interface CharacterInfo {
@@ -45,6 +60,19 @@ interface CompendiumSearchResult {
   description?: string;
 }
 
+/**
+ * search-compendium filters answered by the enhanced item index
+ */
+interface ItemSearchFilters {
+  itemType?: string;
+  lore?: string;
+  cn?: number | { min?: number; max?: number };
+  god?: string;
+  careerClass?: string;
+  tier?: number;
+  status?: string;
+}
+
 /**
  * Enhanced creature data stored in creature index
  * Uses WFRP 4e characteristics
@@ -62,6 +90,33 @@ interface EnhancedCreatureIndex {
   toughness: number;  // WFRP toughness bonus + armor
   hasSpells: boolean;
   hasSpecialAbilities: boolean;  // WFRP traits/abilities
+  traits: CreatureTrait[];  // WFRP traits with ratings, e.g. Fear 2, Weapon +8
+  talents: string[];
+  description?: string;
+  img?: string;
+}
+
+/**
+ * Enhanced item data stored in item index
+ * Type-specific fields are only set for the WFRP 4e item types they belong to
+ */
+interface EnhancedItemIndex {
+  id: string;
+  name: string;
+  type: string;  // WFRP item type: spell, prayer, career, talent, skill, trait, weapon...
+  pack: string;
+  packLabel: string;
+  cn?: number;  // Spells: Casting Number
+  lore?: string;  // Spells: lore, e.g. "fire" or "petty"
+  god?: string;  // Prayers
+  prayerType?: string;  // Prayers: blessing or miracle
+  careerClass?: string;  // Careers: class, e.g. "Warriors"
+  careerGroup?: string;  // Careers: the career path, e.g. "Soldier"
+  tier?: number;  // Careers: level 1-4 within the path
+  status?: string;  // Careers: e.g. "Silver 1"
+  maxRank?: string;  // Talents: a number, or the characteristic bonus that caps it
+  characteristic?: string;  // Skills
+  advanced?: boolean;  // Skills
   description?: string;
   img?: string;
 }
@@ -70,7 +125,7 @@ interface PersistentIndexMetadata {
   version: string;
   timestamp: number;
   packFingerprints: Map<string, PackFingerprint>;
-  totalCreatures: number;
+  totalEntries: number;
 }
 
 interface PackFingerprint {
@@ -81,11 +136,16 @@ interface PackFingerprint {
   checksum: string;
 }
 
-interface PersistentEnhancedIndex {
+interface PersistentEnhancedIndex<T> {
   metadata: PersistentIndexMetadata;
-  creatures: EnhancedCreatureIndex[];
+  entries: T[];
 }
 
+/**
+ * Called as an index build works through the packs, e.g. to report progress to the MCP server
+ */
+export type IndexBuildProgress = (packsDone: number, totalPacks: number, message: string) => void;
+
 interface SceneInfo {
   id: string;
   name: string;
@@ -153,6 +213,7 @@ interface ActorCreationResult {
   actors: CreatedActorInfo[];
   errors?: string[] | undefined;
   tokensPlaced?: number;
+  tokenIds?: string[];
   totalRequested: number;
   totalCreated: number;
 }
@@ -211,23 +272,115 @@ interface TokenPlacementResult {
 }
 
 /**
- * Persistent Enhanced Creature Index System
- * Stores pre-computed creature data in JSON file within Foundry world directory for instant filtering
+ * WFRP 4e test request (skill or characteristic)
+ */
+interface WFRPTestRequest {
+  characterName?: string;
+  characterId?: string;
+  difficulty?: string;
+  modifier?: number;
+  testName?: string;
+  rollMode?: string;
+  /** false to roll without posting the result to chat (dry-run previews) */
+  chat?: boolean;
+}
+
+/**
+ * Structured result of a WFRP 4e d100 test
+ */
+interface WFRPTestResult {
+  actorId: string;
+  actorName: string;
+  testName: string;
+  testType: 'skill' | 'characteristic';
+  skillName?: string;
+  characteristic: string;
+  untrained: boolean;
+  baseValue: number;
+  difficulty: string;
+  difficultyModifier: number;
+  modifier: number;
+  target: number;
+  roll: number;
+  sl: number;
+  success: boolean;
+  isDouble: boolean;
+  critical: boolean;
+  fumble: boolean;
+  autoSuccess: boolean;
+  autoFailure: boolean;
+  outcome: string;
+  chatMessageId?: string;
+}
+
+/**
+ * Combatant entry in a WFRP combat encounter
+ */
+interface CombatantInfo {
+  id: string;
+  name: string;
+  tokenId?: string;
+  actorId?: string;
+  initiative: number | null;
+  hidden: boolean;
+  defeated: boolean;
+  advantage: number;
+  wounds?: { value: number; max: number };
+}
+
+/**
+ * Snapshot of the active combat encounter
+ */
+interface CombatState {
+  id: string;
+  sceneId?: string;
+  round: number;
+  turn: number;
+  started: boolean;
+  current?: CombatantInfo;
+  combatants: CombatantInfo[];
+}
+
+/**
+ * Persistent Enhanced Compendium Index System
+ * Stores pre-computed document data in JSON file within Foundry world directory for instant filtering
  * Uses file-based storage following Foundry best practices for large data sets
+ * Subclasses pick the packs and documents to index and what to extract from each
  */
-class PersistentCreatureIndex {
-  private moduleId: string = MODULE_ID;
-  private readonly INDEX_VERSION = '1.0.0';
-  private readonly INDEX_FILENAME = 'enhanced-creature-index.json';
+abstract class PersistentCompendiumIndex<T extends { id: string; name: string; pack: string; packLabel: string }> {
+  protected moduleId: string = MODULE_ID;
+  protected abstract readonly INDEX_VERSION: string;
+  protected abstract readonly INDEX_FILENAME: string;
+  /** Document type of the compendium packs this index covers */
+  protected abstract readonly packType: 'Actor' | 'Item';
+  /** What one entry is called in progress notifications */
+  protected abstract readonly entryLabel: string;
   private buildInProgress = false;
   private hooksRegistered = false;
+  private indexTimestamp = 0;
+  private searchIndex: { timestamp: number; index: TextSearchIndex<T> } | null = null;
 
   constructor() {
     this.registerFoundryHooks();
   }
 
   /**
-   * Get the file path for the enhanced creature index
+   * Whether a compendium document belongs in this index
+   */
+  protected abstract isIndexedDocument(doc: any): boolean;
+
+  /**
+   * Extract the index entry for a single document, or null to leave it out
+   */
+  protected abstract extractEntry(doc: any, pack: any): { entry: T, errors: number } | null;
+
+  /**
+   * Weighted text fields the full-text index covers for an entry
+   */
+  protected abstract searchFields(entry: T): SearchField[];
+
+  /**
+   * Get the file path for the enhanced index
    */
   private getIndexFilePath(): string {
     // Store in world data directory using world ID
@@ -235,31 +388,47 @@ class PersistentCreatureIndex {
   }
 
   /**
-   * Get or build the enhanced creature index
+   * Get or build the enhanced index
    */
-  async getEnhancedIndex(): Promise<EnhancedCreatureIndex[]> {
+  async getEnhancedIndex(): Promise<T[]> {
     // Check if we have a valid persistent index
     const existingIndex = await this.loadPersistedIndex();
 
     if (existingIndex && this.isIndexValid(existingIndex)) {
-      return existingIndex.creatures;
+      this.indexTimestamp = existingIndex.metadata.timestamp;
+      return existingIndex.entries;
     }
 
     // Build new index if needed
     return await this.buildEnhancedIndex();
   }
 
+  /**
+   * Get the full-text index over the entries last returned by getEnhancedIndex
+   * Rebuilt only when the index itself was rebuilt or reloaded from a newer file
+   */
+  getSearchIndex(entries: T[]): TextSearchIndex<T> {
+    if (!this.searchIndex || this.searchIndex.timestamp !== this.indexTimestamp) {
+      this.searchIndex = {
+        timestamp: this.indexTimestamp,
+        index: new TextSearchIndex(entries, entry => this.searchFields(entry)),
+      };
+    }
+
+    return this.searchIndex.index;
+  }
+
   /**
    * Force rebuild of the enhanced index
    */
-  async rebuildIndex(): Promise<EnhancedCreatureIndex[]> {
-    return await this.buildEnhancedIndex(true);
+  async rebuildIndex(onProgress?: IndexBuildProgress): Promise<T[]> {
+    return await this.buildEnhancedIndex(true, onProgress);
   }
 
   /**
    * Load persisted index from JSON file
    */
-  private async loadPersistedIndex(): Promise<PersistentEnhancedIndex | null> {
+  private async loadPersistedIndex(): Promise<PersistentEnhancedIndex<T> | null> {
     try {
       const filePath = this.getIndexFilePath();
 
@@ -303,7 +472,7 @@ class PersistentCreatureIndex {
   /**
    * Save enhanced index to JSON file
    */
-  private async savePersistedIndex(index: PersistentEnhancedIndex): Promise<void> {
+  private async savePersistedIndex(index: PersistentEnhancedIndex<T>): Promise<void> {
     try {
       // Convert Map to Array for JSON serialization
       const saveData = {
@@ -335,15 +504,15 @@ class PersistentCreatureIndex {
   /**
    * Check if existing index is valid (all packs unchanged)
    */
-  private isIndexValid(existingIndex: PersistentEnhancedIndex): boolean {
+  private isIndexValid(existingIndex: PersistentEnhancedIndex<T>): boolean {
     if (existingIndex.metadata.version !== this.INDEX_VERSION) {
       return false;
     }
 
     // Check each pack fingerprint
-    const actorPacks = Array.from(game.packs.values()).filter(pack => pack.metadata.type === 'Actor');
+    const indexedPacks = Array.from(game.packs.values()).filter(pack => pack.metadata.type === this.packType);
 
-    for (const pack of actorPacks) {
+    for (const pack of indexedPacks) {
       const currentFingerprint = this.generatePackFingerprint(pack);
       const savedFingerprint = existingIndex.metadata.packFingerprints.get(pack.metadata.id);
 
@@ -374,32 +543,32 @@ class PersistentCreatureIndex {
 
     // Listen for compendium document changes
     Hooks.on('createDocument', (document: any) => {
-      if (document.pack && (document.type === 'npc' || document.type === 'character')) {
+      if (document.pack && this.isIndexedDocument(document)) {
         this.invalidateIndex();
       }
     });
 
     Hooks.on('updateDocument', (document: any) => {
-      if (document.pack && (document.type === 'npc' || document.type === 'character')) {
+      if (document.pack && this.isIndexedDocument(document)) {
         this.invalidateIndex();
       }
     });
 
     Hooks.on('deleteDocument', (document: any) => {
-      if (document.pack && (document.type === 'npc' || document.type === 'character')) {
+      if (document.pack && this.isIndexedDocument(document)) {
         this.invalidateIndex();
       }
     });
 
     // Listen for pack creation/deletion
     Hooks.on('createCompendium', (pack: any) => {
-      if (pack.metadata.type === 'Actor') {
+      if (pack.metadata.type === this.packType) {
         this.invalidateIndex();
       }
     });
 
     Hooks.on('deleteCompendium', (pack: any) => {
-      if (pack.metadata.type === 'Actor') {
+      if (pack.metadata.type === this.packType) {
         this.invalidateIndex();
       }
     });
@@ -477,9 +646,9 @@ class PersistentCreatureIndex {
   }
 
   /**
-   * Build enhanced creature index from all Actor packs with detailed progress tracking
+   * Build enhanced index from all packs of the indexed type with detailed progress tracking
    */
-  private async buildEnhancedIndex(force = false): Promise<EnhancedCreatureIndex[]> {
+  private async buildEnhancedIndex(force = false, onProgress?: IndexBuildProgress): Promise<T[]> {
     if (this.buildInProgress && !force) {
       throw new Error('Index build already in progress');
     }
@@ -492,16 +661,17 @@ class PersistentCreatureIndex {
 
     try {
 
-      const actorPacks = Array.from(game.packs.values()).filter(pack => pack.metadata.type === 'Actor');
-      const enhancedCreatures: EnhancedCreatureIndex[] = [];
+      const indexedPacks = Array.from(game.packs.values()).filter(pack => pack.metadata.type === this.packType);
+      const enhancedEntries: T[] = [];
       const packFingerprints = new Map<string, PackFingerprint>();
 
       // Show initial progress notification
-      ui.notifications?.info(`Starting enhanced creature index build from ${actorPacks.length} packs...`);
+      ui.notifications?.info(`Starting enhanced ${this.entryLabel} index build from ${indexedPacks.length} packs...`);
 
-      for (let i = 0; i < actorPacks.length; i++) {
-        const pack = actorPacks[i];
-        const progressPercent = Math.round((i / actorPacks.length) * 100);
+      for (let i = 0; i < indexedPacks.length; i++) {
+        const pack = indexedPacks[i];
+        const progressPercent = Math.round((i / indexedPacks.length) * 100);
+        onProgress?.(i, indexedPacks.length, `Indexing ${pack.metadata.label}`);
 
         // Update progress notification every few packs or for important packs
         if (i % 3 === 0 || pack.metadata.label.toLowerCase().includes('monster')) {
@@ -509,7 +679,7 @@ class PersistentCreatureIndex {
             progressNotification.remove();
           }
           progressNotification = ui.notifications?.info(
-            `Building creature index... ${progressPercent}% (${i + 1}/${actorPacks.length}) Processing: ${pack.metadata.label}`
+            `Building ${this.entryLabel} index... ${progressPercent}% (${i + 1}/${indexedPacks.length}) Processing: ${pack.metadata.label}`
           );
         }
 
@@ -534,21 +704,21 @@ class PersistentCreatureIndex {
             );
           }
 
-          // Process creatures in this pack
+          // Process documents in this pack
           const packResult = await this.extractEnhancedDataFromPack(pack);
-          enhancedCreatures.push(...packResult.creatures);
+          enhancedEntries.push(...packResult.entries);
           totalErrors += packResult.errors;
 
-          // Pack processing completed: ${pack.metadata.label} - ${packResult.creatures.length} creatures extracted
+          // Pack processing completed: ${pack.metadata.label} - ${packResult.entries.length} entries extracted
 
           // Show milestone notifications for significant progress
-          if (i === 0 || (i + 1) % 5 === 0 || i === actorPacks.length - 1) {
-            const totalCreaturesSoFar = enhancedCreatures.length;
+          if (i === 0 || (i + 1) % 5 === 0 || i === indexedPacks.length - 1) {
+            const totalEntriesSoFar = enhancedEntries.length;
             if (progressNotification) {
               progressNotification.remove();
             }
             progressNotification = ui.notifications?.info(
-              `Index Progress: ${i + 1}/${actorPacks.length} packs complete, ${totalCreaturesSoFar} creatures indexed`
+              `Index Progress: ${i + 1}/${indexedPacks.length} packs complete, ${totalEntriesSoFar} ${this.entryLabel}s indexed`
             );
           }
 
@@ -563,29 +733,31 @@ class PersistentCreatureIndex {
       if (progressNotification) {
         progressNotification.remove();
       }
-      ui.notifications?.info(`Saving enhanced index to world database... (${enhancedCreatures.length} creatures)`);
+      ui.notifications?.info(`Saving enhanced index to world database... (${enhancedEntries.length} ${this.entryLabel}s)`);
+      onProgress?.(indexedPacks.length, indexedPacks.length, `Saving ${enhancedEntries.length} ${this.entryLabel}s`);
 
       // Create persistent index structure
-      const persistentIndex: PersistentEnhancedIndex = {
+      const persistentIndex: PersistentEnhancedIndex<T> = {
         metadata: {
           version: this.INDEX_VERSION,
           timestamp: Date.now(),
           packFingerprints,
-          totalCreatures: enhancedCreatures.length
+          totalEntries: enhancedEntries.length
         },
-        creatures: enhancedCreatures
+        entries: enhancedEntries
       };
 
       // Save to world flags
       await this.savePersistedIndex(persistentIndex);
+      this.indexTimestamp = persistentIndex.metadata.timestamp;
 
       const buildTimeSeconds = Math.round((Date.now() - startTime) / 1000);
       const errorText = totalErrors > 0 ? ` (${totalErrors} extraction errors)` : '';
-      const successMessage = `Enhanced creature index complete! ${enhancedCreatures.length} creatures indexed from ${actorPacks.length} packs in ${buildTimeSeconds}s${errorText}`;
+      const successMessage = `Enhanced ${this.entryLabel} index complete! ${enhancedEntries.length} ${this.entryLabel}s indexed from ${indexedPacks.length} packs in ${buildTimeSeconds}s${errorText}`;
 
       ui.notifications?.info(successMessage);
 
-      return enhancedCreatures;
+      return enhancedEntries;
 
     } catch (error) {
       // Clear any progress notifications on error
@@ -593,7 +765,7 @@ class PersistentCreatureIndex {
         progressNotification.remove();
       }
 
-      const errorMessage = `Failed to build enhanced creature index: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      const errorMessage = `Failed to build enhanced ${this.entryLabel} index: ${error instanceof Error ? error.message : 'Unknown error'}`;
       console.error(`[${this.moduleId}] ${errorMessage}`);
       ui.notifications?.error(errorMessage);
 
@@ -612,8 +784,8 @@ class PersistentCreatureIndex {
   /**
    * Extract enhanced data from all documents in a pack
    */
-  private async extractEnhancedDataFromPack(pack: any): Promise<{ creatures: EnhancedCreatureIndex[], errors: number }> {
-    const creatures: EnhancedCreatureIndex[] = [];
+  private async extractEnhancedDataFromPack(pack: any): Promise<{ entries: T[], errors: number }> {
+    const entries: T[] = [];
     let errors = 0;
 
     try {
@@ -622,14 +794,13 @@ class PersistentCreatureIndex {
 
       for (const doc of documents) {
         try {
-          // Only process NPCs and characters
-          if (doc.type !== 'npc' && doc.type !== 'character') {
+          if (!this.isIndexedDocument(doc)) {
             continue;
           }
 
-          const result = this.extractEnhancedCreatureData(doc, pack);
+          const result = this.extractEntry(doc, pack);
           if (result) {
-            creatures.push(result.creature);
+            entries.push(result.entry);
             errors += result.errors;
           }
 
@@ -644,14 +815,40 @@ class PersistentCreatureIndex {
       errors++;
     }
 
-    return { creatures, errors };
+    return { entries, errors };
+  }
+
+}
+
+/**
+ * Enhanced index of NPCs and characters in Actor packs
+ */
+class PersistentCreatureIndex extends PersistentCompendiumIndex<EnhancedCreatureIndex> {
+  protected readonly INDEX_VERSION = '2.0.0';
+  protected readonly INDEX_FILENAME = 'enhanced-creature-index.json';
+  protected readonly packType = 'Actor';
+  protected readonly entryLabel = 'creature';
+
+  protected isIndexedDocument(doc: any): boolean {
+    // Only process NPCs and characters
+    return doc.type === 'npc' || doc.type === 'character';
+  }
+
+  protected searchFields(creature: EnhancedCreatureIndex): SearchField[] {
+    return [
+      { text: creature.name, weight: 3 },
+      { text: creature.creatureType, weight: 2 },
+      { text: creature.traits.map(formatTrait).join(' '), weight: 2 },
+      { text: creature.talents.join(' '), weight: 1.5 },
+      { text: creature.description, weight: 1 },
+    ];
   }
 
   /**
    * Extract enhanced creature data from a single document
    * WFRP 4e specific implementation
    */
-  private extractEnhancedCreatureData(doc: any, pack: any): { creature: EnhancedCreatureIndex, errors: number } | null {
+  protected extractEntry(doc: any, pack: any): { entry: EnhancedCreatureIndex, errors: number } | null {
     try {
       const system = doc.system || {};
 
@@ -725,13 +922,21 @@ class PersistentCreatureIndex {
           s.name?.toLowerCase().includes('magic') ||
           s.name?.toLowerCase().includes('channelling'))));
 
+      // WFRP traits and talents are embedded items; the trait rating lives in its specification
+      const items = Array.from(doc.items ?? []) as any[];
+      const traits: CreatureTrait[] = items
+        .filter(item => item.type === 'trait')
+        .map(item => parseTrait(`${item.name} ${item.system?.specification?.value ?? ''}`));
+      const talents = Array.from(new Set(items.filter(item => item.type === 'talent').map(item => item.name as string)));
+
       // Check for special abilities (WFRP traits/abilities)
-      const hasSpecialAbilities = !!(system.traits?.length > 0 ||
+      const hasSpecialAbilities = !!(traits.length > 0 ||
+        system.traits?.length > 0 ||
         system.flags?.wfrp4e?.traits?.length > 0);
 
       // Successful extraction
       return {
-        creature: {
+        entry: {
           id: doc._id,
           name: doc.name,
           type: doc.type,
@@ -744,6 +949,8 @@ class PersistentCreatureIndex {
           toughness: toughnessValue,
           hasSpells: hasSpells,
           hasSpecialAbilities: hasSpecialAbilities,
+          traits,
+          talents,
           description: doc.system?.details?.biography || doc.system?.description || '',
           img: doc.img
         },
@@ -755,7 +962,7 @@ class PersistentCreatureIndex {
 
       // Return a basic fallback record with error count instead of null to avoid losing creatures
       return {
-        creature: {
+        entry: {
           id: doc._id,
           name: doc.name,
           type: doc.type,
@@ -768,6 +975,8 @@ class PersistentCreatureIndex {
           toughness: 10,
           hasSpells: false,
           hasSpecialAbilities: false,
+          traits: [],
+          talents: [],
           description: 'Data extraction failed',
           img: doc.img || ''
         },
@@ -777,18 +986,114 @@ class PersistentCreatureIndex {
   }
 }
 
+/**
+ * Enhanced index of Item packs: spells, prayers, careers, talents, skills, trappings...
+ */
+class PersistentItemIndex extends PersistentCompendiumIndex<EnhancedItemIndex> {
+  protected readonly INDEX_VERSION = '1.0.0';
+  protected readonly INDEX_FILENAME = 'enhanced-item-index.json';
+  protected readonly packType = 'Item';
+  protected readonly entryLabel = 'item';
+
+  private readonly STATUS_TIERS: Record<string, string> = { b: 'Brass', s: 'Silver', g: 'Gold' };
+
+  protected isIndexedDocument(doc: any): boolean {
+    // Items embedded in compendium actors belong to the creature index
+    return doc.documentName === 'Item' && !doc.parent;
+  }
+
+  protected searchFields(item: EnhancedItemIndex): SearchField[] {
+    return [
+      { text: item.name, weight: 3 },
+      { text: item.type, weight: 1.5 },
+      { text: [item.lore, item.god, item.careerClass, item.careerGroup].filter(Boolean).join(' '), weight: 2 },
+      { text: item.description, weight: 1 },
+    ];
+  }
+
+  /**
+   * Extract enhanced item data from a single document
+   * WFRP 4e specific implementation
+   */
+  protected extractEntry(doc: any, pack: any): { entry: EnhancedItemIndex, errors: number } | null {
+    // Only WFRP 4e item data is understood
+    if (!(game.system?.id || '').includes('wfrp')) {
+      return null;
+    }
+
+    const system = doc.system || {};
+    const entry: EnhancedItemIndex = {
+      id: doc._id,
+      name: doc.name,
+      type: doc.type,
+      pack: pack.metadata.id,
+      packLabel: pack.metadata.label,
+      description: system.description?.value || '',
+      img: doc.img
+    };
+
+    try {
+      switch (doc.type) {
+        case 'spell':
+          entry.cn = Number(system.cn?.value) || 0;
+          if (system.lore?.value) entry.lore = String(system.lore.value).toLowerCase();
+          break;
+
+        case 'prayer':
+          if (system.god?.value) entry.god = String(system.god.value);
+          if (system.type?.value) entry.prayerType = String(system.type.value).toLowerCase();
+          break;
+
+        case 'career': {
+          if (system.class?.value) entry.careerClass = String(system.class.value);
+          if (system.careergroup?.value) entry.careerGroup = String(system.careergroup.value);
+          const tier = Number(system.level?.value);
+          if (tier) entry.tier = tier;
+          const statusTier = this.STATUS_TIERS[String(system.status?.tier || '').toLowerCase()];
+          if (statusTier) entry.status = `${statusTier} ${system.status?.standing ?? ''}`.trim();
+          break;
+        }
+
+        case 'talent': {
+          // Max rank is a number, "none", or the characteristic whose bonus caps it
+          const max = String(system.max?.value ?? '').trim();
+          if (max) {
+            const characteristic = resolveCharacteristicKey(max);
+            entry.maxRank = characteristic ? `${WFRP_CHARACTERISTICS[characteristic].name} Bonus` : max === 'none' ? 'unlimited' : max;
+          }
+          break;
+        }
+
+        case 'skill': {
+          const characteristic = resolveCharacteristicKey(String(system.characteristic?.value || ''));
+          if (characteristic) entry.characteristic = WFRP_CHARACTERISTICS[characteristic].name;
+          entry.advanced = system.advanced?.value === 'adv';
+          break;
+        }
+      }
+
+      return { entry, errors: 0 };
+    } catch (error) {
+      console.warn(`[${this.moduleId}] Failed to extract enhanced data from ${doc.name}:`, error);
+      // Keep the basic record so the item stays searchable by name
+      return { entry, errors: 1 };
+    }
+  }
+}
+
 export class FoundryDataAccess {
   private moduleId: string = MODULE_ID;
   private persistentIndex: PersistentCreatureIndex = new PersistentCreatureIndex();
+  private itemIndex: PersistentItemIndex = new PersistentItemIndex();
 
   constructor() { }
 
   /**
    * Force rebuild of enhanced creature index
    */
-  async rebuildEnhancedCreatureIndex(): Promise<{ success: boolean; totalCreatures: number; message: string }> {
+  async rebuildEnhancedCreatureIndex(onProgress?: IndexBuildProgress): Promise<{ success: boolean; totalCreatures: number; message: string }> {
     try {
-      const creatures = await this.persistentIndex.rebuildIndex();
+      const creatures = await this.persistentIndex.rebuildIndex(onProgress);
       return {
         success: true,
         totalCreatures: creatures.length,
@@ -804,6 +1109,27 @@ export class FoundryDataAccess {
     }
   }
 
+  /**
+   * Force rebuild of enhanced item index (spells, prayers, careers, talents...)
+   */
+  async rebuildEnhancedItemIndex(onProgress?: IndexBuildProgress): Promise<{ success: boolean; totalItems: number; message: string }> {
+    try {
+      const items = await this.itemIndex.rebuildIndex(onProgress);
+      return {
+        success: true,
+        totalItems: items.length,
+        message: `Enhanced item index rebuilt: ${items.length} items indexed from all packs`
+      };
+    } catch (error) {
+      console.error(`[${this.moduleId}] Failed to rebuild enhanced item index:`, error);
+      return {
+        success: false,
+        totalItems: 0,
+        message: `Failed to rebuild index: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
 
   /**
    * Get character/actor information by name or ID
@@ -867,17 +1193,17 @@ export class FoundryDataAccess {
     creatureType?: string;
     size?: string;
     spellcaster?: boolean;
-  }): Promise<CompendiumSearchResult[]> {
+  } & ItemSearchFilters): Promise<CompendiumSearchResult[]> {
 
     // Add defensive checks for query parameter
     if (!query || typeof query !== 'string' || query.trim().length < 2) {
       throw new Error('Search query must be a string with at least 2 characters');
     }
 
-    // ENHANCED SEARCH: If we have creature-specific filters and Actor packType, use enhanced index
-    if (filters && packType === 'Actor' &&
-      (filters.challengeRating || filters.creatureType)) {
-
+    // ENHANCED SEARCH: Actor searches go through the enhanced index - full-text and typo-tolerant,
+    // with creature filters applied there. No hits falls through to the basic name search below,
+    // which also covers actors the index does not hold.
+    if (packType === 'Actor') {
 
       // Check if enhanced creature index is enabled
       const enhancedIndexEnabled = game.settings.get(this.moduleId, 'enableEnhancedCreatureIndex');
@@ -885,39 +1211,47 @@ export class FoundryDataAccess {
       if (enhancedIndexEnabled) {
         try {
           // Convert search criteria and use enhanced search
-          const criteria: any = { limit: 100 }; // Default limit for search
-
-          if (filters.challengeRating) criteria.challengeRating = filters.challengeRating;
-          if (filters.creatureType) criteria.creatureType = filters.creatureType;
-          if (filters.size) criteria.size = filters.size;
-
-          const enhancedResult = await this.listCreaturesByCriteria(criteria);
-
-          // No name filtering needed - trust the enhanced creature index!
-          const filteredResults = enhancedResult.creatures;
-
-
-          // Convert to CompendiumSearchResult format
-          return filteredResults.map(creature => ({
-            id: creature.id || creature.name,
-            name: creature.name,
-            type: creature.type || 'npc',
-            pack: creature.pack,
-            packLabel: creature.packLabel || creature.pack,
-            description: creature.description || '',
-            hasImage: creature.hasImage || !!creature.img,
-            summary: `${creature.creatureType} from ${creature.packLabel}`,
-            // Enhanced data (not part of interface but will be included)
-            challengeRating: creature.challengeRating,
-            creatureType: creature.creatureType,
-            size: creature.size,
-            hasSpecialAbilities: creature.hasSpecialAbilities
-          } as CompendiumSearchResult & {
-            challengeRating: number;
-            creatureType: string;
-            size: string;
-            hasSpecialAbilities: boolean;
-          }));
+          const criteria: any = { query };
+
+          if (filters?.challengeRating) criteria.challengeRating = filters.challengeRating;
+          if (filters?.creatureType) criteria.creatureType = filters.creatureType;
+          if (filters?.size) criteria.size = filters.size;
+          if (filters?.spellcaster !== undefined) criteria.hasSpells = filters.spellcaster;
+
+          let enhancedResult = await this.searchEnhancedCreatures(criteria, [], 100);
+
+          // Broad terms like "warrior" may appear in no indexed text; the filters alone still pick creatures
+          if (enhancedResult.creatures.length === 0 && Object.keys(criteria).length > 1) {
+            enhancedResult = await this.searchEnhancedCreatures({ ...criteria, query: '' }, [], 100);
+          }
+
+          if (enhancedResult.creatures.length > 0) {
+            // Convert to CompendiumSearchResult format
+            return enhancedResult.creatures.map(creature => ({
+              id: creature.id || creature.name,
+              name: creature.name,
+              type: creature.type || 'npc',
+              pack: creature.pack,
+              packLabel: creature.packLabel || creature.pack,
+              description: creature.description || '',
+              hasImage: creature.hasImage || !!creature.img,
+              summary: `${creature.creatureType} from ${creature.packLabel}`,
+              // Enhanced data (not part of interface but will be included)
+              challengeRating: creature.challengeRating,
+              creatureType: creature.creatureType,
+              size: creature.size,
+              hasSpecialAbilities: creature.hasSpecialAbilities,
+              traits: creature.traits,
+              relevance: creature.relevance
+            } as CompendiumSearchResult & {
+              challengeRating: number;
+              creatureType: string;
+              size: string;
+              hasSpecialAbilities: boolean;
+              traits: string[];
+              relevance?: number;
+            }));
+          }
 
         } catch (error) {
           console.warn(`[${this.moduleId}] Enhanced search failed, falling back to basic search:`, error);
@@ -926,6 +1260,24 @@ export class FoundryDataAccess {
       }
     }
 
+    // ENHANCED ITEM SEARCH: spells, prayers, careers, talents and other items come from the enhanced
+    // item index, ranked by full-text relevance and filtered by their type-specific fields
+    if (packType === 'Item' || (!packType && this.hasItemFilters(filters))) {
+      const enhancedIndexEnabled = game.settings.get(this.moduleId, 'enableEnhancedCreatureIndex');
+
+      if (enhancedIndexEnabled) {
+        try {
+          const itemResults = await this.searchEnhancedItems(query, filters || {}, 100);
+          if (itemResults.length > 0) {
+            return itemResults;
+          }
+        } catch (error) {
+          console.warn(`[${this.moduleId}] Enhanced item search failed, falling back to basic search:`, error);
+          // Continue to basic search below
+        }
+      }
+    }
+
     const results: CompendiumSearchResult[] = [];
     const cleanQuery = query.toLowerCase().trim();
     const searchTerms = cleanQuery.split(' ').filter(term => term && typeof term === 'string' && term.length > 0);
@@ -1174,109 +1526,140 @@ export class FoundryDataAccess {
 
   /**
    * List creatures by criteria using enhanced persistent index - optimized for instant filtering
+   * A free-text query ranks results by relevance (typo-tolerant) instead of by threat
    */
   async listCreaturesByCriteria(criteria: {
+    query?: string;
     challengeRating?: number | { min?: number; max?: number };
     creatureType?: string;
     size?: string;
     hasSpells?: boolean;
     hasSpecialAbilities?: boolean;
+    traits?: string[];
     limit?: number;
   }): Promise<{ creatures: any[], searchSummary: any }> {
 
     const limit = criteria.limit || 500;
 
+    // Parse trait filters up front so a malformed one is reported instead of hidden by the fallback search
+    const traitFilters = (criteria.traits || []).map(filter => parseTraitFilter(filter));
+
     // Check if enhanced creature index is enabled
     const enhancedIndexEnabled = game.settings.get(this.moduleId, 'enableEnhancedCreatureIndex');
 
     if (!enhancedIndexEnabled) {
+      if (traitFilters.length > 0) {
+        throw new Error('Trait filters require the enhanced creature index - enable it in the module settings');
+      }
       return this.fallbackBasicCreatureSearch(criteria, limit);
     }
 
     try {
+      return await this.searchEnhancedCreatures(criteria, traitFilters, limit);
+    } catch (error) {
+      console.error(`[${this.moduleId}] Enhanced creature search failed:`, error);
+      // Fallback to basic search if enhanced index fails
+      return this.fallbackBasicCreatureSearch(criteria, limit);
+    }
+  }
 
-      // Get enhanced creature index (builds if needed)
-      const enhancedCreatures = await this.persistentIndex.getEnhancedIndex();
-
-      // Apply filters to enhanced data
-      let filteredCreatures = enhancedCreatures.filter(creature => this.passesEnhancedCriteria(creature, criteria));
-
+  /**
+   * Filter (and with a query, rank) the enhanced creature index
+   */
+  private async searchEnhancedCreatures(criteria: {
+    query?: string;
+    challengeRating?: number | { min?: number; max?: number };
+    creatureType?: string;
+    size?: string;
+    hasSpells?: boolean;
+    hasSpecialAbilities?: boolean;
+  }, traitFilters: TraitFilter[], limit: number): Promise<{ creatures: any[], searchSummary: any }> {
 
-      // Sort by CR then name for consistent ordering
-      filteredCreatures.sort((a, b) => {
-        if (a.challengeRating !== b.challengeRating) {
-          return a.challengeRating - b.challengeRating; // Lower CR first
-        }
-        return a.name.localeCompare(b.name);
-      });
+    // Get enhanced creature index (builds if needed)
+    const enhancedCreatures = await this.persistentIndex.getEnhancedIndex();
 
-      // Apply limit
-      if (filteredCreatures.length > limit) {
-        filteredCreatures = filteredCreatures.slice(0, limit);
-      }
-
-      // Convert enhanced creatures to result format
-      const results = filteredCreatures.map(creature => ({
-        id: creature.id,
-        name: creature.name,
-        type: creature.type,
-        pack: creature.pack,
-        packLabel: creature.packLabel,
-        description: creature.description || '',
-        hasImage: !!creature.img,
-        summary: `${creature.creatureType} from ${creature.packLabel}`,
-        // Include enhanced data for better sorting and display
-        challengeRating: creature.challengeRating,
-        creatureType: creature.creatureType,
-        size: creature.size,
-        wounds: creature.wounds,
-        toughness: creature.toughness,
-        hasSpells: creature.hasSpells,
-        hasSpecialAbilities: creature.hasSpecialAbilities
-      }));
+    let matches: Array<{ creature: EnhancedCreatureIndex; relevance?: number; matchedTerms?: string[] }>;
+    const query = criteria.query?.trim() || '';
+    const fullText = tokenize(query).length > 0;
 
-      // Calculate pack distribution for summary
-      const packResults = new Map();
-      results.forEach(creature => {
-        const count = packResults.get(creature.packLabel) || 0;
-        packResults.set(creature.packLabel, count + 1);
-      });
+    if (fullText) {
+      const searchIndex = this.persistentIndex.getSearchIndex(enhancedCreatures);
+      matches = searchIndex.search(query, searchIndex.size)
+        .filter(hit => this.passesEnhancedCriteria(hit.item, criteria, traitFilters))
+        .map(hit => ({ creature: hit.item, relevance: hit.score, matchedTerms: hit.matchedTerms }));
+    } else {
+      matches = enhancedCreatures
+        .filter(creature => this.passesEnhancedCriteria(creature, criteria, traitFilters))
+        // Sort by CR then name for consistent ordering
+        .sort((a, b) => {
+          if (a.challengeRating !== b.challengeRating) {
+            return a.challengeRating - b.challengeRating; // Lower CR first
+          }
+          return a.name.localeCompare(b.name);
+        })
+        .map(creature => ({ creature }));
+    }
 
-      // Get unique pack information
-      const uniquePacks = Array.from(new Set(enhancedCreatures.map(c => c.pack)));
-      const topPacks = uniquePacks.slice(0, 5).map(packId => {
-        const sampleCreature = enhancedCreatures.find(c => c.pack === packId);
-        return {
-          id: packId,
-          label: sampleCreature?.packLabel || 'Unknown Pack',
-          priority: 100 // All packs are prioritized equally in enhanced index
-        };
-      });
+    // Apply limit
+    if (matches.length > limit) {
+      matches = matches.slice(0, limit);
+    }
 
-      if (packResults.size > 0) {
-      }
+    // Convert enhanced creatures to result format
+    const results = matches.map(({ creature, relevance, matchedTerms }) => ({
+      id: creature.id,
+      name: creature.name,
+      type: creature.type,
+      pack: creature.pack,
+      packLabel: creature.packLabel,
+      description: creature.description || '',
+      hasImage: !!creature.img,
+      summary: `${creature.creatureType} from ${creature.packLabel}`,
+      // Include enhanced data for better sorting and display
+      challengeRating: creature.challengeRating,
+      creatureType: creature.creatureType,
+      size: creature.size,
+      wounds: creature.wounds,
+      toughness: creature.toughness,
+      hasSpells: creature.hasSpells,
+      hasSpecialAbilities: creature.hasSpecialAbilities,
+      traits: creature.traits.map(trait => formatTrait(trait)),
+      talents: creature.talents,
+      ...(relevance !== undefined ? { relevance, matchedTerms } : {})
+    }));
 
+    // Calculate pack distribution for summary
+    const packResults = new Map();
+    results.forEach(creature => {
+      const count = packResults.get(creature.packLabel) || 0;
+      packResults.set(creature.packLabel, count + 1);
+    });
 
+    // Get unique pack information
+    const uniquePacks = Array.from(new Set(enhancedCreatures.map(c => c.pack)));
+    const topPacks = uniquePacks.slice(0, 5).map(packId => {
+      const sampleCreature = enhancedCreatures.find(c => c.pack === packId);
       return {
-        creatures: results,
-        searchSummary: {
-          packsSearched: uniquePacks.length,
-          topPacks,
-          totalCreaturesFound: results.length,
-          resultsByPack: Object.fromEntries(packResults),
-          criteria: criteria,
-          indexMetadata: {
-            totalIndexedCreatures: enhancedCreatures.length,
-            searchMethod: 'enhanced_persistent_index'
-          }
-        }
+        id: packId,
+        label: sampleCreature?.packLabel || 'Unknown Pack',
+        priority: 100 // All packs are prioritized equally in enhanced index
       };
+    });
 
-    } catch (error) {
-      console.error(`[${this.moduleId}] Enhanced creature search failed:`, error);
-      // Fallback to basic search if enhanced index fails
-      return this.fallbackBasicCreatureSearch(criteria, limit);
-    }
+    return {
+      creatures: results,
+      searchSummary: {
+        packsSearched: uniquePacks.length,
+        topPacks,
+        totalCreaturesFound: results.length,
+        resultsByPack: Object.fromEntries(packResults),
+        criteria: criteria,
+        indexMetadata: {
+          totalIndexedCreatures: enhancedCreatures.length,
+          searchMethod: fullText ? 'enhanced_full_text' : 'enhanced_persistent_index'
+        }
+      }
+    };
   }
 
   /**
@@ -1288,7 +1671,7 @@ export class FoundryDataAccess {
     size?: string;
     hasSpells?: boolean;
     hasSpecialAbilities?: boolean;
-  }): boolean {
+  }, traitFilters: TraitFilter[] = []): boolean {
 
     // Challenge Rating filter
     if (criteria.challengeRating !== undefined) {
@@ -1335,9 +1718,138 @@ export class FoundryDataAccess {
       }
     }
 
+    // Trait filters (e.g. "Fear 2", "Weapon +8") must all match
+    if (!traitFilters.every(filter => matchesTraitFilter(creature.traits, filter))) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Search the enhanced item index; with filters but no text matches, the filters alone pick the items
+   */
+  private async searchEnhancedItems(query: string, filters: ItemSearchFilters, limit: number): Promise<CompendiumSearchResult[]> {
+    const items = await this.itemIndex.getEnhancedIndex();
+    const passes = (item: EnhancedItemIndex) => this.passesItemFilters(item, filters);
+
+    let matches: Array<{ item: EnhancedItemIndex; relevance?: number }> = [];
+    if (tokenize(query).length > 0) {
+      const searchIndex = this.itemIndex.getSearchIndex(items);
+      matches = searchIndex.search(query, searchIndex.size)
+        .filter(hit => passes(hit.item))
+        .map(hit => ({ item: hit.item, relevance: hit.score }));
+    }
+
+    if (matches.length === 0 && this.hasItemFilters(filters)) {
+      matches = items
+        .filter(passes)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(item => ({ item }));
+    }
+
+    return matches.slice(0, limit).map(({ item, relevance }) => {
+      const details = Object.fromEntries(
+        (['cn', 'lore', 'god', 'prayerType', 'careerClass', 'careerGroup', 'tier', 'status', 'maxRank', 'characteristic', 'advanced'] as const)
+          .filter(key => item[key] !== undefined)
+          .map(key => [key, item[key]])
+      );
+
+      return {
+        id: item.id,
+        name: item.name,
+        type: item.type,
+        ...(item.img ? { img: item.img } : {}),
+        pack: item.pack,
+        packLabel: item.packLabel,
+        description: item.description || '',
+        hasImage: !!item.img,
+        summary: `${this.summarizeIndexedItem(item)} from ${item.packLabel}`,
+        // Enhanced data (not part of interface but will be included)
+        details,
+        ...(relevance !== undefined ? { relevance } : {})
+      } as CompendiumSearchResult & { details: Record<string, unknown>; relevance?: number };
+    });
+  }
+
+  private hasItemFilters(filters?: ItemSearchFilters): boolean {
+    return !!filters && (['itemType', 'lore', 'cn', 'god', 'careerClass', 'tier', 'status'] as const)
+      .some(key => filters[key] !== undefined);
+  }
+
+  /**
+   * Check if an indexed item passes the item filters; text filters match case-insensitively on part of the value
+   */
+  private passesItemFilters(item: EnhancedItemIndex, filters: ItemSearchFilters): boolean {
+    const contains = (value: string | undefined, wanted: string) => !!value && value.toLowerCase().includes(wanted.toLowerCase());
+
+    if (filters.itemType && item.type.toLowerCase() !== filters.itemType.toLowerCase()) {
+      return false;
+    }
+
+    // "Lore of Fire", "fire" and "Fire" all mean the lore stored as "fire"
+    if (filters.lore && !contains(item.lore, filters.lore.replace(/^(the\s+)?lore\s+of\s+(the\s+)?/i, '').trim())) {
+      return false;
+    }
+
+    if (filters.cn !== undefined) {
+      if (item.cn === undefined) {
+        return false;
+      }
+      if (typeof filters.cn === 'number') {
+        if (item.cn !== filters.cn) {
+          return false;
+        }
+      } else {
+        const { min, max } = filters.cn;
+        if ((min !== undefined && item.cn < min) || (max !== undefined && item.cn > max)) {
+          return false;
+        }
+      }
+    }
+
+    if (filters.god && !contains(item.god, filters.god)) {
+      return false;
+    }
+
+    if (filters.careerClass && !contains(item.careerClass, filters.careerClass)) {
+      return false;
+    }
+
+    if (filters.tier !== undefined && item.tier !== filters.tier) {
+      return false;
+    }
+
+    // "silver" matches every Silver standing, "Silver 2" only that one
+    if (filters.status && !item.status?.toLowerCase().startsWith(filters.status.toLowerCase())) {
+      return false;
+    }
+
     return true;
   }
 
+  /**
+   * One-line description of an indexed item, e.g. "Spell, CN 7, lore: fire" or "Warriors career, tier 2, Silver 1"
+   */
+  private summarizeIndexedItem(item: EnhancedItemIndex): string {
+    switch (item.type) {
+      case 'spell':
+        return `Spell, CN ${item.cn ?? 0}${item.lore ? `, lore: ${item.lore}` : ''}`;
+      case 'prayer':
+        return `${item.prayerType === 'miracle' ? 'Miracle' : 'Blessing'}${item.god ? ` of ${item.god}` : ''}`;
+      case 'career':
+        return [`${item.careerClass ? `${item.careerClass} career` : 'Career'}`, item.tier ? `tier ${item.tier}` : '', item.status || '']
+          .filter(Boolean)
+          .join(', ');
+      case 'talent':
+        return item.maxRank ? `Talent, max rank: ${item.maxRank}` : 'Talent';
+      case 'skill':
+        return `${item.advanced ? 'Advanced' : 'Basic'} skill${item.characteristic ? ` (${item.characteristic})` : ''}`;
+      default:
+        return item.type;
+    }
+  }
+
   /**
    * Fallback to basic creature search if enhanced index fails
    */
@@ -1360,7 +1872,8 @@ export class FoundryDataAccess {
       }
     }
 
-    const searchQuery = searchTerms.join(' ') || 'monster';
+    // A free-text query is the better name filter when one was given
+    const searchQuery = (criteria.query?.trim().length >= 2 ? criteria.query.trim() : '') || searchTerms.join(' ') || 'monster';
     const basicResults = await this.searchCompendium(searchQuery, 'Actor');
 
     return {
@@ -2213,6 +2726,7 @@ export class FoundryDataAccess {
 
       // Add to scene if requested
       let tokensPlaced = 0;
+      let tokenIds: string[] = [];
       if (addToScene && createdActors.length > 0) {
         try {
           const sceneResult = await this.addActorsToScene({
@@ -2222,6 +2736,7 @@ export class FoundryDataAccess {
             ...(placement?.coordinates && { coordinates: placement.coordinates })
           });
           tokensPlaced = sceneResult.success ? sceneResult.tokensCreated : 0;
+          tokenIds = sceneResult.tokenIds;
         } catch (error) {
           errors.push(`Failed to add actors to scene: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
@@ -2233,6 +2748,7 @@ export class FoundryDataAccess {
         totalRequested: finalQuantity,
         actors: createdActors,
         tokensPlaced,
+        tokenIds,
         errors: errors.length > 0 ? errors : undefined,
       };
 
@@ -2529,7 +3045,7 @@ export class FoundryDataAccess {
     isPublic: boolean;
     rollModifier: string;
     flavor: string;
-  }): Promise<{ success: boolean; message: string; error?: string }> {
+  }): Promise<{ success: boolean; message: string; messageId?: string; error?: string }> {
     this.validateFoundryState();
 
     try {
@@ -2635,7 +3151,8 @@ export class FoundryDataAccess {
 
       return {
         success: true,
-        message: `Roll request sent to ${playerInfo.targetName}. ${data.isPublic ? 'Public roll' : 'Private roll'} button created in chat.`
+        message: `Roll request sent to ${playerInfo.targetName}. ${data.isPublic ? 'Public roll' : 'Private roll'} button created in chat.`,
+        messageId: chatMessage.id
       };
 
     } catch (error) {
@@ -2883,33 +3400,7 @@ export class FoundryDataAccess {
    * Map WFRP characteristic names to codes
    */
   private getWFRPCharacteristicCode(charName: string): string {
-    const charMap: { [key: string]: string } = {
-      'weapon skill': 'ws',
-      'weaponskill': 'ws',
-      'ws': 'ws',
-      'ballistic skill': 'bs',
-      'ballisticskill': 'bs',
-      'bs': 'bs',
-      'strength': 's',
-      's': 's',
-      'toughness': 't',
-      't': 't',
-      'initiative': 'i',
-      'i': 'i',
-      'agility': 'ag',
-      'ag': 'ag',
-      'dexterity': 'dex',
-      'dex': 'dex',
-      'intelligence': 'int',
-      'int': 'int',
-      'willpower': 'wp',
-      'wp': 'wp',
-      'fellowship': 'fel',
-      'fel': 'fel'
-    };
-
-    const normalized = charName.toLowerCase().replace(/\s+/g, '');
-    return charMap[normalized] || 'ws'; // Default to weapon skill
+    return resolveCharacteristicKey(charName) ?? 'ws'; // Default to weapon skill
   }
 
   /**
@@ -3619,7 +4110,7 @@ export class FoundryDataAccess {
   /**
    * Get or create a folder for organizing MCP-generated content
    */
-  private async getOrCreateFolder(folderName: string, type: 'Actor' | 'JournalEntry'): Promise<string | null> {
+  private async getOrCreateFolder(folderName: string, type: 'Actor' | 'JournalEntry' | 'Scene'): Promise<string | null> {
     try {
       // Look for existing folder
       const existingFolder = game.folders?.find((f: any) =>
@@ -3638,6 +4129,8 @@ export class FoundryDataAccess {
         } else {
           description = `NPCs and creatures related to: ${folderName}`;
         }
+      } else if (type === 'Scene') {
+        description = `Scenes generated via Foundry MCP Bridge`;
       } else {
         description = `Quest and content for: ${folderName}`;
       }
@@ -3913,4 +4406,929 @@ export class FoundryDataAccess {
     }
   }
 
+
+  // ===== WFRP 4e TEST ENGINE =====
+
+  /**
+   * Roll a WFRP skill test for an actor
+   * Untrained Basic Skills fall back to their governing characteristic; Advanced Skills must be trained
+   */
+  async rollSkillTest(request: WFRPTestRequest & { skillName: string }): Promise<WFRPTestResult> {
+    this.validateFoundryState();
+
+    if (!request.skillName) {
+      throw new Error('skillName is required');
+    }
+
+    const actor = this.resolveTestActor(request);
+    const skillName = request.skillName.trim();
+    const skillItem = actor.items.find(
+      (item: any) => item.type === 'skill' && item.name?.toLowerCase() === skillName.toLowerCase()
+    ) as any;
+
+    let baseValue: number;
+    let characteristic: string;
+    let untrained = false;
+
+    if (skillItem) {
+      characteristic = skillItem.system?.characteristic?.value || 'ws';
+      const charValue = this.getCharacteristicValue(actor, characteristic);
+      baseValue = Number(
+        skillItem.system?.total?.value ?? charValue + (Number(skillItem.system?.advances?.value) || 0)
+      );
+    } else {
+      const basicCharacteristic = WFRP_BASIC_SKILLS[skillName.toLowerCase()];
+      if (!basicCharacteristic) {
+        throw new Error(`${actor.name} does not have the Advanced Skill "${skillName}" and cannot test it untrained`);
+      }
+      characteristic = basicCharacteristic;
+      baseValue = this.getCharacteristicValue(actor, characteristic);
+      untrained = true;
+    }
+
+    return await this.performWFRPTest(actor, request, {
+      testType: 'skill',
+      skillName: skillItem?.name || skillName,
+      characteristic,
+      baseValue,
+      untrained,
+    });
+  }
+
+  /**
+   * Roll a WFRP characteristic test for an actor
+   */
+  async rollCharacteristicTest(request: WFRPTestRequest & { characteristic: string }): Promise<WFRPTestResult> {
+    this.validateFoundryState();
+
+    if (!request.characteristic) {
+      throw new Error('characteristic is required');
+    }
+
+    const characteristic = resolveCharacteristicKey(request.characteristic);
+    if (!characteristic) {
+      throw new Error(`Unknown characteristic "${request.characteristic}". Valid: ${Object.keys(WFRP_CHARACTERISTICS).join(', ')}`);
+    }
+
+    const actor = this.resolveTestActor(request);
+    const baseValue = this.getCharacteristicValue(actor, characteristic);
+
+    return await this.performWFRPTest(actor, request, {
+      testType: 'characteristic',
+      characteristic,
+      baseValue,
+      untrained: false,
+    });
+  }
+
+  /**
+   * Resolve the actor a test is rolled for by ID or name
+   */
+  private resolveTestActor(request: WFRPTestRequest): Actor {
+    const identifier = request.characterId || request.characterName;
+    if (!identifier) {
+      throw new Error('characterName or characterId is required');
+    }
+
+    const actor = this.findActorByIdentifier(identifier);
+    if (!actor) {
+      throw new Error(`${ERROR_MESSAGES.CHARACTER_NOT_FOUND}: ${identifier}`);
+    }
+
+    return actor;
+  }
+
+  /**
+   * Read a characteristic total (initial + advances + modifiers) from an actor
+   */
+  private getCharacteristicValue(actor: Actor, characteristic: string): number {
+    const char = (actor as any).system?.characteristics?.[characteristic];
+    if (!char) {
+      throw new Error(`${actor.name} has no characteristic "${characteristic}"`);
+    }
+    return Number(char.value ?? (Number(char.initial) || 0) + (Number(char.advances) || 0) + (Number(char.modifier) || 0));
+  }
+
+  /**
+   * Roll d100 against the modified target, compute Success Levels and doubles, and post the result to chat
+   */
+  private async performWFRPTest(
+    actor: Actor,
+    request: WFRPTestRequest,
+    test: { testType: 'skill' | 'characteristic'; skillName?: string; characteristic: string; baseValue: number; untrained: boolean }
+  ): Promise<WFRPTestResult> {
+    const difficulty = (request.difficulty || 'challenging').toLowerCase().replace(/\s+/g, '-') as WFRPDifficulty;
+    if (!(difficulty in WFRP_DIFFICULTIES)) {
+      throw new Error(`Unknown difficulty "${request.difficulty}". Valid: ${Object.keys(WFRP_DIFFICULTIES).join(', ')}`);
+    }
+
+    const difficultyModifier = WFRP_DIFFICULTIES[difficulty];
+    const modifier = Number(request.modifier) || 0;
+    const target = Math.max(0, test.baseValue + difficultyModifier + modifier);
+
+    const roll = new Roll('1d100');
+    await roll.evaluate();
+    const rolled = roll.total ?? 100;
+
+    const { success, sl, isDouble, critical, fumble, autoSuccess, autoFailure } = resolveTest(target, rolled);
+
+    const testName = request.testName || (test.testType === 'skill'
+      ? `${test.skillName} Test`
+      : `${WFRP_CHARACTERISTICS[test.characteristic as WFRPCharacteristicKey]?.name || test.characteristic.toUpperCase()} Test`);
+    const outcome = describeTestOutcome(sl, success);
+
+    const result: WFRPTestResult = {
+      actorId: actor.id || '',
+      actorName: actor.name || '',
+      testName,
+      testType: test.testType,
+      ...(test.skillName ? { skillName: test.skillName } : {}),
+      characteristic: test.characteristic,
+      untrained: test.untrained,
+      baseValue: test.baseValue,
+      difficulty,
+      difficultyModifier,
+      modifier,
+      target,
+      roll: rolled,
+      sl,
+      success,
+      isDouble,
+      critical,
+      fumble,
+      autoSuccess,
+      autoFailure,
+      outcome,
+    };
+
+    if (request.chat !== false) {
+      try {
+        const flags = [
+          critical ? '<strong>Critical!</strong>' : '',
+          fumble ? '<strong>Fumble!</strong>' : '',
+          test.untrained ? '<em>Untrained</em>' : '',
+        ].filter(Boolean).join(' ');
+
+        const messageData: any = {
+          speaker: ChatMessage.getSpeaker({ actor }),
+          flavor: `
+            <div class="mcp-wfrp-test">
+              <h3>${testName}</h3>
+              <p><strong>Target:</strong> ${target} (${test.baseValue} ${difficultyModifier >= 0 ? '+' : ''}${difficultyModifier} ${difficulty}${modifier ? ` ${modifier >= 0 ? '+' : ''}${modifier}` : ''})</p>
+              <p><strong>${outcome}</strong> (SL ${success ? '+' : '-'}${Math.abs(sl)}) ${flags}</p>
+            </div>
+          `,
+          flags: { [MODULE_ID]: { wfrpTest: result } },
+        };
+
+        const message = await roll.toMessage(messageData, {
+          create: true,
+          rollMode: (request.rollMode || 'publicroll') as any,
+        }) as any;
+
+        if (message?.id) {
+          result.chatMessageId = message.id;
+        }
+      } catch (error) {
+        console.warn(`[${MODULE_ID}] Failed to post test result to chat:`, error);
+      }
+    }
+
+    this.auditLog(`roll${test.testType === 'skill' ? 'Skill' : 'Characteristic'}`, result, 'success');
+
+    return result;
+  }
+
+  // ===== COMBAT TRACKER =====
+
+  /**
+   * Start a combat encounter from tokens on the active scene and roll WFRP initiative
+   * 'characteristic' orders by Initiative (ties by Agility, then a d10); 'roll' uses Initiative + 1d10
+   */
+  async startCombat(options: {
+    tokenIds?: string[];
+    includeHidden?: boolean;
+    initiativeMode?: 'characteristic' | 'roll';
+  } = {}): Promise<CombatState> {
+    this.validateFoundryState();
+
+    const scene = (game.scenes as any).current;
+    if (!scene) {
+      throw new Error(ERROR_MESSAGES.SCENE_NOT_FOUND);
+    }
+
+    const existing = (game as any).combats?.find((c: any) => c.scene?.id === scene.id && c.active);
+    if (existing) {
+      throw new Error(`A combat is already running on scene "${scene.name}". End it before starting a new one.`);
+    }
+
+    let tokens: any[] = scene.tokens.contents.filter((token: any) => token.actorId);
+    if (options.tokenIds && options.tokenIds.length > 0) {
+      tokens = tokens.filter((token: any) => options.tokenIds!.includes(token.id));
+    }
+    if (!options.includeHidden) {
+      tokens = tokens.filter((token: any) => !token.hidden);
+    }
+
+    if (tokens.length === 0) {
+      throw new Error('No tokens with actors found on the active scene to add to combat');
+    }
+
+    const combat = await (Combat as any).create({ scene: scene.id, active: true });
+    if (!combat) {
+      throw new Error('Failed to create combat encounter');
+    }
+
+    const combatants = await combat.createEmbeddedDocuments('Combatant', tokens.map((token: any) => ({
+      tokenId: token.id,
+      sceneId: scene.id,
+      actorId: token.actorId,
+      hidden: token.hidden,
+    })));
+
+    const initiativeUpdates = [];
+    for (const combatant of combatants) {
+      const initiative = await this.calculateWFRPInitiative(combatant.actor, options.initiativeMode || 'characteristic');
+      initiativeUpdates.push({ _id: combatant.id, initiative });
+    }
+    await combat.updateEmbeddedDocuments('Combatant', initiativeUpdates);
+    await combat.startCombat();
+
+    this.auditLog('startCombat', { sceneId: scene.id, combatants: tokens.length }, 'success');
+
+    return this.buildCombatState(combat);
+  }
+
+  /**
+   * Get the current combat encounter state
+   */
+  async getCombatState(): Promise<CombatState | null> {
+    this.validateFoundryState();
+
+    const combat = (game as any).combat;
+    return combat ? this.buildCombatState(combat) : null;
+  }
+
+  /**
+   * Advance the active combat to the next turn (rolls over to the next round automatically)
+   */
+  async nextCombatTurn(): Promise<CombatState> {
+    this.validateFoundryState();
+
+    const combat = (game as any).combat;
+    if (!combat) {
+      throw new Error('No active combat encounter');
+    }
+
+    await combat.nextTurn();
+    return this.buildCombatState(combat);
+  }
+
+  /**
+   * End the active combat, clearing Advantage from all combatants by default
+   */
+  async endCombat(options: { clearAdvantage?: boolean } = {}): Promise<{
+    success: boolean;
+    rounds: number;
+    advantageCleared: Array<{ actorId: string; name: string; previous: number }>;
+  }> {
+    this.validateFoundryState();
+
+    const combat = (game as any).combat;
+    if (!combat) {
+      throw new Error('No active combat encounter');
+    }
+
+    const advantageCleared: Array<{ actorId: string; name: string; previous: number }> = [];
+
+    if (options.clearAdvantage !== false) {
+      for (const combatant of combat.combatants) {
+        const actor = combatant.actor;
+        const previous = Number(actor?.system?.status?.advantage?.value) || 0;
+        if (actor && previous > 0) {
+          await actor.update({ 'system.status.advantage.value': 0 });
+          advantageCleared.push({ actorId: actor.id, name: actor.name, previous });
+        }
+      }
+    }
+
+    const rounds = combat.round;
+    await combat.delete();
+
+    this.auditLog('endCombat', { combatId: combat.id, rounds }, 'success');
+
+    return { success: true, rounds, advantageCleared };
+  }
+
+  /**
+   * WFRP 4e initiative value, encoding tie-breakers in the decimal places so Foundry sorts correctly
+   */
+  private async calculateWFRPInitiative(actor: any, mode: 'characteristic' | 'roll'): Promise<number> {
+    const initiative = Number(actor?.system?.characteristics?.i?.value) || 0;
+    const agility = Number(actor?.system?.characteristics?.ag?.value) || 0;
+
+    const tieBreak = new Roll('1d10');
+    await tieBreak.evaluate();
+
+    if (mode === 'roll') {
+      return initiative + (tieBreak.total ?? 0) + agility / 100;
+    }
+
+    return initiative + agility / 100 + (tieBreak.total ?? 0) / 10000;
+  }
+
+  private buildCombatState(combat: any): CombatState {
+    const describe = (combatant: any): CombatantInfo => {
+      const actorSystem = combatant.actor?.system;
+      return {
+        id: combatant.id,
+        name: combatant.name,
+        ...(combatant.tokenId ? { tokenId: combatant.tokenId } : {}),
+        ...(combatant.actorId ? { actorId: combatant.actorId } : {}),
+        initiative: combatant.initiative ?? null,
+        hidden: combatant.hidden,
+        defeated: combatant.isDefeated ?? combatant.defeated ?? false,
+        advantage: Number(actorSystem?.status?.advantage?.value) || 0,
+        ...(actorSystem?.status?.wounds ? {
+          wounds: {
+            value: Number(actorSystem.status.wounds.value) || 0,
+            max: Number(actorSystem.status.wounds.max) || 0,
+          }
+        } : {}),
+      };
+    };
+
+    const current = combat.combatant ? describe(combat.combatant) : undefined;
+
+    return {
+      id: combat.id,
+      ...(combat.scene?.id ? { sceneId: combat.scene.id } : {}),
+      round: combat.round,
+      turn: combat.turn ?? 0,
+      started: combat.started,
+      ...(current ? { current } : {}),
+      combatants: combat.turns.map(describe),
+    };
+  }
+
+  // ===== WFRP CONDITIONS =====
+
+  /**
+   * Add stacks of WFRP conditions (bleeding, stunned, prone...) to an actor
+   * Uses the wfrp4e system's addCondition API, falling back to core status effects
+   */
+  async addConditions(data: { actorId: string; conditions: Array<{ key: string; value: number }> }): Promise<{
+    success: boolean;
+    actorId: string;
+    actorName: string;
+    applied: Array<{ key: string; value: number }>;
+    skipped: string[];
+  }> {
+    this.validateFoundryState();
+
+    const actor: any = this.findActorByIdentifier(data.actorId);
+    if (!actor) {
+      throw new Error(`Actor not found: ${data.actorId}`);
+    }
+
+    const applied: Array<{ key: string; value: number }> = [];
+    const skipped: string[] = [];
+
+    for (const condition of data.conditions || []) {
+      const key = condition.key.toLowerCase();
+      const value = Math.max(1, Math.floor(condition.value || 1));
+
+      if (typeof actor.addCondition === 'function') {
+        await actor.addCondition(key, value);
+        applied.push({ key, value });
+      } else if (typeof actor.toggleStatusEffect === 'function' && (CONFIG as any).statusEffects?.some((effect: any) => effect.id === key)) {
+        await actor.toggleStatusEffect(key, { active: true });
+        applied.push({ key, value: 1 });
+      } else {
+        skipped.push(key);
+      }
+    }
+
+    this.auditLog('addConditions', { actorId: actor.id, applied, skipped }, 'success');
+
+    return { success: true, actorId: actor.id, actorName: actor.name, applied, skipped };
+  }
+
+  /**
+   * Remove stacks of WFRP conditions from an actor. Omitting a value removes the condition entirely
+   */
+  async removeConditions(data: { actorId: string; conditions: Array<{ key: string; value?: number }> }): Promise<{
+    success: boolean;
+    actorId: string;
+    actorName: string;
+    removed: Array<{ key: string; value: number; remaining: number }>;
+    skipped: string[];
+  }> {
+    this.validateFoundryState();
+
+    const actor: any = this.findActorByIdentifier(data.actorId);
+    if (!actor) {
+      throw new Error(`Actor not found: ${data.actorId}`);
+    }
+
+    const removed: Array<{ key: string; value: number; remaining: number }> = [];
+    const skipped: string[] = [];
+
+    for (const condition of data.conditions || []) {
+      const key = condition.key.toLowerCase();
+      const current = this.getConditionEffects(actor).find(entry => entry.key === key);
+
+      if (!current) {
+        skipped.push(key);
+        continue;
+      }
+
+      const value = condition.value === undefined ? current.value : Math.max(1, Math.floor(condition.value));
+      const remaining = Math.max(0, current.value - value);
+
+      if (typeof actor.removeCondition === 'function') {
+        await actor.removeCondition(key, value);
+      } else if (remaining > 0) {
+        await current.effect.update({ 'flags.wfrp4e.value': remaining });
+      } else if (typeof actor.toggleStatusEffect === 'function') {
+        await actor.toggleStatusEffect(key, { active: false });
+      } else {
+        await current.effect.delete();
+      }
+
+      removed.push({ key, value: current.value - remaining, remaining });
+    }
+
+    this.auditLog('removeConditions', { actorId: actor.id, removed, skipped }, 'success');
+
+    return { success: true, actorId: actor.id, actorName: actor.name, removed, skipped };
+  }
+
+  /**
+   * List the conditions currently on an actor with their stack counts
+   */
+  async getConditions(data: { actorId: string }): Promise<{
+    actorId: string;
+    actorName: string;
+    conditions: Array<{ key: string; name: string; value: number; effectId: string }>;
+  }> {
+    this.validateFoundryState();
+
+    const actor: any = this.findActorByIdentifier(data.actorId);
+    if (!actor) {
+      throw new Error(`Actor not found: ${data.actorId}`);
+    }
+
+    return {
+      actorId: actor.id,
+      actorName: actor.name,
+      conditions: this.getConditionEffects(actor).map(entry => ({
+        key: entry.key,
+        name: entry.effect.name || entry.key,
+        value: entry.value,
+        effectId: entry.effect.id,
+      })),
+    };
+  }
+
+  /**
+   * Conditions are ActiveEffects carrying a status id; wfrp4e stores the stack count in its flags
+   */
+  private getConditionEffects(actor: any): Array<{ key: string; value: number; effect: any }> {
+    const effects: any[] = Array.from(actor.effects || []);
+
+    return effects
+      .map(effect => {
+        const key = effect.statuses?.size ? Array.from(effect.statuses as Set<string>)[0] : effect.flags?.core?.statusId;
+        if (!key) {
+          return null;
+        }
+        const value = Number(effect.conditionValue ?? effect.flags?.wfrp4e?.value ?? 1) || 1;
+        return { key: String(key).toLowerCase(), value, effect };
+      })
+      .filter((entry): entry is { key: string; value: number; effect: any } => entry !== null);
+  }
+
+  // ===== CHAT =====
+
+  /**
+   * Post an HTML message to chat, spoken by an actor when one is given
+   */
+  async postChatMessage(data: {
+    content: string;
+    actorId?: string;
+    flavor?: string;
+    whisperToGM?: boolean;
+    flags?: Record<string, any>;
+  }): Promise<{ success: boolean; messageId: string }> {
+    this.validateFoundryState();
+
+    const actor = data.actorId ? this.findActorByIdentifier(data.actorId) : null;
+
+    const messageData: any = {
+      content: data.content,
+      speaker: actor ? ChatMessage.getSpeaker({ actor }) : ChatMessage.getSpeaker(),
+      style: (CONST as any).CHAT_MESSAGE_STYLES?.OTHER || 0,
+      ...(data.flavor ? { flavor: data.flavor } : {}),
+      ...(data.whisperToGM ? { whisper: ChatMessage.getWhisperRecipients('GM').map((user: any) => user.id) } : {}),
+      flags: { [MODULE_ID]: { ...(data.flags || {}) } },
+    };
+
+    const message = await ChatMessage.create(messageData);
+
+    this.auditLog('postChatMessage', { actorId: actor?.id, messageId: message?.id }, 'success');
+
+    return { success: true, messageId: message?.id || '' };
+  }
+
+  // ===== UNDO LOG =====
+
+  /**
+   * List recent write operations recorded by the query handlers, newest first
+   */
+  async listRecentChanges(data: { limit?: number } = {}): Promise<Array<{
+    id: string;
+    timestamp: string;
+    description: string;
+    rolledBack: boolean;
+    actions: Array<{ type: string; entityType: string; entityId?: string }>;
+  }>> {
+    this.validateFoundryState();
+
+    return transactionManager.getTransactionHistory()
+      .reverse()
+      .slice(0, Math.max(1, data.limit || 10))
+      .map(transaction => ({
+        id: transaction.id,
+        timestamp: transaction.timestamp.toISOString(),
+        description: transaction.description,
+        rolledBack: transaction.rolledBack,
+        actions: transaction.actions.map(action => ({
+          type: action.type,
+          entityType: action.entityType,
+          ...(action.entityId ? { entityId: action.entityId } : {}),
+        })),
+      }));
+  }
+
+  /**
+   * Undo a recorded change; defaults to the most recent one not already undone
+   */
+  async undoChange(data: { transactionId?: string } = {}): Promise<{
+    success: boolean;
+    transactionId: string;
+    description: string;
+    errors: string[];
+  }> {
+    this.validateFoundryState();
+
+    const history = transactionManager.getTransactionHistory();
+    const transaction = data.transactionId
+      ? history.find(entry => entry.id === data.transactionId)
+      : history.reverse().find(entry => !entry.rolledBack);
+
+    if (!transaction) {
+      throw new Error(data.transactionId ? `Change ${data.transactionId} not found in the undo log` : 'No changes left to undo');
+    }
+
+    const { success, errors } = await transactionManager.rollbackTransaction(transaction.id);
+
+    this.auditLog('undoChange', { transactionId: transaction.id, description: transaction.description }, success ? 'success' : 'failure', errors.join('; ') || undefined);
+
+    return { success, transactionId: transaction.id, description: transaction.description, errors };
+  }
+
+  // ===== SCENE BACKGROUNDS =====
+
+  /**
+   * Background image of a scene (by ID or name, default the active scene) for map variations
+   */
+  async getSceneBackground(data: { scene_identifier?: string } = {}): Promise<{
+    id: string;
+    name: string;
+    src: string;
+    width: number;
+    height: number;
+    gridSize: number;
+    /** Request that created the scene, recorded by generate-map */
+    mapGeneration: Record<string, any> | null;
+  }> {
+    this.validateFoundryState();
+
+    const identifier = data.scene_identifier?.trim();
+    const scene: any = identifier
+      ? (game.scenes?.contents || []).find((entry: any) =>
+          entry.id === identifier || entry.name.toLowerCase() === identifier.toLowerCase())
+      : (game.scenes as any)?.active;
+
+    if (!scene) {
+      throw new Error(identifier ? `Scene not found: "${identifier}"` : 'No active scene');
+    }
+
+    const src = scene.background?.src || scene.img || '';
+    if (!src) {
+      throw new Error(`Scene "${scene.name}" has no background image`);
+    }
+
+    return {
+      id: scene.id,
+      name: scene.name,
+      src,
+      width: scene.width || scene.dimensions?.sceneWidth || 0,
+      height: scene.height || scene.dimensions?.sceneHeight || 0,
+      gridSize: scene.grid?.size || 100,
+      mapGeneration: scene.getFlag?.(MODULE_ID, 'mapGeneration') ?? null,
+    };
+  }
+
+  /**
+   * Swap a scene's background image in place; tokens, walls and lights are left untouched
+   */
+  async updateSceneBackground(data: { sceneId: string; src: string }): Promise<{
+    success: boolean;
+    sceneId: string;
+    sceneName: string;
+    previousSrc: string;
+    src: string;
+  }> {
+    this.validateFoundryState();
+
+    const scene: any = game.scenes?.get(data.sceneId);
+    if (!scene) {
+      throw new Error(`Scene not found: ${data.sceneId}`);
+    }
+
+    const previousSrc = scene.background?.src || scene.img || '';
+    await scene.update({ 'background.src': data.src });
+
+    this.auditLog('updateSceneBackground', { sceneId: scene.id, previousSrc, src: data.src }, 'success');
+
+    return { success: true, sceneId: scene.id, sceneName: scene.name, previousSrc, src: data.src };
+  }
+
+  // ===== FLOOR SCENES =====
+
+  /**
+   * Create one scene per floor of a generated building, listed from the lowest floor up, and link them:
+   * a journal entry gets a page per floor linking the floors above and below, and a note at the stairs
+   * of every scene opens that floor's page
+   */
+  async createFloorScenes(data: { scenes: any[]; stairs: { x: number; y: number }; journalName: string }): Promise<{
+    success: boolean;
+    journalId: string;
+    journalName: string;
+    scenes: Array<{ id: string; name: string; walls: number }>;
+  }> {
+    this.validateFoundryState();
+
+    if (!Array.isArray(data.scenes) || data.scenes.length < 2) {
+      throw new Error('At least two floor scenes are required');
+    }
+
+    const folder = await this.getOrCreateFolder('AI Generated Maps', 'Scene');
+    const scenes: any[] = [];
+    const wallCounts: number[] = [];
+
+    for (const sceneData of data.scenes) {
+      const { walls, ...source } = sceneData;
+      const scene: any = await (globalThis as any).Scene.create({ ...source, ...(folder ? { folder } : {}) });
+      if (!scene) {
+        throw new Error(`Failed to create scene "${sceneData.name}"`);
+      }
+
+      // Generated coordinates are image pixels; the scene itself starts after the padding
+      const offsetX = scene.dimensions?.sceneX ?? 0;
+      const offsetY = scene.dimensions?.sceneY ?? 0;
+      const wallDocuments = (Array.isArray(walls) ? walls : [])
+        .filter((wall: any) => Array.isArray(wall.c) && wall.c.length === 4 && wall.c.every((coord: any) => Number.isFinite(coord)))
+        .map((wall: any) => ({
+          c: [wall.c[0] + offsetX, wall.c[1] + offsetY, wall.c[2] + offsetX, wall.c[3] + offsetY],
+          move: wall.movement || 0,
+          sense: wall.sight || 0,
+          dir: wall.direction || 0,
+          door: wall.door || 0,
+          ds: wall.doorState || 0,
+        }));
+      if (wallDocuments.length > 0) {
+        await scene.createEmbeddedDocuments('Wall', wallDocuments);
+      }
+
+      scenes.push(scene);
+      wallCounts.push(wallDocuments.length);
+    }
+
+    const link = (scene: any) => `@UUID[Scene.${scene.id}]{${scene.name}}`;
+    const journal: any = await JournalEntry.create({
+      name: data.journalName,
+      pages: scenes.map((scene, index) => {
+        const above = scenes[index + 1];
+        const below = scenes[index - 1];
+        return {
+          type: 'text',
+          name: scene.name,
+          text: {
+            content: [
+              `<p>Stairs on ${link(scene)}.</p>`,
+              '<ul>',
+              above ? `<li>Up: ${link(above)}</li>` : '',
+              below ? `<li>Down: ${link(below)}</li>` : '',
+              '</ul>',
+            ].join(''),
+          },
+        };
+      }),
+      ownership: { default: 2 }, // Observer, so players can follow the links
+      flags: { [MODULE_ID]: { floorScenes: scenes.map(scene => scene.id) } },
+    } as any);
+    if (!journal) {
+      throw new Error('Failed to create floor transition journal');
+    }
+
+    const pages: any[] = journal.pages.contents;
+    for (const [index, scene] of scenes.entries()) {
+      const directions = [scenes[index + 1] ? 'up' : '', scenes[index - 1] ? 'down' : ''].filter(Boolean).join(' and ');
+      await scene.createEmbeddedDocuments('Note', [{
+        entryId: journal.id,
+        pageId: pages[index]?.id,
+        x: data.stairs.x + (scene.dimensions?.sceneX ?? 0),
+        y: data.stairs.y + (scene.dimensions?.sceneY ?? 0),
+        texture: { src: 'icons/svg/tower.svg' },
+        iconSize: 40,
+        text: `Stairs ${directions}`,
+      }]);
+    }
+
+    const result = scenes.map((scene, index) => ({ id: scene.id, name: scene.name, walls: wallCounts[index] ?? 0 }));
+    this.auditLog('createFloorScenes', { journalId: journal.id, scenes: result }, 'success');
+
+    return { success: true, journalId: journal.id, journalName: journal.name, scenes: result };
+  }
+
+  // ===== ACTOR ART =====
+
+  /**
+   * Store a generated portrait (base64 PNG) in the world folder, cut a round token from it and
+   * point the actor's img and prototype token at the two files
+   */
+  async setActorArt(data: { actorId: string; image: string; filename: string }): Promise<{
+    success: boolean;
+    actorId: string;
+    actorName: string;
+    img: string;
+    tokenImg: string;
+  }> {
+    this.validateFoundryState();
+
+    const actor: any = game.actors.get(data.actorId);
+    if (!actor) {
+      throw new Error(`${ERROR_MESSAGES.CHARACTER_NOT_FOUND}: ${data.actorId}`);
+    }
+
+    const bytes = Uint8Array.from(atob(data.image), char => char.charCodeAt(0));
+    const baseName = data.filename.replace(/\.png$/i, '');
+    const portrait = new File([bytes], `${baseName}.png`, { type: 'image/png' });
+    const token = new File([await this.createTokenImage(portrait)], `${baseName}_token.png`, { type: 'image/png' });
+
+    const filePicker = (foundry as any).applications.apps.FilePicker.implementation;
+    const directory = `worlds/${game.world.id}/generated-portraits`;
+    try {
+      await filePicker.createDirectory('data', directory);
+    } catch {
+      // Already exists
+    }
+
+    const portraitUpload = await filePicker.upload('data', directory, portrait, {}, { notify: false });
+    const tokenUpload = await filePicker.upload('data', directory, token, {}, { notify: false });
+    if (!portraitUpload?.path || !tokenUpload?.path) {
+      throw new Error('Image upload failed');
+    }
+
+    await actor.update({
+      img: portraitUpload.path,
+      'prototypeToken.texture.src': tokenUpload.path,
+    });
+
+    this.auditLog('setActorArt', { actorId: actor.id, img: portraitUpload.path, tokenImg: tokenUpload.path }, 'success');
+
+    return { success: true, actorId: actor.id, actorName: actor.name, img: portraitUpload.path, tokenImg: tokenUpload.path };
+  }
+
+  /**
+   * Round token with a dark rim, cropped from the top of the portrait where the face usually is
+   */
+  private async createTokenImage(portrait: Blob, size: number = 400): Promise<Blob> {
+    const bitmap = await createImageBitmap(portrait);
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context unavailable');
+    }
+
+    const rim = Math.round(size * 0.04);
+    const side = Math.min(bitmap.width, bitmap.height);
+
+    context.save();
+    context.beginPath();
+    context.arc(size / 2, size / 2, size / 2 - rim, 0, Math.PI * 2);
+    context.clip();
+    context.drawImage(bitmap, (bitmap.width - side) / 2, 0, side, side, 0, 0, size, size);
+    context.restore();
+
+    context.lineWidth = rim;
+    context.strokeStyle = '#2b2118';
+    context.beginPath();
+    context.arc(size / 2, size / 2, size / 2 - rim / 2, 0, Math.PI * 2);
+    context.stroke();
+    bitmap.close();
+
+    return await new Promise((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode token image'))), 'image/png');
+    });
+  }
+
+  // ===== ENCOUNTERS =====
+
+  /**
+   * Create every creature of a built encounter from its compendium entry and place them all on the
+   * active scene in one go. If any step fails, the actors and tokens created so far are deleted again so no
+   * half-built encounter is left behind.
+   */
+  async placeEncounter(data: {
+    groups: Array<{ packId: string; creatureId: string; name: string; quantity: number; role?: string }>;
+    placement?: 'random' | 'grid' | 'center';
+    hidden?: boolean;
+  }): Promise<{
+    success: boolean;
+    sceneId: string;
+    sceneName: string;
+    actors: Array<{ id: string; name: string; role?: string }>;
+    tokenIds: string[];
+    tokensPlaced: number;
+  }> {
+    this.validateFoundryState();
+
+    const scene = (game.scenes as any).current;
+    if (!scene) {
+      throw new Error('No active scene found');
+    }
+
+    const actors: Array<{ id: string; name: string; role?: string }> = [];
+    const tokenIds: string[] = [];
+    try {
+      for (const group of data.groups) {
+        const quantity = Math.max(1, Math.floor(group.quantity));
+        const customNames = Array.from({ length: quantity }, (_, index) => (quantity > 1 ? `${group.name} ${index + 1}` : group.name));
+
+        const created = await this.createActorFromCompendiumEntry({
+          packId: group.packId,
+          itemId: group.creatureId,
+          customNames,
+          quantity,
+          addToScene: false,
+        });
+        actors.push(...created.actors.map(actor => ({ id: actor.id, name: actor.name, ...(group.role ? { role: group.role } : {}) })));
+
+        if (created.totalCreated < quantity) {
+          throw new Error(`Only ${created.totalCreated} of ${quantity} ${group.name} could be created: ${(created.errors || []).join(', ')}`);
+        }
+      }
+
+      const placed = await this.addActorsToScene({
+        actorIds: actors.map(actor => actor.id),
+        placement: data.placement || 'grid',
+        hidden: data.hidden ?? false,
+      });
+      tokenIds.push(...placed.tokenIds);
+
+      if (placed.tokensCreated < actors.length) {
+        throw new Error(`Only ${placed.tokensCreated} of ${actors.length} tokens could be placed: ${(placed.errors || []).join(', ')}`);
+      }
+
+      const result = {
+        success: true,
+        sceneId: scene.id,
+        sceneName: scene.name,
+        actors,
+        tokenIds,
+        tokensPlaced: placed.tokensCreated,
+      };
+
+      this.auditLog('placeEncounter', { groups: data.groups, sceneId: scene.id }, 'success');
+      return result;
+
+    } catch (error) {
+      if (tokenIds.length > 0) {
+        await scene.deleteEmbeddedDocuments('Token', tokenIds);
+      }
+      if (actors.length > 0) {
+        await (Actor as any).deleteDocuments(actors.map(actor => actor.id));
+      }
+      this.auditLog('placeEncounter', data, 'failure', error instanceof Error ? error.message : 'Unknown error');
+      throw error;
+    }
+  }
+
 }
\ No newline at end of file
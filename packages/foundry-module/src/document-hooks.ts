@@ -0,0 +1,106 @@
+// Document Change Hooks
+// Tells the MCP server which world documents changed so it can notify resource subscribers
+
+type DocumentName = 'Actor' | 'JournalEntry' | 'Scene';
+type ChangeAction = 'create' | 'update' | 'delete';
+
+interface DocumentChange {
+  documentName: DocumentName;
+  id: string;
+  action: ChangeAction;
+  activeScene?: boolean;
+}
+
+// Token drags and sheet edits fire bursts of updates; batch them into one message
+const FLUSH_DELAY_MS = 250;
+
+export class DocumentChangeHooks {
+  private isRegistered: boolean = false;
+  private hooksAdded: boolean = false;
+  private pending: Map<string, DocumentChange> = new Map();
+  private flushTimer: number | null = null;
+
+  constructor(private emit: (changes: DocumentChange[]) => void) {}
+
+  /**
+   * Register hooks for actors, journals and scenes, and for the embedded documents shown inside them
+   */
+  register(): void {
+    if (this.isRegistered) return;
+    this.isRegistered = true;
+
+    // Foundry VTT doesn't have Hooks.off, so hooks are added once and ignored while unregistered
+    if (this.hooksAdded) return;
+    this.hooksAdded = true;
+
+    for (const action of ['create', 'update', 'delete'] as const) {
+      Hooks.on(`${action}Actor`, (actor: any) => this.queue('Actor', actor, action));
+      Hooks.on(`${action}JournalEntry`, (journal: any) => this.queue('JournalEntry', journal, action));
+      Hooks.on(`${action}Scene`, (scene: any, changes: any) => this.queue('Scene', scene, action, changes));
+
+      // Items and effects are part of the actor sheet, pages of the journal and tokens of the scene
+      Hooks.on(`${action}Item`, (item: any) => this.queueParent('Actor', item));
+      Hooks.on(`${action}ActiveEffect`, (effect: any) => this.queueParent('Actor', effect));
+      Hooks.on(`${action}JournalEntryPage`, (page: any) => this.queueParent('JournalEntry', page));
+      Hooks.on(`${action}Token`, (token: any) => this.queueParent('Scene', token));
+    }
+  }
+
+  /**
+   * Unregister hooks (cleanup)
+   */
+  unregister(): void {
+    if (!this.isRegistered) return;
+
+    if (this.flushTimer !== null) {
+      window.clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.pending.clear();
+
+    this.isRegistered = false;
+  }
+
+  private queueParent(documentName: DocumentName, embedded: any): void {
+    const parent = embedded?.parent;
+    if (parent?.documentName === documentName) {
+      this.queue(documentName, parent, 'update');
+    }
+  }
+
+  private queue(documentName: DocumentName, document: any, action: ChangeAction, changes?: any): void {
+    if (!this.isRegistered || !document?.id || document.pack) return;
+
+    // Activating a scene changes which scene foundry://scene/active shows
+    const activeScene = documentName === 'Scene'
+      && (document.id === (game.scenes as any)?.current?.id || changes?.active !== undefined);
+
+    const key = `${documentName}.${document.id}`;
+    const previous = this.pending.get(key);
+    this.pending.set(key, {
+      documentName,
+      id: document.id,
+      // A document created and then edited within one batch is still new to the server
+      action: previous && previous.action !== 'update' && action === 'update' ? previous.action : action,
+      ...(activeScene || previous?.activeScene ? { activeScene: true } : {}),
+    });
+
+    if (this.flushTimer === null) {
+      this.flushTimer = window.setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+    }
+  }
+
+  private flush(): void {
+    this.flushTimer = null;
+    const changes = Array.from(this.pending.values());
+    this.pending.clear();
+
+    if (changes.length === 0) return;
+
+    try {
+      this.emit(changes);
+    } catch (error) {
+      console.error('Failed to report document changes:', error);
+    }
+  }
+}
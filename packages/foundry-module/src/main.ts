@@ -3,6 +3,7 @@ import { SocketBridge } from './socket-bridge.js';
 import { QueryHandlers } from './queries.js';
 import { ModuleSettings } from './settings.js';
 import { CampaignHooks } from './campaign-hooks.js';
+import { DocumentChangeHooks } from './document-hooks.js';
 import { ComfyUIManager } from './comfyui-manager.js';
 // Connection control now handled through settings menu
 
@@ -13,6 +14,7 @@ class FoundryMCPBridge {
   private settings: ModuleSettings;
   private queryHandlers: QueryHandlers;
   private campaignHooks: CampaignHooks;
+  private documentChangeHooks: DocumentChangeHooks;
   public comfyuiManager: ComfyUIManager;
   private socketBridge: SocketBridge | null = null;
   private isInitialized = false;
@@ -24,6 +26,11 @@ class FoundryMCPBridge {
     this.settings = new ModuleSettings();
     this.queryHandlers = new QueryHandlers();
     this.campaignHooks = new CampaignHooks(this);
+    this.documentChangeHooks = new DocumentChangeHooks(changes => {
+      if (this.socketBridge?.isConnected()) {
+        this.socketBridge.emitToServer('document-changes', { changes });
+      }
+    });
     this.comfyuiManager = new ComfyUIManager();
   }
 
@@ -50,6 +57,9 @@ class FoundryMCPBridge {
       // Register campaign hooks for interactive dashboards
       this.campaignHooks.register();
 
+      // Report document changes so MCP resource subscribers stay current
+      this.documentChangeHooks.register();
+
       // Expose data access globally for settings UI
       (window as any).foundryMCPBridge.dataAccess = this.queryHandlers.dataAccess;
 
@@ -136,6 +146,13 @@ class FoundryMCPBridge {
         } else {
           console.log(`[${MODULE_ID}] Enhanced creature index exists, ready for instant searches`);
         }
+
+        // Spells, prayers, careers and talents have their own index file
+        const itemIndexExists = browseResult.files.some((f: any) => f.endsWith('enhanced-item-index.json'));
+        if (!itemIndexExists && this.queryHandlers?.dataAccess?.rebuildEnhancedItemIndex) {
+          console.log(`[${MODULE_ID}] Enhanced item index not found, building automatically...`);
+          await this.queryHandlers.dataAccess.rebuildEnhancedItemIndex();
+        }
       } catch (error) {
         // World directory might not exist yet, that's okay
         console.log(`[${MODULE_ID}] Could not check for enhanced index file (world directory may not exist yet)`);
@@ -466,6 +483,7 @@ class FoundryMCPBridge {
     await this.stop();
     this.queryHandlers.unregisterHandlers();
     this.campaignHooks.unregister();
+    this.documentChangeHooks.unregister();
     
     console.log(`[${MODULE_ID}] Cleanup complete`);
   }
@@ -1,6 +1,21 @@
 import { MODULE_ID } from './constants.js';
 import { FoundryDataAccess } from './data-access.js';
 import { ComfyUIManager } from './comfyui-manager.js';
+import { TransactionAction, transactionManager } from './transaction-manager.js';
+
+/** The success/error fields handlers use to report a failed write */
+interface WriteOutcome {
+  success?: boolean;
+  error?: string;
+}
+
+function isFailedWrite(result: unknown): result is WriteOutcome {
+  if (typeof result !== 'object' || result === null) {
+    return false;
+  }
+  const { success, error } = result as WriteOutcome;
+  return success === false || Boolean(error);
+}
 
 export class QueryHandlers {
   public dataAccess: FoundryDataAccess;
@@ -22,6 +37,31 @@ export class QueryHandlers {
     return { allowed: true };
   }
 
+  /**
+   * Run a write and record it in the undo log
+   * The write reports rollback actions through record(): prior state before writing, created ids after;
+   * describe() names the change for list-recent-changes once the result is known
+   */
+  private async recordChange<T>(
+    write: (record: (action: TransactionAction | null) => void) => Promise<T>,
+    describe: (result: T) => string
+  ): Promise<T> {
+    const actions: TransactionAction[] = [];
+    const result = await write(action => {
+      if (action) actions.push(action);
+    });
+
+    if (actions.length > 0 && !isFailedWrite(result)) {
+      const transactionId = transactionManager.startTransaction(describe(result));
+      for (const action of actions) {
+        transactionManager.addAction(transactionId, action);
+      }
+      transactionManager.commitTransaction(transactionId);
+    }
+
+    return result;
+  }
+
   /**
    * Register all query handlers in CONFIG.queries
    */
@@ -52,6 +92,7 @@ export class QueryHandlers {
     CONFIG.queries[`${modulePrefix}.createActorFromCompendium`] = this.handleCreateActorFromCompendium.bind(this);
     CONFIG.queries[`${modulePrefix}.getCompendiumDocumentFull`] = this.handleGetCompendiumDocumentFull.bind(this);
     CONFIG.queries[`${modulePrefix}.addActorsToScene`] = this.handleAddActorsToScene.bind(this);
+    CONFIG.queries[`${modulePrefix}.placeEncounter`] = this.handlePlaceEncounter.bind(this);
     CONFIG.queries[`${modulePrefix}.validateWritePermissions`] = this.handleValidateWritePermissions.bind(this);
     CONFIG.queries[`${modulePrefix}.createJournalEntry`] = this.handleCreateJournalEntry.bind(this);
     CONFIG.queries[`${modulePrefix}.listJournals`] = this.handleListJournals.bind(this);
@@ -63,6 +104,7 @@ export class QueryHandlers {
 
     // Enhanced creature index for campaign analysis
     CONFIG.queries[`${modulePrefix}.getEnhancedCreatureIndex`] = this.handleGetEnhancedCreatureIndex.bind(this);
+    CONFIG.queries[`${modulePrefix}.rebuildEnhancedIndex`] = this.handleRebuildEnhancedIndex.bind(this);
 
     // Campaign management queries
     CONFIG.queries[`${modulePrefix}.updateCampaignProgress`] = this.handleUpdateCampaignProgress.bind(this);
@@ -81,6 +123,10 @@ export class QueryHandlers {
     CONFIG.queries[`${modulePrefix}.generate-map`] = this.handleGenerateMap.bind(this);
     CONFIG.queries[`${modulePrefix}.check-map-status`] = this.handleCheckMapStatus.bind(this);
     CONFIG.queries[`${modulePrefix}.cancel-map-job`] = this.handleCancelMapJob.bind(this);
+    CONFIG.queries[`${modulePrefix}.getSceneBackground`] = this.handleGetSceneBackground.bind(this);
+    CONFIG.queries[`${modulePrefix}.updateSceneBackground`] = this.handleUpdateSceneBackground.bind(this);
+    CONFIG.queries[`${modulePrefix}.setActorArt`] = this.handleSetActorArt.bind(this);
+    CONFIG.queries[`${modulePrefix}.createFloorScenes`] = this.handleCreateFloorScenes.bind(this);
 
     // CRUD operations for items and actors
     CONFIG.queries[`${modulePrefix}.createActor`] = this.handleCreateActor.bind(this);
@@ -89,6 +135,24 @@ export class QueryHandlers {
     CONFIG.queries[`${modulePrefix}.createItem`] = this.handleCreateItem.bind(this);
     CONFIG.queries[`${modulePrefix}.deleteItem`] = this.handleDeleteItem.bind(this);
 
+    // WFRP test engine
+    CONFIG.queries[`${modulePrefix}.rollSkill`] = this.handleRollSkill.bind(this);
+    CONFIG.queries[`${modulePrefix}.rollCharacteristic`] = this.handleRollCharacteristic.bind(this);
+
+    // Combat tracker
+    CONFIG.queries[`${modulePrefix}.startCombat`] = this.handleStartCombat.bind(this);
+    CONFIG.queries[`${modulePrefix}.getCombatState`] = this.handleGetCombatState.bind(this);
+    CONFIG.queries[`${modulePrefix}.nextCombatTurn`] = this.handleNextCombatTurn.bind(this);
+    CONFIG.queries[`${modulePrefix}.endCombat`] = this.handleEndCombat.bind(this);
+
+    // WFRP conditions
+    CONFIG.queries[`${modulePrefix}.addConditions`] = this.handleAddConditions.bind(this);
+    CONFIG.queries[`${modulePrefix}.removeConditions`] = this.handleRemoveConditions.bind(this);
+    CONFIG.queries[`${modulePrefix}.getConditions`] = this.handleGetConditions.bind(this);
+
+    // Chat
+    CONFIG.queries[`${modulePrefix}.postChatMessage`] = this.handlePostChatMessage.bind(this);
+
     // RollTable operations
     CONFIG.queries[`${modulePrefix}.createRollTable`] = this.handleCreateRollTable.bind(this);
     CONFIG.queries[`${modulePrefix}.addTableResults`] = this.handleAddTableResults.bind(this);
@@ -97,6 +161,10 @@ export class QueryHandlers {
     CONFIG.queries[`${modulePrefix}.rollOnTable`] = this.handleRollOnTable.bind(this);
     CONFIG.queries[`${modulePrefix}.deleteRollTable`] = this.handleDeleteRollTable.bind(this);
 
+    // Undo log
+    CONFIG.queries[`${modulePrefix}.listRecentChanges`] = this.handleListRecentChanges.bind(this);
+    CONFIG.queries[`${modulePrefix}.undoChange`] = this.handleUndoChange.bind(this);
+
   }
 
   /**
@@ -193,6 +261,13 @@ export class QueryHandlers {
       creatureType?: string;
       size?: string;
       spellcaster?: boolean;
+      itemType?: string;
+      lore?: string;
+      cn?: number | { min?: number; max?: number };
+      god?: string;
+      careerClass?: string;
+      tier?: number;
+      status?: string;
     }
   }): Promise<any> {
     try {
@@ -376,12 +451,57 @@ export class QueryHandlers {
         requestData.placement = data.placement;
       }
 
-      return await this.dataAccess.createActorFromCompendiumEntry(requestData);
+      return await this.recordChange(
+        async record => {
+          const result = await this.dataAccess.createActorFromCompendiumEntry(requestData);
+          const sceneId = (game.scenes as any).current?.id;
+          result.actors.forEach(actor => record(transactionManager.createActorCreationAction(actor.id)));
+          (result.tokenIds || []).forEach(tokenId => record(transactionManager.createCreationAction('Token', tokenId, sceneId)));
+          return result;
+        },
+        result => `Create ${result.totalCreated} actor(s) from compendium: ${result.actors.map(actor => actor.name).join(', ')}`
+      );
     } catch (error) {
       throw new Error(`Failed to create actor from compendium: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Handle place encounter request (build-encounter approval)
+   */
+  private async handlePlaceEncounter(data: {
+    groups: Array<{ packId: string; creatureId: string; name: string; quantity: number; role?: string }>;
+    placement?: 'random' | 'grid' | 'center';
+    hidden?: boolean;
+  }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!Array.isArray(data.groups) || data.groups.length === 0) {
+        throw new Error('groups is required');
+      }
+
+      // One transaction for the whole encounter, so a single undo removes every actor and token
+      return await this.recordChange(
+        async record => {
+          const result = await this.dataAccess.placeEncounter(data);
+          result.actors.forEach(actor => record(transactionManager.createActorCreationAction(actor.id)));
+          result.tokenIds.forEach(tokenId => record(transactionManager.createCreationAction('Token', tokenId, result.sceneId)));
+          return result;
+        },
+        result => `Place encounter on "${result.sceneName}": ${result.actors.map(actor => actor.name).join(', ')}`
+      );
+    } catch (error) {
+      throw new Error(`Failed to place encounter: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Handle get compendium document full request
    */
@@ -433,11 +553,19 @@ export class QueryHandlers {
         throw new Error('actorIds array is required and must not be empty');
       }
 
-      return await this.dataAccess.addActorsToScene({
-        actorIds: data.actorIds,
-        placement: data.placement || 'random',
-        hidden: data.hidden || false,
-      });
+      return await this.recordChange(
+        async record => {
+          const result = await this.dataAccess.addActorsToScene({
+            actorIds: data.actorIds,
+            placement: data.placement || 'random',
+            hidden: data.hidden || false,
+          });
+          const sceneId = (game.scenes as any).current?.id;
+          result.tokenIds.forEach(tokenId => record(transactionManager.createCreationAction('Token', tokenId, sceneId)));
+          return result;
+        },
+        result => `Add ${result.tokensCreated} token(s) to the scene`
+      );
     } catch (error) {
       throw new Error(`Failed to add actors to scene: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -486,10 +614,17 @@ export class QueryHandlers {
         throw new Error('content is required');
       }
 
-      return await this.dataAccess.createJournalEntry({
-        name: data.name,
-        content: data.content,
-      });
+      return await this.recordChange(
+        async record => {
+          const result = await this.dataAccess.createJournalEntry({
+            name: data.name,
+            content: data.content,
+          });
+          record(transactionManager.createCreationAction('JournalEntry', result.id));
+          return result;
+        },
+        result => `Create journal "${result.name}"`
+      );
     } catch (error) {
       throw new Error(`Failed to create journal entry: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -556,10 +691,27 @@ export class QueryHandlers {
         throw new Error('content is required');
       }
 
-      return await this.dataAccess.updateJournalContent({
-        journalId: data.journalId,
-        content: data.content,
-      });
+      const journal = game.journal.get(data.journalId);
+      return await this.recordChange(
+        async record => {
+          const page = journal?.pages.find((entry: any) => entry.type === 'text');
+          if (page) {
+            record(transactionManager.captureUpdate('JournalEntryPage', page.id, { 'text.content': data.content }, data.journalId));
+          }
+          const result = await this.dataAccess.updateJournalContent({
+            journalId: data.journalId,
+            content: data.content,
+          });
+          if (!page) {
+            const created = journal?.pages.find((entry: any) => entry.type === 'text');
+            if (created) {
+              record(transactionManager.createCreationAction('JournalEntryPage', created.id, data.journalId));
+            }
+          }
+          return result;
+        },
+        () => `Update journal "${journal?.name ?? data.journalId}"`
+      );
     } catch (error) {
       throw new Error(`Failed to update journal content: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -589,7 +741,16 @@ export class QueryHandlers {
         throw new Error('rollType, rollTarget, and targetPlayer are required');
       }
 
-      return await this.dataAccess.requestPlayerRolls(data);
+      return await this.recordChange(
+        async record => {
+          const result = await this.dataAccess.requestPlayerRolls(data);
+          if (result.messageId) {
+            record(transactionManager.createCreationAction('ChatMessage', result.messageId));
+          }
+          return result;
+        },
+        () => `Request ${data.rollTarget} roll from ${data.targetPlayer}`
+      );
     } catch (error) {
       throw new Error(`Failed to request player rolls: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -614,6 +775,72 @@ export class QueryHandlers {
     }
   }
 
+  /**
+   * Handle enhanced index rebuild request. A rebuild outlasts the query timeout, so it runs in the
+   * background; with a progressId its progress and result are pushed to the MCP server as they happen.
+   */
+  async handleRebuildEnhancedIndex(data: { index?: 'creatures' | 'items' | 'all'; progressId?: string }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      const index = data.index ?? 'all';
+      if (!['creatures', 'items', 'all'].includes(index)) {
+        throw new Error(`Unknown index "${index}"; expected creatures, items or all`);
+      }
+
+      const progressId = data.progressId;
+      const report = (update: Record<string, unknown>) => {
+        if (!progressId) return;
+        (globalThis as any).foundryMCPBridge?.socketBridge?.emitToServer('foundry-progress', { progressId, total: 100, ...update });
+      };
+
+      void this.rebuildIndexes(index, report);
+
+      return { success: true, started: true, index };
+    } catch (error) {
+      throw new Error(`Failed to rebuild enhanced index: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async rebuildIndexes(index: 'creatures' | 'items' | 'all', report: (update: Record<string, unknown>) => void): Promise<void> {
+    const phases = index === 'all' ? 2 : 1;
+    // Each index gets an equal share of the 0-100 progress range
+    const scaled = (phase: number) => (packsDone: number, totalPacks: number, message: string) => {
+      report({ progress: Math.round(((phase + packsDone / Math.max(1, totalPacks)) / phases) * 100), message });
+    };
+
+    const result: Record<string, number> = {};
+    const messages: string[] = [];
+
+    if (index !== 'items') {
+      const creatures = await this.dataAccess.rebuildEnhancedCreatureIndex(scaled(0));
+      if (!creatures.success) {
+        report({ progress: 100, done: true, error: creatures.message });
+        return;
+      }
+      result.creatures = creatures.totalCreatures;
+      messages.push(creatures.message);
+    }
+
+    if (index !== 'creatures') {
+      const items = await this.dataAccess.rebuildEnhancedItemIndex(scaled(phases - 1));
+      if (!items.success) {
+        report({ progress: 100, done: true, error: items.message });
+        return;
+      }
+      result.items = items.totalItems;
+      messages.push(items.message);
+    }
+
+    report({ progress: 100, done: true, message: messages.join('; '), result });
+  }
+
   /**
    * Handle campaign progress update request
    */
@@ -662,7 +889,13 @@ export class QueryHandlers {
         throw new Error('actorId, userId, and permission are required');
       }
 
-      return await this.dataAccess.setActorOwnership(data);
+      return await this.recordChange(
+        async record => {
+          record(transactionManager.captureUpdate('Actor', data.actorId, { [`ownership.${data.userId}`]: data.permission }));
+          return await this.dataAccess.setActorOwnership(data);
+        },
+        result => result.message
+      );
     } catch (error) {
       throw new Error(`Failed to set actor ownership: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -825,7 +1058,16 @@ export class QueryHandlers {
         throw new Error('scene_identifier is required');
       }
 
-      return await this.dataAccess.switchScene(data);
+      return await this.recordChange(
+        async record => {
+          const previous = (game.scenes as any).active;
+          if (previous) {
+            record(transactionManager.captureUpdate('Scene', previous.id, { active: true }));
+          }
+          return await this.dataAccess.switchScene(data);
+        },
+        result => `Switch to scene "${result.sceneName}"`
+      );
     } catch (error) {
       throw new Error(`Failed to switch scene: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -854,7 +1096,9 @@ export class QueryHandlers {
         prompt: data.prompt.trim(),
         scene_name: data.scene_name.trim(),
         size: data.size || 'medium',
-        grid_size: data.grid_size || 70
+        grid_size: data.grid_size || 70,
+        ...(typeof data.style === 'string' && data.style.trim() ? { style: data.style.trim() } : {}),
+        ...(Number.isInteger(data.seed) && data.seed >= 0 ? { seed: data.seed } : {})
       };
 
       // Use ComfyUIManager to communicate with backend via WebSocket
@@ -874,6 +1118,7 @@ export class QueryHandlers {
         success: true,
         status: response?.status ?? 'success',
         jobId: response.jobId,
+        seed: response.seed,
         message: response.message || 'Map generation started',
         estimatedTime: response.estimatedTime || '30-90 seconds'
       };
@@ -981,7 +1226,14 @@ export class QueryHandlers {
         return { error: 'Access denied', success: false };
       }
 
-      return await this.dataAccess.createActor(data);
+      return await this.recordChange(
+        async record => {
+          const result = await this.dataAccess.createActor(data);
+          record(transactionManager.createActorCreationAction(result.id));
+          return result;
+        },
+        result => `Create actor "${result.name}"`
+      );
     } catch (error) {
       throw new Error(`Failed to create actor: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -998,7 +1250,13 @@ export class QueryHandlers {
         return { error: 'Access denied', success: false };
       }
 
-      return await this.dataAccess.updateActor(data);
+      return await this.recordChange(
+        async record => {
+          record(transactionManager.captureUpdate('Actor', data.actorId, data.updateData));
+          return await this.dataAccess.updateActor(data);
+        },
+        result => `Update ${result.actorName}: ${result.updated.join(', ')}`
+      );
     } catch (error) {
       throw new Error(`Failed to update actor: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -1015,7 +1273,13 @@ export class QueryHandlers {
         return { error: 'Access denied', success: false };
       }
 
-      return await this.dataAccess.updateItem(data);
+      return await this.recordChange(
+        async record => {
+          record(transactionManager.captureUpdate('Item', data.itemId, data.updateData, data.actorId));
+          return await this.dataAccess.updateItem(data);
+        },
+        result => `Update item "${result.itemName}": ${result.updated.join(', ')}`
+      );
     } catch (error) {
       throw new Error(`Failed to update item: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -1032,7 +1296,14 @@ export class QueryHandlers {
         return { error: 'Access denied', success: false };
       }
 
-      return await this.dataAccess.createItem(data);
+      return await this.recordChange(
+        async record => {
+          const result = await this.dataAccess.createItem(data);
+          record(transactionManager.createCreationAction('Item', result.itemId, result.actorId));
+          return result;
+        },
+        result => `Create ${result.itemType} "${result.itemName}"`
+      );
     } catch (error) {
       throw new Error(`Failed to create item: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -1049,12 +1320,330 @@ export class QueryHandlers {
         return { error: 'Access denied', success: false };
       }
 
-      return await this.dataAccess.deleteItem(data);
+      return await this.recordChange(
+        async record => {
+          record(transactionManager.captureDeletion('Item', data.itemId, data.actorId));
+          return await this.dataAccess.deleteItem(data);
+        },
+        result => `Delete ${result.itemType} "${result.itemName}"`
+      );
     } catch (error) {
       throw new Error(`Failed to delete item: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Handle WFRP skill test request
+   * Returns { success, data } so callers can fall back (e.g. generic Channelling) on failure
+   */
+  private async handleRollSkill(data: {
+    characterName?: string;
+    characterId?: string;
+    skillName: string;
+    difficulty?: string;
+    modifier?: number;
+    testName?: string;
+    rollMode?: string;
+    chat?: boolean;
+  }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!data.skillName) {
+        throw new Error('skillName is required');
+      }
+
+      return await this.recordChange(
+        async record => {
+          const result = await this.dataAccess.rollSkillTest(data);
+          if (result.chatMessageId) {
+            record(transactionManager.createCreationAction('ChatMessage', result.chatMessageId));
+          }
+          return { success: true, data: result };
+        },
+        ({ data: result }) => `Post ${result.actorName}'s ${result.testName} test to chat`
+      );
+    } catch (error) {
+      return {
+        error: `Failed to roll skill test: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        success: false
+      };
+    }
+  }
+
+  /**
+   * Handle WFRP characteristic test request
+   */
+  private async handleRollCharacteristic(data: {
+    characterName?: string;
+    characterId?: string;
+    characteristic: string;
+    difficulty?: string;
+    modifier?: number;
+    testName?: string;
+    rollMode?: string;
+    chat?: boolean;
+  }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!data.characteristic) {
+        throw new Error('characteristic is required');
+      }
+
+      return await this.recordChange(
+        async record => {
+          const result = await this.dataAccess.rollCharacteristicTest(data);
+          if (result.chatMessageId) {
+            record(transactionManager.createCreationAction('ChatMessage', result.chatMessageId));
+          }
+          return { success: true, data: result };
+        },
+        ({ data: result }) => `Post ${result.actorName}'s ${result.testName} test to chat`
+      );
+    } catch (error) {
+      return {
+        error: `Failed to roll characteristic test: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        success: false
+      };
+    }
+  }
+
+  /**
+   * Handle start combat request
+   */
+  private async handleStartCombat(data: {
+    tokenIds?: string[];
+    includeHidden?: boolean;
+    initiativeMode?: 'characteristic' | 'roll';
+  }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      return await this.recordChange(
+        async record => {
+          const result = await this.dataAccess.startCombat(data || {});
+          record(transactionManager.createCreationAction('Combat', result.id));
+          return result;
+        },
+        result => `Start combat with ${result.combatants.length} combatant(s)`
+      );
+    } catch (error) {
+      throw new Error(`Failed to start combat: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle get combat state request
+   */
+  private async handleGetCombatState(): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      return await this.dataAccess.getCombatState();
+    } catch (error) {
+      throw new Error(`Failed to get combat state: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle next combat turn request
+   */
+  private async handleNextCombatTurn(): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      return await this.recordChange(
+        async record => {
+          const combat = (game as any).combat;
+          if (combat) {
+            record(transactionManager.captureUpdate('Combat', combat.id, { round: combat.round, turn: combat.turn }));
+          }
+          return await this.dataAccess.nextCombatTurn();
+        },
+        result => `Advance combat to round ${result.round}, ${result.current?.name ?? 'next combatant'}`
+      );
+    } catch (error) {
+      throw new Error(`Failed to advance combat turn: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle end combat request
+   */
+  private async handleEndCombat(data: { clearAdvantage?: boolean }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      return await this.recordChange(
+        async record => {
+          const combat = (game as any).combat;
+          if (combat) {
+            record(transactionManager.captureDeletion('Combat', combat.id));
+            if (data?.clearAdvantage !== false) {
+              for (const combatant of combat.combatants) {
+                if (combatant.actor) {
+                  record(transactionManager.captureUpdate('Actor', combatant.actor.id, { 'system.status.advantage.value': 0 }));
+                }
+              }
+            }
+          }
+          return await this.dataAccess.endCombat(data || {});
+        },
+        result => `End combat after ${result.rounds} round(s)`
+      );
+    } catch (error) {
+      throw new Error(`Failed to end combat: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle add conditions request
+   */
+  private async handleAddConditions(data: { actorId: string; conditions: Array<{ key: string; value: number }> }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!data.actorId) {
+        throw new Error('actorId is required');
+      }
+
+      return await this.recordChange(
+        async record => {
+          record(transactionManager.captureActorEffects(data.actorId));
+          return await this.dataAccess.addConditions(data);
+        },
+        result => `Add conditions to ${result.actorName}: ${result.applied.map(condition => `${condition.key} ×${condition.value}`).join(', ')}`
+      );
+    } catch (error) {
+      throw new Error(`Failed to add conditions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle remove conditions request
+   */
+  private async handleRemoveConditions(data: { actorId: string; conditions: Array<{ key: string; value?: number }> }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!data.actorId) {
+        throw new Error('actorId is required');
+      }
+
+      return await this.recordChange(
+        async record => {
+          record(transactionManager.captureActorEffects(data.actorId));
+          return await this.dataAccess.removeConditions(data);
+        },
+        result => `Remove conditions from ${result.actorName}: ${result.removed.map(condition => `${condition.key} ×${condition.value}`).join(', ')}`
+      );
+    } catch (error) {
+      throw new Error(`Failed to remove conditions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle get conditions request
+   */
+  private async handleGetConditions(data: { actorId: string }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!data.actorId) {
+        throw new Error('actorId is required');
+      }
+
+      return await this.dataAccess.getConditions(data);
+    } catch (error) {
+      throw new Error(`Failed to get conditions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle post chat message request
+   */
+  private async handlePostChatMessage(data: { content: string; actorId?: string; flavor?: string; whisperToGM?: boolean; flags?: Record<string, any> }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!data.content) {
+        throw new Error('content is required');
+      }
+
+      return await this.recordChange(
+        async record => {
+          const result = await this.dataAccess.postChatMessage(data);
+          record(transactionManager.createCreationAction('ChatMessage', result.messageId));
+          return result;
+        },
+        () => 'Post chat message'
+      );
+    } catch (error) {
+      throw new Error(`Failed to post chat message: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Handle create RollTable request
    */
@@ -1081,7 +1670,16 @@ export class QueryHandlers {
         return { error: 'Table name is required', success: false };
       }
 
-      const table = await RollTable.create(tableDataWithoutResults);
+      const table = await this.recordChange(
+        async record => {
+          const created = await RollTable.create(tableDataWithoutResults);
+          if (created?.id) {
+            record(transactionManager.createCreationAction('RollTable', created.id));
+          }
+          return created;
+        },
+        created => `Create roll table "${created.name}"`
+      );
 
       console.log("Table created with ID:", table.id);
 
@@ -1118,8 +1716,14 @@ export class QueryHandlers {
         return { error: 'Table not found', success: false };
       }
 
-      await table.createEmbeddedDocuments('TableResult', data.results);
-      return { success: true };
+      return await this.recordChange(
+        async record => {
+          const created = await table.createEmbeddedDocuments('TableResult', data.results);
+          created.forEach((result: any) => record(transactionManager.createCreationAction('TableResult', result.id, data.tableId)));
+          return { success: true };
+        },
+        () => `Add ${data.results.length} result(s) to roll table "${table.name}"`
+      );
     } catch (error) {
       throw new Error(`Failed to add table results: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -1189,20 +1793,36 @@ export class QueryHandlers {
       }
 
       const rollMode = data.rollMode || 'public';
-      const draw = await table.draw({ rollMode: rollMode as any });
-
-      if (!draw || !draw.results || draw.results.length === 0) {
-        return { error: 'No result drawn from table' };
-      }
 
-      const result = draw.results[0];
-      return {
-        tableName: table.name,
-        formula: table.formula,
-        roll: draw.roll?.total || 0,
-        text: result.text,
-        drawn: result.drawn
-      };
+      return await this.recordChange(
+        async record => {
+          // Roll first so the results' drawn state can be captured before draw() marks them
+          const { roll, results } = await table.roll();
+          if (!results || results.length === 0) {
+            return { error: 'No result drawn from table' };
+          }
+          if (!table.replacement) {
+            results.forEach((result: any) => record(transactionManager.captureUpdate('TableResult', result.id, { drawn: true }, table.id)));
+          }
+
+          // Post the chat card here rather than in draw(), which does not return the message
+          const draw = await table.draw({ roll, results, displayChat: false });
+          const message = await table.toMessage(draw.results, { roll: draw.roll, messageOptions: { rollMode } });
+          if (message) {
+            record(transactionManager.createCreationAction('ChatMessage', message.id));
+          }
+
+          const result = draw.results[0];
+          return {
+            tableName: table.name,
+            formula: table.formula,
+            roll: draw.roll?.total || 0,
+            text: result.text,
+            drawn: result.drawn
+          };
+        },
+        () => `Roll on table "${table.name}"`
+      );
     } catch (error) {
       throw new Error(`Failed to roll on table: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -1224,11 +1844,164 @@ export class QueryHandlers {
         return { error: 'Table not found', success: false };
       }
 
-      await table.delete();
-      return { success: true };
+      return await this.recordChange(
+        async record => {
+          record(transactionManager.captureDeletion('RollTable', data.tableId));
+          await table.delete();
+          return { success: true };
+        },
+        () => `Delete roll table "${table.name}"`
+      );
     } catch (error) {
       throw new Error(`Failed to delete RollTable: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Handle list recent changes request
+   */
+  private async handleListRecentChanges(data: { limit?: number }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      return await this.dataAccess.listRecentChanges(data || {});
+    } catch (error) {
+      throw new Error(`Failed to list recent changes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle undo change request
+   */
+  private async handleUndoChange(data: { transactionId?: string }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      return await this.dataAccess.undoChange(data || {});
+    } catch (error) {
+      throw new Error(`Failed to undo change: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle get scene background request
+   */
+  private async handleGetSceneBackground(data: { scene_identifier?: string }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      return await this.dataAccess.getSceneBackground(data || {});
+    } catch (error) {
+      throw new Error(`Failed to get scene background: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle update scene background request (map variations)
+   */
+  private async handleUpdateSceneBackground(data: { sceneId: string; src: string }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!data.sceneId || !data.src) {
+        throw new Error('sceneId and src are required');
+      }
+
+      return await this.recordChange(
+        async record => {
+          record(transactionManager.captureUpdate('Scene', data.sceneId, { 'background.src': data.src }));
+          return await this.dataAccess.updateSceneBackground(data);
+        },
+        result => `Replace background of scene "${result.sceneName}"`
+      );
+    } catch (error) {
+      throw new Error(`Failed to update scene background: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle set actor art request (generated portraits)
+   */
+  private async handleSetActorArt(data: { actorId: string; image: string; filename: string }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!data.actorId || !data.image || !data.filename) {
+        throw new Error('actorId, image and filename are required');
+      }
+
+      return await this.recordChange(
+        async record => {
+          // Only the keys matter here: the current values are what gets captured for undo
+          record(transactionManager.captureUpdate('Actor', data.actorId, { img: '', 'prototypeToken.texture.src': '' }));
+          return await this.dataAccess.setActorArt(data);
+        },
+        result => `Set portrait and token art for ${result.actorName}`
+      );
+    } catch (error) {
+      throw new Error(`Failed to set actor art: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle create floor scenes request (multi-floor generated maps)
+   */
+  private async handleCreateFloorScenes(data: { scenes: any[]; stairs: { x: number; y: number }; journalName: string }): Promise<any> {
+    try {
+      // SECURITY: Silent GM validation
+      const gmCheck = this.validateGMAccess();
+      if (!gmCheck.allowed) {
+        return { error: 'Access denied', success: false };
+      }
+
+      this.dataAccess.validateFoundryState();
+
+      if (!Array.isArray(data.scenes) || !data.stairs || !data.journalName) {
+        throw new Error('scenes, stairs and journalName are required');
+      }
+
+      return await this.recordChange(
+        async record => {
+          const result = await this.dataAccess.createFloorScenes(data);
+          result.scenes.forEach(scene => record(transactionManager.createCreationAction('Scene', scene.id)));
+          record(transactionManager.createCreationAction('JournalEntry', result.journalId));
+          return result;
+        },
+        result => `Create ${result.scenes.length} linked floor scenes: ${result.scenes.map(scene => scene.name).join(', ')}`
+      );
+    } catch (error) {
+      throw new Error(`Failed to create floor scenes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
 }
\ No newline at end of file
@@ -0,0 +1,326 @@
+/**
+ * In-memory full-text search over compendium index records
+ * BM25 ranking across weighted fields, with prefix and typo-tolerant (trigram + edit distance) term matching
+ */
+
+export interface SearchField {
+  text: string | undefined;
+  /** Relative importance; a name match should count for more than a mention deep in a description */
+  weight: number;
+}
+
+export interface SearchHit<T> {
+  item: T;
+  score: number;
+  /** Index terms that matched, after prefix and typo expansion */
+  matchedTerms: string[];
+}
+
+/**
+ * WFRP trait as stored in the index, e.g. Fear 2, Weapon +8, Size (Large)
+ */
+export interface CreatureTrait {
+  name: string;
+  rating?: number;
+  specification?: string;
+}
+
+export interface TraitFilter {
+  name: string;
+  operator?: '>=' | '<=' | '=' | '>' | '<';
+  rating?: number;
+  specification?: string;
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/** Score multipliers for terms that only matched a query word approximately */
+const PREFIX_MATCH_WEIGHT = 0.8;
+const TYPO_MATCH_WEIGHT = 0.6;
+const MAX_EXPANSIONS_PER_TERM = 8;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'with', 'has', 'in', 'on', 'to', 'for', 'or', 'is', 'it', 'its', 'at', 'by', 'as', 'from']);
+
+/**
+ * Lowercased word tokens of plain text, HTML or Foundry enricher markup
+ */
+export function tokenize(text: string | undefined): string[] {
+  if (!text) return [];
+
+  return text
+    // @UUID[Compendium.x.y]{Label} reads as "Label"
+    .replace(/@\w+\[[^\]]*\](?:\{([^}]*)\})?/g, ' $1 ')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&[a-z]+;|&#\d+;/gi, ' ')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+export class TextSearchIndex<T> {
+  private items: T[];
+  private postings: Map<string, Map<number, number>> = new Map();
+  private documentLengths: number[] = [];
+  private averageLength = 0;
+  private trigrams: Map<string, string[]> = new Map();
+
+  constructor(items: T[], fields: (item: T) => SearchField[]) {
+    this.items = items;
+
+    items.forEach((item, documentIndex) => {
+      let length = 0;
+      for (const field of fields(item)) {
+        for (const token of tokenize(field.text)) {
+          let posting = this.postings.get(token);
+          if (!posting) {
+            posting = new Map();
+            this.postings.set(token, posting);
+          }
+          posting.set(documentIndex, (posting.get(documentIndex) ?? 0) + field.weight);
+          length += field.weight;
+        }
+      }
+      this.documentLengths.push(length);
+    });
+
+    this.averageLength = this.documentLengths.reduce((total, length) => total + length, 0) / Math.max(1, items.length);
+
+    for (const term of this.postings.keys()) {
+      for (const trigram of trigramsOf(term)) {
+        const terms = this.trigrams.get(trigram);
+        if (terms) {
+          terms.push(term);
+        } else {
+          this.trigrams.set(trigram, [term]);
+        }
+      }
+    }
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Rank items against a free-text query. Every query word counts once per item, through its best
+   * matching index term; items matching more of the query words rank higher.
+   */
+  search(query: string, limit = 100): SearchHit<T>[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0) return [];
+
+    const scores = new Map<number, { score: number; matched: number; terms: Set<string> }>();
+
+    for (const queryTerm of queryTerms) {
+      const best = new Map<number, { score: number; term: string }>();
+
+      for (const { term, weight } of this.expand(queryTerm)) {
+        const posting = this.postings.get(term)!;
+        const idf = Math.log(1 + (this.items.length - posting.size + 0.5) / (posting.size + 0.5));
+
+        for (const [documentIndex, frequency] of posting) {
+          const normalization = BM25_K1 * (1 - BM25_B + BM25_B * this.documentLengths[documentIndex]! / (this.averageLength || 1));
+          const score = weight * idf * (frequency * (BM25_K1 + 1)) / (frequency + normalization);
+          if (score > (best.get(documentIndex)?.score ?? 0)) {
+            best.set(documentIndex, { score, term });
+          }
+        }
+      }
+
+      for (const [documentIndex, { score, term }] of best) {
+        const entry = scores.get(documentIndex) ?? { score: 0, matched: 0, terms: new Set<string>() };
+        entry.score += score;
+        entry.matched++;
+        entry.terms.add(term);
+        scores.set(documentIndex, entry);
+      }
+    }
+
+    return Array.from(scores.entries())
+      .map(([documentIndex, entry]) => ({
+        item: this.items[documentIndex]!,
+        score: Math.round(entry.score * (entry.matched / queryTerms.length) * 100) / 100,
+        matchedTerms: Array.from(entry.terms),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Index terms a query word may stand for: itself, words it starts (skav -> skaven) and close misspellings
+   */
+  private expand(queryTerm: string): Array<{ term: string; weight: number }> {
+    const expansions = new Map<string, number>();
+    if (this.postings.has(queryTerm)) {
+      expansions.set(queryTerm, 1);
+    }
+
+    const maxEdits = queryTerm.length >= 8 ? 2 : queryTerm.length >= 4 ? 1 : 0;
+    const candidates = new Map<string, number>();
+    for (const trigram of trigramsOf(queryTerm)) {
+      for (const term of this.trigrams.get(trigram) ?? []) {
+        candidates.set(term, (candidates.get(term) ?? 0) + 1);
+      }
+    }
+
+    const approximate: Array<{ term: string; weight: number }> = [];
+    for (const [term, shared] of candidates) {
+      if (expansions.has(term)) continue;
+
+      if (queryTerm.length >= 3 && term.startsWith(queryTerm)) {
+        approximate.push({ term, weight: PREFIX_MATCH_WEIGHT });
+        continue;
+      }
+
+      // Each edit breaks at most three trigrams, so terms sharing fewer cannot be within the edit budget
+      if (maxEdits === 0 || shared < queryTerm.length + 1 - 3 * maxEdits) continue;
+      const distance = boundedEditDistance(queryTerm, term, maxEdits);
+      if (distance <= maxEdits) {
+        approximate.push({ term, weight: TYPO_MATCH_WEIGHT / distance });
+      }
+    }
+
+    approximate
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, MAX_EXPANSIONS_PER_TERM)
+      .forEach(({ term, weight }) => expansions.set(term, weight));
+
+    return Array.from(expansions, ([term, weight]) => ({ term, weight }));
+  }
+}
+
+/**
+ * Parse "Fear 2", "Weapon +8", "Ranged +8 (50)", "Size (Large)" or "Night Vision"
+ */
+export function parseTrait(text: string): CreatureTrait {
+  const trimmed = text.trim().replace(/\s+/g, ' ');
+
+  const rated = trimmed.match(/^(.+?)\s*\(?\+?(\d+)\)?(?:\s*\((.+)\))?$/);
+  if (rated) {
+    return {
+      name: rated[1]!,
+      rating: Number(rated[2]),
+      ...(rated[3] ? { specification: rated[3] } : {}),
+    };
+  }
+
+  const specified = trimmed.match(/^(.+?)\s*\((.+)\)$/);
+  if (specified) {
+    return { name: specified[1]!, specification: specified[2]! };
+  }
+
+  return { name: trimmed };
+}
+
+/**
+ * Display form of a trait; Weapon and Ranged ratings are damage bonuses and read as "+8"
+ */
+export function formatTrait(trait: CreatureTrait): string {
+  let text = trait.name;
+  if (trait.rating !== undefined) {
+    const bonus = ['weapon', 'ranged'].includes(trait.name.toLowerCase()) ? '+' : '';
+    text += ` ${bonus}${trait.rating}`;
+  }
+  if (trait.specification) {
+    text += ` (${trait.specification})`;
+  }
+  return text;
+}
+
+/**
+ * Parse a trait filter: "Fear 2" and "has Fear 2" mean Fear rated 2 or more, "Weapon +8" likewise,
+ * "Fear = 2" or "Armour < 3" compare exactly, "Size (Large)" matches the specification, "Fear" just needs the trait
+ */
+export function parseTraitFilter(filter: string): TraitFilter {
+  const trimmed = filter.trim().replace(/^has\s+/i, '');
+  if (!trimmed) {
+    throw new Error(`Invalid trait filter "${filter}"`);
+  }
+
+  const compared = trimmed.match(/^(.+?)\s*(>=|<=|=|>|<)\s*\+?(\d+)$/);
+  if (compared) {
+    return { name: compared[1]!.trim(), operator: compared[2] as NonNullable<TraitFilter['operator']>, rating: Number(compared[3]) };
+  }
+
+  const trait = parseTrait(trimmed);
+  return {
+    name: trait.name,
+    ...(trait.rating !== undefined ? { operator: '>=' as const, rating: trait.rating } : {}),
+    ...(trait.specification ? { specification: trait.specification } : {}),
+  };
+}
+
+/**
+ * Whether any of the traits satisfies the filter; trait names tolerate a typo ("Armor" finds "Armour")
+ */
+export function matchesTraitFilter(traits: CreatureTrait[], filter: TraitFilter): boolean {
+  const name = filter.name.toLowerCase();
+  const maxEdits = name.length >= 5 ? 1 : 0;
+
+  return traits.some(trait => {
+    const traitName = trait.name.toLowerCase();
+    if (traitName !== name && boundedEditDistance(traitName, name, maxEdits) > maxEdits) {
+      return false;
+    }
+
+    if (filter.specification && !trait.specification?.toLowerCase().includes(filter.specification.toLowerCase())) {
+      return false;
+    }
+
+    if (filter.rating === undefined) {
+      return true;
+    }
+    if (trait.rating === undefined) {
+      return false;
+    }
+
+    switch (filter.operator) {
+      case '=': return trait.rating === filter.rating;
+      case '>': return trait.rating > filter.rating;
+      case '<': return trait.rating < filter.rating;
+      case '<=': return trait.rating <= filter.rating;
+      default: return trait.rating >= filter.rating;
+    }
+  });
+}
+
+function trigramsOf(term: string): string[] {
+  const padded = `  ${term} `;
+  const trigrams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    trigrams.add(padded.slice(i, i + 3));
+  }
+  return Array.from(trigrams);
+}
+
+/**
+ * Optimal string alignment distance (transpositions count as one edit), giving up past maxEdits
+ */
+function boundedEditDistance(a: string, b: string, maxEdits: number): number {
+  if (Math.abs(a.length - b.length) > maxEdits) return maxEdits + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2]! + 1);
+      }
+      current.push(value);
+      rowMinimum = Math.min(rowMinimum, value);
+    }
+    if (rowMinimum > maxEdits) return maxEdits + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length]!;
+}
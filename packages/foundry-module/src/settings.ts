@@ -42,8 +42,10 @@ export class ModuleSettings {
           html.find('.rebuild-index-btn').click(() => {
             const bridge = (globalThis as any).foundryMCPBridge;
             if (bridge?.dataAccess?.rebuildEnhancedCreatureIndex) {
-              ui.notifications?.info('Rebuilding enhanced creature index...');
-              bridge.dataAccess.rebuildEnhancedCreatureIndex();
+              ui.notifications?.info('Rebuilding enhanced creature and item indexes...');
+              // One after the other: both builds load whole compendium packs
+              bridge.dataAccess.rebuildEnhancedCreatureIndex()
+                .then(() => bridge.dataAccess.rebuildEnhancedItemIndex?.());
             }
           });
         }
@@ -263,8 +263,12 @@ export class SocketBridge {
 
       this.log(`${validWalls.length} valid walls out of ${wallsData.length} total`);
 
+      // Detected coordinates are image pixels; the scene itself starts after the padding
+      const offsetX = scene.dimensions?.sceneX ?? 0;
+      const offsetY = scene.dimensions?.sceneY ?? 0;
+
       const wallDocuments = validWalls.map((wall: any) => ({
-        c: wall.c, // Wall coordinates [x1, y1, x2, y2]
+        c: [wall.c[0] + offsetX, wall.c[1] + offsetY, wall.c[2] + offsetX, wall.c[3] + offsetY], // Wall coordinates [x1, y1, x2, y2]
         move: wall.movement || 0,
         sense: wall.sight || 0,
         doorSound: "",
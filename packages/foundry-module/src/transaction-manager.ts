@@ -1,9 +1,23 @@
 import { MODULE_ID } from './constants.js';
 
+export type TransactionEntityType =
+  | 'Actor'
+  | 'Token'
+  | 'Scene'
+  | 'Item'
+  | 'ActiveEffect'
+  | 'JournalEntry'
+  | 'JournalEntryPage'
+  | 'RollTable'
+  | 'TableResult'
+  | 'Combat'
+  | 'ChatMessage';
+
 export interface TransactionAction {
   type: 'create' | 'update' | 'delete';
-  entityType: 'Actor' | 'Token' | 'Scene' | 'Item';
+  entityType: TransactionEntityType;
   entityId?: string;
+  parentId?: string;
   originalData?: any;
   newData?: any;
   rollbackAction?: () => Promise<void>;
@@ -123,6 +137,11 @@ export class TransactionManager {
    * Rollback a specific action
    */
   private async rollbackAction(action: TransactionAction): Promise<void> {
+    if (action.rollbackAction) {
+      await action.rollbackAction();
+      return;
+    }
+
     switch (action.type) {
       case 'create':
         await this.rollbackCreate(action);
@@ -146,27 +165,9 @@ export class TransactionManager {
       throw new Error('Cannot rollback create action: missing entityId');
     }
 
-    switch (action.entityType) {
-      case 'Actor':
-        const actor = game.actors.get(action.entityId);
-        if (actor) {
-          await actor.delete();
-        }
-        break;
-        
-      case 'Token':
-        // Find token in current scene
-        const scene = (game.scenes as any).current;
-        if (scene) {
-          const token = scene.tokens.get(action.entityId);
-          if (token) {
-            await token.delete();
-          }
-        }
-        break;
-        
-      default:
-        throw new Error(`Rollback not implemented for entity type: ${action.entityType}`);
+    const document = this.getDocument(action.entityType, action.entityId, action.parentId);
+    if (document) {
+      await document.delete();
     }
   }
 
@@ -178,37 +179,78 @@ export class TransactionManager {
       throw new Error('Cannot rollback update action: missing entityId or originalData');
     }
 
-    switch (action.entityType) {
-      case 'Actor':
-        const actor = game.actors.get(action.entityId);
-        if (actor) {
-          await actor.update(action.originalData);
-        }
-        break;
-        
-      default:
-        throw new Error(`Rollback not implemented for entity type: ${action.entityType}`);
+    const document = this.getDocument(action.entityType, action.entityId, action.parentId);
+    if (!document) {
+      throw new Error(`${action.entityType} ${action.entityId} no longer exists`);
     }
+
+    await document.update(action.originalData);
   }
 
   /**
-   * Rollback a delete action (recreate the entity)
+   * Rollback a delete action (recreate the entity with its original id)
    */
   private async rollbackDelete(action: TransactionAction): Promise<void> {
     if (!action.originalData) {
       throw new Error('Cannot rollback delete action: missing originalData');
     }
 
-    switch (action.entityType) {
-      case 'Actor':
-        await Actor.create(action.originalData);
-        break;
-        
+    if (this.isEmbedded(action.entityType)) {
+      const parent = this.getParent(action.entityType, action.parentId);
+      if (!parent) {
+        throw new Error(`Parent of ${action.entityType} ${action.entityId} no longer exists`);
+      }
+      await parent.createEmbeddedDocuments(action.entityType, [action.originalData], { keepId: true });
+      return;
+    }
+
+    const documentClass = (CONFIG as any)[action.entityType]?.documentClass;
+    if (!documentClass) {
+      throw new Error(`Rollback not implemented for entity type: ${action.entityType}`);
+    }
+    await documentClass.create(action.originalData, { keepId: true });
+  }
+
+  /**
+   * Look up a world document, or an embedded document within its parent
+   */
+  private getDocument(entityType: TransactionEntityType, entityId: string, parentId?: string): any {
+    if (this.isEmbedded(entityType)) {
+      return this.getParent(entityType, parentId)?.getEmbeddedDocument(entityType, entityId) ?? null;
+    }
+
+    const collections: Record<string, any> = {
+      Actor: game.actors,
+      Scene: game.scenes,
+      JournalEntry: game.journal,
+      RollTable: game.tables,
+      Combat: (game as any).combats,
+      ChatMessage: (game as any).messages,
+    };
+
+    return collections[entityType]?.get(entityId) ?? null;
+  }
+
+  private getParent(entityType: TransactionEntityType, parentId?: string): any {
+    switch (entityType) {
+      case 'Item':
+      case 'ActiveEffect':
+        return parentId ? game.actors.get(parentId) : null;
+      case 'Token':
+        return parentId ? game.scenes.get(parentId) : (game.scenes as any).current;
+      case 'JournalEntryPage':
+        return parentId ? game.journal.get(parentId) : null;
+      case 'TableResult':
+        return parentId ? game.tables.get(parentId) : null;
       default:
-        throw new Error(`Rollback not implemented for entity type: ${action.entityType}`);
+        return null;
     }
   }
 
+  private isEmbedded(entityType: TransactionEntityType): boolean {
+    return ['Item', 'ActiveEffect', 'Token', 'JournalEntryPage', 'TableResult'].includes(entityType);
+  }
+
   /**
    * Get active transactions
    */
@@ -261,6 +303,114 @@ export class TransactionManager {
       entityId: tokenId,
     };
   }
+
+  /**
+   * Create rollback action for any created document
+   */
+  createCreationAction(entityType: TransactionEntityType, entityId: string, parentId?: string): TransactionAction {
+    return {
+      type: 'create',
+      entityType,
+      entityId,
+      ...(parentId ? { parentId } : {}),
+    };
+  }
+
+  /**
+   * Capture the current values of the fields an update is about to change
+   * Fields that do not exist yet are restored by deleting them ("-=" keys)
+   */
+  captureUpdate(entityType: TransactionEntityType, entityId: string, updateData: Record<string, any>, parentId?: string): TransactionAction | null {
+    const document = this.getDocument(entityType, entityId, parentId);
+    if (!document) {
+      return null;
+    }
+
+    const source = document.toObject();
+    const originalData: Record<string, any> = {};
+
+    for (const key of Object.keys(foundry.utils.flattenObject(updateData))) {
+      const value = foundry.utils.getProperty(source, key);
+      if (value === undefined) {
+        const path = key.split('.');
+        const field = path.pop();
+        originalData[[...path, `-=${field}`].join('.')] = null;
+      } else {
+        originalData[key] = foundry.utils.deepClone(value);
+      }
+    }
+
+    return {
+      type: 'update',
+      entityType,
+      entityId: document.id,
+      ...(parentId ? { parentId } : {}),
+      originalData,
+    };
+  }
+
+  /**
+   * Capture a document's full data before it is deleted
+   */
+  captureDeletion(entityType: TransactionEntityType, entityId: string, parentId?: string): TransactionAction | null {
+    const document = this.getDocument(entityType, entityId, parentId);
+    if (!document) {
+      return null;
+    }
+
+    return {
+      type: 'delete',
+      entityType,
+      entityId: document.id,
+      ...(parentId ? { parentId } : {}),
+      originalData: document.toObject(),
+    };
+  }
+
+  /**
+   * Capture an actor's Active Effects so condition changes can be reverted as a whole:
+   * rollback deletes effects added since, recreates removed ones and restores changed ones
+   */
+  captureActorEffects(actorIdentifier: string): TransactionAction | null {
+    const actor = game.actors.get(actorIdentifier) ?? game.actors.getName(actorIdentifier);
+    if (!actor?.id) {
+      return null;
+    }
+
+    const actorId = actor.id;
+    const originalEffects: any[] = Array.from((actor as any).effects || []).map((effect: any) => effect.toObject());
+
+    return {
+      type: 'update',
+      entityType: 'ActiveEffect',
+      entityId: actorId,
+      parentId: actorId,
+      originalData: originalEffects,
+      rollbackAction: async () => {
+        const current = game.actors.get(actorId) as any;
+        if (!current) {
+          throw new Error(`Actor ${actorId} no longer exists`);
+        }
+
+        const originalIds = new Set(originalEffects.map(effect => effect._id));
+        const currentIds = new Set(Array.from(current.effects || []).map((effect: any) => effect.id));
+
+        const added = Array.from(currentIds).filter(id => !originalIds.has(id));
+        const removed = originalEffects.filter(effect => !currentIds.has(effect._id));
+        const changed = originalEffects.filter(effect => currentIds.has(effect._id));
+
+        if (added.length > 0) {
+          await current.deleteEmbeddedDocuments('ActiveEffect', added);
+        }
+        if (removed.length > 0) {
+          await current.createEmbeddedDocuments('ActiveEffect', removed, { keepId: true });
+        }
+        if (changed.length > 0) {
+          await current.updateEmbeddedDocuments('ActiveEffect', changed);
+        }
+      },
+    };
+  }
 }
 
 // Export singleton instance
@@ -10,6 +10,24 @@ import { spawn, ChildProcess } from 'child_process';
 
 import { config } from './config.js';
 
+import { formatDryRunPreview, getToolOutputText, runDryRun, withDryRunArgument } from './dry-run.js';
+
+import { DocumentChange, FoundryResources } from './resources.js';
+
+import { FoundryPrompts } from './prompts.js';
+
+import { handleRemoteProgress, ProgressReporter, RemoteProgressUpdate, runWithProgress } from './progress.js';
+
+import { ToolProvider, ToolRegistry } from './tool-registry.js';
+
+import { DetectedWall, detectWalls } from './wall-detection.js';
+
+import { readPngSize } from './utils/png-decoder.js';
+
+import type { FloorInput, GenerateMapInput, TiledMapInput } from './job-queue.js';
+
+import { DEFAULT_TILE_OVERLAP, generateTiledImage, MAX_TILES_PER_SIDE, planTiles } from './tiled-map.js';
+
 import { Logger } from './logger.js';
 
 import { FoundryClient } from './foundry-client.js';
@@ -56,14 +74,33 @@ import { OwnershipTools } from './tools/ownership.js';
 
 import { MapGenerationTools } from './tools/map-generation.js';
 
+import { PortraitGenerationTools } from './tools/portrait-generation.js';
+
 import { RollTableTools } from './tools/rolltable-management.js';
 
+import { OpposedTestTools } from './tools/opposed-test.js';
+
+import { CombatTools } from './tools/combat.js';
+import { EncounterBuilderTools } from './tools/encounter-builder.js';
+
+import { AttackTools } from './tools/attack.js';
+
+import { ConditionsTools } from './tools/conditions.js';
+
+import { ChangeLogTools } from './tools/change-log.js';
+
 const CONTROL_HOST = '127.0.0.1';
 
 const CONTROL_PORT = 31414;
 
 const LOCK_FILE = path.join(os.tmpdir(), 'foundry-mcp-backend.lock');
 
+const FOUNDRY_DATA_DIR = path.join(os.homedir(), 'AppData', 'Local', 'FoundryVTT', 'Data');
+
+const PORTRAIT_SIZE = 1024;
+
+const MAX_FLOORS = 5;
+
 function getBundledPythonPath(): string {
   // Detect installation directory based on current executable location
   let installDir = path.join(os.homedir(), 'AppData', 'Local', 'FoundryMCPServer');
@@ -593,11 +630,23 @@ async function handleGenerateMapRequest(message: any, jobQueue: any, comfyuiClie
       throw new Error('Scene name is required and must be a string');
     }
 
+    // Resolve the style up front so an unknown name fails here, listing the available ones
+    const style = typeof data.style === 'string' && data.style.trim() ? data.style.trim().toLowerCase() : undefined;
+    if (style) {
+      comfyuiClient.getWorkflowTemplates().get(style, 'txt2img');
+    }
+
+    if (data.seed !== undefined && !isValidSeed(data.seed)) {
+      throw new Error('Seed must be a non-negative integer');
+    }
+
     const params = {
       prompt: data.prompt.trim(),
       scene_name: data.scene_name.trim(),
       size: data.size || 'medium',
-      grid_size: data.grid_size || 70
+      grid_size: data.grid_size || 70,
+      ...(style ? { style } : {}),
+      ...(data.seed !== undefined ? { seed: data.seed } : {})
     };
 
     // Create job using mapgen's JobQueue
@@ -612,6 +661,7 @@ async function handleGenerateMapRequest(message: any, jobQueue: any, comfyuiClie
     return {
       status: 'success',
       jobId: jobId,
+      seed: job.params.seed,
       message: 'Map generation started',
       estimatedTime: '30-90 seconds'
     };
@@ -650,6 +700,7 @@ async function handleCheckMapStatusRequest(data: any, jobQueue: any, logger: Log
         status: job.status,
         progress_percent: job.progress_percent,
         current_stage: job.current_stage,
+        seed: job.params.seed,
         result: job.result,
         error: job.error
       }
@@ -700,6 +751,11 @@ async function processMapGenerationInBackend(jobId: string, jobQueue: any, comfy
 
     logger.info('Starting background map generation processing', { jobId, params: job.params });
 
+    // Set for vary-map / edit-map-region jobs, which rework an existing scene's background
+    const edit = job.params.edit;
+    // Set for generate-portrait jobs, which produce actor art instead of a scene
+    const portrait = job.params.portrait;
+
     // Mark job as started (mapgen style)
     await jobQueue.markJobStarted(jobId);
 
@@ -711,27 +767,67 @@ async function processMapGenerationInBackend(jobId: string, jobQueue: any, comfy
       stage: 'Starting processing...'
     });
 
-    // Ensure ComfyUI is running
-    const healthInfo = await comfyuiClient.checkHealth();
-    if (!healthInfo.available) {
-      await comfyuiClient.startService();
+    if (job.params.tiled) {
+      await processTiledMapInBackend(job, jobQueue, comfyuiClient, logger, foundryClient);
+      return;
     }
 
-    await jobQueue.updateJobProgress(jobId, 25, 'Submitting to ComfyUI...');
-    foundryClient.sendMessage({
-      type: 'map-generation-progress',
-      jobId: jobId,
-      progress: 25,
-      stage: 'Submitting to ComfyUI...'
-    });
+    // A job resumed after a backend restart keeps its ComfyUI prompt; only submit when there is none
+    let promptId: string | undefined = job.comfyui_job_id;
 
-    // Submit to ComfyUI (using mapgen's client)
-    const sizePixels = comfyuiClient.getSizePixels(job.params.size as any);
-    const comfyuiJob = await comfyuiClient.submitJob({
-      prompt: job.params.prompt,
-      width: sizePixels,
-      height: sizePixels
-    });
+    if (!promptId) {
+      // Ensure ComfyUI is running
+      const healthInfo = await comfyuiClient.checkHealth();
+      if (!healthInfo.available) {
+        await comfyuiClient.startService();
+      }
+
+      await jobQueue.updateJobProgress(jobId, 25, 'Submitting to ComfyUI...');
+      foundryClient.sendMessage({
+        type: 'map-generation-progress',
+        jobId: jobId,
+        progress: 25,
+        stage: 'Submitting to ComfyUI...'
+      });
+
+      // Submit to ComfyUI (using mapgen's client)
+      let submission: any;
+      if (edit) {
+        // Variations start from the scene's current background
+        const source = await readFoundryImage(edit.source_image);
+        const inputImage = await comfyuiClient.uploadImage(source, `scene_${edit.scene_id}_${jobId}${path.extname(edit.source_image.split('?')[0]) || '.png'}`);
+        submission = {
+          prompt: job.params.prompt,
+          width: edit.width,
+          height: edit.height,
+          style: job.params.style,
+          inputImage,
+          denoise: edit.strength,
+          ...(edit.region ? { mask: edit.region } : {})
+        };
+      } else if (portrait) {
+        submission = {
+          prompt: job.params.prompt,
+          width: PORTRAIT_SIZE,
+          height: PORTRAIT_SIZE,
+          style: job.params.style,
+          mode: 'portrait'
+        };
+      } else {
+        const sizePixels = comfyuiClient.getSizePixels(job.params.size as any);
+        submission = {
+          prompt: job.params.prompt,
+          width: sizePixels,
+          height: sizePixels,
+          style: job.params.style
+        };
+      }
+
+      // The job's recorded seed, so regenerate-map can reproduce the image
+      const comfyuiJob = await comfyuiClient.submitJob({ ...submission, seed: job.params.seed });
+      promptId = comfyuiJob.prompt_id;
+      await jobQueue.setComfyUIJobId(jobId, promptId);
+    }
 
     // Wait for completion (mapgen style)
     await jobQueue.updateJobProgress(jobId, 50, 'Generating battlemap...');
@@ -742,11 +838,11 @@ async function processMapGenerationInBackend(jobId: string, jobQueue: any, comfy
       stage: 'Generating battlemap...'
     });
 
-    let status = await comfyuiClient.getJobStatus(comfyuiJob.prompt_id);
+    let status = await comfyuiClient.getJobStatus(promptId);
 
     while (status === 'queued' || status === 'running') {
       await new Promise(resolve => setTimeout(resolve, 5000));
-      status = await comfyuiClient.getJobStatus(comfyuiJob.prompt_id);
+      status = await comfyuiClient.getJobStatus(promptId);
 
       if (status === 'running') {
         await jobQueue.updateJobProgress(jobId, 70, 'AI generating battlemap...');
@@ -767,7 +863,7 @@ async function processMapGenerationInBackend(jobId: string, jobQueue: any, comfy
     await jobQueue.updateJobProgress(jobId, 85, 'Downloading image...');
 
     // Get the generated image filenames from ComfyUI history
-    const imageFilenames = await comfyuiClient.getJobImages(comfyuiJob.prompt_id);
+    const imageFilenames = await comfyuiClient.getJobImages(promptId);
     if (!imageFilenames || imageFilenames.length === 0) {
       throw new Error('No images found in ComfyUI job output');
     }
@@ -779,18 +875,38 @@ async function processMapGenerationInBackend(jobId: string, jobQueue: any, comfy
       throw new Error(`Failed to download generated image: ${firstImageFilename}`);
     }
 
+    if (portrait) {
+      // The bridge stores the portrait in the world folder and cuts the round token from it
+      await jobQueue.updateJobProgress(jobId, 90, 'Uploading portrait and token...');
+      const art = await foundryClient.query('foundry-mcp-bridge.setActorArt', {
+        actorId: portrait.actor_id,
+        image: imageBuffer.toString('base64'),
+        filename: `portrait_${portrait.actor_id}_${Date.now()}.png`
+      });
+      if (art?.error) {
+        throw new Error(art.error);
+      }
+
+      await jobQueue.updateJobProgress(jobId, 100, 'Complete');
+      await jobQueue.markJobComplete(jobId, {
+        generation_time_ms: Date.now() - (job.started_at || job.created_at),
+        image_url: art.img
+      });
+
+      logger.info('Portrait generation completed successfully', { jobId, actorId: portrait.actor_id });
+      return;
+    }
+
     await jobQueue.updateJobProgress(jobId, 90, 'Saving image...');
 
     // Save image to Foundry-accessible location (like mapgen does)
     const fs = await import('fs').then(m => m.promises);
-    const path = await import('path');
-    const os = await import('os');
 
     const timestamp = Date.now();
     const filename = `map_${jobId}_${timestamp}.png`;
 
     // Save to Foundry's data directory (like working mapgen system)
-    const foundryDataDir = path.join(os.homedir(), 'AppData', 'Local', 'FoundryVTT', 'Data', 'modules', 'foundry-mcp-bridge', 'generated-maps');
+    const foundryDataDir = path.join(FOUNDRY_DATA_DIR, 'modules', 'foundry-mcp-bridge', 'generated-maps');
     const imagePath = path.join(foundryDataDir, filename);
     const webPath = `modules/foundry-mcp-bridge/generated-maps/${filename}`;
 
@@ -800,10 +916,42 @@ async function processMapGenerationInBackend(jobId: string, jobQueue: any, comfy
     // Save the image
     await fs.writeFile(imagePath, imageBuffer);
 
+    if (edit) {
+      // Swap the background in place: the scene's tokens, walls and lights stay where they are.
+      // The previous image is left on disk so undo-change can restore it.
+      await jobQueue.updateJobProgress(jobId, 95, 'Updating scene background...');
+      const update = await foundryClient.query('foundry-mcp-bridge.updateSceneBackground', { sceneId: edit.scene_id, src: webPath });
+      if (update?.error) {
+        throw new Error(update.error);
+      }
+
+      await jobQueue.updateJobProgress(jobId, 100, 'Complete');
+      await jobQueue.markJobComplete(jobId, {
+        generation_time_ms: Date.now() - (job.started_at || job.created_at),
+        image_url: webPath
+      });
+
+      logger.info('Map variation completed successfully', { jobId, sceneId: edit.scene_id });
+      return;
+    }
+
+    const sceneSize = comfyuiClient.getSizePixels(job.params.size as any);
+    const gridSize = job.params.grid_size || 100;
+
+    // Trace walls and doors from the image so the scene works with vision straight away
+    await jobQueue.updateJobProgress(jobId, 92, 'Detecting walls and structures...');
+    foundryClient.sendMessage({
+      type: 'map-generation-progress',
+      jobId: jobId,
+      progress: 92,
+      stage: 'Detecting walls and structures...'
+    });
+
+    const walls = traceMapWalls(imageBuffer, gridSize, sceneSize, sceneSize, jobId, logger);
+
     await jobQueue.updateJobProgress(jobId, 95, 'Creating scene data...');
 
     // Create scene data payload (simplified version of mapgen's FoundryIntegrator)
-    const sceneSize = comfyuiClient.getSizePixels(job.params.size as any);
     // Debug: Log what we received
     logger.info('Job params received', {
       scene_name: job.params.scene_name,
@@ -817,65 +965,36 @@ async function processMapGenerationInBackend(jobId: string, jobQueue: any, comfy
 
     const sceneName = job.params.scene_name.trim();
     logger.info('Using scene name', { scene_name: sceneName });
-    const sceneData = {
+    const sceneData = buildGeneratedSceneData({
       name: sceneName,
-      img: webPath,
-      background: { src: webPath }, // Foundry v13 compatibility
+      webPath,
       width: sceneSize,
       height: sceneSize,
-      padding: 0.25,
-      initial: {
-        x: sceneSize / 2,
-        y: sceneSize / 2,
-        scale: 1
-      },
-      backgroundColor: "#999999",
-      grid: {
-        type: 1, // CONST.GRID_TYPES.SQUARE
-        size: job.params.grid_size || 100,
-        color: "#000000",
-        alpha: 0.2,
-        distance: 5,
-        units: "ft"
-      },
-      tokenVision: true,
-      fogExploration: true,
-      fogReset: Date.now(),
-      globalLight: false,
-      darkness: 0,
-      navigation: true,
-      active: false,
-      permission: {
-        default: 2 // CONST.DOCUMENT_OWNERSHIP_LEVELS.OBSERVER
-      },
-      walls: [] // Could add wall detection here later
-    };
-
-    // Mark job as complete with full result data
-    await jobQueue.updateJobProgress(jobId, 100, 'Complete');
-    await jobQueue.markJobComplete(jobId, {
-      generation_time_ms: Date.now() - (job.started_at || job.created_at),
-      image_url: webPath,
-      foundry_scene_payload: sceneData
-    });
-
-    // Broadcast completion with scene data (like mapgen does)
-    foundryClient.broadcastMessage({
-      type: 'job-completed', // Use mapgen's message type
-      jobId: jobId,
-      data: {
-        status: 'completed',
-        result: sceneData, // Complete scene payload
-        image_path: webPath,
-        prompt: job.params.prompt
+      gridSize,
+      walls,
+      mapGeneration: {
+        job_id: jobId,
+        prompt: job.params.prompt,
+        scene_name: sceneName,
+        size: job.params.size,
+        grid_size: gridSize,
+        ...(job.params.style ? { style: job.params.style } : {}),
+        seed: job.params.seed
       }
     });
 
+    await completeSceneJob(job, jobQueue, foundryClient, sceneData, walls.length);
+
     logger.info('Map generation completed successfully', { jobId });
 
   } catch (error: any) {
     logger.error('Background map generation processing failed', { jobId, error });
-    await jobQueue.markJobFailed(jobId, error.message);
+    const retryDelay: number | undefined = await jobQueue.markJobFailed(jobId, error.message);
+
+    if (retryDelay !== undefined) {
+      setTimeout(() => retryMapGenerationJob(jobId, jobQueue, comfyuiClient, logger, foundryClient), retryDelay);
+      return;
+    }
 
     // Emit failure to Foundry module
     foundryClient.sendMessage({
@@ -886,965 +1005,1242 @@ async function processMapGenerationInBackend(jobId: string, jobQueue: any, comfy
   }
 }
 
-async function startBackend(): Promise<void> {
-
-  // Logger: file output allowed; avoid stdout noise
+// Rerun a requeued job once its backoff has passed, unless it was cancelled in the meantime
+async function retryMapGenerationJob(jobId: string, jobQueue: any, comfyuiClient: any, logger: Logger, foundryClient: any): Promise<void> {
+  const job = await jobQueue.getJob(jobId);
+  if (job?.status !== 'queued') {
+    return;
+  }
 
-  const logger = new Logger({
+  logger.info('Retrying map generation job', { jobId, attempt: job.attempts + 1, maxAttempts: job.max_attempts });
+  processMapGenerationInBackend(jobId, jobQueue, comfyuiClient, logger, foundryClient).catch((error) => {
+    logger.error('Background map generation retry failed', { jobId, error });
+  });
+}
 
-    level: config.logLevel,
+// Tiled maps: every floor is outpainted tile by tile into one large background. Tiles are not
+// persisted, so a tiled job resumed after a restart starts over.
+async function processTiledMapInBackend(job: any, jobQueue: any, comfyuiClient: any, logger: Logger, foundryClient: any): Promise<void> {
+  const jobId = job.id;
+  const tiled: TiledMapInput = job.params.tiled;
+  const layout = planTiles(tiled.columns, tiled.rows, tiled.overlap);
+  const floors: FloorInput[] = tiled.floors?.length ? tiled.floors : [{ name: '', prompt: '' }];
+  const gridSize = job.params.grid_size || 70;
+  const sceneName = job.params.scene_name.trim();
+
+  // Outpaint with the style's "-inpaint" sibling when there is one (battlemap -> battlemap-inpaint)
+  const style = job.params.style;
+  const inpaintStyle = style && comfyuiClient.getWorkflowTemplates().list('inpaint').some((template: any) => template.name === `${style}-inpaint`)
+    ? `${style}-inpaint`
+    : undefined;
+
+  const healthInfo = await comfyuiClient.checkHealth();
+  if (!healthInfo.available) {
+    await comfyuiClient.startService();
+  }
 
-    format: config.logFormat,
+  const foundryDataDir = path.join(FOUNDRY_DATA_DIR, 'modules', 'foundry-mcp-bridge', 'generated-maps');
+  await fs.promises.mkdir(foundryDataDir, { recursive: true });
+
+  const totalTiles = layout.tiles.length * floors.length;
+  const scenes: any[] = [];
+  let wallsDetected = 0;
+
+  for (const [floorIndex, floor] of floors.entries()) {
+    const floorLabel = floors.length > 1 ? `floor "${floor.name}"` : 'the map';
+    const image = await generateTiledImage({
+      client: comfyuiClient,
+      logger,
+      layout,
+      prompt: floor.prompt ? `${job.params.prompt}, ${floor.prompt}` : job.params.prompt,
+      style,
+      inpaintStyle,
+      seed: job.params.seed + floorIndex * layout.tiles.length,
+      label: `${jobId}_${floorIndex}`,
+      onTile: async (completed, total) => {
+        const progress = 10 + Math.round((75 * (floorIndex * total + completed)) / totalTiles);
+        const stage = `Generated tile ${completed}/${total} of ${floorLabel}`;
+        await jobQueue.updateJobProgress(jobId, progress, stage);
+        foundryClient.sendMessage({ type: 'map-generation-progress', jobId, progress, stage });
+      }
+    });
 
-    enableConsole: false,
+    const filename = `map_${jobId}_${floorIndex}_${Date.now()}.png`;
+    await fs.promises.writeFile(path.join(foundryDataDir, filename), image);
+    const webPath = `modules/foundry-mcp-bridge/generated-maps/${filename}`;
 
-    enableFile: true,
+    await jobQueue.updateJobProgress(jobId, 88, `Detecting walls on ${floorLabel}...`);
+    const walls = traceMapWalls(image, gridSize, layout.width, layout.height, jobId, logger);
+    wallsDetected += walls.length;
+
+    scenes.push(buildGeneratedSceneData({
+      name: floors.length > 1 ? `${sceneName} - ${floor.name}` : sceneName,
+      webPath,
+      width: layout.width,
+      height: layout.height,
+      gridSize,
+      walls,
+      mapGeneration: {
+        job_id: jobId,
+        prompt: job.params.prompt,
+        scene_name: sceneName,
+        size: job.params.size,
+        grid_size: gridSize,
+        ...(style ? { style } : {}),
+        seed: job.params.seed,
+        tiled,
+        ...(floors.length > 1 ? { floor: floorIndex } : {})
+      }
+    }));
+  }
 
-    filePath: path.join(os.tmpdir(), 'foundry-mcp-server', 'mcp-server.log'),
+  if (scenes.length === 1) {
+    await completeSceneJob(job, jobQueue, foundryClient, scenes[0], wallsDetected);
+    logger.info('Tiled map generation completed successfully', { jobId, width: layout.width, height: layout.height });
+    return;
+  }
 
+  // Several floors need their scene IDs back to link them, so they are created through a query
+  await jobQueue.updateJobProgress(jobId, 95, 'Creating linked floor scenes...');
+  const stairs = tiled.stairs ?? { x: Math.floor(layout.width / gridSize / 2), y: Math.floor(layout.height / gridSize / 2) };
+  const created = await foundryClient.query('foundry-mcp-bridge.createFloorScenes', {
+    scenes,
+    stairs: { x: (stairs.x + 0.5) * gridSize, y: (stairs.y + 0.5) * gridSize },
+    journalName: `${sceneName} - Floors`
   });
+  if (created?.error) {
+    throw new Error(created.error);
+  }
 
-  logger.info('Starting Foundry MCP Backend', {
+  await jobQueue.updateJobProgress(jobId, 100, 'Complete');
+  await jobQueue.markJobComplete(jobId, {
+    generation_time_ms: Date.now() - (job.started_at || job.created_at),
+    image_url: scenes[0].img,
+    walls_detected: wallsDetected,
+    scenes: created.scenes.map((scene: any) => ({ id: scene.id, name: scene.name }))
+  });
 
-    version: config.server.version,
+  logger.info('Multi-floor map generation completed successfully', { jobId, floors: floors.length, journalId: created.journalId });
+}
 
-    foundryHost: config.foundry.host,
+// Trace walls and doors from the image so the scene works with vision straight away
+function traceMapWalls(imageBuffer: Buffer, gridSize: number, sceneWidth: number, sceneHeight: number, jobId: string, logger: Logger): DetectedWall[] {
+  try {
+    const detection = detectWalls(imageBuffer, { gridSize, sceneWidth, sceneHeight });
+    logger.info('Wall detection complete', {
+      jobId,
+      walls: detection.wallCount,
+      doors: detection.doorCount,
+      solidCells: detection.solidCells
+    });
+    return detection.walls;
+  } catch (error: any) {
+    // A map without walls is still usable; don't fail the job over it
+    logger.warn('Wall detection failed, creating scene without walls', { jobId, error: error.message });
+    return [];
+  }
+}
 
-    foundryPort: config.foundry.port,
+// Scene payload for a generated map (simplified version of mapgen's FoundryIntegrator)
+function buildGeneratedSceneData(options: {
+  name: string;
+  webPath: string;
+  width: number;
+  height: number;
+  gridSize: number;
+  walls: DetectedWall[];
+  mapGeneration: Record<string, any>;
+}): any {
+  return {
+    name: options.name,
+    img: options.webPath,
+    background: { src: options.webPath }, // Foundry v13 compatibility
+    width: options.width,
+    height: options.height,
+    padding: 0.25,
+    initial: {
+      x: options.width / 2,
+      y: options.height / 2,
+      scale: 1
+    },
+    backgroundColor: "#999999",
+    grid: {
+      type: 1, // CONST.GRID_TYPES.SQUARE
+      size: options.gridSize,
+      color: "#000000",
+      alpha: 0.2,
+      distance: 5,
+      units: "ft"
+    },
+    tokenVision: true,
+    fogExploration: true,
+    fogReset: Date.now(),
+    globalLight: false,
+    darkness: 0,
+    navigation: true,
+    active: false,
+    permission: {
+      default: 2 // CONST.DOCUMENT_OWNERSHIP_LEVELS.OBSERVER
+    },
+    // Kept on the scene so regenerate-map still works after the job has left the history
+    flags: {
+      'foundry-mcp-bridge': {
+        mapGeneration: options.mapGeneration
+      }
+    },
+    walls: options.walls
+  };
+}
 
+// Mark a map job complete and have the Foundry module create its scene
+async function completeSceneJob(job: any, jobQueue: any, foundryClient: any, sceneData: any, wallsDetected: number): Promise<void> {
+  await jobQueue.updateJobProgress(job.id, 100, 'Complete');
+  await jobQueue.markJobComplete(job.id, {
+    generation_time_ms: Date.now() - (job.started_at || job.created_at),
+    image_url: sceneData.img,
+    walls_detected: wallsDetected,
+    foundry_scene_payload: sceneData
   });
 
-  // Initialize Foundry client and tools
+  // Broadcast completion with scene data (like mapgen does)
+  foundryClient.broadcastMessage({
+    type: 'job-completed', // Use mapgen's message type
+    jobId: job.id,
+    data: {
+      status: 'completed',
+      result: sceneData, // Complete scene payload
+      image_path: sceneData.img,
+      prompt: job.params.prompt
+    }
+  });
+}
 
-  const foundryClient = new FoundryClient(config.foundry, logger);
+// Pick up jobs that were queued or generating when the backend last stopped
+async function resumeMapGenerationJobs(jobQueue: any, comfyuiClient: any, logger: Logger, foundryClient: any): Promise<void> {
+  const jobs = await jobQueue.getUnfinishedJobs();
+  if (jobs.length === 0) {
+    return;
+  }
 
-  const characterTools = new CharacterTools({ foundryClient, logger });
+  logger.info('Resuming unfinished map generation jobs', { count: jobs.length, jobIds: jobs.map((job: any) => job.id) });
 
-  const careerAdvancementTools = new CareerAdvancementTools({ foundryClient, logger });
+  for (const job of jobs) {
+    // One job that can't be reconciled must not keep the others from resuming
+    try {
+      if (job.comfyui_job_id) {
+        const status = await comfyuiClient.getJobStatus(job.comfyui_job_id);
+        logger.info('Reconciled map job with ComfyUI', { jobId: job.id, promptId: job.comfyui_job_id, status });
+
+        if (status === 'failed') {
+          // ComfyUI no longer knows the prompt (usually because it restarted too); retry with a new one if attempts remain
+          const retryDelay: number | undefined = await jobQueue.markJobFailed(job.id, 'ComfyUI prompt was lost while the backend was offline');
+          if (retryDelay === undefined) {
+            continue;
+          }
+        }
+      }
 
-  const corruptionMutationTools = new CorruptionMutationTools({ foundryClient, logger });
+      await processMapGenerationInBackend(job.id, jobQueue, comfyuiClient, logger, foundryClient);
+    } catch (error) {
+      logger.error('Failed to resume map generation job', { jobId: job.id, error });
+    }
+  }
+}
 
-  const fortuneFateTools = new FortuneFateTools({ foundryClient, logger });
+// Scene backgrounds are paths relative to Foundry's Data directory, or full URLs for remote assets
+async function readFoundryImage(src: string): Promise<Buffer> {
+  if (/^https?:\/\//i.test(src)) {
+    const response = await fetch(src, { signal: AbortSignal.timeout(30000) });
+    if (!response.ok) {
+      throw new Error(`Failed to download ${src}: HTTP ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
 
-  const criticalWoundsTools = new CriticalWoundsTools({ foundryClient, logger });
+  const imagePath = path.resolve(FOUNDRY_DATA_DIR, decodeURIComponent(src.split('?')[0]!).replace(/^\/+/, ''));
+  if (!imagePath.startsWith(path.resolve(FOUNDRY_DATA_DIR) + path.sep)) {
+    throw new Error(`Scene background ${src} is outside the Foundry Data directory`);
+  }
+  return fs.promises.readFile(imagePath);
+}
 
-  const advantageTools = new AdvantageTools({ foundryClient, logger });
+async function handleVaryMapRequest(data: any, jobQueue: any, comfyuiClient: any, logger: Logger, foundryClient: any): Promise<any> {
+  try {
+    if (!jobQueue || !comfyuiClient) {
+      throw new Error('Map generation components not initialized');
+    }
 
-  const diseaseInfectionTools = new DiseaseInfectionTools(foundryClient, logger);
+    if (!data?.prompt || typeof data.prompt !== 'string') {
+      throw new Error('Prompt is required and must be a string');
+    }
 
-  const inventoryManagementTools = new InventoryManagementTools(foundryClient, logger);
+    const style = typeof data.style === 'string' && data.style.trim() ? data.style.trim().toLowerCase() : undefined;
+    if (style) {
+      comfyuiClient.getWorkflowTemplates().get(style, data.region ? 'inpaint' : 'img2img');
+    }
 
-  const itemCreatorTools = new ItemCreatorTools({ foundryClient, logger });
+    const scene = await foundryClient.query('foundry-mcp-bridge.getSceneBackground', { scene_identifier: data.scene_identifier });
+    if (scene?.error) {
+      throw new Error(scene.error);
+    }
 
-  const prayerBlessingTools = new PrayerBlessingTools(foundryClient, logger);
+    const image = await readFoundryImage(scene.src);
+    const size = readPngSize(image) ?? { width: scene.width, height: scene.height };
+    if (!size.width || !size.height) {
+      throw new Error(`Could not determine the size of ${scene.src}`);
+    }
 
-  const spellMagicTools = new SpellMagicTools(foundryClient, logger);
+    // Grid squares from the map's top-left corner -> image pixels, snapped to the 8px latent grid
+    let region: { x: number; y: number; width: number; height: number } | undefined;
+    if (data.region) {
+      const scaleX = size.width / (scene.width || size.width);
+      const scaleY = size.height / (scene.height || size.height);
+      const x0 = Math.max(0, Math.floor((data.region.x * scene.gridSize * scaleX) / 8) * 8);
+      const y0 = Math.max(0, Math.floor((data.region.y * scene.gridSize * scaleY) / 8) * 8);
+      const x1 = Math.min(size.width, Math.ceil(((data.region.x + data.region.width) * scene.gridSize * scaleX) / 8) * 8);
+      const y1 = Math.min(size.height, Math.ceil(((data.region.y + data.region.height) * scene.gridSize * scaleY) / 8) * 8);
+      if (x1 <= x0 || y1 <= y0) {
+        throw new Error(`Region lies outside scene "${scene.name}"`);
+      }
+      region = { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+    }
 
-  const socialStatusTools = new SocialStatusTools(foundryClient, logger);
+    const strengthRaw = Number(data.strength);
+    const strength = Number.isFinite(strengthRaw) ? Math.min(1, Math.max(0.05, strengthRaw)) : (region ? 0.85 : 0.5);
 
-  const customNPCGeneratorTools = new CustomNPCGeneratorTools(foundryClient, logger);
+    const params = {
+      prompt: data.prompt.trim(),
+      scene_name: scene.name,
+      size: size.width <= 1024 ? 'small' : size.width <= 1536 ? 'medium' : 'large',
+      grid_size: scene.gridSize,
+      ...(style ? { style } : {}),
+      edit: {
+        scene_id: scene.id,
+        source_image: scene.src,
+        width: size.width,
+        height: size.height,
+        strength,
+        ...(region ? { region } : {})
+      }
+    };
 
-  const compendiumTools = new CompendiumTools({ foundryClient, logger });
+    const job = await jobQueue.createJob({ params });
 
-  const sceneTools = new SceneTools({ foundryClient, logger });
+    processMapGenerationInBackend(job.id, jobQueue, comfyuiClient, logger, foundryClient).catch((error) => {
+      logger.error('Background map variation failed', { jobId: job.id, error });
+    });
 
-  const actorCreationTools = new ActorCreationTools({ foundryClient, logger });
+    return {
+      status: 'success',
+      jobId: job.id,
+      sceneName: scene.name,
+      region,
+      strength,
+      message: 'Map variation started',
+      estimatedTime: '30-90 seconds'
+    };
 
-  const questCreationTools = new QuestCreationTools({ foundryClient, logger });
+  } catch (error: any) {
+    logger.error('Map variation request failed', { error: error.message });
+    return {
+      status: 'error',
+      message: error.message
+    };
+  }
+}
 
-  const diceRollTools = new DiceRollTools({ foundryClient, logger });
+async function handleGeneratePortraitRequest(data: any, jobQueue: any, comfyuiClient: any, logger: Logger, foundryClient: any): Promise<any> {
+  try {
+    if (!jobQueue || !comfyuiClient) {
+      throw new Error('Map generation components not initialized');
+    }
 
-  const campaignManagementTools = new CampaignManagementTools(foundryClient, logger);
+    if (!data?.actor_id || !data?.actor_name) {
+      throw new Error('actor_id and actor_name are required');
+    }
 
-  const ownershipTools = new OwnershipTools({ foundryClient, logger });
+    if (!data.prompt || typeof data.prompt !== 'string') {
+      throw new Error('Prompt is required and must be a string');
+    }
 
-  const rollTableTools = new RollTableTools(foundryClient, logger);
+    const style = typeof data.style === 'string' && data.style.trim() ? data.style.trim().toLowerCase() : undefined;
+    if (style) {
+      comfyuiClient.getWorkflowTemplates().get(style, 'portrait');
+    }
 
-  // Initialize mapgen-style backend components for map generation
-  let mapGenerationJobQueue: any = null;
-  let mapGenerationComfyUIClient: any = null;
+    const job = await jobQueue.createJob({
+      params: {
+        prompt: data.prompt.trim(),
+        scene_name: data.actor_name,
+        size: 'small',
+        ...(style ? { style } : {}),
+        portrait: {
+          actor_id: data.actor_id,
+          actor_name: data.actor_name
+        }
+      }
+    });
 
-  try {
-    // Import and initialize job queue and ComfyUI client
-    const { JobQueue } = await import('./job-queue.js');
-    const { ComfyUIClient } = await import('./comfyui-client.js');
+    processMapGenerationInBackend(job.id, jobQueue, comfyuiClient, logger, foundryClient).catch((error) => {
+      logger.error('Background portrait generation failed', { jobId: job.id, error });
+    });
 
-    mapGenerationJobQueue = new JobQueue({ logger });
-    mapGenerationComfyUIClient = new ComfyUIClient({ logger });
+    return {
+      status: 'success',
+      jobId: job.id,
+      message: 'Portrait generation started',
+      estimatedTime: '20-60 seconds'
+    };
 
-    logger.info('Map generation backend components initialized');
-  } catch (error) {
-    logger.warn('Failed to initialize map generation components', { error });
+  } catch (error: any) {
+    logger.error('Portrait generation request failed', { error: error.message });
+    return {
+      status: 'error',
+      message: error.message
+    };
   }
+}
 
-  // Set up global ComfyUI message handlers for WebSocket messages from Foundry BEFORE creating map tools
+async function handleRegenerateMapRequest(data: any, jobQueue: any, comfyuiClient: any, logger: Logger, foundryClient: any): Promise<any> {
+  try {
+    if (!jobQueue || !comfyuiClient) {
+      throw new Error('Map generation components not initialized');
+    }
 
-  (globalThis as any).backendComfyUIHandlers = {
+    // The original request comes from the job history or, once that has been pruned,
+    // from the flags generate-map leaves on the scene it created
+    let source: GenerateMapInput;
+    let sourceLabel: string;
+    if (data?.job_id) {
+      const job = await jobQueue.getJob(data.job_id);
+      if (!job) {
+        throw new Error(`Job ${data.job_id} not found; pass the scene it created instead`);
+      }
+      if (job.params.edit || job.params.portrait) {
+        throw new Error(`Job ${data.job_id} did not come from generate-map`);
+      }
+      source = job.params;
+      sourceLabel = `job ${job.id}`;
+    } else if (data?.scene_identifier) {
+      const scene = await foundryClient.query('foundry-mcp-bridge.getSceneBackground', { scene_identifier: data.scene_identifier });
+      if (scene?.error) {
+        throw new Error(scene.error);
+      }
+      if (!scene.mapGeneration) {
+        throw new Error(`Scene "${scene.name}" was not created by generate-map`);
+      }
+      source = scene.mapGeneration;
+      sourceLabel = `scene "${scene.name}"`;
+    } else {
+      throw new Error('job_id or scene_identifier is required');
+    }
 
-    handleMessage: async (message: any) => {
+    if (!isValidSeed(source.seed)) {
+      throw new Error(`No seed was recorded for ${sourceLabel}, so it cannot be reproduced`);
+    }
 
-      logger.info('Handling ComfyUI message', {
+    if (data.seed !== undefined && !isValidSeed(data.seed)) {
+      throw new Error('Seed must be a non-negative integer');
+    }
 
-        requestId: message.requestId,
+    const style = typeof data.style === 'string' && data.style.trim() ? data.style.trim().toLowerCase() : source.style;
+    if (style) {
+      comfyuiClient.getWorkflowTemplates().get(style, 'txt2img');
+    }
 
-        type: message.type,
+    // An explicit seed wins; new_seed leaves it to the job queue to pick a random one
+    const seed = data.seed ?? (data.new_seed ? undefined : source.seed);
+    const addition = typeof data.prompt_addition === 'string' ? data.prompt_addition.trim() : '';
+    const sceneName = typeof data.scene_name === 'string' && data.scene_name.trim()
+      ? data.scene_name.trim()
+      : `${source.scene_name ?? 'Generated Map'} (regenerated)`;
 
-        hasData: !!message.data
+    const params = {
+      prompt: addition ? `${source.prompt}, ${addition}` : source.prompt,
+      scene_name: sceneName,
+      size: source.size,
+      grid_size: source.grid_size ?? 70,
+      ...(style ? { style } : {}),
+      ...(seed !== undefined ? { seed } : {}),
+      ...(source.tiled ? { tiled: source.tiled } : {})
+    };
 
-      });
+    const job = await jobQueue.createJob({ params });
 
-      try {
+    processMapGenerationInBackend(job.id, jobQueue, comfyuiClient, logger, foundryClient).catch((error) => {
+      logger.error('Background map regeneration failed', { jobId: job.id, error });
+    });
 
-        let result: any;
+    return {
+      status: 'success',
+      jobId: job.id,
+      source: sourceLabel,
+      sourceSeed: source.seed,
+      seed: job.params.seed,
+      prompt: job.params.prompt,
+      sceneName,
+      size: params.size,
+      style,
+      message: 'Map regeneration started',
+      estimatedTime: '30-90 seconds'
+    };
 
-        switch (message.type) {
+  } catch (error: any) {
+    logger.error('Map regeneration request failed', { error: error.message });
+    return {
+      status: 'error',
+      message: error.message
+    };
+  }
+}
 
-          case 'start-comfyui-service':
+async function handleGenerateTiledMapRequest(data: any, jobQueue: any, comfyuiClient: any, logger: Logger, foundryClient: any): Promise<any> {
+  try {
+    if (!jobQueue || !comfyuiClient) {
+      throw new Error('Map generation components not initialized');
+    }
 
-            result = await startComfyUIService(logger);
+    if (!data?.prompt || typeof data.prompt !== 'string') {
+      throw new Error('Prompt is required and must be a string');
+    }
 
-            break;
+    if (!data.scene_name || typeof data.scene_name !== 'string') {
+      throw new Error('Scene name is required and must be a string');
+    }
 
-          case 'stop-comfyui-service':
-
-            result = await stopComfyUIService(logger);
-
-            break;
-
-          case 'check-comfyui-status':
-
-            result = await checkComfyUIStatus();
-
-            break;
-
-          // Map generation handlers (following existing tool pattern)
-          case 'generate-map-request':
-
-            result = await handleGenerateMapRequest(message, mapGenerationJobQueue, mapGenerationComfyUIClient, logger, foundryClient);
-
-            break;
-
-          case 'check-map-status-request':
-
-            result = await handleCheckMapStatusRequest(message.data, mapGenerationJobQueue, logger);
-
-            break;
-
-          case 'cancel-map-job-request':
-
-            result = await handleCancelMapJobRequest(message.data, mapGenerationJobQueue, logger);
-
-            break;
-
-          default:
-
-            logger.warn('Unknown ComfyUI message type', { type: message.type });
-
-            result = { status: 'error', message: `Unknown message type: ${message.type}` };
-
-        }
-
-        // Send response back through foundryClient if requestId is provided
-
-        if (message.requestId && foundryClient) {
-
-          const response = {
-
-            type: `${message.type}-response`,
-
-            requestId: message.requestId,
-
-            ...result
-
-          };
-
-          // Send response to Foundry via WebSocket
-
-          try {
-
-            foundryClient.sendMessage(response);
-
-          } catch (error) {
-
-            logger.error('Failed to send ComfyUI response to Foundry', { error, response });
-
-          }
-
-        }
-
-        return result;
-
-      } catch (error: any) {
-
-        logger.error('ComfyUI message handling failed', {
-
-          requestId: message.requestId,
-
-          type: message.type,
-
-          error: error.message
-
-        });
-
-        const errorResult = {
-
-          status: 'error',
-
-          message: error.message
-
-        };
-
-        // Send error response if requestId provided
-
-        if (message.requestId && foundryClient) {
-
-          try {
-
-            foundryClient.sendMessage({
-
-              type: `${message.type}-response`,
-
-              requestId: message.requestId,
-
-              ...errorResult
-
-            });
-
-          } catch (sendError) {
-
-            logger.error('Failed to send ComfyUI error response', { sendError });
+    const style = typeof data.style === 'string' && data.style.trim() ? data.style.trim().toLowerCase() : undefined;
+    if (style) {
+      comfyuiClient.getWorkflowTemplates().get(style, 'txt2img');
+    }
 
-          }
+    if (data.seed !== undefined && !isValidSeed(data.seed)) {
+      throw new Error('Seed must be a non-negative integer');
+    }
 
-        }
-
-        return errorResult;
+    // Throws with the allowed ranges when the grid or overlap is out of bounds
+    const layout = planTiles(data.columns, data.rows, data.overlap ?? DEFAULT_TILE_OVERLAP);
+    const gridSize = data.grid_size || 70;
 
+    const floors: FloorInput[] | undefined = Array.isArray(data.floors) && data.floors.length > 0 ? data.floors : undefined;
+    if (floors) {
+      if (floors.length < 2 || floors.length > MAX_FLOORS) {
+        throw new Error(`A multi-floor map needs 2 to ${MAX_FLOORS} floors`);
+      }
+      if (floors.some(floor => typeof floor?.name !== 'string' || !floor.name.trim() || typeof floor.prompt !== 'string')) {
+        throw new Error('Every floor needs a name and a prompt');
       }
-
     }
 
-  };
-
-  // Now create MapGenerationTools with the handlers available
-
-  const mapGenerationTools = new MapGenerationTools({
-    foundryClient,
-    logger,
-    backendComfyUIHandlers: (globalThis as any).backendComfyUIHandlers
-  });
-
-  const allTools = [
-
-    ...characterTools.getToolDefinitions(),
-
-    ...careerAdvancementTools.getToolDefinitions(),
-
-    ...corruptionMutationTools.getToolDefinitions(),
-
-    ...fortuneFateTools.getToolDefinitions(),
-
-    ...criticalWoundsTools.getToolDefinitions(),
-
-    ...advantageTools.getToolDefinitions(),
-
-    ...diseaseInfectionTools.getToolDefinitions(),
-
-    ...inventoryManagementTools.getToolDefinitions(),
-
-    ...itemCreatorTools.getToolDefinitions(),
-
-    ...prayerBlessingTools.getToolDefinitions(),
-
-    ...spellMagicTools.getToolDefinitions(),
-
-    ...socialStatusTools.getToolDefinitions(),
-
-    ...customNPCGeneratorTools.getToolDefinitions(),
-
-    ...compendiumTools.getToolDefinitions(),
-
-    ...sceneTools.getToolDefinitions(),
-
-    ...actorCreationTools.getToolDefinitions(),
-
-    ...questCreationTools.getToolDefinitions(),
-
-    ...diceRollTools.getToolDefinitions(),
-
-    ...campaignManagementTools.getToolDefinitions(),
-
-    ...ownershipTools.getToolDefinitions(),
-
-    ...mapGenerationTools.getToolDefinitions(),
-
-    ...rollTableTools.getToolDefinitions(),
-
-  ];
-
-  // Start Foundry connector (owns app port 31415)
-
-  foundryClient.connect().catch((e) => {
-
-    logger.error('Foundry connector failed to start', e);
-
-  });
-
-  const autoStartComfyUI = async () => {
-
-    try {
-
-      logger.info('Auto-starting ComfyUI service...');
-
-      const result = await startComfyUIService(logger);
-
-      logger.info('ComfyUI auto-start result', result);
-
-    } catch (error: any) {
-
-      logger.warn('ComfyUI auto-start failed', {
-
-        error: error instanceof Error ? error.message : String(error)
-
-      });
-
-      // Don't throw - backend should continue even if ComfyUI fails to start
-
+    const columns = Math.floor(layout.width / gridSize);
+    const rows = Math.floor(layout.height / gridSize);
+    if (data.stairs && !(
+      Number.isInteger(data.stairs.x) && Number.isInteger(data.stairs.y) &&
+      data.stairs.x >= 0 && data.stairs.y >= 0 && data.stairs.x < columns && data.stairs.y < rows
+    )) {
+      throw new Error(`Stairs must be a grid square inside the ${columns}x${rows} map`);
     }
 
-  };
-
-  // Control channel (TCP JSON-lines)
-
-  const server = net.createServer((socket) => {
-
-    socket.setEncoding('utf8');
-
-    let buffer = '';
-
-    socket.on('data', async (chunk: string) => {
-
-      buffer += chunk;
-
-      let idx: number;
+    const params: GenerateMapInput = {
+      prompt: data.prompt.trim(),
+      scene_name: data.scene_name.trim(),
+      size: 'large',
+      grid_size: gridSize,
+      ...(style ? { style } : {}),
+      ...(data.seed !== undefined ? { seed: data.seed } : {}),
+      tiled: {
+        columns: layout.columns,
+        rows: layout.rows,
+        overlap: layout.overlap,
+        ...(floors ? { floors: floors.map(floor => ({ name: floor.name.trim(), prompt: floor.prompt.trim() })) } : {}),
+        ...(floors && data.stairs ? { stairs: { x: data.stairs.x, y: data.stairs.y } } : {})
+      }
+    };
 
-      while ((idx = buffer.indexOf('\n')) >= 0) {
+    const job = await jobQueue.createJob({ params });
 
-        const line = buffer.slice(0, idx).trim();
+    processMapGenerationInBackend(job.id, jobQueue, comfyuiClient, logger, foundryClient).catch((error) => {
+      logger.error('Background tiled map generation failed', { jobId: job.id, error });
+    });
 
-        buffer = buffer.slice(idx + 1);
+    return {
+      status: 'success',
+      jobId: job.id,
+      seed: job.params.seed,
+      width: layout.width,
+      height: layout.height,
+      gridColumns: columns,
+      gridRows: rows,
+      tiles: layout.tiles.length,
+      floors: floors?.length ?? 1,
+      message: 'Tiled map generation started',
+      estimatedTime: `about ${Math.ceil(job.estimated_duration_ms / 60000)} minutes`
+    };
 
-        if (!line) continue;
+  } catch (error: any) {
+    logger.error('Tiled map generation request failed', { error: error.message });
+    return {
+      status: 'error',
+      message: error.message
+    };
+  }
+}
 
-        try {
+function isValidSeed(seed: unknown): seed is number {
+  return Number.isInteger(seed) && (seed as number) >= 0;
+}
 
-          const msg = JSON.parse(line) as { id: string; method: string; params?: any };
+async function handleListMapJobsRequest(data: any, jobQueue: any, logger: Logger): Promise<any> {
+  try {
+    if (!jobQueue) {
+      throw new Error('Map generation components not initialized');
+    }
 
-          if (msg.method === 'ping') {
+    const jobs = await jobQueue.listJobs({
+      status: Array.isArray(data?.status) ? data.status : undefined,
+      search: typeof data?.search === 'string' ? data.search : undefined,
+      since: typeof data?.since === 'number' ? data.since : undefined,
+      limit: typeof data?.limit === 'number' ? data.limit : undefined
+    });
 
-            socket.write(JSON.stringify({ id: msg.id, result: { ok: true } }) + '\n');
+    return {
+      status: 'success',
+      jobs
+    };
 
-            continue;
+  } catch (error: any) {
+    logger.error('Map job listing failed', { error: error.message });
+    return {
+      status: 'error',
+      message: error.message
+    };
+  }
+}
 
-          }
+async function startBackend(): Promise<void> {
 
-          if (msg.method === 'list_tools') {
+  // Logger: file output allowed; avoid stdout noise
 
-            socket.write(JSON.stringify({ id: msg.id, result: { tools: allTools } }) + '\n');
+  const logger = new Logger({
 
-            continue;
+    level: config.logLevel,
 
-          }
+    format: config.logFormat,
 
-          if (msg.method === 'call_tool') {
+    enableConsole: false,
 
-            const { name, args } = (msg.params || {}) as { name: string; args?: any };
+    enableFile: true,
 
-            try {
+    filePath: path.join(os.tmpdir(), 'foundry-mcp-server', 'mcp-server.log'),
 
-              let result: any;
+  });
 
-              switch (name) {
+  logger.info('Starting Foundry MCP Backend', {
 
-                // Character tools
+    version: config.server.version,
 
-                case 'get-character':
+    foundryHost: config.foundry.host,
 
-                  result = await characterTools.handleGetCharacter(args);
+    foundryPort: config.foundry.port,
 
-                  break;
+  });
 
-                case 'list-characters':
+  // Initialize Foundry client and tools
 
-                  result = await characterTools.handleListCharacters(args);
+  const foundryClient = new FoundryClient(config.foundry, logger);
 
-                  break;
+  const characterTools = new CharacterTools({ foundryClient, logger });
 
-                // Career advancement tools
+  const careerAdvancementTools = new CareerAdvancementTools({ foundryClient, logger });
 
-                case 'get-career-advancement':
+  const corruptionMutationTools = new CorruptionMutationTools({ foundryClient, logger });
 
-                  result = await careerAdvancementTools.handleGetCareerAdvancement(args);
+  const fortuneFateTools = new FortuneFateTools({ foundryClient, logger });
 
-                  break;
+  const criticalWoundsTools = new CriticalWoundsTools({ foundryClient, logger });
 
-                case 'advance-characteristic':
+  const advantageTools = new AdvantageTools({ foundryClient, logger });
 
-                  result = await careerAdvancementTools.handleAdvanceCharacteristic(args);
+  const diseaseInfectionTools = new DiseaseInfectionTools(foundryClient, logger);
 
-                  break;
+  const inventoryManagementTools = new InventoryManagementTools(foundryClient, logger);
 
-                case 'advance-skill':
+  const itemCreatorTools = new ItemCreatorTools({ foundryClient, logger });
 
-                  result = await careerAdvancementTools.handleAdvanceSkill(args);
+  const prayerBlessingTools = new PrayerBlessingTools(foundryClient, logger);
 
-                  break;
+  const spellMagicTools = new SpellMagicTools(foundryClient, logger, corruptionMutationTools);
 
-                case 'advance-talent':
+  const socialStatusTools = new SocialStatusTools(foundryClient, logger);
 
-                  result = await careerAdvancementTools.handleAdvanceTalent(args);
+  const customNPCGeneratorTools = new CustomNPCGeneratorTools(foundryClient, logger);
 
-                  break;
+  const compendiumTools = new CompendiumTools({ foundryClient, logger });
 
-                // Corruption & Mutation tools
+  const sceneTools = new SceneTools({ foundryClient, logger });
 
-                case 'get-corruption-status':
+  const actorCreationTools = new ActorCreationTools({ foundryClient, logger });
 
-                  result = await corruptionMutationTools.handleGetCorruptionStatus(args);
+  const questCreationTools = new QuestCreationTools({ foundryClient, logger });
 
-                  break;
+  const diceRollTools = new DiceRollTools({ foundryClient, logger });
 
-                case 'add-corruption':
+  const campaignManagementTools = new CampaignManagementTools(foundryClient, logger);
 
-                  result = await corruptionMutationTools.handleAddCorruption(args);
+  const ownershipTools = new OwnershipTools({ foundryClient, logger });
 
-                  break;
+  const rollTableTools = new RollTableTools(foundryClient, logger);
 
-                case 'remove-corruption':
+  const opposedTestTools = new OpposedTestTools({ foundryClient, logger });
 
-                  result = await corruptionMutationTools.handleRemoveCorruption(args);
+  const combatTools = new CombatTools({ foundryClient, logger });
 
-                  break;
+  const encounterBuilderTools = new EncounterBuilderTools({ foundryClient, logger });
 
-                case 'list-mutations':
+  const attackTools = new AttackTools({ foundryClient, logger, opposedTestTools, criticalWoundsTools });
 
-                  result = await corruptionMutationTools.handleListMutations(args);
+  const conditionsTools = new ConditionsTools({ foundryClient, logger, opposedTestTools });
 
-                  break;
+  const changeLogTools = new ChangeLogTools({ foundryClient, logger });
 
-                case 'add-mutation':
+  const foundryResources = new FoundryResources({ foundryClient, logger });
 
-                  result = await corruptionMutationTools.handleAddMutation(args);
+  const foundryPrompts = new FoundryPrompts({ foundryClient, logger });
 
-                  break;
+  // Wrapper connections on the control channel, for pushing resource notifications
 
-                case 'remove-mutation':
+  const controlSockets = new Set<net.Socket>();
 
-                  result = await corruptionMutationTools.handleRemoveMutation(args);
+  const notifyControlClients = (notification: string, params?: any) => {
 
-                  break;
+    const line = JSON.stringify({ notification, ...(params ? { params } : {}) }) + '\n';
 
-                // Fortune & Fate tools
+    for (const socket of controlSockets) {
 
-                case 'get-fortune-fate-status':
+      try { socket.write(line); } catch { }
 
-                  result = await fortuneFateTools.handleGetFortuneFateStatus(args);
+    }
 
-                  break;
+  };
 
-                case 'spend-fortune':
+  // Initialize mapgen-style backend components for map generation
+  let mapGenerationJobQueue: any = null;
+  let mapGenerationComfyUIClient: any = null;
 
-                  result = await fortuneFateTools.handleSpendFortune(args);
+  try {
+    // Import and initialize job queue and ComfyUI client
+    const { JobQueue } = await import('./job-queue.js');
+    const { ComfyUIClient } = await import('./comfyui-client.js');
+    const { WorkflowTemplateRegistry } = await import('./workflow-templates.js');
 
-                  break;
+    mapGenerationJobQueue = new JobQueue({
+      logger,
+      storagePath: path.join(os.tmpdir(), 'foundry-mcp-server', 'map-jobs.json')
+    });
+    mapGenerationComfyUIClient = new ComfyUIClient({
+      logger,
+      workflowTemplates: new WorkflowTemplateRegistry({ directory: config.comfyui.workflowDir, logger })
+    });
 
-                case 'burn-fate':
+    logger.info('Map generation backend components initialized');
+  } catch (error) {
+    logger.warn('Failed to initialize map generation components', { error });
+  }
 
-                  result = await fortuneFateTools.handleBurnFate(args);
+  // Set up global ComfyUI message handlers for WebSocket messages from Foundry BEFORE creating map tools
 
-                  break;
+  (globalThis as any).backendComfyUIHandlers = {
 
-                case 'refresh-fortune':
+    handleMessage: async (message: any) => {
 
-                  result = await fortuneFateTools.handleRefreshFortune(args);
+      logger.info('Handling ComfyUI message', {
 
-                  break;
+        requestId: message.requestId,
 
-                // Critical Wounds tools
+        type: message.type,
 
-                case 'get-critical-wounds':
+        hasData: !!message.data
 
-                  result = await criticalWoundsTools.handleGetCriticalWounds(args);
+      });
 
-                  break;
+      try {
 
-                case 'add-critical-wound':
+        let result: any;
 
-                  result = await criticalWoundsTools.handleAddCriticalWound(args);
+        switch (message.type) {
 
-                  break;
+          case 'start-comfyui-service':
 
-                case 'remove-critical-wound':
+            result = await startComfyUIService(logger);
 
-                  result = await criticalWoundsTools.handleRemoveCriticalWound(args);
+            break;
 
-                  break;
+          case 'stop-comfyui-service':
 
-                case 'check-death-from-criticals':
+            result = await stopComfyUIService(logger);
 
-                  result = await criticalWoundsTools.handleCheckDeathFromCriticals(args);
+            break;
 
-                  break;
+          case 'check-comfyui-status':
 
-                // Advantage tools
+            result = await checkComfyUIStatus();
 
-                case 'get-advantage':
+            break;
 
-                  result = await advantageTools.handleGetAdvantage(args);
+          // Map generation handlers (following existing tool pattern)
+          case 'generate-map-request':
 
-                  break;
+            result = await handleGenerateMapRequest(message, mapGenerationJobQueue, mapGenerationComfyUIClient, logger, foundryClient);
 
-                case 'add-advantage':
+            break;
 
-                  result = await advantageTools.handleAddAdvantage(args);
+          case 'check-map-status-request':
 
-                  break;
+            result = await handleCheckMapStatusRequest(message.data, mapGenerationJobQueue, logger);
 
-                case 'remove-advantage':
+            break;
 
-                  result = await advantageTools.handleRemoveAdvantage(args);
+          case 'cancel-map-job-request':
 
-                  break;
+            result = await handleCancelMapJobRequest(message.data, mapGenerationJobQueue, logger);
 
-                case 'calculate-advantage-bonus':
+            break;
 
-                  result = await advantageTools.handleCalculateAdvantageBonus(args);
+          case 'vary-map-request':
 
-                  break;
+            result = await handleVaryMapRequest(message.data, mapGenerationJobQueue, mapGenerationComfyUIClient, logger, foundryClient);
 
-                // Disease & Infection tools
+            break;
 
-                case 'get-diseases':
+          case 'generate-tiled-map-request':
 
-                  result = await diseaseInfectionTools.handleGetDiseases(args);
+            result = await handleGenerateTiledMapRequest(message.data, mapGenerationJobQueue, mapGenerationComfyUIClient, logger, foundryClient);
 
-                  break;
+            break;
 
-                case 'add-disease':
+          case 'regenerate-map-request':
 
-                  result = await diseaseInfectionTools.handleAddDisease(args);
+            result = await handleRegenerateMapRequest(message.data, mapGenerationJobQueue, mapGenerationComfyUIClient, logger, foundryClient);
 
-                  break;
+            break;
 
-                case 'check-infection-resilience':
+          case 'generate-portrait-request':
 
-                  result = await diseaseInfectionTools.handleCheckInfectionResilience(args);
+            result = await handleGeneratePortraitRequest(message.data, mapGenerationJobQueue, mapGenerationComfyUIClient, logger, foundryClient);
 
-                  break;
+            break;
 
-                case 'remove-disease':
+          case 'list-map-jobs-request':
 
-                  result = await diseaseInfectionTools.handleRemoveDisease(args);
+            result = await handleListMapJobsRequest(message.data, mapGenerationJobQueue, logger);
 
-                  break;
+            break;
 
-                // Inventory Management tools
+          case 'foundry-progress':
 
-                case 'get-inventory-status':
+            result = { status: handleRemoteProgress(message.data as RemoteProgressUpdate) ? 'success' : 'ignored' };
 
-                  result = await inventoryManagementTools.handleGetInventoryStatus(args);
+            break;
 
-                  break;
+          case 'document-changes': {
 
-                case 'track-ammunition':
+            const { updated, listChanged } = foundryResources.getChangedResources((message.data?.changes || []) as DocumentChange[]);
 
-                  result = await inventoryManagementTools.handleTrackAmmunition(args);
+            for (const uri of updated) {
 
-                  break;
+              notifyControlClients('resources/updated', { uri });
 
-                case 'check-encumbrance':
+            }
 
-                  result = await inventoryManagementTools.handleCheckEncumbrance(args);
+            if (listChanged) {
 
-                  break;
+              notifyControlClients('resources/list_changed');
 
-                case 'add-inventory-item':
+            }
 
-                  result = await inventoryManagementTools.handleAddInventoryItem(args);
+            result = { status: 'success', updated: updated.length };
 
-                  break;
+            break;
 
-                case 'remove-inventory-item':
+          }
 
-                  result = await inventoryManagementTools.handleRemoveInventoryItem(args);
+          default:
 
-                  break;
+            logger.warn('Unknown ComfyUI message type', { type: message.type });
 
-                // Item Creator tools
+            result = { status: 'error', message: `Unknown message type: ${message.type}` };
 
-                case 'create-weapon':
+        }
 
-                  result = await itemCreatorTools.handleCreateWeapon(args);
+        // Send response back through foundryClient if requestId is provided
 
-                  break;
+        if (message.requestId && foundryClient) {
 
-                case 'create-armour':
+          const response = {
 
-                  result = await itemCreatorTools.handleCreateArmour(args);
+            type: `${message.type}-response`,
 
-                  break;
+            requestId: message.requestId,
 
-                case 'create-trapping':
+            ...result
 
-                  result = await itemCreatorTools.handleCreateTrapping(args);
+          };
 
-                  break;
+          // Send response to Foundry via WebSocket
 
-                case 'create-ammunition':
+          try {
 
-                  result = await itemCreatorTools.handleCreateAmmunition(args);
+            foundryClient.sendMessage(response);
 
-                  break;
+          } catch (error) {
 
-                case 'create-container':
+            logger.error('Failed to send ComfyUI response to Foundry', { error, response });
 
-                  result = await itemCreatorTools.handleCreateContainer(args);
+          }
 
-                  break;
+        }
 
-                case 'modify-item-qualities':
+        return result;
 
-                  result = await itemCreatorTools.handleModifyItemQualities(args);
+      } catch (error: any) {
 
-                  break;
+        logger.error('ComfyUI message handling failed', {
 
-                case 'add-item-to-character':
+          requestId: message.requestId,
 
-                  result = await itemCreatorTools.handleAddItemToCharacter(args);
+          type: message.type,
 
-                  break;
+          error: error.message
 
-                case 'remove-item-from-character':
+        });
 
-                  result = await itemCreatorTools.handleRemoveItemFromCharacter(args);
+        const errorResult = {
 
-                  break;
+          status: 'error',
 
-                // Prayer & Blessing tools
+          message: error.message
 
-                case 'get-active-blessings':
+        };
 
-                  result = await prayerBlessingTools.handleGetActiveBlessings(args);
+        // Send error response if requestId provided
 
-                  break;
+        if (message.requestId && foundryClient) {
 
-                case 'invoke-prayer':
+          try {
 
-                  result = await prayerBlessingTools.handleInvokePrayer(args);
+            foundryClient.sendMessage({
 
-                  break;
+              type: `${message.type}-response`,
 
-                case 'check-divine-favor':
+              requestId: message.requestId,
 
-                  result = await prayerBlessingTools.handleCheckDivineFavor(args);
+              ...errorResult
 
-                  break;
+            });
 
-                case 'add-sin-point':
+          } catch (sendError) {
 
-                  result = await prayerBlessingTools.handleAddSinPoint(args);
+            logger.error('Failed to send ComfyUI error response', { sendError });
 
-                  break;
+          }
 
-                case 'perform-penance':
+        }
 
-                  result = await prayerBlessingTools.handlePerformPenance(args);
+        return errorResult;
 
-                  break;
+      }
 
-                case 'end-blessing':
+    }
 
-                  result = await prayerBlessingTools.handleEndBlessing(args);
+  };
 
-                  break;
+  // Now create MapGenerationTools with the handlers available
 
-                // Spell & Magic tools
+  const mapGenerationTools = new MapGenerationTools({
+    foundryClient,
+    logger,
+    backendComfyUIHandlers: (globalThis as any).backendComfyUIHandlers,
+    workflowTemplates: mapGenerationComfyUIClient?.getWorkflowTemplates(),
+    jobQueue: mapGenerationJobQueue ?? undefined
+  });
 
-                case 'get-known-spells':
+  const portraitGenerationTools = new PortraitGenerationTools({
+    foundryClient,
+    logger,
+    backendComfyUIHandlers: (globalThis as any).backendComfyUIHandlers,
+    workflowTemplates: mapGenerationComfyUIClient?.getWorkflowTemplates()
+  });
 
-                  result = await spellMagicTools.handleGetKnownSpells(args);
+  // Each tool class registers its definitions together with their validators and handlers
 
-                  break;
+  const toolRegistry = new ToolRegistry({ logger, enabled: config.tools.enabled, disabled: config.tools.disabled });
 
-                case 'cast-spell':
+  const toolProviders: ToolProvider[] = [
 
-                  result = await spellMagicTools.handleCastSpell(args);
+    characterTools,
 
-                  break;
+    careerAdvancementTools,
 
-                case 'channel-power':
+    corruptionMutationTools,
 
-                  result = await spellMagicTools.handleChannelPower(args);
+    fortuneFateTools,
 
-                  break;
+    criticalWoundsTools,
 
-                case 'check-miscast':
+    advantageTools,
 
-                  result = await spellMagicTools.handleCheckMiscast(args);
+    diseaseInfectionTools,
 
-                  break;
+    inventoryManagementTools,
 
-                case 'memorize-spell':
+    itemCreatorTools,
 
-                  result = await spellMagicTools.handleMemorizeSpell(args);
+    prayerBlessingTools,
 
-                  break;
+    spellMagicTools,
 
-                case 'learn-new-spell':
+    socialStatusTools,
 
-                  result = await spellMagicTools.handleLearnNewSpell(args);
+    customNPCGeneratorTools,
 
-                  break;
+    compendiumTools,
 
-                // Social Status Tools
-                case 'get-social-status':
+    sceneTools,
 
-                  result = await socialStatusTools.handleGetSocialStatus(args);
+    actorCreationTools,
 
-                  break;
+    questCreationTools,
 
-                case 'change-social-status':
+    diceRollTools,
 
-                  result = await socialStatusTools.handleChangeSocialStatus(args);
+    campaignManagementTools,
 
-                  break;
+    ownershipTools,
 
-                case 'make-social-test':
+    mapGenerationTools,
 
-                  result = await socialStatusTools.handleMakeSocialTest(args);
+    portraitGenerationTools,
 
-                  break;
+    rollTableTools,
 
-                case 'calculate-income':
+    opposedTestTools,
 
-                  result = await socialStatusTools.handleCalculateIncome(args);
+    combatTools,
 
-                  break;
+    encounterBuilderTools,
 
-                case 'check-reputation':
+    attackTools,
 
-                  result = await socialStatusTools.handleCheckReputation(args);
+    conditionsTools,
 
-                  break;
+    changeLogTools,
 
-                // Custom NPC Generator tools
-                case 'create-custom-npc':
+  ];
 
-                  result = await customNPCGeneratorTools.handleCreateCustomNPC(args);
+  for (const provider of toolProviders) {
 
-                  break;
+    provider.registerTools(toolRegistry);
 
-                case 'list-npc-archetypes':
+  }
 
-                  result = await customNPCGeneratorTools.handleListNPCArchetypes(args);
+  // Refuse to start with a listed tool that has no handler, or a handler nobody can list
 
-                  break;
+  toolRegistry.verify();
 
-                case 'calculate-npc-xp-distribution':
+  // Start Foundry connector (owns app port 31415)
 
-                  result = await customNPCGeneratorTools.handleCalculateXPDistribution(args);
+  foundryClient.connect().catch((e) => {
 
-                  break;
+    logger.error('Foundry connector failed to start', e);
 
-                // Compendium tools
+  });
 
-                case 'search-compendium':
+  const autoStartComfyUI = async () => {
 
-                  result = await compendiumTools.handleSearchCompendium(args);
+    try {
 
-                  break;
+      logger.info('Auto-starting ComfyUI service...');
 
-                case 'get-compendium-item':
+      const result = await startComfyUIService(logger);
 
-                  result = await compendiumTools.handleGetCompendiumItem(args);
+      logger.info('ComfyUI auto-start result', result);
 
-                  break;
+    } catch (error: any) {
 
-                case 'list-creatures-by-criteria':
+      logger.warn('ComfyUI auto-start failed', {
 
-                  result = await compendiumTools.handleListCreaturesByCriteria(args);
+        error: error instanceof Error ? error.message : String(error)
 
-                  break;
+      });
 
-                case 'list-compendium-packs':
+      // Don't throw - backend should continue even if ComfyUI fails to start
 
-                  result = await compendiumTools.handleListCompendiumPacks(args);
+    }
 
-                  break;
+  };
 
-                // Scene tools
+  // Control channel (TCP JSON-lines)
 
-                case 'get-current-scene':
+  const server = net.createServer((socket) => {
 
-                  result = await sceneTools.handleGetCurrentScene(args);
+    socket.setEncoding('utf8');
 
-                  break;
+    controlSockets.add(socket);
 
-                case 'get-world-info':
+    socket.on('close', () => controlSockets.delete(socket));
 
-                  result = await sceneTools.handleGetWorldInfo(args);
+    socket.on('error', () => controlSockets.delete(socket));
 
-                  break;
+    let buffer = '';
 
-                // Actor creation tools
+    socket.on('data', async (chunk: string) => {
 
-                case 'create-actor-from-compendium':
+      buffer += chunk;
 
-                  result = await actorCreationTools.handleCreateActorFromCompendium(args);
+      let idx: number;
 
-                  break;
+      while ((idx = buffer.indexOf('\n')) >= 0) {
 
-                case 'get-compendium-entry-full':
+        const line = buffer.slice(0, idx).trim();
 
-                  result = await actorCreationTools.handleGetCompendiumEntryFull(args);
+        buffer = buffer.slice(idx + 1);
 
-                  break;
+        if (!line) continue;
 
-                // Quest creation tools
+        try {
 
-                case 'create-quest-journal':
+          const msg = JSON.parse(line) as { id: string; method: string; params?: any };
 
-                  result = await questCreationTools.handleCreateQuestJournal(args);
+          if (msg.method === 'ping') {
 
-                  break;
+            socket.write(JSON.stringify({ id: msg.id, result: { ok: true } }) + '\n');
 
-                case 'link-quest-to-npc':
+            continue;
 
-                  result = await questCreationTools.handleLinkQuestToNPC(args);
+          }
 
-                  break;
+          if (msg.method === 'list_tools') {
 
-                case 'update-quest-journal':
+            socket.write(JSON.stringify({ id: msg.id, result: { tools: toolRegistry.list().map(withDryRunArgument) } }) + '\n');
 
-                  result = await questCreationTools.handleUpdateQuestJournal(args);
+            continue;
 
-                  break;
+          }
 
-                case 'list-journals':
+          if (msg.method === 'list_resources') {
 
-                  result = await questCreationTools.handleListJournals(args);
+            try {
 
-                  break;
+              const resources = await foundryResources.listResources();
 
-                case 'search-journals':
+              socket.write(JSON.stringify({ id: msg.id, result: { resources } }) + '\n');
 
-                  result = await questCreationTools.handleSearchJournals(args);
+            } catch (e: any) {
 
-                  break;
+              socket.write(JSON.stringify({ id: msg.id, error: { message: e instanceof Error ? e.message : 'Unknown error occurred' } }) + '\n');
 
-                // Dice roll tools
+            }
 
-                case 'request-player-rolls':
+            continue;
 
-                  result = await diceRollTools.handleRequestPlayerRolls(args);
+          }
 
-                  break;
+          if (msg.method === 'list_resource_templates') {
 
-                // Campaign management tools
+            socket.write(JSON.stringify({ id: msg.id, result: { resourceTemplates: foundryResources.getResourceTemplates() } }) + '\n');
 
-                case 'create-campaign-dashboard':
+            continue;
 
-                  result = await campaignManagementTools.handleCreateCampaignDashboard(args);
+          }
 
-                  break;
+          if (msg.method === 'read_resource') {
 
-                // Ownership tools
+            const { uri } = (msg.params || {}) as { uri: string };
 
-                case 'assign-actor-ownership':
+            try {
 
-                  result = await ownershipTools.handleToolCall('assign-actor-ownership', args);
+              const contents = await foundryResources.readResource(uri);
 
-                  break;
+              socket.write(JSON.stringify({ id: msg.id, result: { contents: [contents] } }) + '\n');
 
-                case 'remove-actor-ownership':
+            } catch (e: any) {
 
-                  result = await ownershipTools.handleToolCall('remove-actor-ownership', args);
+              socket.write(JSON.stringify({ id: msg.id, error: { message: e instanceof Error ? e.message : 'Unknown error occurred' } }) + '\n');
 
-                  break;
+            }
 
-                case 'list-actor-ownership':
+            continue;
 
-                  result = await ownershipTools.handleToolCall('list-actor-ownership', args);
+          }
 
-                  break;
+          if (msg.method === 'list_prompts') {
 
-                // Map generation tools
+            socket.write(JSON.stringify({ id: msg.id, result: { prompts: foundryPrompts.listPrompts() } }) + '\n');
 
-                case 'generate-map':
+            continue;
 
-                  result = await mapGenerationTools.generateMap(args);
+          }
 
-                  break;
+          if (msg.method === 'get_prompt') {
 
-                case 'check-map-status':
+            const { name, args } = (msg.params || {}) as { name: string; args?: Record<string, string> };
 
-                  result = await mapGenerationTools.checkMapStatus(args);
+            try {
 
-                  break;
+              const prompt = await foundryPrompts.getPrompt(name, args ?? {});
 
-                case 'cancel-map-job':
+              socket.write(JSON.stringify({ id: msg.id, result: prompt }) + '\n');
 
-                  result = await mapGenerationTools.cancelMapJob(args);
+            } catch (e: any) {
 
-                  break;
+              socket.write(JSON.stringify({ id: msg.id, error: { message: e instanceof Error ? e.message : 'Unknown error occurred' } }) + '\n');
 
-                case 'list-scenes':
+            }
 
-                  result = await mapGenerationTools.listScenes(args);
+            continue;
 
-                  break;
+          }
 
-                case 'switch-scene':
+          if (msg.method === 'call_tool') {
 
-                  result = await mapGenerationTools.switchScene(args);
+            const { name, args, progressToken } = (msg.params || {}) as { name: string; args?: any; progressToken?: string | number };
 
-                  break;
+            // Progress for this call goes back over the same connection, tagged with the caller's token
 
-                // RollTable tools
+            const reportProgress: ProgressReporter | undefined = progressToken === undefined ? undefined : (progress, total, message) => {
 
-                case 'create-rolltable':
+              try {
 
-                  result = await rollTableTools.handleCreateRollTable(args);
+                socket.write(JSON.stringify({ notification: 'progress', params: { progressToken, progress, ...(total !== undefined ? { total } : {}), ...(message ? { message } : {}) } }) + '\n');
 
-                  break;
+              } catch { }
 
-                case 'list-rolltables':
+            };
 
-                  result = await rollTableTools.handleListRollTables(args);
+            try {
 
-                  break;
+              const dryRun = typeof args?.dryRun === 'boolean' ? args.dryRun : config.dryRun;
 
-                case 'get-rolltable':
+              const callTool = () => toolRegistry.call(name, args);
 
-                  result = await rollTableTools.handleGetRollTable(args);
+              const runTool = reportProgress ? () => runWithProgress(reportProgress, callTool) : callTool;
 
-                  break;
+              let result: any;
 
-                case 'roll-on-table':
+              if (dryRun) {
 
-                  result = await rollTableTools.handleRollOnTable(args);
+                const preview = await runDryRun(runTool);
 
-                  break;
+                result = formatDryRunPreview(preview.writes);
 
-                case 'delete-rolltable':
+                result += preview.error
 
-                  result = await rollTableTools.handleDeleteRollTable(args);
+                  ? `---\n\n⚠️ The tool stopped before finishing (it needed a real result from Foundry): ${preview.error}\n`
 
-                  break;
+                  : `---\n\n## Tool output (simulated)\n\n${getToolOutputText(preview.result)}`;
 
-                default:
+              } else {
 
-                  throw new Error(`Unknown tool: ${name}`);
+                result = await runTool();
 
               }
 
@@ -1902,13 +2298,23 @@ async function startBackend(): Promise<void> {
 
   });
 
-  void autoStartComfyUI();
+  // Resume persisted map jobs once ComfyUI has had a chance to come up
+  void autoStartComfyUI().then(async () => {
+    if (!mapGenerationJobQueue || !mapGenerationComfyUIClient) return;
+    try {
+      await resumeMapGenerationJobs(mapGenerationJobQueue, mapGenerationComfyUIClient, logger, foundryClient);
+    } catch (error: any) {
+      logger.error('Failed to resume map generation jobs', { error: error.message });
+    }
+  });
+
+  // Shutdown hooks; the job queue saves asynchronously, so its last write is awaited before exiting
 
-  // Shutdown hooks
+  const shutdown = async () => { foundryClient.disconnect(); await mapGenerationJobQueue?.shutdown(); releaseLock(); process.exit(0); };
 
-  process.on('SIGINT', () => { foundryClient.disconnect(); releaseLock(); process.exit(0); });
+  process.on('SIGINT', () => void shutdown());
 
-  process.on('SIGTERM', () => { foundryClient.disconnect(); releaseLock(); process.exit(0); });
+  process.on('SIGTERM', () => void shutdown());
 
 }
 
@@ -3,13 +3,33 @@ import { promises as fs } from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import axios from 'axios';
+import { config as serverConfig } from './config.js';
 import { Logger } from './logger.js';
+import {
+  DEFAULT_INPAINT_STYLE,
+  DEFAULT_PORTRAIT_STYLE,
+  DEFAULT_VARIATION_STYLE,
+  DEFAULT_WORKFLOW_STYLE,
+  WorkflowMode,
+  WorkflowTemplateRegistry
+} from './workflow-templates.js';
 
 export interface ComfyUIWorkflowInput {
   prompt: string;
   width: number;
   height: number;
   seed?: number;
+  /** Workflow template name; defaults to the built-in battlemap style */
+  style?: string;
+  negativePrompt?: string;
+  /** Uploaded image name (see uploadImage) for img2img and inpaint workflows */
+  inputImage?: string;
+  /** How far img2img may move away from the input image (0-1) */
+  denoise?: number;
+  /** Region to repaint, in image pixels; switches to the inpaint workflow */
+  mask?: { x: number; y: number; width: number; height: number };
+  /** Workflow kind when it cannot be told from the inputs (portraits) */
+  mode?: WorkflowMode;
 }
 
 export interface ComfyUIJobResponse {
@@ -45,10 +65,13 @@ export class ComfyUIClient {
   private process?: ChildProcess | undefined;
   private baseUrl: string;
   private clientId: string;
+  private workflowTemplates: WorkflowTemplateRegistry;
 
-  constructor(options: { logger: Logger; config?: Partial<ComfyUIConfig> }) {
+  constructor(options: { logger: Logger; config?: Partial<ComfyUIConfig>; workflowTemplates?: WorkflowTemplateRegistry }) {
     this.logger = options.logger.child({ component: 'ComfyUIClient' });
     this.clientId = `ai-maps-server-${Date.now()}`;
+    this.workflowTemplates = options.workflowTemplates
+      ?? new WorkflowTemplateRegistry({ directory: serverConfig.comfyui.workflowDir, logger: options.logger });
 
     // Default configuration
     this.config = {
@@ -392,6 +415,32 @@ export class ComfyUIClient {
     }
   }
 
+  /**
+   * Upload an image to ComfyUI's input folder; returns the name LoadImage nodes refer to it by
+   */
+  async uploadImage(image: Buffer, filename: string): Promise<string> {
+    try {
+      const form = new FormData();
+      form.append('image', new Blob([new Uint8Array(image)], { type: 'image/png' }), filename);
+      form.append('overwrite', 'true');
+
+      const response = await axios.post(`${this.baseUrl}/upload/image`, form, {
+        timeout: 30000
+      });
+
+      const { name, subfolder } = response.data;
+      this.logger.info('Image uploaded to ComfyUI', { name, subfolder });
+
+      return subfolder ? `${subfolder}/${name}` : name;
+    } catch (error) {
+      this.logger.error('Failed to upload image to ComfyUI', {
+        filename,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
   async cancelJob(promptId: string): Promise<boolean> {
     try {
       const response = await axios.post(`${this.baseUrl}/interrupt`, {}, {
@@ -410,77 +459,33 @@ export class ComfyUIClient {
   }
 
   private buildWorkflow(input: ComfyUIWorkflowInput): Record<string, any> {
-    // Enhanced prompt for D&D Battlemaps SDXL
-    const enhancedPrompt = `2d DnD battlemap of ${input.prompt}, top-down view, overhead perspective, aerial`;
-
-    // Negative prompt optimized for battlemap generation
-    const negativePrompt = 'grid, low angle, isometric, oblique, horizon, text, watermark, logo, caption, people, creatures, monsters, blurry, artifacts';
-
-    return {
-      "1": { // CheckpointLoaderSimple
-        "inputs": {
-          "ckpt_name": "dDBattlemapsSDXL10_upscaleV10.safetensors"
-        },
-        "class_type": "CheckpointLoaderSimple"
-      },
-      "2": { // CLIP Text Encode (Positive)
-        "inputs": {
-          "text": enhancedPrompt,
-          "clip": ["1", 1]
-        },
-        "class_type": "CLIPTextEncode"
-      },
-      "3": { // CLIP Text Encode (Negative)
-        "inputs": {
-          "text": negativePrompt,
-          "clip": ["1", 1]
-        },
-        "class_type": "CLIPTextEncode"
-      },
-      "4": { // Empty Latent Image
-        "inputs": {
-          "width": input.width,
-          "height": input.height,
-          "batch_size": 1
-        },
-        "class_type": "EmptyLatentImage"
-      },
-      "5": { // KSampler
-        "inputs": {
-          "seed": input.seed || Math.floor(Math.random() * 1000000),
-          "steps": 35, // SDXL optimized
-          "cfg": 10.0, // D&D Battlemaps SDXL guidelines
-          "denoise": 1.0,
-          "sampler_name": "dpmpp_2m",
-          "scheduler": "karras",
-          "model": ["1", 0],
-          "positive": ["2", 0],
-          "negative": ["3", 0],
-          "latent_image": ["4", 0]
-        },
-        "class_type": "KSampler"
-      },
-      "9": { // VAE Loader
-        "inputs": {
-          "vae_name": "sdxl_vae.safetensors"
-        },
-        "class_type": "VAELoader"
-      },
-      "6": { // VAE Decode
-        "inputs": {
-          "samples": ["5", 0],
-          "vae": ["9", 0]
-        },
-        "class_type": "VAEDecode"
-      },
-      "7": { // Save Image
-        "inputs": {
-          "filename_prefix": "battlemap",
-          "images": ["6", 0]
-        },
-        "class_type": "SaveImage"
-      }
-    };
+    const mode: WorkflowMode = input.mode ?? (input.mask ? 'inpaint' : input.inputImage ? 'img2img' : 'txt2img');
+    const defaultStyle = {
+      txt2img: DEFAULT_WORKFLOW_STYLE,
+      img2img: DEFAULT_VARIATION_STYLE,
+      inpaint: DEFAULT_INPAINT_STYLE,
+      portrait: DEFAULT_PORTRAIT_STYLE
+    }[mode];
+
+    return this.workflowTemplates.render(input.style ?? defaultStyle, {
+      prompt: input.prompt,
+      ...(input.negativePrompt ? { negative_prompt: input.negativePrompt } : {}),
+      seed: input.seed ?? Math.floor(Math.random() * 1000000),
+      width: input.width,
+      height: input.height,
+      ...(input.inputImage ? { input_image: input.inputImage } : {}),
+      ...(input.denoise !== undefined ? { denoise: input.denoise } : {}),
+      ...(input.mask ? {
+        mask_x: input.mask.x,
+        mask_y: input.mask.y,
+        mask_width: input.mask.width,
+        mask_height: input.mask.height
+      } : {})
+    }, mode);
+  }
+
+  getWorkflowTemplates(): WorkflowTemplateRegistry {
+    return this.workflowTemplates;
   }
 
   getSizePixels(size: 'small' | 'medium' | 'large'): number {
@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import dotenv from 'dotenv';
+import * as os from 'os';
+import * as path from 'path';
 
 dotenv.config();
 
@@ -8,6 +10,18 @@ const ConfigSchema = z.object({
   logFormat: z.enum(['json', 'simple']).default('simple'),
   enableFileLogging: z.boolean().default(false),
   logFilePath: z.string().optional(),
+  dryRun: z.boolean().default(false),
+  transport: z.enum(['stdio', 'http', 'both']).default('stdio'),
+  http: z.object({
+    host: z.string().default('127.0.0.1'),
+    port: z.number().min(1024).max(65535).default(31416),
+    path: z.string().startsWith('/').default('/mcp'),
+    authToken: z.string().min(16).optional(),
+  }),
+  tools: z.object({
+    enabled: z.array(z.string()).optional(),
+    disabled: z.array(z.string()).default([]),
+  }),
   foundry: z.object({
     host: z.string().default('localhost'),
     port: z.number().min(1024).max(65535).default(31415),
@@ -16,6 +30,9 @@ const ConfigSchema = z.object({
     reconnectDelay: z.number().min(100).max(30000).default(1000),
     connectionTimeout: z.number().min(1000).max(60000).default(10000),
   }),
+  comfyui: z.object({
+    workflowDir: z.string(),
+  }),
   server: z.object({
     name: z.string().default('foundry-mcp-server'),
     version: z.string().default('0.4.17'),
@@ -24,11 +41,28 @@ const ConfigSchema = z.object({
 
 export type Config = z.infer<typeof ConfigSchema>;
 
+function parseToolList(value: string | undefined): string[] | undefined {
+  const names = value?.split(',').map(name => name.trim()).filter(Boolean);
+  return names?.length ? names : undefined;
+}
+
 const rawConfig = {
   logLevel: process.env.LOG_LEVEL || 'warn',
   logFormat: process.env.LOG_FORMAT || 'simple',
   enableFileLogging: process.env.ENABLE_FILE_LOGGING === 'true',
   logFilePath: process.env.LOG_FILE_PATH,
+  dryRun: process.env.DRY_RUN === 'true',
+  transport: process.env.MCP_TRANSPORT || 'stdio',
+  http: {
+    host: process.env.MCP_HTTP_HOST || '127.0.0.1',
+    port: parseInt(process.env.MCP_HTTP_PORT || '31416', 10),
+    path: process.env.MCP_HTTP_PATH || '/mcp',
+    authToken: process.env.MCP_HTTP_AUTH_TOKEN || undefined,
+  },
+  tools: {
+    enabled: parseToolList(process.env.MCP_ENABLED_TOOLS),
+    disabled: parseToolList(process.env.MCP_DISABLED_TOOLS) ?? [],
+  },
   foundry: {
     host: process.env.FOUNDRY_HOST || 'localhost',
     port: parseInt(process.env.FOUNDRY_PORT || '31415', 10),
@@ -37,6 +71,9 @@ const rawConfig = {
     reconnectDelay: parseInt(process.env.FOUNDRY_RECONNECT_DELAY || '1000', 10),
     connectionTimeout: parseInt(process.env.FOUNDRY_CONNECTION_TIMEOUT || '10000', 10),
   },
+  comfyui: {
+    workflowDir: process.env.COMFYUI_WORKFLOW_DIR || path.join(os.homedir(), 'AppData', 'Local', 'FoundryMCPServer', 'workflows'),
+  },
   server: {
     name: process.env.SERVER_NAME || 'foundry-mcp-server',
     version: process.env.SERVER_VERSION || '1.0.0',
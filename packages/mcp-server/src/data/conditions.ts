@@ -0,0 +1,47 @@
+/**
+ * Condition stacks referenced by the bundled WFRP 4e tables
+ *
+ * Keys match the wfrp4e system's condition ids (actor.addCondition(key, value)).
+ */
+
+export interface TableCondition {
+    key: string;
+    value: number;
+}
+
+export const ablaze = (value: number): TableCondition => ({ key: 'ablaze', value });
+export const bleeding = (value: number): TableCondition => ({ key: 'bleeding', value });
+export const blinded = (value: number): TableCondition => ({ key: 'blinded', value });
+export const broken = (value: number): TableCondition => ({ key: 'broken', value });
+export const deafened = (value: number): TableCondition => ({ key: 'deafened', value });
+export const fatigued = (value: number): TableCondition => ({ key: 'fatigued', value });
+export const stunned = (value: number): TableCondition => ({ key: 'stunned', value });
+export const prone: TableCondition = { key: 'prone', value: 1 };
+export const surprised: TableCondition = { key: 'surprised', value: 1 };
+export const unconscious: TableCondition = { key: 'unconscious', value: 1 };
+
+export interface ConditionDefinition {
+    name: string;
+    stackable: boolean;
+    summary: string;
+}
+
+/**
+ * The WFRP 4e Core Rulebook conditions (effects summarised)
+ */
+export const WFRP_CONDITIONS: Record<string, ConditionDefinition> = {
+    ablaze: { name: 'Ablaze', stackable: true, summary: 'End of round: 1d10 Wounds modified by TB and AP (minimum 1), +1 per extra Ablaze. Remove with an Average (+20) Athletics Test, rolling on the ground.' },
+    bleeding: { name: 'Bleeding', stackable: true, summary: 'End of round: lose 1 Wound per Bleeding, ignoring modifiers. At 0 Wounds, die on a d100 roll of 10× Bleeding or less. Removed by Heal Tests or bandages.' },
+    blinded: { name: 'Blinded', stackable: true, summary: '−10 per Blinded to sight-based Tests; opponents gain +10 to hit. One removed every other round.' },
+    broken: { name: 'Broken', stackable: true, summary: 'Terrified: must flee or hide, −10 per Broken to Tests other than running and hiding. End of round (when not engaged): Challenging (+0) Cool Test removes 1 + SL.' },
+    deafened: { name: 'Deafened', stackable: true, summary: '−10 per Deafened to hearing-based Tests; attacks from flank or rear gain +10. One removed every other round.' },
+    entangled: { name: 'Entangled', stackable: true, summary: 'Cannot move; −10 per Entangled to Tests involving movement. Remove with an Opposed Strength Test against the source.' },
+    fatigued: { name: 'Fatigued', stackable: true, summary: '−10 per Fatigued to all Tests. Removed by rest.' },
+    poisoned: { name: 'Poisoned', stackable: true, summary: 'End of round: lose 1 Wound ignoring modifiers, then a Challenging (+0) Endurance Test removes 1 + SL. −10 per Poisoned to all Tests.' },
+    prone: { name: 'Prone', stackable: false, summary: 'On the ground: Move of half, −20 to most Tests, opponents gain +20 to hit. Removed by standing up.' },
+    stunned: { name: 'Stunned', stackable: true, summary: 'Cannot take an Action; −10 per Stunned to all Tests. End of round: Challenging (+0) Endurance Test removes 1 + SL.' },
+    surprised: { name: 'Surprised', stackable: false, summary: 'Cannot act or defend this round; opponents gain +20 to hit. Removed at the end of the round or when attacked.' },
+    unconscious: { name: 'Unconscious', stackable: false, summary: 'Helpless and unaware; any attack can kill outright. Removed when Wounds are restored above 0.' },
+};
+
+export const WFRP_CONDITION_KEYS = Object.keys(WFRP_CONDITIONS) as [string, ...string[]];
@@ -0,0 +1,143 @@
+/**
+ * WFRP 4e Critical Wound tables (Core Rulebook, Injury chapter)
+ *
+ * One d100 table per hit location. Arms and legs share a table regardless of side.
+ * Effects are summarised rather than quoted; conditions use the wfrp4e system's
+ * condition keys so they can be applied to the actor directly.
+ */
+
+import { TableCondition, bleeding, blinded, deafened, prone, stunned, unconscious } from './conditions.js';
+
+export type CriticalTableLocation = 'head' | 'arm' | 'body' | 'leg';
+
+export interface CriticalTableEntry {
+    min: number;
+    max: number;
+    name: string;
+    wounds: number;
+    effect: string;
+    conditions: TableCondition[];
+    duration?: string;
+    death?: boolean;
+}
+
+export interface CriticalTableResult {
+    table: CriticalTableLocation;
+    roll: number;
+    entry: CriticalTableEntry;
+}
+
+export const CRITICAL_TABLES: Record<CriticalTableLocation, CriticalTableEntry[]> = {
+    head: [
+        { min: 1, max: 10, name: 'Dramatic Injury', wounds: 1, conditions: [bleeding(1)], effect: 'A fine wound across the forehead and cheek. Once healed it leaves an impressive scar.' },
+        { min: 11, max: 20, name: 'Minor Cut', wounds: 1, conditions: [bleeding(1)], effect: 'A cut to the cheek or scalp that bleeds freely.' },
+        { min: 21, max: 25, name: 'Poked Eye', wounds: 1, conditions: [blinded(1)], effect: 'A glancing blow to the eye socket.' },
+        { min: 26, max: 30, name: 'Ear Bash', wounds: 1, conditions: [deafened(1)], effect: 'A ringing blow to the side of the head.' },
+        { min: 31, max: 35, name: 'Rattling Blow', wounds: 2, conditions: [stunned(1)], effect: 'The blow rattles the skull.' },
+        { min: 36, max: 40, name: 'Black Eye', wounds: 2, conditions: [blinded(2)], effect: 'A solid blow to the eye; it swells shut.' },
+        { min: 41, max: 45, name: 'Sliced Ear', wounds: 2, conditions: [deafened(2), bleeding(1)], effect: 'The ear is sliced open.' },
+        { min: 46, max: 50, name: 'Struck Forehead', wounds: 2, conditions: [bleeding(2), blinded(1)], effect: 'Blood runs into the eyes; the Blinded Condition cannot be removed until all Bleeding Conditions are gone.' },
+        { min: 51, max: 55, name: 'Fractured Jaw', wounds: 3, conditions: [stunned(2)], effect: 'Suffer a Broken Bone (Minor) injury.', duration: 'Until the Broken Bone (Minor) heals' },
+        { min: 56, max: 60, name: 'Major Eye Wound', wounds: 3, conditions: [bleeding(1), blinded(1)], effect: 'The eye is badly cut. Suffer an Injured Eye (Minor) injury.', duration: 'Until the eye is treated and heals' },
+        { min: 61, max: 65, name: 'Major Ear Wound', wounds: 3, conditions: [], effect: 'The ear is badly damaged: permanent hearing loss in that ear, −20 to Perception Tests relying on hearing.', duration: 'Permanent' },
+        { min: 66, max: 70, name: 'Broken Nose', wounds: 3, conditions: [bleeding(2)], effect: 'Make a Challenging (+0) Endurance Test or gain a Stunned Condition. The nose may set crooked.' },
+        { min: 71, max: 75, name: 'Broken Jaw', wounds: 4, conditions: [stunned(3)], effect: 'Make a Challenging (+0) Endurance Test or fall Unconscious. Suffer a Broken Bone (Major) injury.', duration: 'Until the Broken Bone (Major) heals' },
+        { min: 76, max: 80, name: 'Concussive Blow', wounds: 4, conditions: [deafened(1), bleeding(2), stunned(1)], effect: 'The brain is rattled: gain 1d10 Stunned Conditions in total and remain Fatigued afterwards.', duration: '1d10 days of Fatigue' },
+        { min: 81, max: 85, name: 'Smashed Mouth', wounds: 4, conditions: [bleeding(2)], effect: 'Lose 1d10 teeth (Amputation: Easy).', duration: 'Permanent' },
+        { min: 86, max: 90, name: 'Mangled Ear', wounds: 4, conditions: [bleeding(3)], effect: 'The ear is torn off (Amputation: Average).', duration: 'Permanent' },
+        { min: 91, max: 93, name: 'Devastated Eye', wounds: 5, conditions: [blinded(3), bleeding(2), stunned(1)], effect: 'The eye is destroyed (Amputation: Difficult).', duration: 'Permanent' },
+        { min: 94, max: 96, name: 'Disfiguring Blow', wounds: 5, conditions: [bleeding(3), blinded(3), stunned(2)], effect: 'The blow smashes the face: lose an eye and the nose (Amputation: Hard).', duration: 'Permanent' },
+        { min: 97, max: 99, name: 'Mangled Jaw', wounds: 5, conditions: [bleeding(4), stunned(3)], effect: 'Make a Challenging (+0) Endurance Test or fall Unconscious. Suffer a Broken Bone (Major) injury and lose the tongue (Amputation: Very Hard).', duration: 'Permanent' },
+        { min: 100, max: 100, name: 'Decapitated', wounds: 0, conditions: [], effect: 'The head is severed from the body. Death.', death: true },
+    ],
+    arm: [
+        { min: 1, max: 10, name: 'Jolted Wrist', wounds: 1, conditions: [], effect: 'Drop whatever is held in the hand.' },
+        { min: 11, max: 20, name: 'Minor Cut', wounds: 1, conditions: [bleeding(1)], effect: 'A shallow cut along the arm.' },
+        { min: 21, max: 25, name: 'Sprain', wounds: 1, conditions: [], effect: 'Suffer a Torn Muscle (Minor) injury.', duration: 'Until the Torn Muscle (Minor) heals' },
+        { min: 26, max: 30, name: 'Badly Jolted Wrist', wounds: 2, conditions: [], effect: 'Drop whatever is held in the hand. The arm is useless for 1d10 − Toughness Bonus Rounds (minimum 1).', duration: '1d10 − TB Rounds' },
+        { min: 31, max: 35, name: 'Torn Muscles', wounds: 2, conditions: [bleeding(1)], effect: 'Suffer a Torn Muscle (Minor) injury.', duration: 'Until the Torn Muscle (Minor) heals' },
+        { min: 36, max: 40, name: 'Bleeding Hand', wounds: 2, conditions: [bleeding(1)], effect: 'Each Round, make an Easy (+40) Dexterity Test to keep hold of anything in the hand until the Bleeding is removed.' },
+        { min: 41, max: 45, name: 'Wrenched Arm', wounds: 2, conditions: [], effect: 'Drop whatever is held in the hand. The arm is useless for 1d10 Rounds.', duration: '1d10 Rounds' },
+        { min: 46, max: 50, name: 'Gaping Wound', wounds: 3, conditions: [bleeding(2)], effect: 'The wound reopens unless it is stitched with a successful Heal Test.' },
+        { min: 51, max: 55, name: 'Clean Break', wounds: 3, conditions: [], effect: 'Drop whatever is held in the hand. Suffer a Broken Bone (Minor) injury.', duration: 'Until the Broken Bone (Minor) heals' },
+        { min: 56, max: 60, name: 'Ruptured Ligament', wounds: 3, conditions: [], effect: 'Drop whatever is held in the hand. Suffer a Torn Muscle (Major) injury.', duration: 'Until the Torn Muscle (Major) heals' },
+        { min: 61, max: 65, name: 'Deep Cut', wounds: 3, conditions: [bleeding(2), stunned(1)], effect: 'Suffer a Torn Muscle (Minor) injury. Make a Challenging (+0) Cool Test or fall Unconscious.', duration: 'Until the Torn Muscle (Minor) heals' },
+        { min: 66, max: 70, name: 'Damaged Artery', wounds: 4, conditions: [bleeding(4)], effect: 'Blood pumps from the wound; Bleeding can only be removed by a successful Heal Test.' },
+        { min: 71, max: 75, name: 'Crushed Elbow', wounds: 4, conditions: [], effect: 'Drop whatever is held in the hand. Suffer a Broken Bone (Major) injury.', duration: 'Until the Broken Bone (Major) heals' },
+        { min: 76, max: 80, name: 'Dislocated Shoulder', wounds: 4, conditions: [stunned(1), prone], effect: 'Drop whatever is held in the hand. The arm is useless until the shoulder is reset with a Heal Test.', duration: 'Until reset' },
+        { min: 81, max: 85, name: 'Severed Finger', wounds: 4, conditions: [bleeding(1)], effect: 'Lose a finger (Amputation: Average).', duration: 'Permanent' },
+        { min: 86, max: 90, name: 'Cleft Hand', wounds: 5, conditions: [bleeding(2)], effect: 'The hand is split open: lose 1 finger (Amputation: Difficult), and another on a failed Challenging (+0) Endurance Test.', duration: 'Permanent' },
+        { min: 91, max: 93, name: 'Mauled Bicep', wounds: 5, conditions: [bleeding(2)], effect: 'Drop whatever is held in the hand. Suffer a Torn Muscle (Major) injury.', duration: 'Until the Torn Muscle (Major) heals' },
+        { min: 94, max: 96, name: 'Mangled Hand', wounds: 5, conditions: [bleeding(2)], effect: 'The hand is destroyed (Amputation: Hard).', duration: 'Permanent' },
+        { min: 97, max: 99, name: 'Sliced Tendons', wounds: 5, conditions: [bleeding(3), stunned(1), prone], effect: 'The tendons are cut: the arm is useless (Amputation: Very Hard).', duration: 'Permanent' },
+        { min: 100, max: 100, name: 'Brutal Dismemberment', wounds: 0, conditions: [], effect: 'The arm is hacked away and the character bleeds out. Death.', death: true },
+    ],
+    body: [
+        { min: 1, max: 10, name: '\'Tis But A Scratch!', wounds: 1, conditions: [bleeding(1)], effect: 'A nick in the flesh.' },
+        { min: 11, max: 20, name: 'Gut Blow', wounds: 1, conditions: [stunned(1)], effect: 'Make an Easy (+40) Endurance Test or vomit, gaining the Prone Condition.' },
+        { min: 21, max: 25, name: 'Low Blow!', wounds: 1, conditions: [], effect: 'Make a Hard (−20) Endurance Test or gain 3 Stunned Conditions.' },
+        { min: 26, max: 30, name: 'Twisted Back', wounds: 1, conditions: [], effect: 'Suffer a Torn Muscle (Minor) injury.', duration: 'Until the Torn Muscle (Minor) heals' },
+        { min: 31, max: 35, name: 'Winded', wounds: 2, conditions: [stunned(1)], effect: 'Make an Average (+20) Endurance Test or gain the Prone Condition. Movement is halved.', duration: '1d10 Rounds' },
+        { min: 36, max: 40, name: 'Bruised Ribs', wounds: 2, conditions: [], effect: 'All Agility-based Tests suffer −10.', duration: '1d10 days' },
+        { min: 41, max: 45, name: 'Wrenched Collar Bone', wounds: 2, conditions: [], effect: 'Randomly select an arm; drop whatever it holds. That arm is useless.', duration: '1d10 Rounds' },
+        { min: 46, max: 50, name: 'Ragged Wound', wounds: 2, conditions: [bleeding(2)], effect: 'A messy tear in the flesh.' },
+        { min: 51, max: 55, name: 'Cracked Ribs', wounds: 3, conditions: [stunned(1)], effect: 'Suffer a Broken Bone (Minor) injury.', duration: 'Until the Broken Bone (Minor) heals' },
+        { min: 56, max: 60, name: 'Gaping Wound', wounds: 3, conditions: [bleeding(3)], effect: 'The wound reopens unless it is stitched with a successful Heal Test.' },
+        { min: 61, max: 65, name: 'Painful Cut', wounds: 3, conditions: [bleeding(2), stunned(1)], effect: 'Make a Hard (−20) Endurance Test or fall Unconscious.' },
+        { min: 66, max: 70, name: 'Arterial Damage', wounds: 3, conditions: [bleeding(4)], effect: 'Bleeding can only be removed by a successful Heal Test.' },
+        { min: 71, max: 75, name: 'Pulled Back', wounds: 4, conditions: [], effect: 'Suffer a Torn Muscle (Major) injury.', duration: 'Until the Torn Muscle (Major) heals' },
+        { min: 76, max: 80, name: 'Fractured Hip', wounds: 4, conditions: [stunned(1)], effect: 'Suffer a Broken Bone (Minor) injury.', duration: 'Until the Broken Bone (Minor) heals' },
+        { min: 81, max: 85, name: 'Major Chest Wound', wounds: 4, conditions: [bleeding(4)], effect: 'A deep wound to the chest; the wound reopens unless stitched.' },
+        { min: 86, max: 90, name: 'Gut Wound', wounds: 4, conditions: [bleeding(2)], effect: 'Contract a Festering Wound.', duration: 'Until the Festering Wound is cured' },
+        { min: 91, max: 93, name: 'Smashed Rib Cage', wounds: 5, conditions: [stunned(1)], effect: 'Suffer a Broken Bone (Major) injury.', duration: 'Until the Broken Bone (Major) heals' },
+        { min: 94, max: 96, name: 'Broken Collar Bone', wounds: 5, conditions: [unconscious], effect: 'Suffer a Broken Bone (Major) injury.', duration: 'Until the Broken Bone (Major) heals' },
+        { min: 97, max: 99, name: 'Internal Bleeding', wounds: 5, conditions: [bleeding(1)], effect: 'Contract Blood Rot.', duration: 'Until the Blood Rot is cured' },
+        { min: 100, max: 100, name: 'Torn Apart', wounds: 0, conditions: [], effect: 'The body is ripped open. Death.', death: true },
+    ],
+    leg: [
+        { min: 1, max: 10, name: 'Stubbed Toe', wounds: 1, conditions: [], effect: 'Make an Average (+20) Endurance Test or suffer −10 to Agility Tests.', duration: '1 Turn' },
+        { min: 11, max: 20, name: 'Twisted Ankle', wounds: 1, conditions: [], effect: '−10 to Agility Tests.', duration: '1d10 Rounds' },
+        { min: 21, max: 25, name: 'Minor Cut', wounds: 1, conditions: [bleeding(1)], effect: 'A shallow cut to the leg.' },
+        { min: 26, max: 30, name: 'Lost Footing', wounds: 1, conditions: [prone], effect: 'The blow knocks the leg out from under the character.' },
+        { min: 31, max: 35, name: 'Thigh Strike', wounds: 2, conditions: [bleeding(1)], effect: 'Make an Average (+20) Endurance Test or gain the Prone Condition.' },
+        { min: 36, max: 40, name: 'Sprained Ankle', wounds: 2, conditions: [], effect: 'Suffer a Torn Muscle (Minor) injury.', duration: 'Until the Torn Muscle (Minor) heals' },
+        { min: 41, max: 45, name: 'Twisted Knee', wounds: 2, conditions: [], effect: '−20 to Agility Tests.', duration: '1d10 Rounds' },
+        { min: 46, max: 50, name: 'Badly Cut Toe', wounds: 2, conditions: [bleeding(1)], effect: 'Make a Challenging (+0) Endurance Test or lose a toe (Amputation: Easy).' },
+        { min: 51, max: 55, name: 'Bad Cut', wounds: 3, conditions: [bleeding(2), prone], effect: 'A deep cut to the calf.' },
+        { min: 56, max: 60, name: 'Badly Twisted Knee', wounds: 3, conditions: [], effect: 'Suffer a Torn Muscle (Major) injury.', duration: 'Until the Torn Muscle (Major) heals' },
+        { min: 61, max: 65, name: 'Hacked Leg', wounds: 3, conditions: [bleeding(2), prone, stunned(1)], effect: 'A chop into the thigh.' },
+        { min: 66, max: 70, name: 'Torn Thigh', wounds: 3, conditions: [bleeding(3)], effect: 'Make a Challenging (+0) Endurance Test or gain the Prone Condition. The wound reopens unless stitched.' },
+        { min: 71, max: 75, name: 'Ruptured Tendon', wounds: 4, conditions: [prone, stunned(1)], effect: 'Suffer a Torn Muscle (Major) injury.', duration: 'Until the Torn Muscle (Major) heals' },
+        { min: 76, max: 80, name: 'Carved Shin', wounds: 4, conditions: [bleeding(2), stunned(1)], effect: 'Make a Challenging (+0) Endurance Test or gain the Prone Condition. Suffer a Torn Muscle (Minor) injury.', duration: 'Until the Torn Muscle (Minor) heals' },
+        { min: 81, max: 85, name: 'Broken Knee', wounds: 4, conditions: [bleeding(1), prone], effect: 'Suffer a Broken Bone (Major) injury.', duration: 'Until the Broken Bone (Major) heals' },
+        { min: 86, max: 90, name: 'Dislocated Knee', wounds: 4, conditions: [prone], effect: 'The leg is useless until the knee is reset with a Heal Test.', duration: 'Until reset' },
+        { min: 91, max: 93, name: 'Crushed Foot', wounds: 5, conditions: [bleeding(2), prone], effect: 'Suffer a Broken Bone (Minor) injury; make a Challenging (+0) Endurance Test or lose a toe.', duration: 'Until the Broken Bone (Minor) heals' },
+        { min: 94, max: 96, name: 'Severed Foot', wounds: 5, conditions: [bleeding(3), prone, stunned(1)], effect: 'The foot is lost (Amputation: Hard).', duration: 'Permanent' },
+        { min: 97, max: 99, name: 'Cut Tendon', wounds: 5, conditions: [bleeding(2), prone, stunned(1)], effect: 'The leg is useless (Amputation: Very Hard).', duration: 'Permanent' },
+        { min: 100, max: 100, name: 'Shattered Pelvis', wounds: 0, conditions: [], effect: 'The pelvis is smashed apart. Death.', death: true },
+    ],
+};
+
+/**
+ * Map a hit location label ("Left Arm", "rLeg", "Head"...) to its critical table
+ */
+export function getCriticalTableLocation(location: string): CriticalTableLocation | null {
+    const key = location.toLowerCase();
+    if (key.includes('head')) return 'head';
+    if (key.includes('arm')) return 'arm';
+    if (key.includes('leg')) return 'leg';
+    if (key.includes('body') || key.includes('torso') || key.includes('chest')) return 'body';
+    return null;
+}
+
+/**
+ * Look up (or roll) a result on the critical table for a location. Modifiers push the roll up the table, capped at 100.
+ */
+export function rollCriticalTable(table: CriticalTableLocation, roll?: number, modifier = 0): CriticalTableResult {
+    const base = roll ?? Math.floor(Math.random() * 100) + 1;
+    const total = Math.min(100, Math.max(1, base + modifier));
+    const entries = CRITICAL_TABLES[table];
+    const entry = entries.find(candidate => total >= candidate.min && total <= candidate.max) ?? entries[entries.length - 1]!;
+
+    return { table, roll: total, entry };
+}
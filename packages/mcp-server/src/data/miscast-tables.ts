@@ -0,0 +1,121 @@
+/**
+ * WFRP 4e Minor and Major Miscast tables (Core Rulebook, Magic chapter)
+ *
+ * Effects are summarised rather than quoted. Damage always ignores Toughness Bonus and
+ * Armour Points; corruption and damage are dice expressions ("1", "1d10", "2d10+1").
+ */
+
+import { TableCondition, ablaze, bleeding, blinded, broken, deafened, fatigued, prone, stunned, surprised, unconscious } from './conditions.js';
+
+export type MiscastTable = 'minor' | 'major';
+
+export interface MiscastTableEntry {
+    min: number;
+    max: number;
+    name: string;
+    effect: string;
+    conditions: TableCondition[];
+    corruption?: string;
+    damage?: string;
+    rollAgain?: number;
+}
+
+export interface MiscastTableResult {
+    table: MiscastTable;
+    roll: number;
+    entry: MiscastTableEntry;
+}
+
+export const MISCAST_TABLES: Record<MiscastTable, MiscastTableEntry[]> = {
+    minor: [
+        { min: 1, max: 5, name: 'Witchsign', conditions: [], effect: 'The next living creature born within a mile is mutated.' },
+        { min: 6, max: 10, name: 'Soured Milk', conditions: [], effect: 'All milk within 1d100 yards goes sour instantly.' },
+        { min: 11, max: 15, name: 'Blight', conditions: [], effect: 'Plants and crops within 1d100 yards wither and die.' },
+        { min: 16, max: 20, name: 'Soul Drain', conditions: [fatigued(1)], effect: 'The Winds drain the caster\'s strength.' },
+        { min: 21, max: 25, name: 'Driven to Distraction', conditions: [surprised], effect: 'The caster loses track of their surroundings.' },
+        { min: 26, max: 30, name: 'Unsettling Aura', conditions: [], effect: 'Animals within 1d100 yards are spooked; −10 to Animal Care and Ride Tests for 1d10 Rounds.' },
+        { min: 31, max: 35, name: 'Aethyric Shock', damage: '1d10', conditions: [], effect: 'Raw magic courses through the caster. Make an Average (+20) Endurance Test or gain a Stunned Condition.' },
+        { min: 36, max: 40, name: 'Death Walker', conditions: [], effect: 'For 1d10 hours, plants wilt and die wherever the caster steps.' },
+        { min: 41, max: 45, name: 'Intestinal Rebellion', conditions: [fatigued(1)], effect: 'The caster\'s bowels loosen; the Fatigued Condition remains until they can clean themselves up.' },
+        { min: 46, max: 50, name: 'Soulfire', conditions: [ablaze(1)], effect: 'Aethyric flame wreathes the caster.' },
+        { min: 51, max: 55, name: 'Speak in Tongues', conditions: [], effect: 'The caster babbles incoherently for 1d10 Rounds and cannot communicate or cast spells.' },
+        { min: 56, max: 60, name: 'Swarm', conditions: [], effect: 'A swarm of rats, spiders or insects erupts around the caster for 1d10 Rounds; −10 to all Tests while it lasts.' },
+        { min: 61, max: 65, name: 'Ragdoll', conditions: [prone], effect: 'The caster is flung 1d10 yards in a random direction.' },
+        { min: 66, max: 70, name: 'Limb Freeze', conditions: [], effect: 'A random limb is frozen solid and useless for 1d10 hours.' },
+        { min: 71, max: 75, name: 'Chaotic Foresight', corruption: '1', conditions: [], effect: 'Visions of possible futures: gain a Fortune point that must be spent before the end of the session.' },
+        { min: 76, max: 80, name: 'Arcane Hangover', conditions: [fatigued(1)], effect: '−10 to Language (Magick) Tests for 1d10 hours.' },
+        { min: 81, max: 85, name: 'Unholy Visage', conditions: [], effect: 'Daemonic features flicker across the caster\'s face; onlookers must pass a Cool Test or gain a Broken Condition.' },
+        { min: 86, max: 90, name: 'Aethyric Feedback', damage: '1', conditions: [deafened(1)], effect: 'A thunderclap of magic bursts out; everyone within Willpower Bonus yards suffers 1 Wound.' },
+        { min: 91, max: 95, name: 'Warp Touched', corruption: '1', conditions: [], effect: 'The touch of the Aethyr leaves a lingering taint.' },
+        { min: 96, max: 100, name: 'Multiplying Misfortune', conditions: [], effect: 'Roll twice more on the Minor Miscast table.', rollAgain: 2 },
+    ],
+    major: [
+        { min: 1, max: 5, name: 'Ghostly Voices', conditions: [], effect: 'Whispers from the Aethyr: make a Challenging (+0) Cool Test or gain a Broken Condition.' },
+        { min: 6, max: 10, name: 'Cursed Ears', conditions: [deafened(2)], effect: 'A shriek only the caster can hear.' },
+        { min: 11, max: 15, name: 'Rotten Luck', conditions: [], effect: 'The caster loses all remaining Fortune points.' },
+        { min: 16, max: 20, name: 'Unholy Stench', conditions: [fatigued(1)], effect: 'The caster reeks of the grave; −20 to Fellowship Tests for 1d10 hours.' },
+        { min: 21, max: 25, name: 'Mind Fog', conditions: [stunned(1)], effect: 'The caster cannot cast spells for 1d10 Rounds.' },
+        { min: 26, max: 30, name: 'Aethyric Surge', damage: '1d10', conditions: [stunned(2)], effect: 'Raw magic burns through the caster\'s body.' },
+        { min: 31, max: 35, name: 'Daemonic Whispers', corruption: '1', conditions: [broken(1)], effect: 'Something in the Aethyr takes notice of the caster.' },
+        { min: 36, max: 40, name: 'Wild Magic', damage: '1d10', conditions: [], effect: 'Magic explodes outward: everyone within Willpower Bonus yards also suffers 1d10 Wounds, ignoring Toughness Bonus and Armour Points.' },
+        { min: 41, max: 45, name: 'Spatial Disturbance', conditions: [prone], effect: 'The caster is teleported 1d10 yards in a random direction.' },
+        { min: 46, max: 50, name: 'Hellfire', conditions: [ablaze(2)], effect: 'Warpflame erupts from the caster\'s hands.' },
+        { min: 51, max: 55, name: 'Vile Spew', conditions: [fatigued(1), prone], effect: 'The caster doubles over and vomits foul ichor.' },
+        { min: 56, max: 60, name: 'Blood Price', conditions: [bleeding(3)], effect: 'Blood bursts from the caster\'s eyes, nose and ears.' },
+        { min: 61, max: 65, name: 'Corrupting Taint', corruption: '2', conditions: [], effect: 'Dark magic seeps into the caster\'s soul.' },
+        { min: 66, max: 70, name: 'Aethyric Blackout', conditions: [unconscious], effect: 'The caster collapses, unconscious for 1d10 Rounds.' },
+        { min: 71, max: 75, name: 'Soul Burn', corruption: '1', damage: '1d10', conditions: [], effect: 'The Winds sear the caster\'s spirit and flesh alike.' },
+        { min: 76, max: 80, name: 'Misdirected Spell', conditions: [stunned(1)], effect: 'The spell takes effect anyway — on a random target within range.' },
+        { min: 81, max: 85, name: 'Fleeting Possession', corruption: '1', conditions: [], effect: 'A daemon rides the caster for 1d10 Rounds; the GM controls their actions.' },
+        { min: 86, max: 90, name: 'Dark Flash', conditions: [blinded(2)], effect: 'A burst of black light; everyone within 1d10 yards gains 2 Blinded Conditions.' },
+        { min: 91, max: 95, name: 'Chaos Taint', corruption: '1d10', conditions: [], effect: 'The Aethyr floods the caster; test for mutation immediately if a Corruption threshold is exceeded.' },
+        { min: 96, max: 100, name: 'Chaos Unleashed', corruption: '1', conditions: [], effect: 'Reality tears: a lesser daemon may manifest. Roll twice more on the Major Miscast table.', rollAgain: 2 },
+    ],
+};
+
+/**
+ * Roll a simple dice expression such as "3", "1d10" or "2d10+1"
+ */
+export function rollDiceExpression(expression: string): number {
+    const match = expression.trim().match(/^(\d+)(?:d(\d+))?(?:\s*([+-])\s*(\d+))?$/i);
+    if (!match) {
+        throw new Error(`Invalid dice expression: ${expression}`);
+    }
+
+    const count = parseInt(match[1]!, 10);
+    let total = count;
+    if (match[2]) {
+        const sides = parseInt(match[2], 10);
+        total = 0;
+        for (let i = 0; i < count; i++) {
+            total += Math.floor(Math.random() * sides) + 1;
+        }
+    }
+    if (match[3] && match[4]) {
+        total += (match[3] === '-' ? -1 : 1) * parseInt(match[4], 10);
+    }
+
+    return Math.max(0, total);
+}
+
+/**
+ * Roll (or look up) a miscast result. "Roll again" entries expand into further results;
+ * those extra rolls stop short of the roll-again band so the chain always ends.
+ */
+export function rollMiscastTable(table: MiscastTable, roll?: number): MiscastTableResult[] {
+    const entries = MISCAST_TABLES[table];
+    const lookup = (value: number): MiscastTableEntry =>
+        entries.find(candidate => value >= candidate.min && value <= candidate.max) ?? entries[entries.length - 1]!;
+
+    const firstRoll = Math.min(100, Math.max(1, roll ?? Math.floor(Math.random() * 100) + 1));
+    const first = lookup(firstRoll);
+    const results: MiscastTableResult[] = [{ table, roll: firstRoll, entry: first }];
+
+    const rerollCeiling = Math.min(...entries.filter(entry => entry.rollAgain).map(entry => entry.min)) - 1;
+    for (let i = 0; i < (first.rollAgain ?? 0); i++) {
+        const extraRoll = Math.floor(Math.random() * rerollCeiling) + 1;
+        results.push({ table, roll: extraRoll, entry: lookup(extraRoll) });
+    }
+
+    return results;
+}
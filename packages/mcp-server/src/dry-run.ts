@@ -0,0 +1,328 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+const BRIDGE_PREFIX = 'foundry-mcp-bridge.';
+
+/**
+ * Bridge queries that change the Foundry world. Skill and characteristic tests are here for their
+ * chat message only: tools need the roll to work out what they would write, so a preview still rolls.
+ */
+const WRITE_QUERIES = new Set([
+  'createActor',
+  'updateActor',
+  'createItem',
+  'updateItem',
+  'deleteItem',
+  'createActorFromCompendium',
+  'addActorsToScene',
+  'placeEncounter',
+  'createJournalEntry',
+  'updateJournalContent',
+  'setActorOwnership',
+  'switch-scene',
+  'startCombat',
+  'nextCombatTurn',
+  'endCombat',
+  'addConditions',
+  'removeConditions',
+  'postChatMessage',
+  'request-player-rolls',
+  'createRollTable',
+  'addTableResults',
+  'deleteRollTable',
+  'updateSceneBackground',
+  'setActorArt',
+  'createFloorScenes',
+  'undoChange',
+  'rollSkill',
+  'rollCharacteristic',
+  'rollOnTable',
+  'generate-map',
+  'cancel-map-job',
+  'rebuildEnhancedIndex',
+]);
+
+const MAX_LISTED_FIELDS = 25;
+
+export interface PlannedChange {
+  field: string;
+  before?: unknown;
+  after: unknown;
+}
+
+export interface PlannedWrite {
+  method: string;
+  summary: string;
+  changes: PlannedChange[];
+}
+
+/** Sends a query straight to Foundry, even one on the write list */
+type BridgeReader = (method: string, data?: any) => Promise<any>;
+
+/**
+ * Collects the writes a tool would make during a dry run and answers them with simulated results
+ */
+export class DryRunSession {
+  readonly writes: PlannedWrite[] = [];
+
+  async plan(method: string, data: any, read: BridgeReader): Promise<any> {
+    const name = method.replace(BRIDGE_PREFIX, '');
+
+    switch (name) {
+      case 'updateActor': {
+        const actor = await read(`${BRIDGE_PREFIX}getCharacterInfo`, { characterId: data.actorId });
+        const updated = Object.keys(flatten(data.updateData));
+        this.record(name, `Update actor "${actor.name}"`, diff(actor, data.updateData));
+        return { success: true, actorId: actor.id, actorName: actor.name, updated };
+      }
+
+      case 'updateItem': {
+        const actor = await read(`${BRIDGE_PREFIX}getCharacterInfo`, { characterId: data.actorId });
+        const item = (actor.items || []).find((entry: any) => entry.id === data.itemId);
+        if (!item) {
+          throw new Error(`Item not found with ID: ${data.itemId} on actor ${actor.name}`);
+        }
+        this.record(name, `Update ${item.type} "${item.name}" on ${actor.name}`, diff(item, data.updateData));
+        return { success: true, actorId: actor.id, itemId: item.id, itemName: item.name, updated: Object.keys(flatten(data.updateData)) };
+      }
+
+      case 'createItem': {
+        const actor = await read(`${BRIDGE_PREFIX}getCharacterInfo`, { characterId: data.actorId });
+        const { itemData } = data;
+        this.record(name, `Create ${itemData.type} "${itemData.name}" on ${actor.name}`, added(itemData));
+        return { success: true, actorId: actor.id, itemId: 'dry-run', itemName: itemData.name, itemType: itemData.type };
+      }
+
+      case 'deleteItem': {
+        const actor = await read(`${BRIDGE_PREFIX}getCharacterInfo`, { characterId: data.actorId });
+        const item = (actor.items || []).find((entry: any) => entry.id === data.itemId);
+        if (!item) {
+          throw new Error(`Item not found with ID: ${data.itemId} on actor ${actor.name}`);
+        }
+        this.record(name, `Delete ${item.type} "${item.name}" from ${actor.name}`, []);
+        return { success: true, actorId: actor.id, itemId: item.id, itemName: item.name, itemType: item.type };
+      }
+
+      case 'createActor': {
+        const { actorData } = data;
+        this.record(name, `Create ${actorData.type} actor "${actorData.name}"`, added(actorData));
+        return { success: true, id: 'dry-run', name: actorData.name, type: actorData.type };
+      }
+
+      case 'createJournalEntry': {
+        this.record(name, `Create journal "${data.name}"`, [{ field: 'content', after: data.content }]);
+        return { id: 'dry-run', name: data.name };
+      }
+
+      case 'updateJournalContent': {
+        const current = await read(`${BRIDGE_PREFIX}getJournalContent`, { journalId: data.journalId });
+        this.record(name, `Update journal ${data.journalId}`, [{ field: 'content', before: current?.content ?? '', after: data.content }]);
+        return { success: true };
+      }
+
+      case 'addConditions': {
+        const actor = await read(`${BRIDGE_PREFIX}getCharacterInfo`, { characterId: data.actorId });
+        const applied = (data.conditions || []).map((condition: any) => ({ key: condition.key.toLowerCase(), value: condition.value || 1 }));
+        this.record(name, `Add conditions to ${actor.name}`, applied.map((condition: any) => ({ field: condition.key, after: `+${condition.value}` })));
+        return { success: true, actorId: actor.id, actorName: actor.name, applied, skipped: [] };
+      }
+
+      case 'removeConditions': {
+        const current = await read(`${BRIDGE_PREFIX}getConditions`, { actorId: data.actorId });
+        const removed = (data.conditions || [])
+          .map((condition: any) => {
+            const existing = (current.conditions || []).find((entry: any) => entry.key === condition.key.toLowerCase());
+            if (!existing) return null;
+            const value = Math.min(existing.value, condition.value ?? existing.value);
+            return { key: existing.key, value, remaining: existing.value - value };
+          })
+          .filter(Boolean);
+        this.record(name, `Remove conditions from ${current.actorName}`, removed.map((condition: any) => ({ field: condition.key, before: condition.value + condition.remaining, after: condition.remaining })));
+        return { success: true, actorId: current.actorId, actorName: current.actorName, removed, skipped: [] };
+      }
+
+      case 'postChatMessage': {
+        this.record(name, 'Post chat message', [{ field: 'content', after: data.content }]);
+        return { success: true, messageId: 'dry-run' };
+      }
+
+      case 'placeEncounter': {
+        const groups: any[] = data.groups || [];
+        this.record(name, 'Place encounter on the active scene', groups.map(group => ({ field: group.role ? `${group.name} (${group.role})` : group.name, after: `x${group.quantity}` })));
+        return {
+          success: true,
+          sceneId: 'dry-run',
+          sceneName: 'the active scene',
+          actors: groups.map(group => ({ id: 'dry-run', name: group.name, role: group.role })),
+          tokenIds: [],
+          tokensPlaced: groups.reduce((total, group) => total + group.quantity, 0),
+        };
+      }
+
+      case 'rollSkill':
+      case 'rollCharacteristic': {
+        const response = await read(method, { ...data, chat: false });
+        if (response?.success) {
+          this.record(name, `Post ${response.data.actorName}'s ${response.data.testName} to chat`, [
+            { field: 'result', after: `${response.data.roll} vs ${response.data.target}: ${response.data.outcome}` },
+          ]);
+        }
+        return response;
+      }
+
+      case 'rollOnTable': {
+        const table = await read(`${BRIDGE_PREFIX}getRollTable`, { tableId: data.tableId });
+        if (table?.error) {
+          throw new Error(table.error);
+        }
+        this.record(name, `Draw from roll table "${table.name}" and post the result to chat`, []);
+        return { tableName: table.name, formula: table.formula, roll: 'not rolled', text: 'Nothing is drawn in a dry run.', drawn: false };
+      }
+
+      case 'cancel-map-job': {
+        this.record(name, `Cancel map generation job ${data.job_id}`, []);
+        return { success: true, status: 'dry-run', message: `Map generation job ${data.job_id} would be cancelled.` };
+      }
+
+      default: {
+        this.record(name, `Run ${name}`, added(data || {}));
+        return { success: true, dryRun: true };
+      }
+    }
+  }
+
+  private record(method: string, summary: string, changes: PlannedChange[]): void {
+    this.writes.push({ method, summary, changes });
+  }
+}
+
+const dryRunStorage = new AsyncLocalStorage<DryRunSession>();
+
+/**
+ * Run a tool handler with every bridge write intercepted instead of sent to Foundry
+ * A handler that fails after planning writes (e.g. it needed a created document's real id)
+ * still returns what it had planned so far, with the error alongside
+ */
+export async function runDryRun<T>(fn: () => Promise<T>): Promise<{ result?: T; writes: PlannedWrite[]; error?: string }> {
+  const session = new DryRunSession();
+  try {
+    const result = await dryRunStorage.run(session, fn);
+    return { result, writes: session.writes };
+  } catch (error) {
+    if (session.writes.length === 0) {
+      throw error;
+    }
+    return { writes: session.writes, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+export function getDryRunSession(): DryRunSession | undefined {
+  return dryRunStorage.getStore();
+}
+
+/**
+ * For tools that start a background generation job: the preview to return instead during a dry run, else undefined
+ * The job runs after the tool call returns, beyond the dry run's interception, so it must not be started at all
+ */
+export function previewBackgroundJob(tool: string, describe: () => string): string | undefined {
+  return getDryRunSession() ? `Dry run: ${tool} would ${describe()}. No job was started.` : undefined;
+}
+
+export function isWriteQuery(method: string): boolean {
+  return WRITE_QUERIES.has(method.replace(BRIDGE_PREFIX, ''));
+}
+
+/**
+ * Add the shared dryRun argument to a tool definition
+ */
+export function withDryRunArgument<T extends { inputSchema: any }>(tool: T): T {
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...(tool.inputSchema?.properties || {}),
+        dryRun: {
+          type: 'boolean',
+          description: 'Preview only: report the actor/item/journal changes this call would make without writing them to Foundry (dice are still rolled)',
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Render planned writes as a markdown preview for the GM
+ */
+export function formatDryRunPreview(writes: PlannedWrite[]): string {
+  let text = `# 🔍 Dry Run — nothing was written to Foundry\n\n`;
+
+  if (writes.length === 0) {
+    return text + `This call would not change anything.\n`;
+  }
+
+  writes.forEach((write, index) => {
+    text += `## ${index + 1}. ${write.summary}\n\n`;
+    if (write.changes.length === 0) {
+      return;
+    }
+
+    const hasBefore = write.changes.some(change => 'before' in change);
+    text += hasBefore ? `| Field | Current | New |\n|---|---|---|\n` : `| Field | Value |\n|---|---|\n`;
+    for (const change of write.changes.slice(0, MAX_LISTED_FIELDS)) {
+      text += hasBefore
+        ? `| ${change.field} | ${formatValue(change.before)} | ${formatValue(change.after)} |\n`
+        : `| ${change.field} | ${formatValue(change.after)} |\n`;
+    }
+    if (write.changes.length > MAX_LISTED_FIELDS) {
+      text += `\n…and ${write.changes.length - MAX_LISTED_FIELDS} more field(s)\n`;
+    }
+    text += `\n`;
+  });
+
+  return text;
+}
+
+/**
+ * Tools return either markdown or an MCP content object; reduce both to text
+ */
+export function getToolOutputText(result: any): string {
+  if (typeof result === 'string') {
+    return result;
+  }
+  if (Array.isArray(result?.content)) {
+    return result.content.map((entry: any) => entry.text ?? '').join('\n');
+  }
+  return JSON.stringify(result);
+}
+
+function flatten(value: any, prefix = ''): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value || {})) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (entry && typeof entry === 'object' && !Array.isArray(entry)) {
+      Object.assign(result, flatten(entry, path));
+    } else {
+      result[path] = entry;
+    }
+  }
+  return result;
+}
+
+function getPath(source: any, path: string): unknown {
+  return path.split('.').reduce((value, key) => (value === undefined || value === null ? undefined : value[key]), source);
+}
+
+function diff(source: any, updateData: Record<string, any>): PlannedChange[] {
+  return Object.entries(flatten(updateData)).map(([field, after]) => ({ field, before: getPath(source, field), after }));
+}
+
+function added(data: Record<string, any>): PlannedChange[] {
+  return Object.entries(flatten(data)).map(([field, after]) => ({ field, after }));
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  const singleLine = text.replace(/\s+/g, ' ').replace(/\|/g, '\\|');
+  return singleLine.length > 80 ? `${singleLine.slice(0, 77)}...` : singleLine;
+}
@@ -1,6 +1,7 @@
 import { Logger } from './logger.js';
 import { Config } from './config.js';
 import { FoundryConnector } from './foundry-connector.js';
+import { getDryRunSession, isWriteQuery } from './dry-run.js';
 
 export interface FoundryQuery {
   method: string;
@@ -55,6 +56,16 @@ export class FoundryClient {
       throw new Error('Foundry VTT module not connected. Please ensure Foundry is running and the MCP Bridge module is enabled.');
     }
 
+    const dryRun = getDryRunSession();
+    if (dryRun && isWriteQuery(method)) {
+      this.logger.debug('Dry run: intercepting write query', { method });
+      return dryRun.plan(method, data, (readMethod, readData) => this.send(readMethod, readData));
+    }
+
+    return this.send(method, data);
+  }
+
+  private async send(method: string, data?: any): Promise<any> {
     this.logger.debug('Sending query to Foundry module', { method, data });
 
     try {
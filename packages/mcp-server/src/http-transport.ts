@@ -0,0 +1,131 @@
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import * as http from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  path: string;
+  authToken: string;
+  /** A fresh MCP server per session; each one proxies to the shared backend */
+  createServer: () => Server;
+  log: (message: string, meta?: any) => void;
+}
+
+/**
+ * Serve MCP over Streamable HTTP (POST for requests, GET for the SSE notification stream, DELETE to end a session)
+ * so clients on other machines can use the same Foundry world. Every request needs the bearer token.
+ */
+export async function startHttpTransport(options: HttpTransportOptions): Promise<http.Server> {
+  const sessions = new Map<string, StreamableHTTPServerTransport>();
+
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || '/', 'http://localhost');
+      if (url.pathname !== options.path) {
+        return sendError(res, 404, 'Not found');
+      }
+
+      if (!isAuthorized(req, options.authToken)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        return sendError(res, 401, 'Unauthorized');
+      }
+
+      const sessionId = req.headers['mcp-session-id'];
+      if (typeof sessionId === 'string') {
+        const transport = sessions.get(sessionId);
+        if (!transport) {
+          return sendError(res, 404, 'Session not found');
+        }
+        await transport.handleRequest(req, res);
+        return;
+      }
+
+      if (req.method !== 'POST') {
+        return sendError(res, 400, 'Missing mcp-session-id header');
+      }
+
+      const body = await readJsonBody(req);
+      if (!isInitializeRequest(body)) {
+        return sendError(res, 400, 'A session must start with an initialize request');
+      }
+
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, transport);
+          options.log('http: session started', { sessionId: id, remote: req.socket.remoteAddress });
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId && sessions.delete(transport.sessionId)) {
+          options.log('http: session closed', { sessionId: transport.sessionId });
+        }
+      };
+
+      await options.createServer().connect(transport);
+      await transport.handleRequest(req, res, body);
+    } catch (error: any) {
+      options.log('http: request failed', { error: error?.message });
+      if (!res.headersSent) {
+        sendError(res, error instanceof BadRequestError ? 400 : 500, error?.message || 'Internal error');
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  options.log('http: listening', { host: options.host, port: options.port, path: options.path });
+  return httpServer;
+}
+
+class BadRequestError extends Error {}
+
+function isAuthorized(req: http.IncomingMessage, authToken: string): boolean {
+  const match = (req.headers.authorization || '').match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+
+  // Compare digests so the check takes the same time whatever the token length
+  const presented = createHash('sha256').update(match[1]!.trim()).digest();
+  const expected = createHash('sha256').update(authToken).digest();
+  return timingSafeEqual(presented, expected);
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new BadRequestError('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new BadRequestError('Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function sendError(res: http.ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
@@ -2,8 +2,19 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 import { config } from './config.js';
+import { startHttpTransport } from './http-transport.js';
 import { spawn } from 'child_process';
 import * as net from 'net';
 import { fileURLToPath } from 'url';
@@ -16,14 +27,17 @@ const CONTROL_PORT = 31414;
 
 type BackendReq = { id: string; method: string; params?: any };
 type BackendRes = { id: string; result?: any; error?: { message: string } };
+// Pushed by the backend without a request, e.g. when a Foundry document behind a resource changes
+type BackendNotification = { notification: string; params?: any };
 
 class BackendClient {
   private socket: net.Socket | null = null;
   private buffer = '';
   private pending = new Map<string, { resolve: (v: any) => void; reject: (e: any) => void }>();
+  private notificationHandlers = new Set<(n: BackendNotification) => void>();
   private logFile = path.join(os.tmpdir(), 'foundry-mcp-server', 'wrapper.log');
 
-  private log(msg: string, meta?: any) {
+  log(msg: string, meta?: any) {
     try {
       const dir = path.dirname(this.logFile);
       if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
@@ -120,6 +134,12 @@ class BackendClient {
     });
   }
 
+  // Returns a function that removes the handler again
+  onNotification(handler: (n: BackendNotification) => void): () => void {
+    this.notificationHandlers.add(handler);
+    return () => this.notificationHandlers.delete(handler);
+  }
+
   private onData(chunk: string) {
     this.buffer += chunk;
     let idx: number;
@@ -128,7 +148,12 @@ class BackendClient {
       this.buffer = this.buffer.slice(idx + 1);
       if (!line) continue;
       try {
-        const msg = JSON.parse(line) as BackendRes;
+        const parsed = JSON.parse(line) as BackendRes | BackendNotification;
+        if ('notification' in parsed) {
+          for (const handler of this.notificationHandlers) handler(parsed);
+          continue;
+        }
+        const msg = parsed;
         const p = this.pending.get(msg.id);
         if (!p) continue;
         this.pending.delete(msg.id);
@@ -169,9 +194,22 @@ class BackendClient {
   }
 }
 
-async function startWrapper() {
-  const backend = new BackendClient();
-  const mcp = new Server({ name: config.server.name, version: config.server.version }, { capabilities: { tools: {} } });
+// One MCP server per client connection, all proxying to the same backend
+function createMcpServer(backend: BackendClient): Server {
+  const mcp = new Server(
+    { name: config.server.name, version: config.server.version },
+    { capabilities: { tools: {}, resources: { subscribe: true, listChanged: true }, prompts: {} } }
+  );
+  const subscriptions = new Set<string>();
+
+  const removeNotificationHandler = backend.onNotification((n) => {
+    if (n.notification === 'resources/updated' && subscriptions.has(n.params?.uri)) {
+      mcp.sendResourceUpdated({ uri: n.params.uri }).catch(() => {});
+    } else if (n.notification === 'resources/list_changed') {
+      mcp.sendResourceListChanged().catch(() => {});
+    }
+  });
+  mcp.onclose = removeNotificationHandler;
 
   mcp.setRequestHandler(ListToolsRequestSchema, async () => {
     try {
@@ -179,23 +217,108 @@ async function startWrapper() {
       return { tools: res.tools || [] };
     } catch {
       // Log but return empty to remain MCP-compliant
-      try { (backend as any).log?.('ListTools failed; returning empty'); } catch {}
+      try { backend.log('ListTools failed; returning empty'); } catch {}
       return { tools: [] };
     }
   });
 
-  mcp.setRequestHandler(CallToolRequestSchema, async (request) => {
+  mcp.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params as any;
+    const clientToken = request.params._meta?.progressToken;
+    // Clients pick their own tokens, so give the backend one that is unique across every connected client
+    const progressToken = clientToken === undefined ? undefined : Math.random().toString(36).slice(2);
+    const removeProgressHandler = progressToken === undefined ? undefined : backend.onNotification((n) => {
+      if (n.notification !== 'progress' || n.params?.progressToken !== progressToken) return;
+      extra.sendNotification({
+        method: 'notifications/progress',
+        params: { ...n.params, progressToken: clientToken! },
+      }).catch(() => {});
+    });
     try {
-      const res = await backend.send('call_tool', { name, args: args ?? {} });
+      const res = await backend.send('call_tool', { name, args: args ?? {}, ...(progressToken ? { progressToken } : {}) });
       return res;
     } catch (e: any) {
       return { content: [{ type: 'text', text: `Error: ${e?.message || 'Backend unavailable'}` }], isError: true } as any;
+    } finally {
+      removeProgressHandler?.();
+    }
+  });
+
+  mcp.setRequestHandler(ListResourcesRequestSchema, async () => {
+    try {
+      const res = await backend.send('list_resources', {});
+      return { resources: res.resources || [] };
+    } catch {
+      try { backend.log('ListResources failed; returning empty'); } catch {}
+      return { resources: [] };
+    }
+  });
+
+  mcp.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    try {
+      const res = await backend.send('list_resource_templates', {});
+      return { resourceTemplates: res.resourceTemplates || [] };
+    } catch {
+      return { resourceTemplates: [] };
+    }
+  });
+
+  mcp.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    // Errors propagate so the client sees why the resource could not be read
+    const res = await backend.send('read_resource', { uri: request.params.uri });
+    return { contents: res.contents || [] };
+  });
+
+  mcp.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    // Notifications only arrive over an open backend connection
+    await backend.ensure();
+    return {};
+  });
+
+  mcp.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  mcp.setRequestHandler(ListPromptsRequestSchema, async () => {
+    try {
+      const res = await backend.send('list_prompts', {});
+      return { prompts: res.prompts || [] };
+    } catch {
+      return { prompts: [] };
     }
   });
 
-  const transport = new StdioServerTransport();
-  await mcp.connect(transport);
+  mcp.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    return await backend.send('get_prompt', { name, args: args ?? {} });
+  });
+
+  return mcp;
+}
+
+async function startWrapper() {
+  const backend = new BackendClient();
+
+  if (config.transport !== 'stdio') {
+    if (!config.http.authToken) {
+      throw new Error('MCP_HTTP_AUTH_TOKEN must be set (at least 16 characters) to enable the HTTP transport');
+    }
+    await startHttpTransport({
+      host: config.http.host,
+      port: config.http.port,
+      path: config.http.path,
+      authToken: config.http.authToken,
+      createServer: () => createMcpServer(backend),
+      log: (message, meta) => backend.log(message, meta),
+    });
+  }
+
+  if (config.transport !== 'http') {
+    const transport = new StdioServerTransport();
+    await createMcpServer(backend).connect(transport);
+  }
 }
 
 startWrapper().catch((err) => {
@@ -1,12 +1,66 @@
 import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
 import { Logger } from './logger.js';
 
 export type JobStatus = 'queued' | 'generating' | 'processing' | 'complete' | 'failed' | 'expired';
 
 export interface GenerateMapInput {
   prompt: string;
+  scene_name?: string;
   size: 'small' | 'medium' | 'large';
-  grid_size: number;
+  /** Scene grid in pixels; not used for portraits */
+  grid_size?: number;
+  /** Workflow template name */
+  style?: string;
+  /** Sampler seed; a random one is recorded on the job when not given */
+  seed?: number;
+  edit?: MapEditInput;
+  portrait?: PortraitInput;
+  tiled?: TiledMapInput;
+}
+
+/**
+ * Rework an existing scene's background instead of generating a new scene
+ */
+export interface MapEditInput {
+  scene_id: string;
+  /** Background path relative to Foundry's Data directory (or a URL) */
+  source_image: string;
+  /** Source image size in pixels */
+  width: number;
+  height: number;
+  /** img2img denoise strength (0-1) */
+  strength: number;
+  /** Rectangle to repaint, in image pixels; the whole image is varied without it */
+  region?: { x: number; y: number; width: number; height: number };
+}
+
+/**
+ * Generate actor art instead of a map; scene_name carries the actor's name
+ */
+export interface PortraitInput {
+  actor_id: string;
+  actor_name: string;
+}
+
+/**
+ * Build the map from a grid of overlapping outpainted tiles instead of one image
+ */
+export interface TiledMapInput {
+  columns: number;
+  rows: number;
+  /** Pixels shared by neighbouring tiles, blended across when stitching */
+  overlap: number;
+  /** One linked scene per floor; the job prompt describes the whole building and each floor adds its own */
+  floors?: FloorInput[];
+  /** Grid square of the stairs, where the level transition notes go on every floor */
+  stairs?: { x: number; y: number };
+}
+
+export interface FloorInput {
+  name: string;
+  prompt: string;
 }
 
 export interface CreateJobParams {
@@ -18,6 +72,8 @@ export interface JobResult {
   image_url?: string;
   walls_detected?: number;
   generation_time_ms?: number;
+  /** Scenes created for multi-floor maps */
+  scenes?: Array<{ id: string; name: string }>;
 }
 
 export interface JobData {
@@ -57,8 +113,19 @@ export interface QueueMetrics {
   avg_queue_time_ms: number;
 }
 
+export interface JobListFilter {
+  status?: JobStatus[];
+  /** Case-insensitive match against the prompt and scene name */
+  search?: string;
+  /** Only jobs created at or after this timestamp (ms) */
+  since?: number;
+  limit?: number;
+}
+
 interface JobQueueConfig {
   ttl_minutes: number;
+  history_days: number;
+  max_history_jobs: number;
   max_concurrent_jobs: number;
   max_retry_attempts: number;
   retry_backoff_ms: number;
@@ -76,6 +143,13 @@ const JOB_STAGES = {
   FAILED: 'Generation failed'
 } as const;
 
+const STORAGE_VERSION = 1;
+
+const ACTIVE_STATUSES: JobStatus[] = ['queued', 'generating', 'processing'];
+
+/** ComfyUI's KSampler accepts 64-bit seeds; 32 bits keeps them exact in JSON */
+const MAX_SEED = 2 ** 32;
+
 const SIZE_CONFIG = {
   small: {
     pixels: 512,
@@ -105,20 +179,30 @@ export class JobQueue {
   private cleanupTimer?: NodeJS.Timeout | undefined;
   private jobIdCounter = 0;
   private onJobCompleted: ((jobId: string, data: JobCompletionNotificationData) => void) | undefined;
+  private jobListeners = new Set<(job: JobData) => void>();
+  private storagePath: string | undefined;
+  private persistPending = false;
+  private persisting: Promise<void> | undefined;
 
   constructor(options: {
     logger: Logger;
-    onJobCompleted?: (jobId: string, data: JobCompletionNotificationData) => void
+    onJobCompleted?: (jobId: string, data: JobCompletionNotificationData) => void;
+    /** JSON file the queue is persisted to; without it jobs only live in memory */
+    storagePath?: string;
   }) {
     this.logger = options.logger.child({ component: 'JobQueue' });
     this.onJobCompleted = options.onJobCompleted;
+    this.storagePath = options.storagePath;
     this.config = {
       ttl_minutes: 30,
+      history_days: 7,
+      max_history_jobs: 200,
       max_concurrent_jobs: 2,
       max_retry_attempts: 3,
       retry_backoff_ms: 2000
     };
 
+    this.loadJobs();
     this.startCleanupTimer();
   }
 
@@ -130,7 +214,9 @@ export class JobQueue {
     const existingJobId = this.jobHashes.get(promptHash);
     if (existingJobId) {
       const existingJob = this.jobs.get(existingJobId);
-      if (existingJob && !['failed', 'expired'].includes(existingJob.status)) {
+      // History is kept for days, but identical requests only reuse a job within the TTL
+      const isRecent = existingJob && Date.now() - existingJob.created_at <= this.config.ttl_minutes * 60 * 1000;
+      if (existingJob && isRecent && !['failed', 'expired'].includes(existingJob.status)) {
         this.logger.info('Returning existing job for identical request', {
           jobId: existingJobId,
           status: existingJob.status
@@ -141,12 +227,19 @@ export class JobQueue {
 
     // Create new job
     const jobId = this.generateJobId();
-    const estimatedDuration = SIZE_CONFIG[params.params.size]?.estimated_time_ms || 45000;
+    const tiled = params.params.tiled;
+    const estimatedDuration = tiled
+      ? tiled.columns * tiled.rows * Math.max(1, tiled.floors?.length ?? 1) * SIZE_CONFIG.large.estimated_time_ms
+      : SIZE_CONFIG[params.params.size]?.estimated_time_ms || 45000;
 
+    // Fix the seed now so check-map-status can report it and the map can be reproduced
     const job: JobData = {
       id: jobId,
       prompt_hash: promptHash,
-      params: params.params,
+      params: {
+        ...params.params,
+        seed: params.params.seed ?? Math.floor(Math.random() * MAX_SEED)
+      },
       status: 'queued',
       created_at: Date.now(),
       progress_percent: 0,
@@ -158,11 +251,13 @@ export class JobQueue {
 
     this.jobs.set(jobId, job);
     this.jobHashes.set(promptHash, jobId);
+    this.persist();
 
     this.logger.info('Job created', {
       jobId,
       prompt: params.params.prompt,
       size: params.params.size,
+      seed: job.params.seed,
       estimatedDuration
     });
 
@@ -173,6 +268,44 @@ export class JobQueue {
     return this.jobs.get(jobId);
   }
 
+  /**
+   * Job history, newest first
+   */
+  async listJobs(filter: JobListFilter = {}): Promise<JobData[]> {
+    const search = filter.search?.trim().toLowerCase();
+
+    const jobs = Array.from(this.jobs.values())
+      .filter(job => !filter.status || filter.status.length === 0 || filter.status.includes(job.status))
+      .filter(job => !filter.since || job.created_at >= filter.since)
+      .filter(job => !search
+        || job.params.prompt.toLowerCase().includes(search)
+        || (job.params.scene_name ?? '').toLowerCase().includes(search))
+      .sort((a, b) => b.created_at - a.created_at);
+
+    return filter.limit ? jobs.slice(0, filter.limit) : jobs;
+  }
+
+  /**
+   * Jobs that were queued or in flight when the queue was last persisted
+   */
+  async getUnfinishedJobs(): Promise<JobData[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => ACTIVE_STATUSES.includes(job.status))
+      .sort((a, b) => a.created_at - b.created_at);
+  }
+
+  async setComfyUIJobId(jobId: string, promptId: string): Promise<void> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+
+    job.comfyui_job_id = promptId;
+    this.persist();
+
+    this.logger.debug('ComfyUI prompt recorded', { jobId, promptId });
+  }
+
   async markJobStarted(jobId: string): Promise<void> {
     const job = this.jobs.get(jobId);
     if (!job) {
@@ -180,9 +313,11 @@ export class JobQueue {
     }
 
     job.status = 'generating';
-    job.started_at = Date.now();
+    job.started_at = job.started_at ?? Date.now();
     job.current_stage = JOB_STAGES.SUBMITTING;
     job.progress_percent = 10;
+    this.persist();
+    this.notifyJobUpdated(job);
 
     this.logger.info('Job started', { jobId, stage: job.current_stage });
   }
@@ -195,6 +330,8 @@ export class JobQueue {
 
     job.progress_percent = Math.min(100, Math.max(0, progress));
     job.current_stage = stage;
+    this.persist();
+    this.notifyJobUpdated(job);
 
     this.logger.debug('Job progress updated', {
       jobId,
@@ -214,6 +351,8 @@ export class JobQueue {
     job.progress_percent = 100;
     job.current_stage = JOB_STAGES.COMPLETE;
     job.result = result;
+    this.persist();
+    this.notifyJobUpdated(job);
 
     const completionTime = job.completed_at - (job.started_at || job.created_at);
     this.logger.info('Job completed', {
@@ -242,7 +381,11 @@ export class JobQueue {
     }
   }
 
-  async markJobFailed(jobId: string, error: string): Promise<void> {
+  /**
+   * Record a failed attempt. Returns how long to wait before retrying the requeued job,
+   * or undefined once it has used all its attempts and failed permanently.
+   */
+  async markJobFailed(jobId: string, error: string): Promise<number | undefined> {
     const job = this.jobs.get(jobId);
     if (!job) {
       throw new Error(`Job ${jobId} not found`);
@@ -260,8 +403,10 @@ export class JobQueue {
         error
       });
     } else {
+      // A retry needs a fresh ComfyUI prompt
       job.status = 'queued';
       job.current_stage = JOB_STAGES.QUEUED;
+      delete job.comfyui_job_id;
       this.logger.warn('Job failed, will retry', {
         jobId,
         attempts: job.attempts,
@@ -269,6 +414,11 @@ export class JobQueue {
         error
       });
     }
+
+    this.persist();
+    this.notifyJobUpdated(job);
+
+    return job.status === 'queued' ? this.config.retry_backoff_ms * 2 ** (job.attempts - 1) : undefined;
   }
 
   async cancelJob(jobId: string): Promise<boolean> {
@@ -284,11 +434,31 @@ export class JobQueue {
     job.status = 'failed';
     job.error = 'Job cancelled by user';
     job.current_stage = 'Cancelled';
+    this.persist();
+    this.notifyJobUpdated(job);
 
     this.logger.info('Job cancelled', { jobId });
     return true;
   }
 
+  /**
+   * Follow job stage and progress changes, e.g. to stream them to a client; returns a function that stops listening
+   */
+  addJobListener(listener: (job: JobData) => void): () => void {
+    this.jobListeners.add(listener);
+    return () => this.jobListeners.delete(listener);
+  }
+
+  private notifyJobUpdated(job: JobData): void {
+    for (const listener of this.jobListeners) {
+      try {
+        listener(job);
+      } catch (error) {
+        this.logger.error('Job listener failed', { jobId: job.id, error });
+      }
+    }
+  }
+
   async getQueueMetrics(): Promise<QueueMetrics> {
     const allJobs = Array.from(this.jobs.values());
 
@@ -331,7 +501,12 @@ export class JobQueue {
     const hashInput = JSON.stringify({
       prompt: params.prompt.trim().toLowerCase(),
       size: params.size,
-      grid_size: params.grid_size
+      grid_size: params.grid_size,
+      style: params.style,
+      seed: params.seed,
+      edit: params.edit,
+      portrait: params.portrait,
+      tiled: params.tiled
     });
 
     return createHash('sha256')
@@ -350,22 +525,111 @@ export class JobQueue {
     this.logger.debug('Cleanup timer started', { intervalMs: cleanupInterval });
   }
 
+  /**
+   * Expire jobs stuck in the queue past the TTL and drop history beyond the retention window.
+   * Finished jobs stay listed for history_days so list-map-jobs can show them.
+   */
   private cleanupExpiredJobs(): void {
     const now = Date.now();
     const ttlMs = this.config.ttl_minutes * 60 * 1000;
+    const historyMs = this.config.history_days * 24 * 60 * 60 * 1000;
     let expiredCount = 0;
+    let removedCount = 0;
 
     for (const [jobId, job] of this.jobs.entries()) {
-      if (now - job.created_at > ttlMs) {
+      if (ACTIVE_STATUSES.includes(job.status) && now - job.created_at > ttlMs) {
         job.status = 'expired';
+        job.current_stage = 'Expired';
         this.jobHashes.delete(job.prompt_hash);
-        this.jobs.delete(jobId);
+        this.notifyJobUpdated(job);
         expiredCount++;
+      } else if (now - job.created_at > historyMs) {
+        this.removeJob(jobId);
+        removedCount++;
+      }
+    }
+
+    const overflow = Array.from(this.jobs.values())
+      .sort((a, b) => b.created_at - a.created_at)
+      .slice(this.config.max_history_jobs);
+    for (const job of overflow) {
+      this.removeJob(job.id);
+      removedCount++;
+    }
+
+    if (expiredCount > 0 || removedCount > 0) {
+      this.persist();
+      this.logger.info('Cleaned up expired jobs', { expiredCount, removedCount });
+    }
+  }
+
+  private removeJob(jobId: string): void {
+    const job = this.jobs.get(jobId);
+    if (job && this.jobHashes.get(job.prompt_hash) === jobId) {
+      this.jobHashes.delete(job.prompt_hash);
+    }
+    this.jobs.delete(jobId);
+  }
+
+  private loadJobs(): void {
+    if (!this.storagePath || !fs.existsSync(this.storagePath)) {
+      return;
+    }
+
+    try {
+      const stored = JSON.parse(fs.readFileSync(this.storagePath, 'utf8'));
+      if (stored?.version !== STORAGE_VERSION || !Array.isArray(stored.jobs)) {
+        this.logger.warn('Ignoring job store with unknown format', { path: this.storagePath, version: stored?.version });
+        return;
+      }
+
+      for (const job of stored.jobs as JobData[]) {
+        this.jobs.set(job.id, job);
+        if (!['failed', 'expired'].includes(job.status)) {
+          this.jobHashes.set(job.prompt_hash, job.id);
+        }
       }
+
+      this.logger.info('Map jobs restored from disk', { path: this.storagePath, jobs: this.jobs.size });
+    } catch (error) {
+      this.logger.error('Failed to load map job store', { path: this.storagePath, error });
+    }
+  }
+
+  /**
+   * Schedule a write of the queue to disk without blocking the caller. Only one write runs at a time;
+   * changes made while it runs (progress updates, mostly) are saved together by one follow-up write.
+   */
+  private persist(): void {
+    if (!this.storagePath) {
+      return;
+    }
+
+    this.persistPending = true;
+    if (!this.persisting) {
+      this.persisting = this.writeStore(this.storagePath).finally(() => {
+        this.persisting = undefined;
+        if (this.persistPending) {
+          this.persist();
+        }
+      });
     }
+  }
 
-    if (expiredCount > 0) {
-      this.logger.info('Cleaned up expired jobs', { expiredCount });
+  /**
+   * The temp-file rename keeps the store intact if the process dies mid-write
+   */
+  private async writeStore(storagePath: string): Promise<void> {
+    while (this.persistPending) {
+      this.persistPending = false;
+      try {
+        await fs.promises.mkdir(path.dirname(storagePath), { recursive: true });
+        const tempPath = `${storagePath}.tmp`;
+        await fs.promises.writeFile(tempPath, JSON.stringify({ version: STORAGE_VERSION, jobs: Array.from(this.jobs.values()) }));
+        await fs.promises.rename(tempPath, storagePath);
+      } catch (error) {
+        this.logger.error('Failed to persist map job store', { path: storagePath, error });
+      }
     }
   }
 
@@ -375,6 +639,11 @@ export class JobQueue {
       this.cleanupTimer = undefined as NodeJS.Timeout | undefined;
     }
 
+    this.persist();
+    while (this.persisting) {
+      await this.persisting;
+    }
+
     this.logger.info('JobQueue shutdown complete');
   }
 }
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Sends one MCP progress notification for the tool call being handled
+ */
+export type ProgressReporter = (progress: number, total?: number, message?: string) => void;
+
+/**
+ * Progress the Foundry module pushes for work that outlives a bridge query, e.g. an index rebuild
+ */
+export interface RemoteProgressUpdate {
+  progressId: string;
+  progress: number;
+  total?: number;
+  message?: string;
+  /** Set on the last update, with error when the work failed */
+  done?: boolean;
+  error?: string;
+  result?: any;
+}
+
+const progressStorage = new AsyncLocalStorage<ProgressReporter>();
+
+const remoteListeners = new Map<string, (update: RemoteProgressUpdate) => void>();
+
+/**
+ * Run a tool handler whose client asked for progress (it sent an MCP progressToken)
+ */
+export function runWithProgress<T>(reporter: ProgressReporter, fn: () => Promise<T>): Promise<T> {
+  return progressStorage.run(reporter, fn);
+}
+
+/**
+ * The reporter for the current tool call; undefined when the client did not ask for progress,
+ * so tools can keep their quick fire-and-poll behaviour for it
+ */
+export function getProgressReporter(): ProgressReporter | undefined {
+  return progressStorage.getStore();
+}
+
+/**
+ * Wait for work running in Foundry to finish, relaying its progress updates to the current tool call
+ * start() is given the progress ID to pass along with the bridge query that kicks the work off
+ */
+export function followRemoteProgress(start: (progressId: string) => Promise<void>, timeoutMs: number): Promise<RemoteProgressUpdate> {
+  const progressId = `progress_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+  const reporter = getProgressReporter();
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      remoteListeners.delete(progressId);
+      reject(new Error(`No completion reported after ${Math.round(timeoutMs / 1000)} seconds`));
+    }, timeoutMs);
+
+    remoteListeners.set(progressId, update => {
+      reporter?.(update.progress, update.total, update.message);
+      if (update.done) {
+        clearTimeout(timer);
+        remoteListeners.delete(progressId);
+        resolve(update);
+      }
+    });
+
+    start(progressId).catch(error => {
+      clearTimeout(timer);
+      remoteListeners.delete(progressId);
+      reject(error);
+    });
+  });
+}
+
+/**
+ * Route a progress message from the Foundry module to whoever is following it
+ */
+export function handleRemoteProgress(update: RemoteProgressUpdate): boolean {
+  const listener = remoteListeners.get(update?.progressId);
+  if (!listener) return false;
+  listener(update);
+  return true;
+}
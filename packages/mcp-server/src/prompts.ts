@@ -0,0 +1,262 @@
+import { FoundryClient } from './foundry-client.js';
+import { Logger } from './logger.js';
+
+const BRIDGE_PREFIX = 'foundry-mcp-bridge.';
+
+export interface PromptsOptions {
+  foundryClient: FoundryClient;
+  logger: Logger;
+}
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface PromptDescriptor {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+export interface PromptResult {
+  description: string;
+  messages: Array<{ role: 'user'; content: { type: 'text'; text: string } }>;
+}
+
+interface PromptTemplate extends PromptDescriptor {
+  /** World state fetched before the conversation starts */
+  context: Array<'party' | 'scene' | 'combat'>;
+  instructions: (args: Record<string, string>) => string;
+}
+
+const PROMPTS: PromptTemplate[] = [
+  {
+    name: 'session-prep',
+    description: 'Plan the next session around the current party and the scene they are in',
+    arguments: [
+      { name: 'focus', description: 'What the session should be about, e.g. "reach Ubersreik and meet the Countess"' },
+      { name: 'length', description: 'Planned session length, e.g. "3 hours"' },
+    ],
+    context: ['party', 'scene'],
+    instructions: args => [
+      `Help me prepare tonight's WFRP session${args.length ? ` (about ${args.length})` : ''}.`,
+      args.focus ? `The session should focus on: ${args.focus}.` : 'Suggest where the session should go from the current situation.',
+      '',
+      'Please give me:',
+      '1. A short recap hook to open the session with',
+      '2. Three to five scenes, each with its goal, the obstacle and how it can end',
+      '3. The NPCs the party will meet, with a motivation and a secret each',
+      '4. At least one encounter pitched at this party (use build-encounter to balance it) and one social or investigative challenge',
+      '5. Loose threads from the party\'s wounds, corruption, careers or ambitions worth weaving in',
+      '',
+      'Offer to record the plan with create-quest-journal once we agree on it.',
+    ].join('\n'),
+  },
+  {
+    name: 'improvise-npc',
+    description: 'Invent an NPC on the spot that fits the scene the party is in',
+    arguments: [
+      { name: 'role', description: 'Who the party just met, e.g. "suspicious innkeeper" or "Road Warden at the toll"', required: true },
+      { name: 'attitude', description: 'How the NPC feels about the party, e.g. "friendly", "wary", "hostile"' },
+    ],
+    context: ['party', 'scene'],
+    instructions: args => [
+      `The party has just met a ${args.role} and I need them right now.${args.attitude ? ` They are ${args.attitude} towards the party.` : ''}`,
+      '',
+      'Give me, briefly enough to read at the table:',
+      '- Name, species, career and status tier',
+      '- Appearance and a mannerism I can act out',
+      '- What they want from this conversation and what they are hiding',
+      '- One rumour or piece of information they can give the party',
+      '- How they react if threatened, bribed or charmed',
+      '',
+      'Keep them consistent with the scene. If they might fight or come back later, offer to create them with create-custom-npc.',
+    ].join('\n'),
+  },
+  {
+    name: 'encounter-aftermath',
+    description: 'Resolve the consequences of a fight: wounds, criticals, conditions, corruption, loot and experience',
+    arguments: [
+      { name: 'encounter', description: 'What the fight was, e.g. "beastmen ambush on the Reikwald road"' },
+      { name: 'outcome', description: 'How it ended, e.g. "the party won but the coach driver fled"' },
+    ],
+    context: ['party', 'scene', 'combat'],
+    instructions: args => [
+      `The fight${args.encounter ? ` (${args.encounter})` : ''} is over${args.outcome ? `: ${args.outcome}` : ''}. Help me run the aftermath.`,
+      '',
+      'Go through:',
+      '1. Each character\'s wounds, critical wounds and lingering conditions, and what healing or rest they need (check get-critical-wounds)',
+      '2. Any Corruption exposure from what they fought, and the tests it calls for',
+      '3. Loot and clues on the bodies or the scene, fitting the enemies',
+      '4. An experience award for the encounter, with the reasoning',
+      '5. Consequences: who saw, who escaped, what happens next',
+      '',
+      'If combat is still running, offer to end it with end-combat. Ask me before applying any changes to the characters.',
+    ].join('\n'),
+  },
+  {
+    name: 'between-adventures',
+    description: 'Run the between-adventures downtime, walking each character through their endeavours',
+    arguments: [
+      { name: 'duration', description: 'How long the downtime lasts, e.g. "a month over winter"' },
+      { name: 'location', description: 'Where the party spends it, e.g. "Altdorf"' },
+    ],
+    context: ['party'],
+    instructions: args => [
+      `The adventure is over and the party has some downtime${args.duration ? ` (${args.duration})` : ''}${args.location ? ` in ${args.location}` : ''}. Help me run it with the WFRP between-adventures rules.`,
+      '',
+      'For each character:',
+      '1. Their Income from their career and status tier (use calculate-income) and any upkeep they owe',
+      '2. The endeavours that suit them: Banking, Changing Career, Consult an Expert, Crafting, Training, Unusual Learning and so on',
+      '3. Advances they can afford with their experience (use get-career-advancement)',
+      '',
+      'Then suggest an event for the downtime and a hook that leads into the next adventure. Ask each player\'s choices before spending experience or money.',
+    ].join('\n'),
+  },
+];
+
+/**
+ * MCP prompt templates for common GM workflows, seeded with the party and scene from Foundry
+ */
+export class FoundryPrompts {
+  private foundryClient: FoundryClient;
+  private logger: Logger;
+
+  constructor({ foundryClient, logger }: PromptsOptions) {
+    this.foundryClient = foundryClient;
+    this.logger = logger.child({ component: 'FoundryPrompts' });
+  }
+
+  listPrompts(): PromptDescriptor[] {
+    return PROMPTS.map(({ name, description, arguments: args }) => ({ name, description, arguments: args }));
+  }
+
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<PromptResult> {
+    const prompt = PROMPTS.find(entry => entry.name === name);
+    if (!prompt) {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+
+    const missing = prompt.arguments.filter(arg => arg.required && !args[arg.name]?.trim());
+    if (missing.length > 0) {
+      throw new Error(`Missing required argument(s) for ${name}: ${missing.map(arg => arg.name).join(', ')}`);
+    }
+
+    const sections: string[] = [];
+    for (const context of prompt.context) {
+      const section = await this.describeContext(context);
+      if (section) sections.push(section);
+    }
+
+    const text = `${prompt.instructions(args)}\n\n---\n\n${sections.join('\n\n')}`;
+    return {
+      description: prompt.description,
+      messages: [{ role: 'user', content: { type: 'text', text } }],
+    };
+  }
+
+  /**
+   * A markdown section of world state; Foundry being unreachable is noted rather than failing the prompt
+   */
+  private async describeContext(context: 'party' | 'scene' | 'combat'): Promise<string | null> {
+    try {
+      switch (context) {
+        case 'party':
+          return await this.describeParty();
+        case 'scene':
+          return await this.describeScene();
+        case 'combat':
+          return await this.describeCombat();
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn('Failed to fetch prompt context', { context, error: message });
+      return `## ${context === 'party' ? 'Party' : context === 'scene' ? 'Current Scene' : 'Combat'}\n\n(Could not be read from Foundry: ${message})`;
+    }
+  }
+
+  private async describeParty(): Promise<string> {
+    const characters: Array<{ id: string; name: string }> = await this.bridge('getPartyCharacters', {});
+    if (!characters?.length) {
+      return '## Party\n\nNo player-owned characters found.';
+    }
+
+    const lines: string[] = ['## Party'];
+    for (const character of characters) {
+      const info = await this.bridge('getCharacterInfo', { characterId: character.id });
+      lines.push('', this.describeCharacter(info));
+    }
+    return lines.join('\n');
+  }
+
+  private describeCharacter(info: any): string {
+    const system = info?.system ?? {};
+    const status = system.status ?? {};
+    const details = system.details ?? {};
+    const items: any[] = info?.items ?? [];
+
+    const career = items.find(item => item.type === 'career' && item.system?.current?.value)?.name ?? details.career?.value;
+    const heading = [details.species?.value, career, details.status?.value].filter(Boolean).join(', ');
+
+    const stats: string[] = [];
+    if (status.wounds) stats.push(`Wounds ${status.wounds.value ?? 0}/${status.wounds.max ?? 0}`);
+    if (status.fate) stats.push(`Fate ${status.fate.value ?? 0}`);
+    if (status.fortune) stats.push(`Fortune ${status.fortune.value ?? 0}`);
+    if (status.resilience) stats.push(`Resilience ${status.resilience.value ?? 0}`);
+    if (status.resolve) stats.push(`Resolve ${status.resolve.value ?? 0}`);
+    if (status.corruption) stats.push(`Corruption ${status.corruption.value ?? 0}/${status.corruption.max ?? 0}`);
+    if (details.experience) stats.push(`XP ${details.experience.current ?? 0} unspent`);
+
+    const conditions = (info?.effects ?? []).filter((effect: any) => !effect.disabled).map((effect: any) => effect.name);
+    const criticals = items.filter(item => item.type === 'critical').map(item => item.name);
+    const afflictions = items.filter(item => item.type === 'disease' || item.type === 'mutation').map(item => item.name);
+
+    let text = `### ${info?.name ?? 'Unknown'}${heading ? ` (${heading})` : ''}`;
+    if (stats.length) text += `\n- ${stats.join(' · ')}`;
+    if (conditions.length) text += `\n- Conditions: ${conditions.join(', ')}`;
+    if (criticals.length) text += `\n- Critical wounds: ${criticals.join(', ')}`;
+    if (afflictions.length) text += `\n- Diseases & mutations: ${afflictions.join(', ')}`;
+    return text;
+  }
+
+  private async describeScene(): Promise<string> {
+    const scene = await this.bridge('getActiveScene');
+    const tokens: any[] = scene.tokens ?? [];
+    const notes: any[] = scene.notes ?? [];
+
+    let text = `## Current Scene: ${scene.name}`;
+    if (tokens.length) {
+      text += `\n- Tokens: ${tokens.map(token => `${token.name}${token.hidden ? ' (hidden)' : ''} [${token.disposition}]`).join(', ')}`;
+    }
+    if (notes.length) {
+      text += `\n- Map notes: ${notes.map(note => note.text).filter(Boolean).join(', ')}`;
+    }
+    return text;
+  }
+
+  private async describeCombat(): Promise<string | null> {
+    const combat = await this.bridge('getCombatState', {});
+    if (!combat) {
+      return null;
+    }
+
+    const combatants: any[] = combat.combatants ?? [];
+    return [
+      `## Combat (round ${combat.round ?? '?'}, still running)`,
+      ...combatants.map(combatant => {
+        const wounds = combatant.wounds ? `, Wounds ${combatant.wounds.value}/${combatant.wounds.max}` : '';
+        return `- ${combatant.name}${combatant.defeated ? ' (defeated)' : ''}${wounds}`;
+      }),
+    ].join('\n');
+  }
+
+  private async bridge(method: string, data?: any): Promise<any> {
+    const result = await this.foundryClient.query(`${BRIDGE_PREFIX}${method}`, data);
+    if (result && result.success === false && result.error) {
+      throw new Error(result.error);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,193 @@
+import { FoundryClient } from './foundry-client.js';
+import { Logger } from './logger.js';
+
+const BRIDGE_PREFIX = 'foundry-mcp-bridge.';
+const JSON_MIME_TYPE = 'application/json';
+const HTML_MIME_TYPE = 'text/html';
+
+export const ACTIVE_SCENE_URI = 'foundry://scene/active';
+
+export interface ResourcesOptions {
+  foundryClient: FoundryClient;
+  logger: Logger;
+}
+
+export interface ResourceDescriptor {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface ResourceTemplateDescriptor {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+/**
+ * A world document the Foundry module saw created, updated or deleted.
+ * activeScene marks changes to the viewed scene itself or to tokens on it.
+ */
+export interface DocumentChange {
+  documentName: 'Actor' | 'JournalEntry' | 'Scene';
+  id: string;
+  action: 'create' | 'update' | 'delete';
+  activeScene?: boolean;
+}
+
+/**
+ * MCP resources over the Foundry world: actors, journals, the active scene and compendium entries,
+ * read through the same bridge queries the tools use
+ */
+export class FoundryResources {
+  private foundryClient: FoundryClient;
+  private logger: Logger;
+
+  constructor({ foundryClient, logger }: ResourcesOptions) {
+    this.foundryClient = foundryClient;
+    this.logger = logger.child({ component: 'FoundryResources' });
+  }
+
+  getResourceTemplates(): ResourceTemplateDescriptor[] {
+    return [
+      {
+        uriTemplate: 'foundry://actor/{id}',
+        name: 'Actor',
+        description: 'Full sheet of a world actor: characteristics, skills, talents, items and effects',
+        mimeType: JSON_MIME_TYPE,
+      },
+      {
+        uriTemplate: 'foundry://journal/{id}',
+        name: 'Journal entry',
+        description: 'HTML content of the first text page of a journal entry',
+        mimeType: HTML_MIME_TYPE,
+      },
+      {
+        uriTemplate: 'foundry://compendium/{pack}/{id}',
+        name: 'Compendium entry',
+        description: 'Full document from a compendium pack, e.g. foundry://compendium/wfrp4e-core.bestiary/{id}',
+        mimeType: JSON_MIME_TYPE,
+      },
+    ];
+  }
+
+  /**
+   * Concrete resources: the active scene, every world actor and every journal entry.
+   * Compendium entries are too many to list and are only reachable through their template.
+   */
+  async listResources(): Promise<ResourceDescriptor[]> {
+    const resources: ResourceDescriptor[] = [];
+
+    let sceneName: string | undefined;
+    try {
+      sceneName = (await this.bridge('getActiveScene'))?.name;
+    } catch (error) {
+      this.logger.debug('No active scene', { error: error instanceof Error ? error.message : error });
+    }
+    resources.push({
+      uri: ACTIVE_SCENE_URI,
+      name: 'Active scene',
+      description: `The scene currently viewed (${sceneName ?? 'none'}), with its tokens and notes`,
+      mimeType: JSON_MIME_TYPE,
+    });
+
+    const actors: Array<{ id: string; name: string; type: string }> = await this.bridge('listActors', {});
+    for (const actor of actors) {
+      resources.push({
+        uri: `foundry://actor/${encodeURIComponent(actor.id)}`,
+        name: actor.name,
+        description: `${actor.type} actor`,
+        mimeType: JSON_MIME_TYPE,
+      });
+    }
+
+    const journals: Array<{ id: string; name: string }> = await this.bridge('listJournals', {});
+    for (const journal of journals) {
+      resources.push({
+        uri: `foundry://journal/${encodeURIComponent(journal.id)}`,
+        name: journal.name,
+        description: 'Journal entry',
+        mimeType: HTML_MIME_TYPE,
+      });
+    }
+
+    return resources;
+  }
+
+  async readResource(uri: string): Promise<{ uri: string; mimeType: string; text: string }> {
+    if (uri === ACTIVE_SCENE_URI) {
+      return this.json(uri, await this.bridge('getActiveScene'));
+    }
+
+    const [, kind, ...segments] = this.parseUri(uri);
+
+    if (kind === 'actor' && segments.length === 1) {
+      return this.json(uri, await this.bridge('getCharacterInfo', { characterId: segments[0] }));
+    }
+
+    if (kind === 'journal' && segments.length === 1) {
+      const journal = await this.bridge('getJournalContent', { journalId: segments[0] });
+      if (!journal) {
+        throw new Error(`Journal entry not found: ${segments[0]}`);
+      }
+      return { uri, mimeType: HTML_MIME_TYPE, text: journal.content ?? '' };
+    }
+
+    if (kind === 'compendium' && segments.length === 2) {
+      return this.json(uri, await this.bridge('getCompendiumDocumentFull', { packId: segments[0], documentId: segments[1] }));
+    }
+
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+
+  /**
+   * Resource URIs whose content a batch of document changes affected, and whether the resource list itself changed
+   */
+  getChangedResources(changes: DocumentChange[]): { updated: string[]; listChanged: boolean } {
+    const updated = new Set<string>();
+    let listChanged = false;
+
+    for (const change of changes) {
+      switch (change.documentName) {
+        case 'Actor':
+          updated.add(`foundry://actor/${encodeURIComponent(change.id)}`);
+          break;
+        case 'JournalEntry':
+          updated.add(`foundry://journal/${encodeURIComponent(change.id)}`);
+          break;
+      }
+
+      if (change.activeScene) {
+        updated.add(ACTIVE_SCENE_URI);
+      }
+
+      if (change.action !== 'update' && change.documentName !== 'Scene') {
+        listChanged = true;
+      }
+    }
+
+    return { updated: Array.from(updated), listChanged };
+  }
+
+  private parseUri(uri: string): string[] {
+    const match = uri.match(/^foundry:\/\/(.+)$/);
+    if (!match) {
+      throw new Error(`Unknown resource: ${uri}`);
+    }
+    return [uri, ...match[1]!.split('/').map(segment => decodeURIComponent(segment))];
+  }
+
+  private async bridge(method: string, data?: any): Promise<any> {
+    const result = await this.foundryClient.query(`${BRIDGE_PREFIX}${method}`, data);
+    if (result && result.success === false && result.error) {
+      throw new Error(result.error);
+    }
+    return result;
+  }
+
+  private json(uri: string, data: unknown): { uri: string; mimeType: string; text: string } {
+    return { uri, mimeType: JSON_MIME_TYPE, text: JSON.stringify(data, null, 2) };
+  }
+}
@@ -0,0 +1,217 @@
+import { ComfyUIClient, ComfyUIWorkflowInput } from './comfyui-client.js';
+import { Logger } from './logger.js';
+import { decodePngRgb, DecodedRgbImage } from './utils/png-decoder.js';
+import { encodePngRgb } from './utils/png-encoder.js';
+
+/** Tiles are generated at the checkpoint's native SDXL resolution */
+export const TILE_SIZE = 1024;
+export const DEFAULT_TILE_OVERLAP = 256;
+export const MAX_TILES_PER_SIDE = 6;
+
+/** Fill for the not-yet-painted part of an outpainting input */
+const UNPAINTED = 128;
+
+const POLL_INTERVAL_MS = 5000;
+
+export interface TilePlacement {
+  index: number;
+  column: number;
+  row: number;
+  /** Top-left corner in the stitched image */
+  x: number;
+  y: number;
+  /** Part of the tile left to paint, in tile pixels; null for the first tile, which is generated from scratch */
+  mask: { x: number; y: number; width: number; height: number } | null;
+}
+
+export interface TileLayout {
+  columns: number;
+  rows: number;
+  tileSize: number;
+  overlap: number;
+  /** Stitched image size in pixels */
+  width: number;
+  height: number;
+  /** Row-major, so every tile after the first borders tiles that are already painted */
+  tiles: TilePlacement[];
+}
+
+export interface TiledGenerationOptions {
+  client: ComfyUIClient;
+  logger: Logger;
+  layout: TileLayout;
+  prompt: string;
+  /** txt2img style for the first tile */
+  style?: string | undefined;
+  /** inpaint style used to outpaint the remaining tiles */
+  inpaintStyle?: string | undefined;
+  /** Seed of the first tile; tile n uses seed + n */
+  seed: number;
+  /** Prefix for uploaded outpainting inputs */
+  label: string;
+  onTile?: (completed: number, total: number) => Promise<void> | void;
+}
+
+/**
+ * Lay out a columns x rows grid of overlapping tiles
+ */
+export function planTiles(columns: number, rows: number, overlap: number = DEFAULT_TILE_OVERLAP, tileSize: number = TILE_SIZE): TileLayout {
+  for (const [label, value] of [['columns', columns], ['rows', rows]] as const) {
+    if (!Number.isInteger(value) || value < 1 || value > MAX_TILES_PER_SIDE) {
+      throw new Error(`${label} must be a whole number from 1 to ${MAX_TILES_PER_SIDE}`);
+    }
+  }
+  // Masks and offsets have to land on the 8px latent grid
+  if (!Number.isInteger(overlap) || overlap % 8 !== 0 || overlap < 64 || overlap > tileSize / 2) {
+    throw new Error(`overlap must be a multiple of 8 between 64 and ${tileSize / 2} pixels`);
+  }
+
+  const step = tileSize - overlap;
+  const tiles: TilePlacement[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const left = column > 0 ? overlap : 0;
+      const top = row > 0 ? overlap : 0;
+      tiles.push({
+        index: tiles.length,
+        column,
+        row,
+        x: column * step,
+        y: row * step,
+        // The strips above and to the left are painted already, so what is left is always one rectangle
+        mask: tiles.length === 0 ? null : { x: left, y: top, width: tileSize - left, height: tileSize - top }
+      });
+    }
+  }
+
+  return {
+    columns,
+    rows,
+    tileSize,
+    overlap,
+    width: tileSize + (columns - 1) * step,
+    height: tileSize + (rows - 1) * step,
+    tiles
+  };
+}
+
+/**
+ * The large image being assembled from tiles
+ */
+export class TileCanvas {
+  readonly width: number;
+  readonly height: number;
+  private rgb: Uint8Array;
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    this.rgb = new Uint8Array(width * height * 3).fill(UNPAINTED);
+  }
+
+  /**
+   * The square under a tile as a PNG, used as the outpainting input
+   */
+  crop(x: number, y: number, size: number): Buffer {
+    const output = new Uint8Array(size * size * 3).fill(UNPAINTED);
+    const width = Math.min(size, this.width - x);
+    for (let row = 0; row < size && y + row < this.height; row++) {
+      const source = ((y + row) * this.width + x) * 3;
+      output.set(this.rgb.subarray(source, source + width * 3), row * size * 3);
+    }
+    return encodePngRgb(size, size, output);
+  }
+
+  /**
+   * Paste a generated tile, fading it in linearly across the strips it shares with earlier tiles
+   * so the seams between outpainted tiles do not show
+   */
+  blend(tile: DecodedRgbImage, placement: TilePlacement, overlap: number): void {
+    const fadeLeft = placement.column > 0;
+    const fadeTop = placement.row > 0;
+
+    for (let ty = 0; ty < tile.height && placement.y + ty < this.height; ty++) {
+      const weightY = fadeTop && ty < overlap ? (ty + 0.5) / overlap : 1;
+      for (let tx = 0; tx < tile.width && placement.x + tx < this.width; tx++) {
+        const weightX = fadeLeft && tx < overlap ? (tx + 0.5) / overlap : 1;
+        const weight = Math.min(weightX, weightY);
+
+        const source = (ty * tile.width + tx) * 3;
+        const target = ((placement.y + ty) * this.width + placement.x + tx) * 3;
+        for (let channel = 0; channel < 3; channel++) {
+          this.rgb[target + channel] = Math.round(
+            this.rgb[target + channel]! * (1 - weight) + tile.rgb[source + channel]! * weight
+          );
+        }
+      }
+    }
+  }
+
+  toPng(): Buffer {
+    return encodePngRgb(this.width, this.height, this.rgb);
+  }
+}
+
+/**
+ * Generate the tiles one at a time through ComfyUI - the first from the prompt, every later one by
+ * outpainting from the already stitched neighbours - and return the stitched image as a PNG
+ */
+export async function generateTiledImage(options: TiledGenerationOptions): Promise<Buffer> {
+  const { client, layout } = options;
+  const logger = options.logger.child({ component: 'TiledMap' });
+  const canvas = new TileCanvas(layout.width, layout.height);
+
+  for (const tile of layout.tiles) {
+    const base = {
+      prompt: options.prompt,
+      width: layout.tileSize,
+      height: layout.tileSize,
+      seed: options.seed + tile.index
+    };
+
+    let submission: ComfyUIWorkflowInput;
+    if (tile.mask) {
+      const inputImage = await client.uploadImage(canvas.crop(tile.x, tile.y, layout.tileSize), `${options.label}_tile${tile.index}.png`);
+      submission = {
+        ...base,
+        ...(options.inpaintStyle ? { style: options.inpaintStyle } : {}),
+        inputImage,
+        denoise: 1,
+        mask: tile.mask
+      };
+    } else {
+      submission = { ...base, ...(options.style ? { style: options.style } : {}) };
+    }
+
+    const { prompt_id: promptId } = await client.submitJob(submission);
+    logger.debug('Tile submitted', { label: options.label, tile: tile.index, promptId });
+
+    const image = decodePngRgb(await waitForImage(client, promptId));
+    if (image.width !== layout.tileSize || image.height !== layout.tileSize) {
+      throw new Error(`Tile ${tile.index + 1} came back ${image.width}x${image.height}, expected ${layout.tileSize}x${layout.tileSize}`);
+    }
+
+    canvas.blend(image, tile, layout.overlap);
+    await options.onTile?.(tile.index + 1, layout.tiles.length);
+  }
+
+  return canvas.toPng();
+}
+
+async function waitForImage(client: ComfyUIClient, promptId: string): Promise<Buffer> {
+  let status = await client.getJobStatus(promptId);
+  while (status === 'queued' || status === 'running') {
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    status = await client.getJobStatus(promptId);
+  }
+
+  if (status === 'failed') {
+    throw new Error('ComfyUI generation failed');
+  }
+
+  const [filename] = await client.getJobImages(promptId);
+  if (!filename) {
+    throw new Error('No images found in ComfyUI job output');
+  }
+  return client.downloadImage(filename);
+}
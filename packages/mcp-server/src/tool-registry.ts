@@ -0,0 +1,151 @@
+import { z } from 'zod';
+import { Logger } from './logger.js';
+
+export interface ToolDefinition {
+  name: string;
+  description?: string | undefined;
+  inputSchema: {
+    type: string;
+    properties?: Record<string, any> | undefined;
+    required?: string[] | undefined;
+    [key: string]: unknown;
+  };
+}
+
+export type ToolHandler = (args: any) => Promise<any>;
+
+/**
+ * A tool's zod validator and the handler it feeds; the handler receives the parsed arguments
+ */
+export interface ToolRegistration {
+  validator: z.ZodTypeAny;
+  handler: ToolHandler;
+  /** Turns invalid arguments into the tool's own guidance, returned as its result instead of an error */
+  formatError?: (error: z.ZodError) => string;
+}
+
+interface RegisteredTool extends ToolRegistration {
+  definition: ToolDefinition;
+}
+
+/**
+ * A tool class that adds its tools to the registry: each definition together with its validator and handler
+ */
+export interface ToolProvider {
+  registerTools(registry: ToolRegistry): void;
+}
+
+export interface ToolRegistryOptions {
+  logger: Logger;
+  /** Only these tools are offered when set */
+  enabled?: string[] | undefined;
+  disabled?: string[] | undefined;
+}
+
+/**
+ * Every tool the backend offers, keyed by name. list_tools and call_tool both read from here,
+ * so a tool cannot be listed without a handler or handled without being listed.
+ */
+export class ToolRegistry {
+  private logger: Logger;
+  private enabled: Set<string> | undefined;
+  private disabled: Set<string>;
+  private tools = new Map<string, RegisteredTool>();
+  private problems: string[] = [];
+
+  constructor({ logger, enabled, disabled = [] }: ToolRegistryOptions) {
+    this.logger = logger.child({ component: 'ToolRegistry' });
+    this.enabled = enabled ? new Set(enabled) : undefined;
+    this.disabled = new Set(disabled);
+  }
+
+  /**
+   * Pair a tool class's definitions with their validators and handlers by name
+   */
+  registerTools(definitions: ToolDefinition[], registrations: Record<string, ToolRegistration>): void {
+    for (const definition of definitions) {
+      const registration = registrations[definition.name];
+      if (!registration) {
+        this.problems.push(`"${definition.name}" has a schema but no handler`);
+        continue;
+      }
+      this.register(definition, registration);
+    }
+
+    const defined = new Set(definitions.map(definition => definition.name));
+    for (const name of Object.keys(registrations)) {
+      if (!defined.has(name)) this.problems.push(`"${name}" has a handler but no schema`);
+    }
+  }
+
+  register(definition: ToolDefinition, registration: ToolRegistration): void {
+    if (this.tools.has(definition.name)) {
+      this.problems.push(`"${definition.name}" is registered more than once`);
+      return;
+    }
+
+    const properties = definition.inputSchema.properties ?? {};
+    const missing = (definition.inputSchema.required ?? []).filter(key => !(key in properties));
+    if (definition.inputSchema.type !== 'object' || missing.length > 0) {
+      this.problems.push(`"${definition.name}" has an invalid input schema${missing.length ? ` (required but not described: ${missing.join(', ')})` : ''}`);
+      return;
+    }
+
+    this.tools.set(definition.name, { ...registration, definition });
+  }
+
+  /**
+   * Startup check: throws when a schema and handler don't pair up, warns about unknown names in the enable/disable config
+   */
+  verify(): void {
+    if (this.problems.length > 0) {
+      throw new Error(`Tool registry is inconsistent:\n- ${this.problems.join('\n- ')}`);
+    }
+
+    const unknown = [...(this.enabled ?? []), ...this.disabled].filter(name => !this.tools.has(name));
+    if (unknown.length > 0) {
+      this.logger.warn('Enabled/disabled tool config names unknown tools', { tools: unknown });
+    }
+
+    const offered = this.list().length;
+    this.logger.info('Tool registry ready', { registered: this.tools.size, offered });
+  }
+
+  isEnabled(name: string): boolean {
+    if (!this.tools.has(name) || this.disabled.has(name)) return false;
+    return !this.enabled || this.enabled.has(name);
+  }
+
+  list(): ToolDefinition[] {
+    return Array.from(this.tools.values())
+      .filter(tool => this.isEnabled(tool.definition.name))
+      .map(tool => tool.definition);
+  }
+
+  async call(name: string, args: any): Promise<any> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+    if (!this.isEnabled(name)) {
+      throw new Error(`Tool is disabled: ${name}`);
+    }
+
+    const parsed = tool.validator.safeParse(args ?? {});
+    if (!parsed.success) {
+      if (tool.formatError) {
+        return tool.formatError(parsed.error);
+      }
+      const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'arguments'}: ${issue.message}`);
+      throw new Error(`Invalid arguments for ${name}: ${issues.join('; ')}`);
+    }
+
+    try {
+      return await tool.handler(parsed.data);
+    } catch (error) {
+      this.logger.debug('Tool call failed', { tool: name, error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+}
+
@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { FoundryClient } from '../foundry-client.js';
 import { Logger } from '../logger.js';
+import { ToolRegistry } from '../tool-registry.js';
 import { ErrorHandler } from '../utils/error-handler.js';
 
 export interface ActorCreationToolsOptions {
@@ -9,6 +10,26 @@ export interface ActorCreationToolsOptions {
 }
 
 
+const createActorFromCompendiumSchema = z.object({
+  packId: z.string().min(1, 'Pack ID cannot be empty'),
+  itemId: z.string().min(1, 'Item ID cannot be empty'),
+  names: z.array(z.string().min(1)).min(1, 'At least one name is required'),
+  quantity: z.number().min(1).max(10).optional(),
+  addToScene: z.boolean().default(false),
+  placement: z.object({
+    type: z.enum(['random', 'grid', 'center', 'coordinates']).default('grid'),
+    coordinates: z.array(z.object({
+      x: z.number(),
+      y: z.number(),
+    })).optional(),
+  }).optional(),
+});
+
+const getCompendiumEntryFullSchema = z.object({
+  packId: z.string().min(1, 'Pack ID cannot be empty'),
+  entryId: z.string().min(1, 'Entry ID cannot be empty'),
+});
+
 export class ActorCreationTools {
   private foundryClient: FoundryClient;
   private logger: Logger;
@@ -106,26 +127,18 @@ export class ActorCreationTools {
     ];
   }
 
+  registerTools(registry: ToolRegistry): void {
+    registry.registerTools(this.getToolDefinitions(), {
+      'create-actor-from-compendium': { validator: createActorFromCompendiumSchema, handler: args => this.handleCreateActorFromCompendium(args) },
+      'get-compendium-entry-full': { validator: getCompendiumEntryFullSchema, handler: args => this.handleGetCompendiumEntryFull(args) },
+    });
+  }
+
   /**
    * Handle actor creation from specific compendium entry
    */
-  async handleCreateActorFromCompendium(args: any): Promise<any> {
-    const schema = z.object({
-      packId: z.string().min(1, 'Pack ID cannot be empty'),
-      itemId: z.string().min(1, 'Item ID cannot be empty'),
-      names: z.array(z.string().min(1)).min(1, 'At least one name is required'),
-      quantity: z.number().min(1).max(10).optional(),
-      addToScene: z.boolean().default(false),
-      placement: z.object({
-        type: z.enum(['random', 'grid', 'center', 'coordinates']).default('grid'),
-        coordinates: z.array(z.object({
-          x: z.number(),
-          y: z.number(),
-        })).optional(),
-      }).optional(),
-    });
-
-    const { packId, itemId, names, quantity, addToScene, placement } = schema.parse(args);
+  async handleCreateActorFromCompendium(args: z.infer<typeof createActorFromCompendiumSchema>): Promise<any> {
+    const { packId, itemId, names, quantity, addToScene, placement } = args;
     const finalQuantity = quantity || names.length;
 
     this.logger.info('Creating actors from specific compendium entry', {
@@ -175,13 +188,8 @@ export class ActorCreationTools {
   /**
    * Handle getting full compendium entry data
    */
-  async handleGetCompendiumEntryFull(args: any): Promise<any> {
-    const schema = z.object({
-      packId: z.string().min(1, 'Pack ID cannot be empty'),
-      entryId: z.string().min(1, 'Entry ID cannot be empty'),
-    });
-
-    const { packId, entryId } = schema.parse(args);
+  async handleGetCompendiumEntryFull(args: z.infer<typeof getCompendiumEntryFullSchema>): Promise<any> {
+    const { packId, entryId } = args;
 
     this.logger.info('Getting full compendium entry', { packId, entryId });
 
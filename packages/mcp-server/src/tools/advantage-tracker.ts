@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { FoundryClient } from '../foundry-client.js';
 import { Logger } from '../logger.js';
+import { ToolRegistry } from '../tool-registry.js';
 
 export interface AdvantageToolsOptions {
     foundryClient: FoundryClient;
@@ -14,6 +15,26 @@ interface AdvantageStatus {
     description: string;
 }
 
+const getAdvantageSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+});
+
+const addAdvantageSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+    amount: z.number().min(1).max(10),
+    reason: z.string().min(1, 'Reason cannot be empty'),
+});
+
+const removeAdvantageSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+    amount: z.number().min(1).max(10),
+    reason: z.string().min(1, 'Reason cannot be empty'),
+});
+
+const calculateAdvantageBonusSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+});
+
 export class AdvantageTools {
     private foundryClient: FoundryClient;
     private logger: Logger;
@@ -100,12 +121,17 @@ export class AdvantageTools {
         ];
     }
 
-    async handleGetAdvantage(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().min(1, 'Character name cannot be empty'),
+    registerTools(registry: ToolRegistry): void {
+        registry.registerTools(this.getToolDefinitions(), {
+            'get-advantage': { validator: getAdvantageSchema, handler: args => this.handleGetAdvantage(args) },
+            'add-advantage': { validator: addAdvantageSchema, handler: args => this.handleAddAdvantage(args) },
+            'remove-advantage': { validator: removeAdvantageSchema, handler: args => this.handleRemoveAdvantage(args) },
+            'calculate-advantage-bonus': { validator: calculateAdvantageBonusSchema, handler: args => this.handleCalculateAdvantageBonus(args) },
         });
+    }
 
-        const { characterName } = schema.parse(args);
+    async handleGetAdvantage(args: z.infer<typeof getAdvantageSchema>): Promise<any> {
+        const { characterName } = args;
 
         this.logger.info('Getting Advantage', { characterName });
 
@@ -222,14 +248,8 @@ export class AdvantageTools {
         }
     }
 
-    async handleAddAdvantage(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().min(1, 'Character name cannot be empty'),
-            amount: z.number().min(1).max(10),
-            reason: z.string().min(1, 'Reason cannot be empty'),
-        });
-
-        const { characterName, amount, reason } = schema.parse(args);
+    async handleAddAdvantage(args: z.infer<typeof addAdvantageSchema>): Promise<any> {
+        const { characterName, amount, reason } = args;
 
         this.logger.info('Adding Advantage', { characterName, amount, reason });
 
@@ -332,14 +352,8 @@ export class AdvantageTools {
         }
     }
 
-    async handleRemoveAdvantage(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().min(1, 'Character name cannot be empty'),
-            amount: z.number().min(1).max(10),
-            reason: z.string().min(1, 'Reason cannot be empty'),
-        });
-
-        const { characterName, amount, reason } = schema.parse(args);
+    async handleRemoveAdvantage(args: z.infer<typeof removeAdvantageSchema>): Promise<any> {
+        const { characterName, amount, reason } = args;
 
         this.logger.info('Removing Advantage', { characterName, amount, reason });
 
@@ -448,12 +462,8 @@ export class AdvantageTools {
         }
     }
 
-    async handleCalculateAdvantageBonus(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().min(1, 'Character name cannot be empty'),
-        });
-
-        const { characterName } = schema.parse(args);
+    async handleCalculateAdvantageBonus(args: z.infer<typeof calculateAdvantageBonusSchema>): Promise<any> {
+        const { characterName } = args;
 
         this.logger.info('Calculating Advantage bonus', { characterName });
 
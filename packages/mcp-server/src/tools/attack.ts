@@ -0,0 +1,322 @@
+import { z } from 'zod';
+import { FoundryClient } from '../foundry-client.js';
+import { Logger } from '../logger.js';
+import { ToolRegistry } from '../tool-registry.js';
+import { getCharacteristicBonus } from '@foundry-mcp/shared';
+import { CriticalWoundsTools } from './critical-wounds.js';
+import { OpposedTestTools, WFRPTestRoll } from './opposed-test.js';
+
+export interface AttackToolsOptions {
+    foundryClient: FoundryClient;
+    logger: Logger;
+    opposedTestTools: OpposedTestTools;
+    criticalWoundsTools: CriticalWoundsTools;
+}
+
+type HitLocationKey = 'head' | 'lArm' | 'rArm' | 'body' | 'lLeg' | 'rLeg';
+
+interface HitLocation {
+    key: HitLocationKey;
+    label: string;
+}
+
+const MELEE_GROUPS = ['basic', 'cavalry', 'fencing', 'brawling', 'flail', 'parry', 'polearm', 'twohanded'];
+
+/**
+ * WFRP 4e hit location table, keyed by the upper bound of each d100 band
+ */
+const HIT_LOCATIONS: Array<{ max: number } & HitLocation> = [
+    { max: 9, key: 'head', label: 'Head' },
+    { max: 24, key: 'lArm', label: 'Left Arm' },
+    { max: 44, key: 'rArm', label: 'Right Arm' },
+    { max: 79, key: 'body', label: 'Body' },
+    { max: 89, key: 'lLeg', label: 'Left Leg' },
+    { max: 100, key: 'rLeg', label: 'Right Leg' },
+];
+
+const attackSchema = z.object({
+    attackerName: z.string().min(1, 'Attacker name cannot be empty'),
+    defenderName: z.string().min(1, 'Defender name cannot be empty'),
+    weaponName: z.string().optional(),
+    defence: z.enum(['parry', 'dodge', 'none']).optional(),
+    attackModifier: z.number().optional(),
+    defenceModifier: z.number().optional(),
+    awardAdvantage: z.boolean().default(true),
+});
+
+export class AttackTools {
+    private foundryClient: FoundryClient;
+    private logger: Logger;
+    private opposedTestTools: OpposedTestTools;
+    private criticalWoundsTools: CriticalWoundsTools;
+
+    constructor({ foundryClient, logger, opposedTestTools, criticalWoundsTools }: AttackToolsOptions) {
+        this.foundryClient = foundryClient;
+        this.logger = logger.child({ component: 'AttackTools' });
+        this.opposedTestTools = opposedTestTools;
+        this.criticalWoundsTools = criticalWoundsTools;
+    }
+
+    getToolDefinitions() {
+        return [
+            {
+                name: 'attack',
+                description: 'Resolve a full WFRP 4e melee or ranged attack. The attacker makes an Opposed Test with their weapon skill (Melee/Ranged, falling back to WS/BS) against the defender\'s chosen response (parry with Melee, dodge, or none). On a hit, location comes from the reversed attack roll (e.g. 34 → 43 = Right Arm), damage = weapon damage + SL margin − (Toughness Bonus + Armour Points at that location), minimum 1. Wounds are deducted in Foundry, the winner gains Advantage, and a Critical Wound is rolled on the location\'s critical table and applied automatically when the defender is reduced to 0 Wounds or the attack roll is a critical. Example: "Hans attacks the Orc with his Hand Weapon, the Orc parries" or "Elsa shoots the Goblin with her bow, it tries to dodge"',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        attackerName: {
+                            type: 'string',
+                            description: 'Name or ID of the attacking character',
+                        },
+                        defenderName: {
+                            type: 'string',
+                            description: 'Name or ID of the defending character',
+                        },
+                        weaponName: {
+                            type: 'string',
+                            description: 'Weapon used (must be on the attacker). Default: first equipped weapon, otherwise unarmed',
+                        },
+                        defence: {
+                            type: 'string',
+                            enum: ['parry', 'dodge', 'none'],
+                            description: 'Defender\'s response: parry (Melee skill), dodge (Dodge skill) or none (unopposed, e.g. surprised). Default: parry for melee, dodge for ranged',
+                        },
+                        attackModifier: {
+                            type: 'number',
+                            description: 'Modifier to the attack test (e.g. +10 charging, -20 called shot)',
+                        },
+                        defenceModifier: {
+                            type: 'number',
+                            description: 'Modifier to the defence test',
+                        },
+                        awardAdvantage: {
+                            type: 'boolean',
+                            description: 'Award +1 Advantage to the winner of the Opposed Test. Default: true',
+                        },
+                    },
+                    required: ['attackerName', 'defenderName'],
+                },
+            },
+        ];
+    }
+
+    registerTools(registry: ToolRegistry): void {
+        registry.registerTools(this.getToolDefinitions(), {
+            'attack': { validator: attackSchema, handler: args => this.handleAttack(args) },
+        });
+    }
+
+    async handleAttack(params: z.infer<typeof attackSchema>): Promise<any> {
+        this.logger.info('Resolving attack', {
+            attacker: params.attackerName,
+            defender: params.defenderName,
+            weapon: params.weaponName,
+        });
+
+        try {
+            const attacker = await this.foundryClient.query('foundry-mcp-bridge.getCharacterInfo', {
+                characterName: params.attackerName,
+            });
+            const defender = await this.foundryClient.query('foundry-mcp-bridge.getCharacterInfo', {
+                characterName: params.defenderName,
+            });
+
+            if (!attacker) {
+                throw new Error(`Character "${params.attackerName}" not found`);
+            }
+            if (!defender) {
+                throw new Error(`Character "${params.defenderName}" not found`);
+            }
+
+            const weapon = this.findWeapon(attacker, params.weaponName);
+            const weaponGroup: string = weapon?.system?.weaponGroup?.value || 'brawling';
+            const isMelee = MELEE_GROUPS.includes(weaponGroup);
+            const defence = params.defence ?? (isMelee ? 'parry' : 'dodge');
+
+            // Attack test: weapon skill, falling back to the raw characteristic
+            const attackSkill = `${isMelee ? 'Melee' : 'Ranged'} (${this.capitalize(weaponGroup)})`;
+            const attackRoll = await this.rollWithFallback(
+                attacker.id,
+                attackSkill,
+                isMelee ? 'ws' : 'bs',
+                params.attackModifier
+            );
+
+            // Defence test: parry with the defender's melee weapon, dodge, or nothing
+            let defenceRoll: WFRPTestRoll | null = null;
+            if (defence === 'parry') {
+                const parryWeapon = this.findWeapon(defender);
+                const parryGroup: string = parryWeapon?.system?.weaponGroup?.value;
+                const parrySkill = `Melee (${this.capitalize(MELEE_GROUPS.includes(parryGroup) ? parryGroup : 'basic')})`;
+                defenceRoll = await this.rollWithFallback(defender.id, parrySkill, 'ws', params.defenceModifier);
+            } else if (defence === 'dodge') {
+                defenceRoll = await this.rollWithFallback(defender.id, 'Dodge', 'ag', params.defenceModifier);
+            }
+
+            const defenderSL = defenceRoll?.sl ?? 0;
+            let hit: boolean;
+            if (defenceRoll) {
+                hit = attackRoll.sl > defenderSL || (attackRoll.sl === defenderSL && attackRoll.baseValue > defenceRoll.baseValue);
+            } else {
+                hit = attackRoll.success;
+            }
+            const margin = attackRoll.sl - defenderSL;
+
+            let response = `# ⚔️ Attack: ${attacker.name} → ${defender.name}\n\n`;
+            response += `**Weapon**: ${weapon?.name || 'Unarmed'} (${weapon?.system?.damage?.value || '+SB'})\n`;
+            response += `**Attack**: ${attackRoll.testType === 'skill' ? attackRoll.skillName : attackRoll.characteristic.toUpperCase()} — ${attackRoll.roll} vs ${attackRoll.target}, SL ${this.formatSL(attackRoll)}${attackRoll.critical ? ' (Critical!)' : ''}${attackRoll.fumble ? ' (Fumble!)' : ''}\n`;
+            if (defenceRoll) {
+                response += `**Defence** (${defence}): ${defenceRoll.roll} vs ${defenceRoll.target}, SL ${this.formatSL(defenceRoll)}${defenceRoll.critical ? ' (Critical!)' : ''}${defenceRoll.fumble ? ' (Fumble!)' : ''}\n`;
+            } else {
+                response += `**Defence**: none (unopposed)\n`;
+            }
+            response += `\n`;
+
+            if (params.awardAdvantage && (hit || defenceRoll)) {
+                const winnerId = hit ? attacker.id : defender.id;
+                const winnerName = hit ? attacker.name : defender.name;
+                const newAdvantage = await this.opposedTestTools.awardAdvantage(winnerId, 1);
+                response += `⚔️ ${winnerName} gains +1 Advantage (now ${newAdvantage}).\n\n`;
+            }
+
+            if (!hit) {
+                response += `## 🛡️ Miss\n\n`;
+                response += defenceRoll
+                    ? `${defender.name} ${defence === 'parry' ? 'parries' : 'dodges'} the blow.\n`
+                    : `${attacker.name}'s attack fails to connect.\n`;
+                if (attackRoll.fumble) {
+                    response += `\n🎲 **Fumble!** ${attacker.name} should roll on the Oops! table.\n`;
+                }
+                return response;
+            }
+
+            // Hit location from reversed attack roll
+            const location = this.getHitLocation(attackRoll.roll);
+            const system = defender.system as any;
+            const strengthBonus = this.getBonus(attacker, 's');
+            const toughnessBonus = this.getBonus(defender, 't');
+            const weaponDamage = this.parseWeaponDamage(weapon?.system?.damage?.value || '+SB', strengthBonus);
+            const armourPoints = this.getArmourPoints(defender, location.key);
+
+            const rawDamage = weaponDamage + Math.max(0, margin);
+            const damage = Math.max(1, rawDamage - (toughnessBonus + armourPoints));
+
+            const woundsCurrent = Number(system.status?.wounds?.value) || 0;
+            const woundsMax = Number(system.status?.wounds?.max) || 0;
+            const newWounds = Math.max(0, woundsCurrent - damage);
+            const excessDamage = Math.max(0, damage - woundsCurrent);
+
+            await this.foundryClient.query('foundry-mcp-bridge.updateActor', {
+                actorId: defender.id,
+                updateData: {
+                    'system.status.wounds.value': newWounds,
+                },
+            });
+
+            response += `## 🩸 Hit — ${location.label}\n\n`;
+            response += `- Hit location roll: ${this.reverseRoll(attackRoll.roll)} (reversed from ${attackRoll.roll})\n`;
+            response += `- Damage: ${weaponDamage} (weapon) + ${Math.max(0, margin)} (SL) = ${rawDamage}\n`;
+            response += `- Reduction: ${toughnessBonus} (TB) + ${armourPoints} (AP ${location.label}) = ${toughnessBonus + armourPoints}\n`;
+            response += `- **Wounds inflicted**: ${damage}\n`;
+            response += `- ${defender.name}'s Wounds: ${woundsCurrent} → **${newWounds}** / ${woundsMax}\n\n`;
+
+            // Critical Wounds: reduced to 0 Wounds, or a critical (double) on a successful hit
+            if (newWounds === 0 || attackRoll.critical) {
+                const reason = attackRoll.critical && newWounds > 0
+                    ? `Critical hit (rolled ${attackRoll.roll})`
+                    : `Reduced to 0 Wounds (${excessDamage} excess damage)`;
+
+                response += `## 💀 Critical Wound!\n\n${reason}.\n\n`;
+
+                const criticalResult = await this.criticalWoundsTools.handleAddCriticalWound({
+                    characterName: defender.id,
+                    location: location.label,
+                    modifier: 0,
+                    description: `${reason} from ${attacker.name}'s ${weapon?.name || 'unarmed attack'}.`,
+                });
+
+                response += typeof criticalResult === 'string' ? criticalResult : JSON.stringify(criticalResult);
+            }
+
+            return response;
+        } catch (error) {
+            this.logger.error('Failed to resolve attack', error);
+            throw new Error(`Failed to resolve attack: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    private async rollWithFallback(
+        actorId: string,
+        skillName: string,
+        characteristic: string,
+        modifier: number | undefined
+    ): Promise<WFRPTestRoll> {
+        try {
+            return await this.opposedTestTools.rollTest({ characterName: actorId, test: skillName, modifier });
+        } catch (error) {
+            this.logger.debug('Skill test unavailable, falling back to characteristic', { skillName, characteristic });
+            return await this.opposedTestTools.rollTest({ characterName: actorId, test: characteristic, modifier });
+        }
+    }
+
+    private findWeapon(character: any, weaponName?: string): any {
+        const weapons = (character.items || []).filter((item: any) => item.type === 'weapon');
+        if (weaponName) {
+            const weapon = weapons.find((item: any) => item.name.toLowerCase() === weaponName.toLowerCase())
+                || weapons.find((item: any) => item.name.toLowerCase().includes(weaponName.toLowerCase()));
+            if (!weapon) {
+                throw new Error(`${character.name} has no weapon named "${weaponName}"`);
+            }
+            return weapon;
+        }
+        return weapons.find((item: any) => item.system?.equipped?.value || item.system?.equipped === true) || weapons[0] || null;
+    }
+
+    /**
+     * Hit location uses the attack roll with its digits reversed (34 → 43, 100 → 00 → 100)
+     */
+    private reverseRoll(roll: number): number {
+        const tens = Math.floor(roll / 10) % 10;
+        const units = roll % 10;
+        return units * 10 + tens || 100;
+    }
+
+    private getHitLocation(roll: number): HitLocation {
+        const reversed = this.reverseRoll(roll);
+        const entry = HIT_LOCATIONS.find(location => reversed <= location.max) ?? HIT_LOCATIONS[HIT_LOCATIONS.length - 1]!;
+        return { key: entry.key, label: entry.label };
+    }
+
+    private getBonus(character: any, characteristic: string): number {
+        const char = character.system?.characteristics?.[characteristic];
+        return Number(char?.bonus ?? getCharacteristicBonus(char?.value));
+    }
+
+    /**
+     * Evaluate a weapon damage string such as "+SB+4", "SB-1" or "8"
+     */
+    private parseWeaponDamage(damage: string, strengthBonus: number): number {
+        const expression = damage.replace(/\s+/g, '').toUpperCase().replace(/SB/g, String(strengthBonus));
+        const terms = expression.match(/[+-]?\d+/g) || [];
+        return Math.max(0, terms.reduce((total, term) => total + parseInt(term, 10), 0));
+    }
+
+    private getArmourPoints(character: any, location: HitLocationKey): number {
+        return (character.items || [])
+            .filter((item: any) => item.type === 'armour' && (item.system?.worn?.value || item.system?.worn === true))
+            .reduce((total: number, item: any) => {
+                const ap = item.system?.AP?.[location] ?? item.system?.APDetails?.[location]?.value ?? 0;
+                return total + (Number(typeof ap === 'object' ? ap.value : ap) || 0);
+            }, 0);
+    }
+
+    private formatSL(roll: WFRPTestRoll): string {
+        return `${roll.success ? '+' : '-'}${Math.abs(roll.sl)}`;
+    }
+
+    private capitalize(value: string): string {
+        if (value === 'twohanded') return 'Two-Handed';
+        return value.charAt(0).toUpperCase() + value.slice(1);
+    }
+}
@@ -5,6 +5,7 @@ import { z } from 'zod';
 import { FoundryClient } from '../foundry-client.js';
 import { ErrorHandler } from '../utils/error-handler.js';
 import { Logger } from '../logger.js';
+import { ToolRegistry } from '../tool-registry.js';
 import {
   CampaignStructureSchema,
   CampaignPartSchema,
@@ -13,6 +14,25 @@ import {
 } from '@foundry-mcp/shared';
 import type { CampaignStructure, CampaignPart, CampaignTemplate } from '@foundry-mcp/shared';
 
+const createCampaignDashboardSchema = z.object({
+  campaignTitle: z.string().min(1, 'Campaign title is required'),
+  campaignDescription: z.string().min(1, 'Campaign description is required'),
+  template: z.enum(['five-part-adventure', 'dungeon-crawl', 'investigation', 'sandbox', 'custom']),
+  customParts: z.array(z.object({
+    title: z.string().min(1),
+    description: z.string().min(1),
+    type: CampaignPartTypeSchema,
+    levelStart: z.number().min(1).max(20),
+    levelEnd: z.number().min(1).max(20),
+    subParts: z.array(z.object({
+      title: z.string().min(1),
+      description: z.string().min(1)
+    })).optional()
+  })).optional(),
+  defaultQuestGiver: z.string().optional(),
+  defaultLocation: z.string().optional()
+});
+
 export class CampaignManagementTools {
   private foundryClient: FoundryClient;
   private errorHandler: ErrorHandler;
@@ -89,32 +109,17 @@ export class CampaignManagementTools {
     ];
   }
 
+  registerTools(registry: ToolRegistry): void {
+    registry.registerTools(this.getToolDefinitions(), {
+      'create-campaign-dashboard': { validator: createCampaignDashboardSchema, handler: args => this.handleCreateCampaignDashboard(args) },
+    });
+  }
+
   /**
    * Handle create campaign dashboard request
    */
-  async handleCreateCampaignDashboard(args: any): Promise<any> {
+  async handleCreateCampaignDashboard(request: z.infer<typeof createCampaignDashboardSchema>): Promise<any> {
     try {
-      const requestSchema = z.object({
-        campaignTitle: z.string().min(1, 'Campaign title is required'),
-        campaignDescription: z.string().min(1, 'Campaign description is required'),
-        template: z.enum(['five-part-adventure', 'dungeon-crawl', 'investigation', 'sandbox', 'custom']),
-        customParts: z.array(z.object({
-          title: z.string().min(1),
-          description: z.string().min(1),
-          type: CampaignPartTypeSchema,
-          levelStart: z.number().min(1).max(20),
-          levelEnd: z.number().min(1).max(20),
-          subParts: z.array(z.object({
-            title: z.string().min(1),
-            description: z.string().min(1)
-          })).optional()
-        })).optional(),
-        defaultQuestGiver: z.string().optional(),
-        defaultLocation: z.string().optional()
-      });
-
-      const request = requestSchema.parse(args);
-
       // Generate campaign structure based on template
       const campaignStructure = this.generateCampaignStructure(request);
 
@@ -1,6 +1,8 @@
 import { z } from 'zod';
 import { FoundryClient } from '../foundry-client.js';
 import { Logger } from '../logger.js';
+import { ToolRegistry } from '../tool-registry.js';
+import { WFRP_CHARACTERISTIC_KEYS, getAdvanceCost, getAdvancesCost, getTalentCost } from '@foundry-mcp/shared';
 
 export interface CareerAdvancementToolsOptions {
     foundryClient: FoundryClient;
@@ -37,6 +39,28 @@ interface CareerInfo {
     nextCareerSuggestions?: string[];
 }
 
+const getCareerAdvancementSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+});
+
+const advanceCharacteristicSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+    characteristic: z.enum(WFRP_CHARACTERISTIC_KEYS),
+    advances: z.number().int().positive().default(1),
+});
+
+const advanceSkillSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+    skillName: z.string().min(1, 'Skill name cannot be empty'),
+    advances: z.number().int().positive().default(1),
+});
+
+const advanceTalentSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+    talentName: z.string().min(1, 'Talent name cannot be empty'),
+    ranks: z.number().int().positive().default(1),
+});
+
 export class CareerAdvancementTools {
     private foundryClient: FoundryClient;
     private logger: Logger;
@@ -75,7 +99,7 @@ export class CareerAdvancementTools {
                         characteristic: {
                             type: 'string',
                             description: 'Characteristic to advance (ws, bs, s, t, i, ag, dex, int, wp, fel)',
-                            enum: ['ws', 'bs', 's', 't', 'i', 'ag', 'dex', 'int', 'wp', 'fel'],
+                            enum: [...WFRP_CHARACTERISTIC_KEYS],
                         },
                         advances: {
                             type: 'number',
@@ -111,7 +135,7 @@ export class CareerAdvancementTools {
             },
             {
                 name: 'advance-talent',
-                description: 'Spend XP to purchase a talent or increase its rank. Talents cost 100 XP per rank. Example: "Purchase Strike Mighty Blow for Gustav" or "Increase Hans\' Combat Reflexes rank"',
+                description: 'Spend XP to purchase a talent or increase its rank. Each rank costs 100 XP × the rank being taken (100, 200, 300...). Example: "Purchase Strike Mighty Blow for Gustav" or "Increase Hans\' Combat Reflexes rank"',
                 inputSchema: {
                     type: 'object',
                     properties: {
@@ -135,12 +159,17 @@ export class CareerAdvancementTools {
         ];
     }
 
-    async handleGetCareerAdvancement(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().min(1, 'Character name cannot be empty'),
+    registerTools(registry: ToolRegistry): void {
+        registry.registerTools(this.getToolDefinitions(), {
+            'get-career-advancement': { validator: getCareerAdvancementSchema, handler: args => this.handleGetCareerAdvancement(args) },
+            'advance-characteristic': { validator: advanceCharacteristicSchema, handler: args => this.handleAdvanceCharacteristic(args) },
+            'advance-skill': { validator: advanceSkillSchema, handler: args => this.handleAdvanceSkill(args) },
+            'advance-talent': { validator: advanceTalentSchema, handler: args => this.handleAdvanceTalent(args) },
         });
+    }
 
-        const { characterName } = schema.parse(args);
+    async handleGetCareerAdvancement(args: z.infer<typeof getCareerAdvancementSchema>): Promise<any> {
+        const { characterName } = args;
 
         this.logger.info('Getting career advancement information', { characterName });
 
@@ -192,24 +221,19 @@ export class CareerAdvancementTools {
                 percentComplete: 0,
             };
 
-            // XP cost tables for WFRP 4e
-            const characteristicXPCosts = [25, 30, 40, 50, 70, 90, 120, 150, 190, 230, 280, 330, 390, 450, 520];
-            const skillXPCosts = [10, 15, 20, 30, 40, 60, 80, 110, 140, 180, 220, 270, 320, 380, 440];
-
             // Process career advances if available
             if (careerData?.system) {
                 const careerSystem = careerData.system;
 
                 // Process characteristic advances
-                const characteristicList = ['ws', 'bs', 's', 't', 'i', 'ag', 'dex', 'int', 'wp', 'fel'];
                 if (careerSystem.characteristics) {
-                    characteristicList.forEach((char) => {
+                    WFRP_CHARACTERISTIC_KEYS.forEach((char) => {
                         const advance = careerSystem.characteristics[char];
                         if (advance && typeof advance === 'number' && advance > 0) {
                             const currentChar = system.characteristics?.[char];
                             const currentAdvances = currentChar?.advances || 0;
                             const advancesRemaining = Math.max(0, advance - currentAdvances);
-                            const xpCost = advancesRemaining > 0 ? characteristicXPCosts[Math.min(currentAdvances, characteristicXPCosts.length - 1)] : 0;
+                            const xpCost = advancesRemaining > 0 ? getAdvanceCost('characteristic', currentAdvances) : 0;
 
                             careerInfo.characteristics.push({
                                 name: char.toUpperCase(),
@@ -239,7 +263,7 @@ export class CareerAdvancementTools {
                         );
 
                         const currentAdvances = skillItem?.system?.advances?.value || 0;
-                        const xpCost = currentAdvances > 0 ? skillXPCosts[Math.min(currentAdvances, skillXPCosts.length - 1)] : 10;
+                        const xpCost = getAdvanceCost('skill', currentAdvances);
 
                         careerInfo.skills.push({
                             name: skillName,
@@ -267,7 +291,7 @@ export class CareerAdvancementTools {
 
                         const talentTimes = talentItem?.system?.advances?.value || 0;
                         const maxTalent = talentItem?.system?.max?.value || 1;
-                        const xpCost = 100 * (talentTimes + 1); // Talents cost 100 XP per time
+                        const xpCost = getTalentCost(talentTimes);
 
                         careerInfo.talents.push({
                             name: talentName,
@@ -427,14 +451,8 @@ export class CareerAdvancementTools {
         }
     }
 
-    async handleAdvanceCharacteristic(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().min(1, 'Character name cannot be empty'),
-            characteristic: z.enum(['ws', 'bs', 's', 't', 'i', 'ag', 'dex', 'int', 'wp', 'fel']),
-            advances: z.number().int().positive().default(1),
-        });
-
-        const { characterName, characteristic, advances } = schema.parse(args);
+    async handleAdvanceCharacteristic(args: z.infer<typeof advanceCharacteristicSchema>): Promise<any> {
+        const { characterName, characteristic, advances } = args;
 
         this.logger.info('Advancing characteristic', { characterName, characteristic, advances });
 
@@ -454,18 +472,9 @@ export class CareerAdvancementTools {
                 throw new Error(`Characteristic "${characteristic}" not found on ${character.name}`);
             }
 
-            const characteristicXPCosts = [25, 30, 40, 50, 70, 90, 120, 150, 190, 230, 280, 330, 390, 450, 520];
             const currentAdvances = currentChar.advances || 0;
             const availableXP = system.details?.experience?.current || 0;
-
-            let totalCost = 0;
-            for (let i = 0; i < advances; i++) {
-                const advanceIndex = currentAdvances + i;
-                if (advanceIndex >= characteristicXPCosts.length) {
-                    throw new Error(`Cannot advance ${characteristic.toUpperCase()} beyond ${characteristicXPCosts.length} times`);
-                }
-                totalCost += characteristicXPCosts[advanceIndex];
-            }
+            const totalCost = getAdvancesCost('characteristic', currentAdvances, advances);
 
             if (availableXP < totalCost) {
                 throw new Error(`Insufficient XP. Need ${totalCost} XP but only have ${availableXP} available.`);
@@ -495,14 +504,8 @@ export class CareerAdvancementTools {
         }
     }
 
-    async handleAdvanceSkill(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().min(1, 'Character name cannot be empty'),
-            skillName: z.string().min(1, 'Skill name cannot be empty'),
-            advances: z.number().int().positive().default(1),
-        });
-
-        const { characterName, skillName, advances } = schema.parse(args);
+    async handleAdvanceSkill(args: z.infer<typeof advanceSkillSchema>): Promise<any> {
+        const { characterName, skillName, advances } = args;
 
         this.logger.info('Advancing skill', { characterName, skillName, advances });
 
@@ -516,7 +519,6 @@ export class CareerAdvancementTools {
             }
 
             const system = character.system as any;
-            const skillXPCosts = [10, 15, 20, 30, 40, 60, 80, 110, 140, 180, 220, 270, 320, 380, 440];
             const availableXP = system.details?.experience?.current || 0;
 
             // Find the skill item
@@ -529,15 +531,7 @@ export class CareerAdvancementTools {
             }
 
             const currentAdvances = skillItem.system?.advances?.value || 0;
-
-            let totalCost = 0;
-            for (let i = 0; i < advances; i++) {
-                const advanceIndex = currentAdvances + i;
-                if (advanceIndex >= skillXPCosts.length) {
-                    throw new Error(`Cannot advance ${skillName} beyond ${skillXPCosts.length} times`);
-                }
-                totalCost += skillXPCosts[advanceIndex];
-            }
+            const totalCost = getAdvancesCost('skill', currentAdvances, advances);
 
             if (availableXP < totalCost) {
                 throw new Error(`Insufficient XP. Need ${totalCost} XP but only have ${availableXP} available.`);
@@ -573,14 +567,8 @@ export class CareerAdvancementTools {
         }
     }
 
-    async handleAdvanceTalent(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().min(1, 'Character name cannot be empty'),
-            talentName: z.string().min(1, 'Talent name cannot be empty'),
-            ranks: z.number().int().positive().default(1),
-        });
-
-        const { characterName, talentName, ranks } = schema.parse(args);
+    async handleAdvanceTalent(args: z.infer<typeof advanceTalentSchema>): Promise<any> {
+        const { characterName, talentName, ranks } = args;
 
         this.logger.info('Advancing talent', { characterName, talentName, ranks });
 
@@ -595,7 +583,6 @@ export class CareerAdvancementTools {
 
             const system = character.system as any;
             const availableXP = system.details?.experience?.current || 0;
-            const talentCostPerRank = 100;
 
             // Find the talent item
             const talentItem = character.items?.find(
@@ -614,7 +601,10 @@ export class CareerAdvancementTools {
                 throw new Error(`Cannot advance ${talentName} to rank ${newRanks}. Maximum rank is ${maxRanks}.`);
             }
 
-            const totalCost = talentCostPerRank * ranks;
+            let totalCost = 0;
+            for (let i = 0; i < ranks; i++) {
+                totalCost += getTalentCost(currentRanks + i);
+            }
 
             if (availableXP < totalCost) {
                 throw new Error(`Insufficient XP. Need ${totalCost} XP but only have ${availableXP} available.`);
@@ -0,0 +1,143 @@
+import { z } from 'zod';
+import { FoundryClient } from '../foundry-client.js';
+import { Logger } from '../logger.js';
+import { ToolRegistry } from '../tool-registry.js';
+
+export interface ChangeLogToolsOptions {
+    foundryClient: FoundryClient;
+    logger: Logger;
+}
+
+interface RecordedChange {
+    id: string;
+    timestamp: string;
+    description: string;
+    rolledBack: boolean;
+    actions: Array<{ type: 'create' | 'update' | 'delete'; entityType: string; entityId?: string }>;
+}
+
+const listRecentChangesSchema = z.object({
+    limit: z.number().int().min(1).max(50).default(10),
+});
+
+const undoChangeSchema = z.object({
+    changeId: z.string().min(1).optional(),
+});
+
+export class ChangeLogTools {
+    private foundryClient: FoundryClient;
+    private logger: Logger;
+
+    constructor({ foundryClient, logger }: ChangeLogToolsOptions) {
+        this.foundryClient = foundryClient;
+        this.logger = logger.child({ component: 'ChangeLogTools' });
+    }
+
+    getToolDefinitions() {
+        return [
+            {
+                name: 'list-recent-changes',
+                description: 'List the most recent changes made to the Foundry world through this MCP server (actor and item updates, created/deleted items, conditions, journals, roll tables, combat, chat messages, scene switches), newest first, with the ID needed to undo each one. The undo log lives in the Foundry module and holds the last 50 changes since the world was loaded. Example: "What did you just change?" or "Show the last 5 changes"',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        limit: {
+                            type: 'number',
+                            minimum: 1,
+                            maximum: 50,
+                            description: 'Number of changes to show (default: 10)',
+                        },
+                    },
+                },
+            },
+            {
+                name: 'undo-change',
+                description: 'Undo a change made through this MCP server, restoring the previous state in Foundry: updated fields are put back, created documents are deleted and deleted documents are recreated with their original IDs. Without a change ID, the most recent change that has not been undone is reversed. Example: "Undo that" or "Undo the wound change on Hans"',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        changeId: {
+                            type: 'string',
+                            description: 'Optional: ID of the change from list-recent-changes. Default: the most recent change',
+                        },
+                    },
+                },
+            },
+        ];
+    }
+
+    registerTools(registry: ToolRegistry): void {
+        registry.registerTools(this.getToolDefinitions(), {
+            'list-recent-changes': { validator: listRecentChangesSchema, handler: args => this.handleListRecentChanges(args) },
+            'undo-change': { validator: undoChangeSchema, handler: args => this.handleUndoChange(args) },
+        });
+    }
+
+    async handleListRecentChanges(args: z.infer<typeof listRecentChangesSchema>): Promise<any> {
+        const { limit } = args;
+
+        this.logger.info('Listing recent changes', { limit });
+
+        try {
+            const changes: RecordedChange[] = await this.foundryClient.query('foundry-mcp-bridge.listRecentChanges', { limit });
+
+            if (!changes || changes.length === 0) {
+                return 'No changes have been recorded since the Foundry world was loaded.';
+            }
+
+            let response = `# 📜 Recent Changes\n\n`;
+            response += `| Change ID | Time | Description | Documents | Status |\n`;
+            response += `|---|---|---|---|---|\n`;
+            for (const change of changes) {
+                const time = new Date(change.timestamp).toLocaleTimeString();
+                response += `| \`${change.id}\` | ${time} | ${change.description} | ${this.summarizeActions(change)} | ${change.rolledBack ? '↩️ undone' : '✅ applied'} |\n`;
+            }
+            response += `\n💡 Use \`undo-change\` with a Change ID to reverse it, or without one to undo the latest change.\n`;
+
+            return response;
+        } catch (error) {
+            this.logger.error('Failed to list recent changes', error);
+            throw new Error(`Failed to list recent changes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    async handleUndoChange(args: z.infer<typeof undoChangeSchema>): Promise<any> {
+        const { changeId } = args;
+
+        this.logger.info('Undoing change', { changeId });
+
+        try {
+            const result = await this.foundryClient.query('foundry-mcp-bridge.undoChange', {
+                ...(changeId ? { transactionId: changeId } : {}),
+            });
+
+            if (result?.error) {
+                throw new Error(result.error);
+            }
+
+            if (!result.success) {
+                let response = `# ⚠️ Partially undone: ${result.description}\n\n`;
+                response += `Some parts of this change could not be reversed:\n`;
+                for (const error of result.errors) {
+                    response += `- ${error}\n`;
+                }
+                return response;
+            }
+
+            return `# ↩️ Undone: ${result.description}\n\nChange \`${result.transactionId}\` has been reversed in Foundry.`;
+        } catch (error) {
+            this.logger.error('Failed to undo change', error);
+            throw new Error(`Failed to undo change: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    private summarizeActions(change: RecordedChange): string {
+        const verbs = { create: 'created', update: 'updated', delete: 'deleted' };
+        const counts = new Map<string, number>();
+        for (const action of change.actions) {
+            const label = `${action.entityType} ${verbs[action.type]}`;
+            counts.set(label, (counts.get(label) ?? 0) + 1);
+        }
+        return Array.from(counts.entries()).map(([label, count]) => (count > 1 ? `${count}× ${label}` : label)).join(', ');
+    }
+}
@@ -1,12 +1,22 @@
 import { z } from 'zod';
 import { FoundryClient } from '../foundry-client.js';
 import { Logger } from '../logger.js';
+import { ToolRegistry } from '../tool-registry.js';
+import { getCharacteristicBonus } from '@foundry-mcp/shared';
 
 export interface CharacterToolsOptions {
   foundryClient: FoundryClient;
   logger: Logger;
 }
 
+const getCharacterSchema = z.object({
+  identifier: z.string().min(1, 'Character identifier cannot be empty'),
+});
+
+const listCharactersSchema = z.object({
+  type: z.string().optional(),
+});
+
 export class CharacterTools {
   private foundryClient: FoundryClient;
   private logger: Logger;
@@ -53,12 +63,15 @@ export class CharacterTools {
     ];
   }
 
-  async handleGetCharacter(args: any): Promise<any> {
-    const schema = z.object({
-      identifier: z.string().min(1, 'Character identifier cannot be empty'),
+  registerTools(registry: ToolRegistry): void {
+    registry.registerTools(this.getToolDefinitions(), {
+      'get-character': { validator: getCharacterSchema, handler: args => this.handleGetCharacter(args) },
+      'list-characters': { validator: listCharactersSchema, handler: args => this.handleListCharacters(args) },
     });
+  }
 
-    const { identifier } = schema.parse(args);
+  async handleGetCharacter(args: z.infer<typeof getCharacterSchema>): Promise<any> {
+    const { identifier } = args;
 
     this.logger.info('Getting character information', { identifier });
 
@@ -81,12 +94,8 @@ export class CharacterTools {
     }
   }
 
-  async handleListCharacters(args: any): Promise<any> {
-    const schema = z.object({
-      type: z.string().optional(),
-    });
-
-    const { type } = schema.parse(args);
+  async handleListCharacters(args: z.infer<typeof listCharactersSchema>): Promise<any> {
+    const { type } = args;
 
     this.logger.info('Listing characters', { type });
 
@@ -148,7 +157,7 @@ export class CharacterTools {
 
       // Toughness Bonus + Armor Points
       if (system.characteristics?.t) {
-        const toughnessBonus = Math.floor((system.characteristics.t.value || 0) / 10);
+        const toughnessBonus = getCharacteristicBonus(system.characteristics.t.value || 0);
         const armorPoints = system.status?.armour?.value || system.status?.armour?.head || 0;
         basicInfo.toughness = {
           bonus: toughnessBonus,
@@ -242,7 +251,7 @@ export class CharacterTools {
               initial: char.initial || 0,
               advances: char.advances || 0,
               value: char.value || char.initial || 0,
-              bonus: Math.floor((char.value || char.initial || 0) / 10)
+              bonus: getCharacteristicBonus(char.value || char.initial || 0)
             };
           }
         }
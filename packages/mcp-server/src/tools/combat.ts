@@ -0,0 +1,225 @@
+import { z } from 'zod';
+import { FoundryClient } from '../foundry-client.js';
+import { Logger } from '../logger.js';
+import { ToolRegistry } from '../tool-registry.js';
+
+export interface CombatToolsOptions {
+    foundryClient: FoundryClient;
+    logger: Logger;
+}
+
+interface CombatantInfo {
+    id: string;
+    name: string;
+    tokenId?: string;
+    actorId?: string;
+    initiative: number | null;
+    hidden: boolean;
+    defeated: boolean;
+    advantage: number;
+    wounds?: { value: number; max: number };
+}
+
+interface CombatState {
+    id: string;
+    sceneId?: string;
+    round: number;
+    turn: number;
+    started: boolean;
+    current?: CombatantInfo;
+    combatants: CombatantInfo[];
+}
+
+const getCombatStatusSchema = z.object({});
+
+const nextTurnSchema = z.object({});
+
+const startCombatSchema = z.object({
+    tokenIds: z.array(z.string()).optional(),
+    includeHidden: z.boolean().optional(),
+    initiativeMode: z.enum(['characteristic', 'roll']).optional(),
+});
+
+const endCombatSchema = z.object({
+    clearAdvantage: z.boolean().default(true),
+});
+
+export class CombatTools {
+    private foundryClient: FoundryClient;
+    private logger: Logger;
+
+    constructor({ foundryClient, logger }: CombatToolsOptions) {
+        this.foundryClient = foundryClient;
+        this.logger = logger.child({ component: 'CombatTools' });
+    }
+
+    getToolDefinitions() {
+        return [
+            {
+                name: 'start-combat',
+                description: 'Start a combat encounter in the Foundry combat tracker from the tokens on the active scene and roll WFRP 4e initiative. By default combatants act in order of their Initiative characteristic (ties broken by Agility, then a d10); the optional "roll" mode uses Initiative + 1d10. Hidden tokens are skipped unless includeHidden is set. Example: "Start combat with everyone on the scene" or "Start a fight between Hans, Gustav and the two goblins"',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        tokenIds: {
+                            type: 'array',
+                            items: { type: 'string' },
+                            description: 'Optional: only add these token IDs (from get-current-scene). Default: all tokens with actors',
+                        },
+                        includeHidden: {
+                            type: 'boolean',
+                            description: 'Include hidden tokens (e.g. ambushers not yet revealed). Default: false',
+                        },
+                        initiativeMode: {
+                            type: 'string',
+                            enum: ['characteristic', 'roll'],
+                            description: 'characteristic = order by Initiative (core rules), roll = Initiative + 1d10 (optional rule). Default: characteristic',
+                        },
+                    },
+                },
+            },
+            {
+                name: 'get-combat-status',
+                description: 'Show the current combat encounter: round, whose turn it is, initiative order, Advantage and Wounds for every combatant. Example: "Whose turn is it?" or "Show the initiative order"',
+                inputSchema: {
+                    type: 'object',
+                    properties: {},
+                },
+            },
+            {
+                name: 'next-turn',
+                description: 'Advance the Foundry combat tracker to the next combatant. At the end of the initiative order a new round begins automatically. Example: "Next turn" or "Move on to the next combatant"',
+                inputSchema: {
+                    type: 'object',
+                    properties: {},
+                },
+            },
+            {
+                name: 'end-combat',
+                description: 'End the active combat encounter and remove it from the tracker. WFRP 4e: Advantage is lost when combat ends, so all combatants have their Advantage reset to 0 unless clearAdvantage is false. Example: "End the combat" or "The fight is over"',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        clearAdvantage: {
+                            type: 'boolean',
+                            description: 'Reset Advantage to 0 for every combatant. Default: true',
+                        },
+                    },
+                },
+            },
+        ];
+    }
+
+    registerTools(registry: ToolRegistry): void {
+        registry.registerTools(this.getToolDefinitions(), {
+            'start-combat': { validator: startCombatSchema, handler: args => this.handleStartCombat(args) },
+            'get-combat-status': { validator: getCombatStatusSchema, handler: args => this.handleGetCombatStatus(args) },
+            'next-turn': { validator: nextTurnSchema, handler: args => this.handleNextTurn(args) },
+            'end-combat': { validator: endCombatSchema, handler: args => this.handleEndCombat(args) },
+        });
+    }
+
+    async handleStartCombat(params: z.infer<typeof startCombatSchema>): Promise<any> {
+        this.logger.info('Starting combat', params);
+
+        try {
+            const state: CombatState = await this.foundryClient.query('foundry-mcp-bridge.startCombat', params);
+
+            let response = `# ⚔️ Combat Begins!\n\n`;
+            response += `**Initiative mode**: ${params.initiativeMode === 'roll' ? 'Initiative + 1d10' : 'Initiative characteristic'}\n\n`;
+            response += this.formatCombatState(state);
+            response += `\n💡 Use \`next-turn\` to advance, \`opposed-test\` for attacks, \`end-of-round-conditions\` before each new round, and \`end-combat\` when the fight is over.\n`;
+
+            return response;
+        } catch (error) {
+            this.logger.error('Failed to start combat', error);
+            throw new Error(`Failed to start combat: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    async handleGetCombatStatus(_args: z.infer<typeof getCombatStatusSchema>): Promise<any> {
+        this.logger.info('Getting combat status');
+
+        try {
+            const state: CombatState | null = await this.foundryClient.query('foundry-mcp-bridge.getCombatState', {});
+
+            if (!state) {
+                return 'No combat encounter is active. Use `start-combat` to begin one.';
+            }
+
+            return `# ⚔️ Combat Status\n\n${this.formatCombatState(state)}`;
+        } catch (error) {
+            this.logger.error('Failed to get combat status', error);
+            throw new Error(`Failed to get combat status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    async handleNextTurn(_args: z.infer<typeof nextTurnSchema>): Promise<any> {
+        this.logger.info('Advancing combat turn');
+
+        try {
+            const state: CombatState = await this.foundryClient.query('foundry-mcp-bridge.nextCombatTurn', {});
+
+            let response = '';
+            if (state.turn === 0) {
+                response += `# 🔔 Round ${state.round} begins\n\n`;
+            }
+            response += `## ▶️ ${state.current?.name ?? 'Unknown'}'s turn\n\n`;
+            response += this.formatCombatState(state);
+
+            return response;
+        } catch (error) {
+            this.logger.error('Failed to advance combat turn', error);
+            throw new Error(`Failed to advance combat turn: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    async handleEndCombat(args: z.infer<typeof endCombatSchema>): Promise<any> {
+        const { clearAdvantage } = args;
+
+        this.logger.info('Ending combat', { clearAdvantage });
+
+        try {
+            const result = await this.foundryClient.query('foundry-mcp-bridge.endCombat', { clearAdvantage });
+
+            let response = `# 🏁 Combat Ended\n\n`;
+            response += `The encounter lasted **${result.rounds}** round${result.rounds === 1 ? '' : 's'}.\n\n`;
+
+            if (!clearAdvantage) {
+                response += `Advantage was left unchanged.\n`;
+            } else if (result.advantageCleared.length === 0) {
+                response += `No combatant had Advantage to clear.\n`;
+            } else {
+                response += `## Advantage Reset\n`;
+                for (const entry of result.advantageCleared) {
+                    response += `- ${entry.name}: ${entry.previous} → 0\n`;
+                }
+            }
+
+            return response;
+        } catch (error) {
+            this.logger.error('Failed to end combat', error);
+            throw new Error(`Failed to end combat: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    private formatCombatState(state: CombatState): string {
+        let text = `**Round**: ${state.round}\n`;
+        if (state.current) {
+            text += `**Acting**: ${state.current.name}\n`;
+        }
+        text += `\n| # | Combatant | Initiative | Advantage | Wounds |\n`;
+        text += `|---|---|---|---|---|\n`;
+
+        state.combatants.forEach((combatant, index) => {
+            const marker = index === state.turn ? '▶️ ' : '';
+            const defeated = combatant.defeated ? ' 💀' : '';
+            const hidden = combatant.hidden ? ' (hidden)' : '';
+            const initiative = combatant.initiative === null ? '—' : Math.floor(combatant.initiative).toString();
+            const wounds = combatant.wounds ? `${combatant.wounds.value}/${combatant.wounds.max}` : '—';
+            text += `| ${index + 1} | ${marker}${combatant.name}${hidden}${defeated} | ${initiative} | ${combatant.advantage} | ${wounds} |\n`;
+        });
+
+        return text;
+    }
+}
@@ -1,12 +1,135 @@
 import { z } from 'zod';
 import { FoundryClient } from '../foundry-client.js';
 import { Logger } from '../logger.js';
+import { ToolRegistry } from '../tool-registry.js';
+import { getDryRunSession } from '../dry-run.js';
+import { followRemoteProgress, getProgressReporter } from '../progress.js';
+import { getCharacteristicBonus } from '@foundry-mcp/shared';
 
 export interface CompendiumToolsOptions {
   foundryClient: FoundryClient;
   logger: Logger;
 }
 
+/** Rebuilding every pack of a large system can take several minutes */
+const INDEX_REBUILD_TIMEOUT_MS = 20 * 60 * 1000;
+
+// Some MCP clients send the query bare or under another key; recover it before validating
+const searchCompendiumSchema = z.preprocess(
+  args => {
+    if (typeof args === 'string') return { query: args };
+    if (args && typeof args === 'object' && (args as { query?: unknown }).query === undefined) {
+      const firstValue = Object.values(args)[0];
+      if (typeof firstValue === 'string') return { query: firstValue };
+    }
+    return args;
+  },
+  z.object({
+    query: z.string().min(2, 'Search query must be at least 2 characters'),
+    packType: z.string().optional(),
+    filters: z.object({
+      challengeRating: z.union([
+        z.number(),
+        z.object({
+          min: z.number().optional(),
+          max: z.number().optional()
+        })
+      ]).optional(),
+      creatureType: z.enum(['human', 'dwarf', 'elf', 'halfling', 'beastman', 'daemon', 'greenskin', 'undead', 'beast', 'chaos', 'animal']).optional(),
+      size: z.enum(['tiny', 'little', 'small', 'average', 'large', 'enormous', 'monstrous']).optional(),
+      spellcaster: z.boolean().optional(),
+      hasSpecialAbilities: z.boolean().optional(),
+      itemType: z.string().optional(),
+      lore: z.string().optional(),
+      cn: z.union([
+        z.number(),
+        z.object({
+          min: z.number().optional(),
+          max: z.number().optional()
+        })
+      ]).optional(),
+      god: z.string().optional(),
+      careerClass: z.string().optional(),
+      tier: z.number().int().min(1).max(4).optional(),
+      status: z.string().optional()
+    }).optional(),
+    limit: z.number().min(1).max(50).default(50),
+  })
+);
+
+const getCompendiumItemSchema = z.object({
+  packId: z.string().min(1, 'Pack ID cannot be empty'),
+  itemId: z.string().min(1, 'Item ID cannot be empty'),
+  compact: z.boolean().default(false),
+});
+
+const listCreaturesByCriteriaSchema = z.object({
+  query: z.string().optional(),
+  challengeRating: z.union([
+    // Range object - handle both native objects and JSON strings
+    z.object({
+      min: z.number().optional().default(0),
+      max: z.number().optional().default(30)
+    }),
+    // JSON string that parses to range object
+    z.string().refine((val) => {
+      try {
+        const parsed = JSON.parse(val);
+        return typeof parsed === 'object' && parsed !== null &&
+          (typeof parsed.min === 'number' || typeof parsed.max === 'number');
+      } catch {
+        return false;
+      }
+    }, {
+      message: 'Challenge rating/threat range must be valid JSON object with min/max numbers'
+    }).transform((val) => {
+      const parsed = JSON.parse(val);
+      return {
+        min: parsed.min || 0,
+        max: parsed.max || 30
+      };
+    }),
+    // Single number
+    z.number(),
+    // String that converts to number (defensive parsing)
+    z.string().refine((val) => !isNaN(parseFloat(val)), {
+      message: 'Challenge rating/threat level must be a valid number'
+    }).transform((val) => parseFloat(val))
+  ]).optional(),
+  creatureType: z.string().min(1).optional(),
+  size: z.enum(['tiny', 'small', 'medium', 'large', 'huge', 'gargantuan', 'little', 'average', 'enormous']).optional(),
+  hasSpells: z.union([
+    z.boolean(),
+    z.string().refine((val) => ['true', 'false'].includes(val.toLowerCase()), {
+      message: 'hasSpells must be true or false'
+    }).transform(val => val.toLowerCase() === 'true')
+  ]).optional(),
+  hasSpecialAbilities: z.union([
+    z.boolean(),
+    z.string().refine((val) => ['true', 'false'].includes(val.toLowerCase()), {
+      message: 'hasSpecialAbilities must be true or false'
+    }).transform(val => val.toLowerCase() === 'true')
+  ]).optional(),
+  traits: z.array(z.string().min(1)).optional(),
+  limit: z.union([
+    z.number().min(1).max(1000),
+    z.string().refine((val) => {
+      const num = parseInt(val, 10);
+      return !isNaN(num) && num >= 1 && num <= 1000;
+    }, {
+      message: 'Limit must be a number between 1 and 1000'
+    }).transform(val => parseInt(val, 10))
+  ]).optional().default(100), // Reduced default for better Claude Desktop exploration
+});
+
+const listCompendiumPacksSchema = z.object({
+  type: z.string().optional(),
+});
+
+const rebuildCompendiumIndexSchema = z.object({
+  index: z.enum(['creatures', 'items', 'all']).default('all'),
+});
+
 export class CompendiumTools {
   private foundryClient: FoundryClient;
   private logger: Logger;
@@ -23,13 +146,13 @@ export class CompendiumTools {
     return [
       {
         name: 'search-compendium',
-        description: 'Enhanced search through compendium packs for items, spells, monsters, and other WFRP 4e content. Supports advanced filtering for creatures by threat level (Toughness + Wounds/10), creature species, size, and more. Perfect for encounter building and creature discovery. OPTIMIZATION TIPS: Start with broad searches using threat ranges (e.g., {min: 10, max: 15}) rather than exact values. Use minimal query terms initially and rely on filters. The default limit of 50 is optimal for discovery - avoid reducing it. Search results include key stats (threat, Wounds, Toughness) to reduce need for detailed lookups.',
+        description: 'Enhanced search through compendium packs for items, spells, monsters, and other WFRP 4e content. Supports advanced filtering for creatures by threat level (Toughness + Wounds/10), creature species, size, and more, and for items by type: spells by CN and lore, prayers by god, careers by class, tier and status (packType "Item"). Perfect for encounter building and creature discovery. OPTIMIZATION TIPS: Start with broad searches using threat ranges (e.g., {min: 10, max: 15}) rather than exact values. Use minimal query terms initially and rely on filters. The default limit of 50 is optimal for discovery - avoid reducing it. Search results include key stats (threat, Wounds, Toughness) to reduce need for detailed lookups.',
         inputSchema: {
           type: 'object',
           properties: {
             query: {
               type: 'string',
-              description: 'Search query to find items in compendiums (searches names and descriptions). TIP: For creature discovery, use broad terms like "knight", "warrior", "beast", "beastman", "daemon", "greenskin" or even "*" and rely primarily on filters for specificity.',
+              description: 'Search query to find items in compendiums (searches names and descriptions). With packType "Actor" and the enhanced creature index enabled, creatures are ranked by full-text relevance over names, traits, talents and descriptions, and misspellings ("minotuar", "skavn") still match. TIP: For creature discovery, use broad terms like "knight", "warrior", "beast", "beastman", "daemon", "greenskin" or even "*" and rely primarily on filters for specificity.',
             },
             packType: {
               type: 'string',
@@ -64,6 +187,45 @@ export class CompendiumTools {
                 spellcaster: {
                   type: 'boolean',
                   description: 'Filter for creatures that can cast spells or use magic'
+                },
+                itemType: {
+                  type: 'string',
+                  description: 'Item type (WFRP 4e: "spell", "prayer", "career", "talent", "skill", "trait", "weapon", "armour", "trapping"...). Item filters use the enhanced item index'
+                },
+                lore: {
+                  type: 'string',
+                  description: 'Spells: lore, e.g. "fire", "Lore of Death" or "petty"'
+                },
+                cn: {
+                  oneOf: [
+                    { type: 'number', description: 'Exact Casting Number' },
+                    {
+                      type: 'object',
+                      properties: {
+                        min: { type: 'number', description: 'Minimum Casting Number' },
+                        max: { type: 'number', description: 'Maximum Casting Number' }
+                      }
+                    }
+                  ],
+                  description: 'Spells: Casting Number, exact or a {min, max} range'
+                },
+                god: {
+                  type: 'string',
+                  description: 'Prayers: deity, e.g. "Sigmar", "Morr"'
+                },
+                careerClass: {
+                  type: 'string',
+                  description: 'Careers: class, e.g. "Warriors", "Academics", "Rogues"'
+                },
+                tier: {
+                  type: 'number',
+                  description: 'Careers: level within the career path (1-4)',
+                  minimum: 1,
+                  maximum: 4
+                },
+                status: {
+                  type: 'string',
+                  description: 'Careers: status tier ("brass", "silver", "gold") or exact standing ("Silver 2")'
                 }
               }
             },
@@ -106,6 +268,10 @@ export class CompendiumTools {
         inputSchema: {
           type: 'object',
           properties: {
+            query: {
+              type: 'string',
+              description: 'Optional full-text search over creature names, species, traits, talents and descriptions. Typo-tolerant ("minotuar", "skavn") and matches word starts ("skav"). Results are ranked by relevance instead of threat'
+            },
             challengeRating: {
               oneOf: [
                 { type: 'number', description: 'Exact threat level (WFRP: Toughness + Wounds/10)' },
@@ -123,8 +289,7 @@ export class CompendiumTools {
             },
             creatureType: {
               type: 'string',
-              description: 'Filter by creature species (WFRP 4e species)',
-              enum: ['human', 'dwarf', 'elf', 'halfling', 'beastman', 'daemon', 'greenskin', 'undead', 'beast', 'chaos', 'animal']
+              description: 'Filter by creature species as recorded in the index (WFRP 4e), e.g. "human", "dwarf", "elf", "halfling", "beastman", "daemon", "greenskin", "undead", "beast", "chaos", "animal", "skaven"'
             },
             size: {
               type: 'string',
@@ -139,6 +304,11 @@ export class CompendiumTools {
               type: 'boolean',
               description: 'Filter for creatures with special traits/abilities (WFRP 4e)'
             },
+            traits: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Filter by WFRP traits, all of which must match. "Fear 2" or "has Fear 2" means Fear 2 or higher, "Weapon +8" likewise; use "Fear = 2" or "Armour < 3" to compare exactly, "Size (Large)" for a specification, or just "Night Vision"'
+            },
             limit: {
               type: 'number',
               description: 'Maximum results to return (default: 500 for comprehensive surveys, max: 1000)',
@@ -163,56 +333,35 @@ export class CompendiumTools {
           },
         },
       },
+      {
+        name: 'rebuild-compendium-index',
+        description: 'Rebuild the enhanced compendium indexes used by search-compendium and list-creatures-by-criteria, e.g. after installing or updating compendium modules. Clients that send a progress token get live progress and the result when the rebuild finishes; otherwise it runs in the background in Foundry.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            index: {
+              type: 'string',
+              enum: ['creatures', 'items', 'all'],
+              description: 'Which index to rebuild: creatures (Actor packs), items (spells, prayers, careers, talents...) or all (default)',
+            },
+          },
+        },
+      },
     ];
   }
 
-  async handleSearchCompendium(args: any): Promise<any> {
-    const schema = z.object({
-      query: z.string().min(2, 'Search query must be at least 2 characters'),
-      packType: z.string().optional(),
-      filters: z.object({
-        challengeRating: z.union([
-          z.number(),
-          z.object({
-            min: z.number().optional(),
-            max: z.number().optional()
-          })
-        ]).optional(),
-        creatureType: z.enum(['human', 'dwarf', 'elf', 'halfling', 'beastman', 'daemon', 'greenskin', 'undead', 'beast', 'chaos', 'animal']).optional(),
-        size: z.enum(['tiny', 'little', 'small', 'average', 'large', 'enormous', 'monstrous']).optional(),
-        spellcaster: z.boolean().optional(),
-        hasSpecialAbilities: z.boolean().optional()
-      }).optional(),
-      limit: z.number().min(1).max(50).default(50),
+  registerTools(registry: ToolRegistry): void {
+    registry.registerTools(this.getToolDefinitions(), {
+      'search-compendium': { validator: searchCompendiumSchema, handler: args => this.handleSearchCompendium(args) },
+      'get-compendium-item': { validator: getCompendiumItemSchema, handler: args => this.handleGetCompendiumItem(args) },
+      'list-creatures-by-criteria': { validator: listCreaturesByCriteriaSchema, handler: args => this.handleListCreaturesByCriteria(args) },
+      'list-compendium-packs': { validator: listCompendiumPacksSchema, handler: args => this.handleListCompendiumPacks(args) },
+      'rebuild-compendium-index': { validator: rebuildCompendiumIndexSchema, handler: args => this.handleRebuildCompendiumIndex(args) },
     });
+  }
 
-    // Add defensive parsing for MCP argument structure inconsistencies
-    let parsedArgs;
-    try {
-      parsedArgs = schema.parse(args);
-    } catch (zodError) {
-      // Try alternative argument structures that MCP might send
-      if (typeof args === 'string') {
-        parsedArgs = schema.parse({ query: args });
-      } else if (args && typeof args.query === 'undefined' && typeof args === 'object') {
-        // Handle case where arguments might be nested differently
-        const firstKey = Object.keys(args)[0];
-        if (firstKey && typeof args[firstKey] === 'string') {
-          parsedArgs = schema.parse({ query: args[firstKey] });
-        } else {
-          throw zodError;
-        }
-      } else {
-        // Log the problematic args for debugging
-        this.logger.debug('Failed to parse search args, using fallback', {
-          args: typeof args === 'object' ? JSON.stringify(args) : args,
-          error: zodError instanceof Error ? zodError.message : 'Unknown parsing error'
-        });
-        throw zodError;
-      }
-    }
-
-    const { query, packType, filters, limit } = parsedArgs;
+  async handleSearchCompendium(args: z.infer<typeof searchCompendiumSchema>): Promise<any> {
+    const { query, packType, filters, limit } = args;
 
     try {
       const results = await this.foundryClient.query('foundry-mcp-bridge.searchCompendium', {
@@ -244,14 +393,8 @@ export class CompendiumTools {
     }
   }
 
-  async handleGetCompendiumItem(args: any): Promise<any> {
-    const schema = z.object({
-      packId: z.string().min(1, 'Pack ID cannot be empty'),
-      itemId: z.string().min(1, 'Item ID cannot be empty'),
-      compact: z.boolean().default(false),
-    });
-
-    const { packId, itemId, compact } = schema.parse(args);
+  async handleGetCompendiumItem(args: z.infer<typeof getCompendiumItemSchema>): Promise<any> {
+    const { packId, itemId, compact } = args;
 
     try {
       // Use the proper document retrieval method that already exists in actor creation
@@ -308,77 +451,7 @@ export class CompendiumTools {
     }
   }
 
-  async handleListCreaturesByCriteria(args: any): Promise<any> {
-    const schema = z.object({
-      challengeRating: z.union([
-        // Range object - handle both native objects and JSON strings
-        z.object({
-          min: z.number().optional().default(0),
-          max: z.number().optional().default(30)
-        }),
-        // JSON string that parses to range object
-        z.string().refine((val) => {
-          try {
-            const parsed = JSON.parse(val);
-            return typeof parsed === 'object' && parsed !== null &&
-              (typeof parsed.min === 'number' || typeof parsed.max === 'number');
-          } catch {
-            return false;
-          }
-        }, {
-          message: 'Challenge rating/threat range must be valid JSON object with min/max numbers'
-        }).transform((val) => {
-          const parsed = JSON.parse(val);
-          return {
-            min: parsed.min || 0,
-            max: parsed.max || 30
-          };
-        }),
-        // Single number
-        z.number(),
-        // String that converts to number (defensive parsing)
-        z.string().refine((val) => !isNaN(parseFloat(val)), {
-          message: 'Challenge rating/threat level must be a valid number'
-        }).transform((val) => parseFloat(val))
-      ]).optional(),
-      creatureType: z.enum(['humanoid', 'dragon', 'beast', 'undead', 'fey', 'fiend', 'celestial', 'construct', 'elemental', 'giant', 'monstrosity', 'ooze', 'plant', 'aberration', 'human', 'dwarf', 'elf', 'halfling', 'beastman', 'daemon', 'greenskin', 'chaos', 'animal']).optional(),
-      size: z.enum(['tiny', 'small', 'medium', 'large', 'huge', 'gargantuan', 'little', 'average', 'enormous']).optional(),
-      hasSpells: z.union([
-        z.boolean(),
-        z.string().refine((val) => ['true', 'false'].includes(val.toLowerCase()), {
-          message: 'hasSpells must be true or false'
-        }).transform(val => val.toLowerCase() === 'true')
-      ]).optional(),
-      hasSpecialAbilities: z.union([
-        z.boolean(),
-        z.string().refine((val) => ['true', 'false'].includes(val.toLowerCase()), {
-          message: 'hasSpecialAbilities must be true or false'
-        }).transform(val => val.toLowerCase() === 'true')
-      ]).optional(),
-      limit: z.union([
-        z.number().min(1).max(1000),
-        z.string().refine((val) => {
-          const num = parseInt(val, 10);
-          return !isNaN(num) && num >= 1 && num <= 1000;
-        }, {
-          message: 'Limit must be a number between 1 and 1000'
-        }).transform(val => parseInt(val, 10))
-      ]).optional().default(100), // Reduced default for better Claude Desktop exploration
-    });
-
-    let params;
-    try {
-      params = schema.parse(args);
-      this.logger.debug('Parsed creature criteria parameters successfully', params);
-    } catch (parseError) {
-      this.logger.error('Failed to parse creature criteria parameters', { args, parseError });
-      if (parseError instanceof z.ZodError) {
-        const errorDetails = parseError.errors.map(err => `${err.path.join('.')}: ${err.message}`).join('; ');
-        throw new Error(`Parameter validation failed: ${errorDetails}. Received args: ${JSON.stringify(args)}`);
-      }
-      throw parseError;
-    }
-
+  async handleListCreaturesByCriteria(params: z.infer<typeof listCreaturesByCriteriaSchema>): Promise<any> {
     try {
       const results = await this.foundryClient.query('foundry-mcp-bridge.listCreaturesByCriteria', params);
 
@@ -414,12 +487,8 @@ export class CompendiumTools {
     }
   }
 
-  async handleListCompendiumPacks(args: any): Promise<any> {
-    const schema = z.object({
-      type: z.string().optional(),
-    });
-
-    const { type } = schema.parse(args);
+  async handleListCompendiumPacks(args: z.infer<typeof listCompendiumPacksSchema>): Promise<any> {
+    const { type } = args;
 
     this.logger.info('Listing compendium packs', { type });
 
@@ -455,6 +524,44 @@ export class CompendiumTools {
     }
   }
 
+  async handleRebuildCompendiumIndex(args: z.infer<typeof rebuildCompendiumIndexSchema>): Promise<any> {
+    const { index } = args;
+    const label = index === 'all' ? 'creature and item indexes' : `${index === 'creatures' ? 'creature' : 'item'} index`;
+
+    this.logger.info('Rebuilding enhanced compendium index', { index });
+
+    if (getDryRunSession()) {
+      return `Dry run: rebuild-compendium-index would rebuild the enhanced ${label} from every compendium pack. Nothing was started.`;
+    }
+
+    const start = async (progressId?: string) => {
+      const response = await this.foundryClient.query('foundry-mcp-bridge.rebuildEnhancedIndex', {
+        index,
+        ...(progressId ? { progressId } : {}),
+      });
+      if (response?.error) {
+        throw new Error(response.error);
+      }
+    };
+
+    try {
+      if (!getProgressReporter()) {
+        await start();
+        return `Rebuilding the enhanced ${label} in Foundry. This runs in the background and can take a few minutes for large compendiums; the GM sees its progress in Foundry.`;
+      }
+
+      const outcome = await followRemoteProgress(start, INDEX_REBUILD_TIMEOUT_MS);
+      if (outcome.error) {
+        throw new Error(outcome.error);
+      }
+      return outcome.message || `Enhanced ${label} rebuilt`;
+
+    } catch (error) {
+      this.logger.error('Failed to rebuild enhanced compendium index', error);
+      throw new Error(`Failed to rebuild compendium index: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   private formatCompendiumItem(item: any): any {
     const formatted: any = {
       id: item.id,
@@ -497,7 +604,7 @@ export class CompendiumTools {
       }
 
       // WFRP Toughness Bonus + Armor
-      const toughnessBonus = Math.floor((system.characteristics?.t?.value ?? 0) / 10);
+      const toughnessBonus = getCharacteristicBonus(system.characteristics?.t?.value ?? 0);
       const armorPoints = system.status?.armour?.value ?? system.status?.armour?.head;
       if (toughnessBonus !== undefined || armorPoints !== undefined) {
         stats.toughnessAndArmor = { toughnessBonus, armorPoints: armorPoints || 0 };
@@ -517,6 +624,11 @@ export class CompendiumTools {
       }
     }
 
+    // Enhanced index results carry traits or type-specific item details and, for full-text searches, a relevance score
+    if (item.traits?.length) formatted.traits = item.traits;
+    if (item.details && Object.keys(item.details).length > 0) formatted.details = item.details;
+    if (item.relevance !== undefined) formatted.relevance = item.relevance;
+
     return formatted;
   }
 
@@ -620,6 +732,9 @@ export class CompendiumTools {
       challengeRating: challengeRating,
       creatureType: creatureType,
       size: size,
+      ...(creature.traits?.length ? { traits: creature.traits } : {}),
+      // Full-text searches report how well the creature matched
+      ...(creature.relevance !== undefined ? { relevance: creature.relevance } : {}),
       // Key feature flags for quick filtering (WFRP specific)
       flags: {
         spellcaster: hasSpells,
@@ -640,7 +755,7 @@ export class CompendiumTools {
     // Core combat stats - WFRP 4e
 
     // Toughness/Armor (WFRP)
-    const toughnessBonus = Math.floor((system.characteristics?.t?.value ?? 0) / 10);
+    const toughnessBonus = getCharacteristicBonus(system.characteristics?.t?.value ?? 0);
     const armorPoints = system.status?.armour?.value ?? system.status?.armour?.head;
     if (toughnessBonus || armorPoints) {
       stats.toughness = { bonus: toughnessBonus, armor: armorPoints || 0 };
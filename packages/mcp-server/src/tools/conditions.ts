@@ -0,0 +1,452 @@
+import { z } from 'zod';
+import { FoundryClient } from '../foundry-client.js';
+import { Logger } from '../logger.js';
+import { ToolRegistry } from '../tool-registry.js';
+import { getCharacteristicBonus, isDoubleRoll } from '@foundry-mcp/shared';
+import { TableCondition, WFRP_CONDITIONS, WFRP_CONDITION_KEYS } from '../data/conditions.js';
+import { OpposedTestTools, WFRPTestRoll } from './opposed-test.js';
+
+export interface ConditionsToolsOptions {
+    foundryClient: FoundryClient;
+    logger: Logger;
+    opposedTestTools: OpposedTestTools;
+}
+
+interface ActorCondition {
+    key: string;
+    name: string;
+    value: number;
+    effectId: string;
+}
+
+interface ActorConditions {
+    actorId: string;
+    actorName: string;
+    conditions: ActorCondition[];
+}
+
+const ARMOUR_LOCATIONS = ['head', 'lArm', 'rArm', 'body', 'lLeg', 'rLeg'];
+
+const applyConditionSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+    condition: z.enum(WFRP_CONDITION_KEYS),
+    stacks: z.number().int().min(1).default(1),
+});
+
+const removeConditionSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+    condition: z.enum(WFRP_CONDITION_KEYS),
+    stacks: z.number().int().min(1).optional(),
+});
+
+const listConditionsSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+});
+
+const endOfRoundConditionsSchema = z.object({
+    characterName: z.string().min(1).optional(),
+});
+
+export class ConditionsTools {
+    private foundryClient: FoundryClient;
+    private logger: Logger;
+    private opposedTestTools: OpposedTestTools;
+
+    constructor({ foundryClient, logger, opposedTestTools }: ConditionsToolsOptions) {
+        this.foundryClient = foundryClient;
+        this.logger = logger.child({ component: 'ConditionsTools' });
+        this.opposedTestTools = opposedTestTools;
+    }
+
+    getToolDefinitions() {
+        return [
+            {
+                name: 'apply-condition',
+                description: 'Apply a WFRP 4e Condition to a character, stacking it on any existing Conditions of the same type (Bleeding, Stunned, Fatigued, Poisoned, Ablaze, Blinded, Deafened, Broken and Entangled stack; Prone, Surprised and Unconscious do not). Conditions are stored as Active Effects on the actor. Example: "Give the Orc 2 Bleeding" or "Hans is knocked Prone"',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        characterName: {
+                            type: 'string',
+                            description: 'Name or ID of the character',
+                        },
+                        condition: {
+                            type: 'string',
+                            enum: WFRP_CONDITION_KEYS,
+                            description: 'Condition to apply',
+                        },
+                        stacks: {
+                            type: 'number',
+                            minimum: 1,
+                            description: 'Number of Conditions to add (default: 1, ignored for non-stacking Conditions)',
+                        },
+                    },
+                    required: ['characterName', 'condition'],
+                },
+            },
+            {
+                name: 'remove-condition',
+                description: 'Remove one or more stacks of a WFRP 4e Condition from a character, or the whole Condition when no stack count is given. Example: "Remove 1 Stunned from Gustav" or "Elsa is no longer Prone"',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        characterName: {
+                            type: 'string',
+                            description: 'Name or ID of the character',
+                        },
+                        condition: {
+                            type: 'string',
+                            enum: WFRP_CONDITION_KEYS,
+                            description: 'Condition to remove',
+                        },
+                        stacks: {
+                            type: 'number',
+                            minimum: 1,
+                            description: 'Number of Conditions to remove (default: all)',
+                        },
+                    },
+                    required: ['characterName', 'condition'],
+                },
+            },
+            {
+                name: 'list-conditions',
+                description: 'List the WFRP 4e Conditions currently affecting a character, with stack counts and a summary of each Condition\'s effect. Example: "What conditions is Hans suffering from?"',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        characterName: {
+                            type: 'string',
+                            description: 'Name or ID of the character',
+                        },
+                    },
+                    required: ['characterName'],
+                },
+            },
+            {
+                name: 'end-of-round-conditions',
+                description: 'Resolve end-of-round WFRP 4e Conditions: Bleeding loses 1 Wound per Condition (with the death roll at 0 Wounds), Poisoned loses 1 Wound, Ablaze deals 1d10 + extra Ablaze − (TB + AP), then Endurance Tests shake off Poisoned and Stunned and a Cool Test shakes off Broken (1 + SL Conditions removed on success). Surprised ends. Wounds and Conditions are updated in Foundry. Without a character, every combatant in the active combat is processed. Example: "End the round and resolve conditions" or "Apply Gustav\'s bleeding for this round"',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        characterName: {
+                            type: 'string',
+                            description: 'Optional: only process this character. Default: all combatants in the active combat',
+                        },
+                    },
+                },
+            },
+        ];
+    }
+
+    registerTools(registry: ToolRegistry): void {
+        registry.registerTools(this.getToolDefinitions(), {
+            'apply-condition': { validator: applyConditionSchema, handler: args => this.handleApplyCondition(args) },
+            'remove-condition': { validator: removeConditionSchema, handler: args => this.handleRemoveCondition(args) },
+            'list-conditions': { validator: listConditionsSchema, handler: args => this.handleListConditions(args) },
+            'end-of-round-conditions': { validator: endOfRoundConditionsSchema, handler: args => this.handleEndOfRoundConditions(args) },
+        });
+    }
+
+    async handleApplyCondition(args: z.infer<typeof applyConditionSchema>): Promise<any> {
+        const { characterName, condition, stacks } = args;
+        const definition = WFRP_CONDITIONS[condition]!;
+        const value = definition.stackable ? stacks : 1;
+
+        this.logger.info('Applying condition', { characterName, condition, value });
+
+        try {
+            const result = await this.foundryClient.query('foundry-mcp-bridge.addConditions', {
+                actorId: characterName,
+                conditions: [{ key: condition, value }],
+            });
+
+            if (!result?.success) {
+                throw new Error(result?.error || `Failed to apply ${definition.name}`);
+            }
+            if (result.skipped.length > 0) {
+                throw new Error(`${definition.name} is not available in this game system`);
+            }
+
+            const current = await this.getActorConditions(result.actorId);
+            const total = current.conditions.find(entry => entry.key === condition)?.value ?? value;
+
+            let response = `# 🩸 ${definition.name} applied to ${result.actorName}\n\n`;
+            response += definition.stackable
+                ? `**Added**: ${value} · **Now**: ${total} ${definition.name}\n\n`
+                : `${result.actorName} is now ${definition.name}.\n\n`;
+            response += `**Effect**: ${definition.summary}\n`;
+
+            return response;
+        } catch (error) {
+            this.logger.error('Failed to apply condition', error);
+            throw new Error(`Failed to apply condition: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    async handleRemoveCondition(args: z.infer<typeof removeConditionSchema>): Promise<any> {
+        const { characterName, condition, stacks } = args;
+        const definition = WFRP_CONDITIONS[condition]!;
+
+        this.logger.info('Removing condition', { characterName, condition, stacks });
+
+        try {
+            const result = await this.foundryClient.query('foundry-mcp-bridge.removeConditions', {
+                actorId: characterName,
+                conditions: [{ key: condition, ...(stacks ? { value: stacks } : {}) }],
+            });
+
+            if (!result?.success) {
+                throw new Error(result?.error || `Failed to remove ${definition.name}`);
+            }
+
+            const removed = result.removed[0];
+            if (!removed) {
+                return `${result.actorName} has no ${definition.name} Condition to remove.`;
+            }
+
+            let response = `# ✨ ${definition.name} removed from ${result.actorName}\n\n`;
+            response += removed.remaining > 0
+                ? `**Removed**: ${removed.value} · **Remaining**: ${removed.remaining} ${definition.name}\n`
+                : `${result.actorName} is no longer ${definition.name}.\n`;
+
+            return response;
+        } catch (error) {
+            this.logger.error('Failed to remove condition', error);
+            throw new Error(`Failed to remove condition: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    async handleListConditions(args: z.infer<typeof listConditionsSchema>): Promise<any> {
+        const { characterName } = args;
+
+        this.logger.info('Listing conditions', { characterName });
+
+        try {
+            const result = await this.getActorConditions(characterName);
+
+            if (result.conditions.length === 0) {
+                return `${result.actorName} is not suffering from any Conditions.`;
+            }
+
+            let response = `# 🩸 Conditions: ${result.actorName}\n\n`;
+            response += `| Condition | Stacks | Effect |\n`;
+            response += `|---|---|---|\n`;
+            for (const condition of result.conditions) {
+                const definition = WFRP_CONDITIONS[condition.key];
+                response += `| ${definition?.name ?? condition.name} | ${condition.value} | ${definition?.summary ?? '—'} |\n`;
+            }
+
+            const penalty = result.conditions
+                .filter(condition => ['fatigued', 'poisoned', 'stunned', 'broken'].includes(condition.key))
+                .reduce((total, condition) => total + condition.value * 10, 0);
+            if (penalty > 0) {
+                response += `\n**General Test penalty**: −${penalty} (Fatigued, Poisoned, Stunned and Broken)\n`;
+            }
+
+            return response;
+        } catch (error) {
+            this.logger.error('Failed to list conditions', error);
+            throw new Error(`Failed to list conditions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    async handleEndOfRoundConditions(args: z.infer<typeof endOfRoundConditionsSchema>): Promise<any> {
+        const { characterName } = args;
+
+        this.logger.info('Resolving end-of-round conditions', { characterName });
+
+        try {
+            let actorIds: string[];
+            let round: number | undefined;
+
+            if (characterName) {
+                actorIds = [characterName];
+            } else {
+                const state = await this.foundryClient.query('foundry-mcp-bridge.getCombatState', {});
+                if (!state) {
+                    return 'No combat encounter is active. Name a character to resolve their Conditions outside combat.';
+                }
+                round = state.round;
+                actorIds = Array.from(new Set<string>(
+                    state.combatants
+                        .filter((combatant: any) => combatant.actorId && !combatant.defeated)
+                        .map((combatant: any) => combatant.actorId)
+                ));
+            }
+
+            let response = `# 🔔 End of ${round ? `Round ${round}` : 'Round'}: Conditions\n\n`;
+            let anyConditions = false;
+
+            for (const actorId of actorIds) {
+                const section = await this.resolveEndOfRound(actorId);
+                if (section) {
+                    response += section;
+                    anyConditions = true;
+                }
+            }
+
+            if (!anyConditions) {
+                response += `No end-of-round Conditions to resolve.\n`;
+            }
+
+            return response;
+        } catch (error) {
+            this.logger.error('Failed to resolve end-of-round conditions', error);
+            throw new Error(`Failed to resolve end-of-round conditions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Resolve one actor's end-of-round Conditions, returning a markdown section (or null if nothing applies)
+     */
+    private async resolveEndOfRound(actorId: string): Promise<string | null> {
+        const { conditions } = await this.getActorConditions(actorId);
+        const stacks = (key: string): number => conditions.find(condition => condition.key === key)?.value ?? 0;
+
+        const bleeding = stacks('bleeding');
+        const poisoned = stacks('poisoned');
+        const ablaze = stacks('ablaze');
+        const stunned = stacks('stunned');
+        const broken = stacks('broken');
+        const surprised = stacks('surprised');
+
+        if (!bleeding && !poisoned && !ablaze && !stunned && !broken && !surprised) {
+            return null;
+        }
+
+        const character = await this.foundryClient.query('foundry-mcp-bridge.getCharacterInfo', {
+            characterName: actorId,
+        });
+
+        if (!character) {
+            throw new Error(`Character "${actorId}" not found`);
+        }
+
+        const system = character.system as any;
+        const woundsBefore = system.status?.wounds?.value ?? 0;
+        const lines: string[] = [];
+        const toRemove: Array<{ key: string; value?: number }> = [];
+        const toAdd: TableCondition[] = [];
+        let woundLoss = 0;
+
+        if (bleeding) {
+            woundLoss += bleeding;
+            lines.push(`🩸 Bleeding ×${bleeding}: −${bleeding} Wound${bleeding === 1 ? '' : 's'}`);
+        }
+        if (poisoned) {
+            woundLoss += 1;
+            lines.push(`🧪 Poisoned: −1 Wound`);
+        }
+        if (ablaze) {
+            const toughnessBonus = Number(system.characteristics?.t?.bonus ?? getCharacteristicBonus(system.characteristics?.t?.value));
+            const armourPoints = this.getLowestArmourPoints(character);
+            const roll = Math.floor(Math.random() * 10) + 1;
+            const damage = Math.max(1, roll + (ablaze - 1) - (toughnessBonus + armourPoints));
+            woundLoss += damage;
+            lines.push(`🔥 Ablaze ×${ablaze}: 1d10 (${roll})${ablaze > 1 ? ` + ${ablaze - 1}` : ''} − ${toughnessBonus} TB − ${armourPoints} AP = −${damage} Wound${damage === 1 ? '' : 's'}`);
+        }
+
+        const woundsAfter = Math.max(0, woundsBefore - woundLoss);
+        if (woundLoss > 0) {
+            await this.foundryClient.query('foundry-mcp-bridge.updateActor', {
+                actorId: character.id,
+                updateData: {
+                    'system.status.wounds.value': woundsAfter,
+                },
+            });
+            lines.push(`**Wounds**: ${woundsBefore} → ${woundsAfter}`);
+        }
+
+        if (bleeding && woundsAfter === 0) {
+            if (!conditions.some(condition => condition.key === 'unconscious')) {
+                toAdd.push({ key: 'unconscious', value: 1 });
+                lines.push(`😵 Bled out to 0 Wounds: ${character.name} falls Unconscious`);
+            }
+
+            const deathRoll = Math.floor(Math.random() * 100) + 1;
+            if (deathRoll <= bleeding * 10) {
+                lines.push(`💀 **Death roll ${deathRoll}** (≤ ${bleeding * 10}): ${character.name} dies from blood loss unless a Fate point is spent`);
+            } else if (isDoubleRoll(deathRoll)) {
+                toRemove.push({ key: 'bleeding', value: 1 });
+                lines.push(`Death roll ${deathRoll} (double): the wound clots, 1 Bleeding removed`);
+            } else {
+                lines.push(`Death roll ${deathRoll} (> ${bleeding * 10}): clinging to life`);
+            }
+        }
+
+        const recoveries: Array<{ key: string; count: number; test: string; fallback: string }> = [
+            { key: 'poisoned', count: poisoned, test: 'Endurance', fallback: 't' },
+            { key: 'stunned', count: stunned, test: 'Endurance', fallback: 't' },
+            { key: 'broken', count: broken, test: 'Cool', fallback: 'wp' },
+        ];
+
+        for (const recovery of recoveries.filter(entry => entry.count > 0)) {
+            const name = WFRP_CONDITIONS[recovery.key]!.name;
+            const roll = await this.rollRecoveryTest(character.id, recovery.test, recovery.fallback, name);
+            const sl = `${roll.success ? '+' : '-'}${Math.abs(roll.sl)}`;
+
+            if (roll.success) {
+                const removed = Math.min(recovery.count, 1 + Math.max(0, roll.sl));
+                toRemove.push({ key: recovery.key, value: removed });
+                lines.push(`✅ ${recovery.test} vs ${name}: ${roll.roll}/${roll.target} (SL ${sl}), ${removed} ${name} removed`);
+            } else {
+                lines.push(`❌ ${recovery.test} vs ${name}: ${roll.roll}/${roll.target} (SL ${sl}), ${name} remains`);
+            }
+        }
+
+        if (surprised) {
+            toRemove.push({ key: 'surprised' });
+            lines.push(`Surprised ends`);
+        }
+
+        if (toRemove.length > 0) {
+            await this.foundryClient.query('foundry-mcp-bridge.removeConditions', {
+                actorId: character.id,
+                conditions: toRemove,
+            });
+        }
+        if (toAdd.length > 0) {
+            await this.foundryClient.query('foundry-mcp-bridge.addConditions', {
+                actorId: character.id,
+                conditions: toAdd,
+            });
+        }
+
+        return `## ${character.name}\n\n${lines.map(line => `- ${line}`).join('\n')}\n\n`;
+    }
+
+    private async getActorConditions(actorId: string): Promise<ActorConditions> {
+        const result = await this.foundryClient.query('foundry-mcp-bridge.getConditions', { actorId });
+
+        if (!result || result.error) {
+            throw new Error(result?.error || `Character "${actorId}" not found`);
+        }
+
+        return result as ActorConditions;
+    }
+
+    private async rollRecoveryTest(actorId: string, skillName: string, characteristic: string, conditionName: string): Promise<WFRPTestRoll> {
+        const testName = `${skillName} vs ${conditionName}`;
+        try {
+            return await this.opposedTestTools.rollTest({ characterName: actorId, test: skillName, difficulty: 'challenging', testName });
+        } catch (error) {
+            this.logger.debug('Skill test unavailable, falling back to characteristic', { skillName, characteristic });
+            return await this.opposedTestTools.rollTest({ characterName: actorId, test: characteristic, difficulty: 'challenging', testName });
+        }
+    }
+
+    /**
+     * Fire finds the least protected location, so Ablaze uses the lowest worn AP
+     */
+    private getLowestArmourPoints(character: any): number {
+        const armour = (character.items || [])
+            .filter((item: any) => item.type === 'armour' && (item.system?.worn?.value || item.system?.worn === true));
+
+        return Math.min(...ARMOUR_LOCATIONS.map(location =>
+            armour.reduce((total: number, item: any) => {
+                const ap = item.system?.AP?.[location] ?? item.system?.APDetails?.[location]?.value ?? 0;
+                return total + (Number(typeof ap === 'object' ? ap.value : ap) || 0);
+            }, 0)
+        ));
+    }
+}
@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { FoundryClient } from '../foundry-client.js';
 import { Logger } from '../logger.js';
+import { ToolRegistry } from '../tool-registry.js';
 
 export interface CorruptionMutationToolsOptions {
     foundryClient: FoundryClient;
@@ -27,6 +28,38 @@ interface MutationInfo {
     effects?: string;
 }
 
+const getCorruptionStatusSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+});
+
+const addCorruptionSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+    amount: z.number().min(1).max(10),
+    reason: z.string().min(1, 'Reason cannot be empty'),
+});
+
+const listMutationsSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+});
+
+const removeCorruptionSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+    amount: z.number().int().positive().max(10),
+    reason: z.string().min(1, 'Reason cannot be empty'),
+});
+
+const addMutationSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+    mutationName: z.string().min(1, 'Mutation name cannot be empty'),
+    mutationType: z.enum(['physical', 'mental']),
+    description: z.string().min(1, 'Description cannot be empty'),
+});
+
+const removeMutationSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+    mutationName: z.string().min(1, 'Mutation name cannot be empty'),
+});
+
 export class CorruptionMutationTools {
     private foundryClient: FoundryClient;
     private logger: Logger;
@@ -158,12 +191,19 @@ export class CorruptionMutationTools {
         ];
     }
 
-    async handleGetCorruptionStatus(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().min(1, 'Character name cannot be empty'),
+    registerTools(registry: ToolRegistry): void {
+        registry.registerTools(this.getToolDefinitions(), {
+            'get-corruption-status': { validator: getCorruptionStatusSchema, handler: args => this.handleGetCorruptionStatus(args) },
+            'add-corruption': { validator: addCorruptionSchema, handler: args => this.handleAddCorruption(args) },
+            'remove-corruption': { validator: removeCorruptionSchema, handler: args => this.handleRemoveCorruption(args) },
+            'list-mutations': { validator: listMutationsSchema, handler: args => this.handleListMutations(args) },
+            'add-mutation': { validator: addMutationSchema, handler: args => this.handleAddMutation(args) },
+            'remove-mutation': { validator: removeMutationSchema, handler: args => this.handleRemoveMutation(args) },
         });
+    }
 
-        const { characterName } = schema.parse(args);
+    async handleGetCorruptionStatus(args: z.infer<typeof getCorruptionStatusSchema>): Promise<any> {
+        const { characterName } = args;
 
         this.logger.info('Getting corruption status', { characterName });
 
@@ -324,14 +364,8 @@ export class CorruptionMutationTools {
         }
     }
 
-    async handleAddCorruption(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().min(1, 'Character name cannot be empty'),
-            amount: z.number().min(1).max(10),
-            reason: z.string().min(1, 'Reason cannot be empty'),
-        });
-
-        const { characterName, amount, reason } = schema.parse(args);
+    async handleAddCorruption(args: z.infer<typeof addCorruptionSchema>): Promise<any> {
+        const { characterName, amount, reason } = args;
 
         this.logger.info('Adding corruption', { characterName, amount, reason });
 
@@ -440,12 +474,8 @@ export class CorruptionMutationTools {
         }
     }
 
-    async handleListMutations(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().min(1, 'Character name cannot be empty'),
-        });
-
-        const { characterName } = schema.parse(args);
+    async handleListMutations(args: z.infer<typeof listMutationsSchema>): Promise<any> {
+        const { characterName } = args;
 
         this.logger.info('Listing mutations', { characterName });
 
@@ -547,14 +577,8 @@ export class CorruptionMutationTools {
         }
     }
 
-    async handleRemoveCorruption(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().min(1, 'Character name cannot be empty'),
-            amount: z.number().int().positive().max(10),
-            reason: z.string().min(1, 'Reason cannot be empty'),
-        });
-
-        const { characterName, amount, reason } = schema.parse(args);
+    async handleRemoveCorruption(args: z.infer<typeof removeCorruptionSchema>): Promise<any> {
+        const { characterName, amount, reason } = args;
 
         this.logger.info('Removing Corruption', { characterName, amount, reason });
 
@@ -602,15 +626,8 @@ export class CorruptionMutationTools {
         }
     }
 
-    async handleAddMutation(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().min(1, 'Character name cannot be empty'),
-            mutationName: z.string().min(1, 'Mutation name cannot be empty'),
-            mutationType: z.enum(['physical', 'mental']),
-            description: z.string().min(1, 'Description cannot be empty'),
-        });
-
-        const { characterName, mutationName, mutationType, description } = schema.parse(args);
+    async handleAddMutation(args: z.infer<typeof addMutationSchema>): Promise<any> {
+        const { characterName, mutationName, mutationType, description } = args;
 
         this.logger.info('Adding mutation', { characterName, mutationName, mutationType });
 
@@ -661,13 +678,8 @@ export class CorruptionMutationTools {
         }
     }
 
-    async handleRemoveMutation(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().min(1, 'Character name cannot be empty'),
-            mutationName: z.string().min(1, 'Mutation name cannot be empty'),
-        });
-
-        const { characterName, mutationName } = schema.parse(args);
+    async handleRemoveMutation(args: z.infer<typeof removeMutationSchema>): Promise<any> {
+        const { characterName, mutationName } = args;
 
         this.logger.info('Removing mutation', { characterName, mutationName });
 
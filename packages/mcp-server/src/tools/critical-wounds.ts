@@ -1,6 +1,8 @@
 import { z } from 'zod';
 import { FoundryClient } from '../foundry-client.js';
 import { Logger } from '../logger.js';
+import { ToolRegistry } from '../tool-registry.js';
+import { CriticalTableResult, getCriticalTableLocation, rollCriticalTable } from '../data/critical-tables.js';
 
 export interface CriticalWoundsToolsOptions {
     foundryClient: FoundryClient;
@@ -23,6 +25,29 @@ interface CriticalWoundsStatus {
     severity: 'none' | 'injured' | 'critical' | 'dying';
 }
 
+const getCriticalWoundsSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+});
+
+const addCriticalWoundSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+    location: z.string().min(1, 'Location cannot be empty'),
+    roll: z.number().int().min(1).max(100).optional(),
+    modifier: z.number().default(0),
+    woundName: z.string().min(1, 'Wound name cannot be empty').optional(),
+    wounds: z.number().min(1).optional(),
+    description: z.string().optional(),
+});
+
+const removeCriticalWoundSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+    woundName: z.string().min(1, 'Wound name cannot be empty'),
+});
+
+const checkDeathFromCriticalsSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+});
+
 export class CriticalWoundsTools {
     private foundryClient: FoundryClient;
     private logger: Logger;
@@ -50,7 +75,7 @@ export class CriticalWoundsTools {
             },
             {
                 name: 'add-critical-wound',
-                description: 'Add a critical wound to a character. WFRP 4e specific: Critical wounds occur when taking damage at 0 Wounds, or from a critical hit. Location is determined by hit location (head, body, left/right arm/leg). The GM should roll on the appropriate critical table based on damage type and severity. Each critical has specific penalties and healing times. Example: "Add critical wound to Hans - Left Leg, Cracked Shin" or "Gustav takes head critical"',
+                description: 'Roll a critical wound for a character on the WFRP 4e critical table for the hit location (Head, Arm, Body or Leg tables, 01-100). The rolled result is applied automatically: a matching critical item is created on the sheet, its conditions (Bleeding, Stunned, Prone...) are added to the actor, and the critical wound count is checked against the Toughness Bonus. Supply "roll" to use a physical d100 roll, or "modifier" for effects that push the result up the table. A custom woundName/wounds/description can still be given for non-table criticals. Example: "Hans takes a critical to the Left Leg" or "Gustav suffers a head critical, I rolled 57"',
                 inputSchema: {
                     type: 'object',
                     properties: {
@@ -62,20 +87,28 @@ export class CriticalWoundsTools {
                             type: 'string',
                             description: 'Hit location of the critical wound (e.g., "Head", "Body", "Left Arm", "Right Arm", "Left Leg", "Right Leg")',
                         },
+                        roll: {
+                            type: 'number',
+                            description: 'Optional: d100 result (1-100) to look up instead of rolling',
+                        },
+                        modifier: {
+                            type: 'number',
+                            description: 'Optional: modifier added to the critical roll (e.g. +10 from weapon or talent effects)',
+                        },
                         woundName: {
                             type: 'string',
-                            description: 'Name/description of the critical wound (e.g., "Cracked Shin", "Concussion", "Broken Ribs")',
+                            description: 'Optional: custom critical wound name. Skips the table roll (requires wounds)',
                         },
                         wounds: {
                             type: 'number',
-                            description: 'Number of Wounds dealt by this critical (typically 1-10+)',
+                            description: 'Wounds value of a custom critical wound',
                         },
                         description: {
                             type: 'string',
-                            description: 'Full description of the critical wound effects and duration',
+                            description: 'Optional: description of a custom critical, or extra context (source of the wound) appended to a rolled one',
                         },
                     },
-                    required: ['characterName', 'location', 'woundName', 'wounds', 'description'],
+                    required: ['characterName', 'location'],
                 },
             },
             {
@@ -113,12 +146,17 @@ export class CriticalWoundsTools {
         ];
     }
 
-    async handleGetCriticalWounds(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().min(1, 'Character name cannot be empty'),
+    registerTools(registry: ToolRegistry): void {
+        registry.registerTools(this.getToolDefinitions(), {
+            'get-critical-wounds': { validator: getCriticalWoundsSchema, handler: args => this.handleGetCriticalWounds(args) },
+            'add-critical-wound': { validator: addCriticalWoundSchema, handler: args => this.handleAddCriticalWound(args) },
+            'remove-critical-wound': { validator: removeCriticalWoundSchema, handler: args => this.handleRemoveCriticalWound(args) },
+            'check-death-from-criticals': { validator: checkDeathFromCriticalsSchema, handler: args => this.handleCheckDeathFromCriticals(args) },
         });
+    }
 
-        const { characterName } = schema.parse(args);
+    async handleGetCriticalWounds(args: z.infer<typeof getCriticalWoundsSchema>): Promise<any> {
+        const { characterName } = args;
 
         this.logger.info('Getting critical wounds', { characterName });
 
@@ -308,18 +346,29 @@ export class CriticalWoundsTools {
         }
     }
 
-    async handleAddCriticalWound(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().min(1, 'Character name cannot be empty'),
-            location: z.string().min(1, 'Location cannot be empty'),
-            woundName: z.string().min(1, 'Wound name cannot be empty'),
-            wounds: z.number().min(1),
-            description: z.string().min(1, 'Description cannot be empty'),
-        });
+    async handleAddCriticalWound(args: z.infer<typeof addCriticalWoundSchema>): Promise<any> {
+        const { characterName, location, roll, modifier, woundName: customName, wounds: customWounds, description: context } = args;
+
+        // Custom criticals bypass the table; everything else is rolled on the location table
+        let tableResult: CriticalTableResult | null = null;
+        if (!customName) {
+            const table = getCriticalTableLocation(location);
+            if (!table) {
+                throw new Error(`Unknown hit location "${location}". Use Head, Body, Left/Right Arm or Left/Right Leg.`);
+            }
+            tableResult = rollCriticalTable(table, roll, modifier);
+        } else if (customWounds === undefined) {
+            throw new Error('wounds is required when adding a custom critical wound');
+        }
 
-        const { characterName, location, woundName, wounds, description } = schema.parse(args);
+        const woundName = tableResult ? tableResult.entry.name : customName!;
+        const wounds = tableResult ? tableResult.entry.wounds : customWounds!;
+        const description = tableResult
+            ? [tableResult.entry.effect, context].filter(Boolean).join('\n\n')
+            : context || customName!;
+        const duration = tableResult?.entry.duration;
 
-        this.logger.info('Adding critical wound', { characterName, location, woundName, wounds });
+        this.logger.info('Adding critical wound', { characterName, location, woundName, wounds, roll: tableResult?.roll });
 
         try {
             const character = await this.foundryClient.query('foundry-mcp-bridge.getCharacterInfo', {
@@ -343,8 +392,9 @@ export class CriticalWoundsTools {
             const tBonus = system.characteristics?.t?.bonus || 0;
             const newCriticalCount = criticalCurrent + 1;
 
-            // Check for death
-            const isDead = newCriticalCount > tBonus;
+            // Check for death (too many criticals, or a fatal table result)
+            const isFatalResult = !!tableResult?.entry.death;
+            const isDead = isFatalResult || newCriticalCount > tBonus;
 
             // Create critical wound item
             const criticalWoundData = {
@@ -353,7 +403,8 @@ export class CriticalWoundsTools {
                 system: {
                     location: { value: location },
                     wounds: { value: wounds },
-                    description: { value: description }
+                    description: { value: description },
+                    ...(duration ? { duration: { value: duration } } : {}),
                 }
             };
 
@@ -370,14 +421,43 @@ export class CriticalWoundsTools {
                 },
             });
 
+            // Apply the conditions listed on the table entry
+            let conditionsApplied: Array<{ key: string; value: number }> = [];
+            let conditionsSkipped: string[] = [];
+            if (tableResult && tableResult.entry.conditions.length > 0) {
+                const conditionResult = await this.foundryClient.query('foundry-mcp-bridge.addConditions', {
+                    actorId: character.id,
+                    conditions: tableResult.entry.conditions,
+                });
+                conditionsApplied = conditionResult?.applied || [];
+                conditionsSkipped = conditionResult?.skipped || [];
+            }
+
             // Build response
             let response = `# Critical Wound Added: ${character.name}\n\n`;
 
             response += `## 🩸 New Critical Wound\n`;
             response += `**Location**: ${location}\n`;
+            if (tableResult) {
+                response += `**Table Roll**: ${tableResult.roll} on the ${tableResult.table} table${modifier ? ` (includes ${modifier >= 0 ? '+' : ''}${modifier} modifier)` : ''}\n`;
+            }
             response += `**Injury**: ${woundName}\n`;
-            response += `**Wounds Dealt**: ${wounds}\n\n`;
-            response += `**Description**: ${description}\n\n`;
+            response += `**Wounds**: ${isFatalResult ? 'Death' : wounds}\n`;
+            if (duration) {
+                response += `**Duration**: ${duration}\n`;
+            }
+            response += `\n**Description**: ${description}\n\n`;
+
+            if (conditionsApplied.length > 0 || conditionsSkipped.length > 0) {
+                response += `## 🎯 Conditions Applied\n`;
+                conditionsApplied.forEach((condition) => {
+                    response += `- ${this.formatConditionName(condition.key)}${condition.value > 1 ? ` ×${condition.value}` : ''}\n`;
+                });
+                if (conditionsSkipped.length > 0) {
+                    response += `- ⚠️ Could not apply automatically: ${conditionsSkipped.map((key) => this.formatConditionName(key)).join(', ')}\n`;
+                }
+                response += `\n`;
+            }
 
             response += `## 📊 Critical Wound Count\n`;
             response += `- Previous: ${criticalCurrent} critical${criticalCurrent === 1 ? '' : 's'}\n`;
@@ -391,7 +471,11 @@ export class CriticalWoundsTools {
             // Death check
             if (isDead) {
                 response += `## ☠️ DEATH FROM CRITICAL WOUNDS!\n\n`;
-                response += `${character.name} has exceeded their Toughness Bonus (${tBonus}) in critical wounds.\n\n`;
+                if (isFatalResult) {
+                    response += `${woundName}: this critical result is fatal.\n\n`;
+                } else {
+                    response += `${character.name} has exceeded their Toughness Bonus (${tBonus}) in critical wounds.\n\n`;
+                }
                 response += `**${character.name.toUpperCase()} DIES IMMEDIATELY!**\n\n`;
                 response += `### Last Chance: Burn Fate\n`;
                 response += `If ${character.name} has any Fate points remaining, they can burn one to survive:\n`;
@@ -416,34 +500,17 @@ export class CriticalWoundsTools {
                 response += `They can survive ${remaining} more critical${remaining === 1 ? '' : 's'} before dying.\n\n`;
             }
 
-            // Location-specific concerns
-            response += `## 📍 Location: ${location}\n`;
-            const locationEffects: Record<string, string> = {
-                'head': 'Head injuries may cause unconsciousness, concussion, or sensory impairment. May affect Intelligence, Initiative, or Fellowship tests.',
-                'body': 'Body wounds affect core functions. May cause bleeding, difficulty breathing, or internal damage. Can affect Toughness and Endurance.',
-                'arm': 'Arm injuries impair manual dexterity and weapon use. May prevent using two-handed weapons or shields. Affects Agility and Weapon Skill tests.',
-                'leg': 'Leg injuries reduce mobility and balance. Movement may be halved or impossible. Affects Movement, Dodge, and Athletics tests.',
-            };
-
-            let locationKey = location.toLowerCase();
-            if (locationKey.includes('arm')) locationKey = 'arm';
-            if (locationKey.includes('leg')) locationKey = 'leg';
-            if (locationKey.includes('head')) locationKey = 'head';
-            if (locationKey.includes('body')) locationKey = 'body';
-
-            if (locationEffects[locationKey]) {
-                response += `${locationEffects[locationKey]}\n\n`;
-            }
-
             response += `## 💡 Next Steps\n`;
             response += `1. ✅ Critical wound count updated to **${newCriticalCount}** in Foundry VTT\n`;
             response += `2. ✅ Critical wound item "${woundName}" added to character sheet\n`;
-            response += `3. Apply any immediate penalties from this critical\n`;
+            response += conditionsApplied.length > 0
+                ? `3. ✅ Conditions applied; resolve any Tests listed in the description\n`
+                : `3. Apply any immediate effects listed in the description\n`;
             response += `4. Reduce current Wounds by ${wounds}\n`;
             if (isDead) {
                 response += `5. **DETERMINE IF FATE IS BURNED** or if character dies permanently\n`;
             } else {
-                response += `5. Determine healing time and track recovery\n`;
+                response += `5. Track the duration and healing of this critical\n`;
                 response += `6. Narrate the injury and its immediate impact\n`;
             }
 
@@ -454,13 +521,8 @@ export class CriticalWoundsTools {
         }
     }
 
-    async handleRemoveCriticalWound(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().min(1, 'Character name cannot be empty'),
-            woundName: z.string().min(1, 'Wound name cannot be empty'),
-        });
-
-        const { characterName, woundName } = schema.parse(args);
+    async handleRemoveCriticalWound(args: z.infer<typeof removeCriticalWoundSchema>): Promise<any> {
+        const { characterName, woundName } = args;
 
         this.logger.info('Removing critical wound', { characterName, woundName });
 
@@ -570,12 +632,8 @@ export class CriticalWoundsTools {
         }
     }
 
-    async handleCheckDeathFromCriticals(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().min(1, 'Character name cannot be empty'),
-        });
-
-        const { characterName } = schema.parse(args);
+    async handleCheckDeathFromCriticals(args: z.infer<typeof checkDeathFromCriticalsSchema>): Promise<any> {
+        const { characterName } = args;
 
         this.logger.info('Checking death from criticals', { characterName });
 
@@ -665,4 +723,8 @@ export class CriticalWoundsTools {
             throw new Error(`Failed to check death status for "${characterName}": ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
+
+    private formatConditionName(key: string): string {
+        return key.charAt(0).toUpperCase() + key.slice(1);
+    }
 }
@@ -1,6 +1,31 @@
 import { z } from "zod";
 import { FoundryClient } from "../foundry-client.js";
 import { Logger } from "../logger.js";
+import { ToolRegistry } from "../tool-registry.js";
+import { WFRP_CHARACTERISTICS, WFRP_CHARACTERISTIC_KEYS, getAdvanceCost, getCharacteristicBonus, getTalentCost } from "@foundry-mcp/shared";
+
+const npcArchetypeSchema = z.enum([
+    "aggressive-fighter", "ranged-combatant", "defensive-warrior", "agile-rogue", "cunning-thief", "wise-priest", "powerful-wizard",
+    "charismatic-leader", "scholarly-sage", "hardy-survivalist", "brutal-berserker", "swift-duelist", "intimidating-thug", "sneaky-assassin",
+]);
+
+const createCustomNpcSchema = z.object({
+    name: z.string().min(1, "NPC name cannot be empty"),
+    totalXP: z.number().min(0).max(10000),
+    archetype: npcArchetypeSchema,
+    personalityTraits: z.array(z.string()).optional(),
+    species: z.enum(["human", "halfling", "dwarf", "high-elf", "wood-elf"]).optional(),
+    career: z.string().optional(),
+    description: z.string().optional(),
+    createInFoundry: z.boolean().optional(),
+});
+
+const listNpcArchetypesSchema = z.object({});
+
+const calculateNpcXpDistributionSchema = z.object({
+    totalXP: z.number().min(0),
+    archetype: npcArchetypeSchema,
+});
 
 export class CustomNPCGeneratorTools {
     constructor(
@@ -177,16 +202,15 @@ Returns breakdown showing:
         ];
     }
 
-    async handleCreateCustomNPC(args: {
-        name: string;
-        totalXP: number;
-        archetype: string;
-        personalityTraits?: string[];
-        species?: string;
-        career?: string;
-        description?: string;
-        createInFoundry?: boolean;
-    }) {
+    registerTools(registry: ToolRegistry): void {
+        registry.registerTools(this.getToolDefinitions(), {
+            "create-custom-npc": { validator: createCustomNpcSchema, handler: args => this.handleCreateCustomNPC(args) },
+            "list-npc-archetypes": { validator: listNpcArchetypesSchema, handler: args => this.handleListNPCArchetypes(args) },
+            "calculate-npc-xp-distribution": { validator: calculateNpcXpDistributionSchema, handler: args => this.handleCalculateXPDistribution(args) },
+        });
+    }
+
+    async handleCreateCustomNPC(args: z.infer<typeof createCustomNpcSchema>) {
         this.logger.info("Creating custom NPC", {
             name: args.name,
             xp: args.totalXP,
@@ -264,9 +288,8 @@ Returns breakdown showing:
                 // WFRP 4e system: value = initial + advances + modifier
                 // - initial: Base characteristic from species (20 + 2d10 for humans, etc.)
                 // - advances: Number of advances bought with XP (each advance = +1 to stat)
-                // - Each advance costs progressively more XP [25,30,40,50,70,90,120,150,190,240]
-                const charOrder = ['ws', 'bs', 's', 't', 'i', 'ag', 'dex', 'int', 'wp', 'fel'];
-                for (const char of charOrder) {
+                // - Each advance costs progressively more XP (see CHARACTERISTIC_ADVANCE_COSTS)
+                for (const char of WFRP_CHARACTERISTIC_KEYS) {
                     actorData.system.characteristics[char] = {
                         initial: xpDistribution.characteristics[char].base,
                         advances: xpDistribution.characteristics[char].advances, // Number of advances (not multiplied!)
@@ -387,27 +410,13 @@ Returns breakdown showing:
 
         // Characteristics
         npcReport += `## 📊 Characteristics\n`;
-        const charOrder = ['ws', 'bs', 's', 't', 'i', 'ag', 'dex', 'int', 'wp', 'fel'];
-        const charNames: { [key: string]: string } = {
-            ws: 'Weapon Skill',
-            bs: 'Ballistic Skill',
-            s: 'Strength',
-            t: 'Toughness',
-            i: 'Initiative',
-            ag: 'Agility',
-            dex: 'Dexterity',
-            int: 'Intelligence',
-            wp: 'Willpower',
-            fel: 'Fellowship'
-        };
-
-        for (const char of charOrder) {
+        for (const char of WFRP_CHARACTERISTIC_KEYS) {
             const data = xpDistribution.characteristics[char];
             const isPrimary = archetypeData.primaryCharacteristics.includes(char);
             const isSecondary = archetypeData.secondaryCharacteristics.includes(char);
             const marker = isPrimary ? '⭐' : isSecondary ? '✦' : '';
 
-            npcReport += `- **${charNames[char]}**: ${data.final} `;
+            npcReport += `- **${WFRP_CHARACTERISTICS[char].name}**: ${data.final} `;
             npcReport += `(base ${data.base}, +${data.advances} advances, ${data.xpSpent} XP) ${marker}\n`;
         }
 
@@ -462,7 +471,7 @@ Returns breakdown showing:
         npcReport += `- **Movement:** ${this.getMovement(species)}\n`;
         npcReport += `- **Fortune Points:** ${this.getFortune(species)}\n`;
         npcReport += `- **Fate Points:** ${this.getFate(species)}\n`;
-        npcReport += `- **Resilience:** ${Math.floor(xpDistribution.characteristics.t.final / 10) + Math.floor(xpDistribution.characteristics.wp.final / 10)}\n`;
+        npcReport += `- **Resilience:** ${getCharacteristicBonus(xpDistribution.characteristics.t.final) + getCharacteristicBonus(xpDistribution.characteristics.wp.final)}\n`;
 
         npcReport += `\n---\n`;
         if (createdActorId) {
@@ -476,7 +485,7 @@ Returns breakdown showing:
         };
     }
 
-    async handleListNPCArchetypes(args: {}) {
+    async handleListNPCArchetypes(args: z.infer<typeof listNpcArchetypesSchema>) {
         this.logger.info("Listing NPC archetypes");
 
         const archetypes = this.getAllArchetypes();
@@ -515,10 +524,7 @@ Returns breakdown showing:
         };
     }
 
-    async handleCalculateXPDistribution(args: {
-        totalXP: number;
-        archetype: string;
-    }) {
+    async handleCalculateXPDistribution(args: z.infer<typeof calculateNpcXpDistributionSchema>) {
         this.logger.info("Calculating XP distribution preview", {
             xp: args.totalXP,
             archetype: args.archetype
@@ -537,8 +543,7 @@ Returns breakdown showing:
         report += `**Total XP Budget:** ${args.totalXP}\n\n`;
 
         report += `## Characteristics (${distribution.summary.characteristicsXP} XP)\n`;
-        const charOrder = ['ws', 'bs', 's', 't', 'i', 'ag', 'dex', 'int', 'wp', 'fel'];
-        for (const char of charOrder) {
+        for (const char of WFRP_CHARACTERISTIC_KEYS) {
             const data = distribution.characteristics[char];
             if (data.advances > 0) {
                 report += `- **${char.toUpperCase()}**: ${data.base} → ${data.final} (+${data.advances}, ${data.xpSpent} XP)\n`;
@@ -768,12 +773,6 @@ Returns breakdown showing:
         baseCharacteristics: any,
         species: string = "human"
     ) {
-        // XP costs per advance for each tier (every 5 advances, cost increases)
-        // Advances 0-5 cost 25 each, 6-10 cost 30 each, 11-15 cost 40 each, etc.
-        const characteristicXPCosts = [25, 30, 40, 50, 70, 90, 120, 150, 190, 240];
-        const skillXPCosts = [10, 15, 20, 30, 40, 60, 80, 110, 140, 180];
-        const talentXPCost = 100;
-
         // Allocate XP: 60% characteristics, 25% skills, 15% talents
         const charXP = Math.floor(totalXP * 0.6);
         const skillXP = Math.floor(totalXP * 0.25);
@@ -788,9 +787,7 @@ Returns breakdown showing:
         const secondaryShare = 0.3; // 30% to secondary
         const tertiaryShare = 0.2; // 20% to tertiary
 
-        const allChars = ['ws', 'bs', 's', 't', 'i', 'ag', 'dex', 'int', 'wp', 'fel'];
-
-        for (const char of allChars) {
+        for (const char of WFRP_CHARACTERISTIC_KEYS) {
             const isPrimary = archetype.primaryCharacteristics.includes(char);
             const isSecondary = archetype.secondaryCharacteristics.includes(char);
 
@@ -804,14 +801,11 @@ Returns breakdown showing:
             }
 
             // Calculate how many advances we can afford with this budget
-            // Tier ranges: 0-5 (tier 0), 6-10 (tier 1), 11-15 (tier 2), etc.
             let advances = 0;
             let spent = 0;
 
             while (spent < charBudget && advances < 50) {
-                // Determine cost tier: 0-5 is tier 0, then every 5 advances after that
-                const tier = advances <= 5 ? 0 : Math.floor((advances - 1) / 5);
-                const costPerAdvance = characteristicXPCosts[tier] || characteristicXPCosts[characteristicXPCosts.length - 1];
+                const costPerAdvance = getAdvanceCost('characteristic', advances);
 
                 if (spent + costPerAdvance <= charBudget) {
                     spent += costPerAdvance;
@@ -840,10 +834,9 @@ Returns breakdown showing:
             let advances = 0;
             let spent = 0;
 
-            // Calculate skill advances: 0-5 (tier 0), 6-10 (tier 1), 11-15 (tier 2), etc.
+            // Calculate skill advances
             while (spent < xpPerSkill && advances < 50) {
-                const tier = advances <= 5 ? 0 : Math.floor((advances - 1) / 5);
-                const costPerAdvance = skillXPCosts[tier] || skillXPCosts[skillXPCosts.length - 1];
+                const costPerAdvance = getAdvanceCost('skill', advances);
 
                 if (spent + costPerAdvance <= xpPerSkill) {
                     spent += costPerAdvance;
@@ -884,7 +877,8 @@ Returns breakdown showing:
             });
         }
 
-        // Add archetype talents with XP budget
+        // Add archetype talents with XP budget (first rank of each)
+        const talentXPCost = getTalentCost(0);
         const numTalents = Math.floor(talentXP / talentXPCost);
 
         for (let i = 0; i < numTalents && i < archetype.typicalTalents.length; i++) {
@@ -1135,9 +1129,9 @@ Returns breakdown showing:
     }
 
     private calculateWounds(s: number, t: number, wp: number, species: string): number {
-        const sBonus = Math.floor(s / 10);
-        const tBonus = Math.floor(t / 10);
-        const wpBonus = Math.floor(wp / 10);
+        const sBonus = getCharacteristicBonus(s);
+        const tBonus = getCharacteristicBonus(t);
+        const wpBonus = getCharacteristicBonus(wp);
 
         // Halflings use (2 × TB)+WPB, others use SB+(2 × TB)+WPB
         let baseWounds: number;
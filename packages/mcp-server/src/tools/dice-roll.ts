@@ -1,12 +1,34 @@
 import { z } from 'zod';
 import { FoundryClient } from '../foundry-client.js';
 import { Logger } from '../logger.js';
+import { ToolRegistry } from '../tool-registry.js';
 
 interface DiceRollToolsOptions {
   foundryClient: FoundryClient;
   logger: Logger;
 }
 
+const requestPlayerRollsSchema = z.object({
+  rollType: z.enum(['ability', 'characteristic', 'skill', 'save', 'attack', 'initiative', 'custom']),
+  rollTarget: z.string(),
+  targetPlayer: z.string(),
+  isPublic: z.boolean(),
+  userConfirmedVisibility: z.literal(true),
+  rollModifier: z.string().default(''),
+  flavor: z.string().default('')
+});
+
+// Returned to the model rather than thrown, so it asks the user about visibility instead of giving up
+function formatRequestPlayerRollsError(error: z.ZodError): string {
+  const messages = error.errors.map(e => {
+    if (e.path.includes('isPublic')) {
+      return 'You must specify whether the roll should be PUBLIC (visible to all players) or PRIVATE (visible only to target player and GM). Check if the user already specified this in their request, or ask them to clarify.';
+    }
+    return e.message;
+  });
+  return `Parameter error: ${messages.join(', ')}`;
+}
+
 export class DiceRollTools {
   private foundryClient: FoundryClient;
   private logger: Logger;
@@ -63,20 +85,18 @@ export class DiceRollTools {
     ];
   }
 
-  async handleRequestPlayerRolls(args: any) {
-    const schema = z.object({
-      rollType: z.enum(['ability', 'characteristic', 'skill', 'save', 'attack', 'initiative', 'custom']),
-      rollTarget: z.string(),
-      targetPlayer: z.string(),
-      isPublic: z.boolean(),
-      userConfirmedVisibility: z.literal(true),
-      rollModifier: z.string().default(''),
-      flavor: z.string().default('')
+  registerTools(registry: ToolRegistry): void {
+    registry.registerTools(this.getToolDefinitions(), {
+      'request-player-rolls': {
+        validator: requestPlayerRollsSchema,
+        handler: args => this.handleRequestPlayerRolls(args),
+        formatError: formatRequestPlayerRollsError,
+      },
     });
+  }
 
+  async handleRequestPlayerRolls(params: z.infer<typeof requestPlayerRollsSchema>) {
     try {
-      const params = schema.parse(args);
-
       // Validation should be handled by schema, but add extra safety checks
       if (typeof params.isPublic !== 'boolean') {
         return 'Please specify whether you want this to be a PUBLIC roll (visible to all players) or PRIVATE roll (visible only to the target player and GM). You must provide either "true" for public or "false" for private.';
@@ -95,15 +115,6 @@ export class DiceRollTools {
       }
     } catch (error) {
       this.logger.error('Error requesting player rolls', error);
-      if (error instanceof z.ZodError) {
-        const messages = error.errors.map(e => {
-          if (e.path.includes('isPublic')) {
-            return 'You must specify whether the roll should be PUBLIC (visible to all players) or PRIVATE (visible only to target player and GM). Check if the user already specified this in their request, or ask them to clarify.';
-          }
-          return e.message;
-        });
-        return `Parameter error: ${messages.join(', ')}`;
-      }
       throw error;
     }
   }
@@ -1,6 +1,34 @@
 import { z } from "zod";
 import { FoundryClient } from "../foundry-client.js";
 import { Logger } from "../logger.js";
+import { ToolRegistry } from "../tool-registry.js";
+
+const getDiseasesSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+});
+
+const addDiseaseSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+    diseaseName: z.string().min(1, "Disease name cannot be empty"),
+    type: z.enum(["acute", "chronic"]),
+    incubationDays: z.number().min(0),
+    durationDays: z.number().min(0),
+    symptoms: z.string(),
+    effects: z.string(),
+    difficulty: z.enum(["easy", "average", "challenging", "difficult", "hard", "very-hard"]),
+});
+
+const checkInfectionResilienceSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+    diseaseName: z.string().min(1, "Disease name cannot be empty"),
+    testType: z.enum(["resistance", "recovery"]),
+});
+
+const removeDiseaseSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+    diseaseName: z.string().min(1, "Disease name cannot be empty"),
+    reason: z.string(),
+});
 
 export class DiseaseInfectionTools {
     constructor(
@@ -194,7 +222,16 @@ Note: Some chronic diseases may recur or have permanent effects even after remov
         ];
     }
 
-    async handleGetDiseases(args: { characterName: string }) {
+    registerTools(registry: ToolRegistry): void {
+        registry.registerTools(this.getToolDefinitions(), {
+            "get-diseases": { validator: getDiseasesSchema, handler: args => this.handleGetDiseases(args) },
+            "add-disease": { validator: addDiseaseSchema, handler: args => this.handleAddDisease(args) },
+            "check-infection-resilience": { validator: checkInfectionResilienceSchema, handler: args => this.handleCheckInfectionResilience(args) },
+            "remove-disease": { validator: removeDiseaseSchema, handler: args => this.handleRemoveDisease(args) },
+        });
+    }
+
+    async handleGetDiseases(args: z.infer<typeof getDiseasesSchema>) {
         this.logger.info("Getting diseases", { characterName: args.characterName });
 
         const response = await this.foundryClient.query(
@@ -299,16 +336,7 @@ ${character.name} is currently free from disease and infection. Their immune sys
         };
     }
 
-    async handleAddDisease(args: {
-        characterName: string;
-        diseaseName: string;
-        type: string;
-        incubationDays: number;
-        durationDays: number;
-        symptoms: string;
-        effects: string;
-        difficulty: string;
-    }) {
+    async handleAddDisease(args: z.infer<typeof addDiseaseSchema>) {
         this.logger.info("Adding disease", {
             characterName: args.characterName,
             diseaseName: args.diseaseName,
@@ -402,11 +430,7 @@ Use \`check-infection-resilience\` to attempt recovery tests.`,
         };
     }
 
-    async handleCheckInfectionResilience(args: {
-        characterName: string;
-        diseaseName: string;
-        testType: string;
-    }) {
+    async handleCheckInfectionResilience(args: z.infer<typeof checkInfectionResilienceSchema>) {
         this.logger.info("Checking infection resilience", {
             characterName: args.characterName,
             diseaseName: args.diseaseName,
@@ -559,11 +583,7 @@ Use \`check-infection-resilience\` to attempt recovery tests.`,
         };
     }
 
-    async handleRemoveDisease(args: {
-        characterName: string;
-        diseaseName: string;
-        reason: string;
-    }) {
+    async handleRemoveDisease(args: z.infer<typeof removeDiseaseSchema>) {
         this.logger.info("Removing disease", {
             characterName: args.characterName,
             diseaseName: args.diseaseName,
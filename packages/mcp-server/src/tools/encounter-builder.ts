@@ -0,0 +1,369 @@
+import { z } from 'zod';
+import { getDryRunSession } from '../dry-run.js';
+import { FoundryClient } from '../foundry-client.js';
+import { Logger } from '../logger.js';
+import { ToolRegistry } from '../tool-registry.js';
+
+export interface EncounterBuilderToolsOptions {
+    foundryClient: FoundryClient;
+    logger: Logger;
+}
+
+type Difficulty = 'easy' | 'average' | 'hard' | 'deadly';
+type EncounterRole = 'leader' | 'elite' | 'minion';
+
+interface PartyMember {
+    id: string;
+    name: string;
+    ws: number;
+    bs: number;
+    toughness: number;
+    wounds: number;
+    threat: number;
+}
+
+interface CreatureCandidate {
+    id: string;
+    name: string;
+    pack: string;
+    packLabel: string;
+    challengeRating: number;
+    creatureType: string;
+    wounds: number;
+}
+
+interface EncounterGroup {
+    role: EncounterRole;
+    creature: CreatureCandidate;
+    quantity: number;
+}
+
+interface EncounterProposal {
+    id: string;
+    createdAt: number;
+    difficulty: Difficulty;
+    budget: number;
+    groups: EncounterGroup[];
+}
+
+/**
+ * Share of the party's threat the enemies may add up to, and how many leaders and elites to look for
+ */
+const DIFFICULTY: Record<Difficulty, { budget: number; leaders: number; elites: number }> = {
+    easy: { budget: 0.5, leaders: 0, elites: 0 },
+    average: { budget: 0.8, leaders: 0, elites: 1 },
+    hard: { budget: 1.1, leaders: 1, elites: 1 },
+    deadly: { budget: 1.5, leaders: 1, elites: 2 },
+};
+
+/** Roles by creature threat relative to the average party member */
+const MINION_BELOW = 0.9;
+const LEADER_ABOVE = 1.3;
+
+const MAX_PROPOSALS = 20;
+const PROPOSAL_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Threat on the enhanced creature index's yardstick (its challengeRating): Toughness + Wounds / 10
+ */
+function threatRating(toughness: number, wounds: number): number {
+    return toughness + Math.floor(wounds / 10);
+}
+
+const buildEncounterSchema = z.object({
+    difficulty: z.enum(['easy', 'average', 'hard', 'deadly']).default('average'),
+    creatureType: z.string().optional(),
+    maxCreatures: z.number().int().min(1).max(20).default(10),
+    proposal_id: z.string().optional(),
+    placement: z.enum(['grid', 'random', 'center']).default('grid'),
+    hidden: z.boolean().default(false),
+});
+
+export class EncounterBuilderTools {
+    private foundryClient: FoundryClient;
+    private logger: Logger;
+    private proposals = new Map<string, EncounterProposal>();
+
+    constructor({ foundryClient, logger }: EncounterBuilderToolsOptions) {
+        this.foundryClient = foundryClient;
+        this.logger = logger.child({ component: 'EncounterBuilderTools' });
+    }
+
+    getToolDefinitions() {
+        return [
+            {
+                name: 'build-encounter',
+                description: 'Build a WFRP 4e combat encounter balanced against the party. Reads the player characters (Weapon Skill, Ballistic Skill, Toughness, Wounds), turns them into a threat budget and proposes a group of leaders, elites and minions from the enhanced creature index. Nothing is created until the proposal is approved: call again with its proposal_id to create the creatures and place them on the active scene as one undoable change. Example: "Build a hard encounter with beastmen" or "Place that encounter, hidden"',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        difficulty: {
+                            type: 'string',
+                            enum: ['easy', 'average', 'hard', 'deadly'],
+                            description: 'easy = half the party\'s threat, average = 80%, hard = 110% with a leader, deadly = 150% with a leader and two elites. Default: average',
+                        },
+                        creatureType: {
+                            type: 'string',
+                            description: 'Optional: only use this species/creature type from the index, e.g. "beastman", "greenskin", "human"',
+                        },
+                        maxCreatures: {
+                            type: 'number',
+                            minimum: 1,
+                            maximum: 20,
+                            description: 'Optional: upper limit on the number of creatures. Default: 10',
+                        },
+                        proposal_id: {
+                            type: 'string',
+                            description: 'Approve and place a proposal returned by an earlier build-encounter call',
+                        },
+                        placement: {
+                            type: 'string',
+                            enum: ['grid', 'random', 'center'],
+                            description: 'Token placement when approving. Default: grid',
+                        },
+                        hidden: {
+                            type: 'boolean',
+                            description: 'Place the tokens hidden, e.g. for an ambush. Default: false',
+                        },
+                    },
+                },
+            },
+        ];
+    }
+
+    registerTools(registry: ToolRegistry): void {
+        registry.registerTools(this.getToolDefinitions(), {
+            'build-encounter': { validator: buildEncounterSchema, handler: args => this.handleBuildEncounter(args) },
+        });
+    }
+
+    async handleBuildEncounter(params: z.infer<typeof buildEncounterSchema>): Promise<any> {
+        if (params.proposal_id) {
+            return this.placeProposal(params.proposal_id, params.placement, params.hidden);
+        }
+
+        this.logger.info('Building encounter', params);
+
+        try {
+            const party = await this.getParty();
+            if (party.length === 0) {
+                return 'No player-owned characters found. Assign the party\'s characters to players before building an encounter.';
+            }
+
+            const candidates = await this.getCandidates(params.creatureType);
+            if (candidates.length === 0) {
+                const filter = params.creatureType ? ` of type "${params.creatureType}"` : '';
+                return `No creatures${filter} with threat ratings were found. Enable the enhanced creature index in the module settings (or rebuild it) and try again.`;
+            }
+
+            const partyThreat = party.reduce((total, member) => total + member.threat, 0);
+            const budget = Math.round(partyThreat * DIFFICULTY[params.difficulty].budget);
+            const groups = this.composeEncounter(candidates, party, params.difficulty, budget, params.maxCreatures);
+            if (groups.length === 0) {
+                return `No creature fits a ${params.difficulty} budget of ${budget} threat. Try a higher difficulty or another creature type.`;
+            }
+
+            const proposal = this.storeProposal({ difficulty: params.difficulty, budget, groups });
+
+            let response = `# ⚔️ Proposed Encounter (${params.difficulty})\n\n`;
+            response += `## Party\n`;
+            response += `| Character | WS | BS | T | Wounds | Threat |\n`;
+            response += `|---|---|---|---|---|---|\n`;
+            for (const member of party) {
+                response += `| ${member.name} | ${member.ws} | ${member.bs} | ${member.toughness} | ${member.wounds} | ${member.threat} |\n`;
+            }
+            response += `\n**Party threat**: ${partyThreat} → **budget**: ${budget} (${Math.round(DIFFICULTY[params.difficulty].budget * 100)}%)\n\n`;
+
+            response += `## Enemies\n`;
+            response += `| Role | Creature | Qty | Threat each | Wounds | Source |\n`;
+            response += `|---|---|---|---|---|---|\n`;
+            for (const group of groups) {
+                const { creature } = group;
+                response += `| ${group.role} | ${creature.name} | ${group.quantity} | ${creature.challengeRating} | ${creature.wounds} | ${creature.packLabel} |\n`;
+            }
+
+            const total = groups.reduce((sum, group) => sum + group.creature.challengeRating * group.quantity, 0);
+            const count = groups.reduce((sum, group) => sum + group.quantity, 0);
+            response += `\n**Total**: ${count} creature${count === 1 ? '' : 's'}, ${total} threat of ${budget}\n\n`;
+            response += `💡 To create and place these on the active scene, call \`build-encounter\` with proposal_id \`${proposal.id}\`. Call without it again for a different mix.\n`;
+
+            return response;
+        } catch (error) {
+            this.logger.error('Failed to build encounter', error);
+            throw new Error(`Failed to build encounter: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    private async placeProposal(proposalId: string, placement: 'grid' | 'random' | 'center', hidden: boolean): Promise<any> {
+        const proposal = this.proposals.get(proposalId);
+        if (!proposal || Date.now() - proposal.createdAt > PROPOSAL_TTL_MS) {
+            return `Proposal ${proposalId} was not found or has expired. Call build-encounter without proposal_id to build a new one.`;
+        }
+
+        this.logger.info('Placing encounter', { proposalId, placement, hidden });
+
+        try {
+            const result = await this.foundryClient.query('foundry-mcp-bridge.placeEncounter', {
+                groups: proposal.groups.map(group => ({
+                    packId: group.creature.pack,
+                    creatureId: group.creature.id,
+                    name: group.creature.name,
+                    quantity: group.quantity,
+                    role: group.role,
+                })),
+                placement,
+                hidden,
+            });
+            if (result?.error) {
+                throw new Error(result.error);
+            }
+
+            // A dry run only previews the placement, so the proposal stays available to approve
+            if (!getDryRunSession()) {
+                this.proposals.delete(proposalId);
+            }
+
+            let response = `# ⚔️ Encounter Placed on "${result.sceneName}"\n\n`;
+            for (const actor of result.actors ?? []) {
+                response += `- ${actor.name}${actor.role ? ` (${actor.role})` : ''}\n`;
+            }
+            response += `\n**Tokens placed**: ${result.tokensPlaced}${hidden ? ' (hidden)' : ''}\n\n`;
+            response += `💡 Use \`start-combat\` to roll initiative, or \`undo-change\` to remove the whole encounter again.\n`;
+
+            return response;
+        } catch (error) {
+            this.logger.error('Failed to place encounter', error);
+            throw new Error(`Failed to place encounter: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    private async getParty(): Promise<PartyMember[]> {
+        const characters: Array<{ id: string; name: string }> = await this.foundryClient.query('foundry-mcp-bridge.getPartyCharacters', {});
+
+        const party: PartyMember[] = [];
+        for (const character of characters ?? []) {
+            const info = await this.foundryClient.query('foundry-mcp-bridge.getCharacterInfo', { characterName: character.id });
+            const characteristics = info?.system?.characteristics ?? {};
+            const toughness = Number(characteristics.t?.value) || 0;
+            const wounds = Number(info?.system?.status?.wounds?.max) || 0;
+
+            party.push({
+                id: character.id,
+                name: character.name,
+                ws: Number(characteristics.ws?.value) || 0,
+                bs: Number(characteristics.bs?.value) || 0,
+                toughness,
+                wounds,
+                threat: threatRating(toughness, wounds),
+            });
+        }
+
+        return party;
+    }
+
+    private async getCandidates(creatureType?: string): Promise<CreatureCandidate[]> {
+        const results = await this.foundryClient.query('foundry-mcp-bridge.listCreaturesByCriteria', {
+            ...(creatureType ? { creatureType } : {}),
+            limit: 500,
+        });
+
+        // The basic fallback search has no threat ratings, so those results cannot be budgeted
+        return (results?.response?.creatures ?? [])
+            .filter((creature: any) => typeof creature.challengeRating === 'number' && creature.challengeRating > 0)
+            .map((creature: any) => ({
+                id: creature.id,
+                name: creature.name,
+                pack: creature.pack,
+                packLabel: creature.packLabel,
+                challengeRating: creature.challengeRating,
+                creatureType: creature.creatureType ?? 'unknown',
+                wounds: creature.wounds ?? 0,
+            }));
+    }
+
+    /**
+     * Leaders first (they set the theme), then elites, then fill what is left of the budget with one
+     * kind of minion. Later picks prefer the leader's creature type so the group hangs together.
+     */
+    private composeEncounter(candidates: CreatureCandidate[], party: PartyMember[], difficulty: Difficulty, budget: number, maxCreatures: number): EncounterGroup[] {
+        const averageThreat = party.reduce((total, member) => total + member.threat, 0) / party.length;
+        const roleOf = (creature: CreatureCandidate): EncounterRole =>
+            creature.challengeRating < averageThreat * MINION_BELOW ? 'minion'
+                : creature.challengeRating > averageThreat * LEADER_ABOVE ? 'leader'
+                    : 'elite';
+
+        const groups: EncounterGroup[] = [];
+        let remaining = budget;
+        let count = 0;
+        let theme: string | undefined;
+
+        const add = (role: EncounterRole, creature: CreatureCandidate, quantity: number) => {
+            const existing = groups.find(group => group.creature.id === creature.id && group.creature.pack === creature.pack);
+            if (existing) {
+                existing.quantity += quantity;
+            } else {
+                groups.push({ role, creature, quantity });
+            }
+            remaining -= creature.challengeRating * quantity;
+            count += quantity;
+            theme ??= creature.creatureType;
+        };
+
+        const pool = (role: EncounterRole, maxThreat: number) => {
+            const fitting = candidates.filter(creature => roleOf(creature) === role && creature.challengeRating <= maxThreat);
+            const themed = fitting.filter(creature => creature.creatureType === theme);
+            return themed.length > 0 ? themed : fitting;
+        };
+
+        for (let i = 0; i < DIFFICULTY[difficulty].leaders && count < maxCreatures; i++) {
+            // A leader may take at most 60% of the budget so there is room for followers
+            const leader = this.pickNear(pool('leader', remaining * 0.6), averageThreat * 1.6);
+            if (leader) add('leader', leader, 1);
+        }
+
+        for (let i = 0; i < DIFFICULTY[difficulty].elites && count < maxCreatures; i++) {
+            const elite = this.pickNear(pool('elite', remaining), averageThreat * 1.1);
+            if (elite) add('elite', elite, 1);
+        }
+
+        const minion = this.pickNear(pool('minion', remaining), averageThreat * 0.7);
+        if (minion && count < maxCreatures) {
+            const quantity = Math.min(Math.floor(remaining / minion.challengeRating), maxCreatures - count);
+            if (quantity > 0) add('minion', minion, quantity);
+        }
+
+        // Budgets too small for the planned roles still get a single fitting opponent
+        if (groups.length === 0) {
+            const fallback = this.pickNear(candidates.filter(creature => creature.challengeRating <= budget), budget);
+            if (fallback) add(roleOf(fallback), fallback, 1);
+        }
+
+        return groups;
+    }
+
+    /**
+     * One of the three creatures closest to the target threat, so repeated calls give some variety
+     */
+    private pickNear(candidates: CreatureCandidate[], target: number): CreatureCandidate | undefined {
+        const closest = [...candidates]
+            .sort((a, b) => Math.abs(a.challengeRating - target) - Math.abs(b.challengeRating - target))
+            .slice(0, 3);
+        return closest[Math.floor(Math.random() * closest.length)];
+    }
+
+    private storeProposal(data: Omit<EncounterProposal, 'id' | 'createdAt'>): EncounterProposal {
+        const proposal: EncounterProposal = {
+            id: `enc_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 6)}`,
+            createdAt: Date.now(),
+            ...data,
+        };
+
+        this.proposals.set(proposal.id, proposal);
+        // Proposals only live until approved; keep the most recent few
+        for (const id of Array.from(this.proposals.keys()).slice(0, Math.max(0, this.proposals.size - MAX_PROPOSALS))) {
+            this.proposals.delete(id);
+        }
+
+        return proposal;
+    }
+}
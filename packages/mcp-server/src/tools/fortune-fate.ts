@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { FoundryClient } from '../foundry-client.js';
 import { Logger } from '../logger.js';
+import { ToolRegistry } from '../tool-registry.js';
 
 export interface FortuneFateToolsOptions {
     foundryClient: FoundryClient;
@@ -18,6 +19,25 @@ interface FortuneFateStatus {
     };
 }
 
+const getFortuneFateStatusSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+});
+
+const spendFortuneSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+    purpose: z.string().min(1, 'Purpose cannot be empty'),
+    usageType: z.enum(['reroll', 'add-sl']),
+});
+
+const burnFateSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+    circumstance: z.string().min(1, 'Circumstance cannot be empty'),
+});
+
+const refreshFortuneSchema = z.object({
+    characterName: z.string().min(1, 'Character name cannot be empty'),
+});
+
 export class FortuneFateTools {
     private foundryClient: FoundryClient;
     private logger: Logger;
@@ -101,12 +121,17 @@ export class FortuneFateTools {
         ];
     }
 
-    async handleGetFortuneFateStatus(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().min(1, 'Character name cannot be empty'),
+    registerTools(registry: ToolRegistry): void {
+        registry.registerTools(this.getToolDefinitions(), {
+            'get-fortune-fate-status': { validator: getFortuneFateStatusSchema, handler: args => this.handleGetFortuneFateStatus(args) },
+            'spend-fortune': { validator: spendFortuneSchema, handler: args => this.handleSpendFortune(args) },
+            'burn-fate': { validator: burnFateSchema, handler: args => this.handleBurnFate(args) },
+            'refresh-fortune': { validator: refreshFortuneSchema, handler: args => this.handleRefreshFortune(args) },
         });
+    }
 
-        const { characterName } = schema.parse(args);
+    async handleGetFortuneFateStatus(args: z.infer<typeof getFortuneFateStatusSchema>): Promise<any> {
+        const { characterName } = args;
 
         this.logger.info('Getting Fortune/Fate status', { characterName });
 
@@ -229,14 +254,8 @@ export class FortuneFateTools {
         }
     }
 
-    async handleSpendFortune(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().min(1, 'Character name cannot be empty'),
-            purpose: z.string().min(1, 'Purpose cannot be empty'),
-            usageType: z.enum(['reroll', 'add-sl']),
-        });
-
-        const { characterName, purpose, usageType } = schema.parse(args);
+    async handleSpendFortune(args: z.infer<typeof spendFortuneSchema>): Promise<any> {
+        const { characterName, purpose, usageType } = args;
 
         this.logger.info('Spending Fortune', { characterName, purpose, usageType });
 
@@ -328,13 +347,8 @@ export class FortuneFateTools {
         }
     }
 
-    async handleBurnFate(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().min(1, 'Character name cannot be empty'),
-            circumstance: z.string().min(1, 'Circumstance cannot be empty'),
-        });
-
-        const { characterName, circumstance } = schema.parse(args);
+    async handleBurnFate(args: z.infer<typeof burnFateSchema>): Promise<any> {
+        const { characterName, circumstance } = args;
 
         this.logger.info('Burning Fate', { characterName, circumstance });
 
@@ -445,12 +459,8 @@ export class FortuneFateTools {
         }
     }
 
-    async handleRefreshFortune(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().min(1, 'Character name cannot be empty'),
-        });
-
-        const { characterName } = schema.parse(args);
+    async handleRefreshFortune(args: z.infer<typeof refreshFortuneSchema>): Promise<any> {
+        const { characterName } = args;
 
         this.logger.info('Refreshing Fortune', { characterName });
 
@@ -1,6 +1,36 @@
 import { z } from "zod";
 import { FoundryClient } from "../foundry-client.js";
 import { Logger } from "../logger.js";
+import { ToolRegistry } from "../tool-registry.js";
+import { getCharacteristicBonus, getEncumbranceLimit, getEncumbrancePenalty } from "@foundry-mcp/shared";
+
+const getInventoryStatusSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+});
+
+const trackAmmunitionSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+    ammunitionType: z.string().min(1, "Ammunition type cannot be empty"),
+    amount: z.number(),
+});
+
+const checkEncumbranceSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+});
+
+const addInventoryItemSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+    itemName: z.string().min(1, "Item name cannot be empty"),
+    itemType: z.enum(["weapon", "armor", "ammunition", "container", "trapping", "money"]),
+    encumbrance: z.number().min(0),
+    quantity: z.number().min(1).optional(),
+});
+
+const removeInventoryItemSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+    itemName: z.string().min(1, "Item name cannot be empty"),
+    quantity: z.number().min(1).optional(),
+});
 
 export class InventoryManagementTools {
     constructor(
@@ -248,7 +278,17 @@ Dropping Items in Combat:
         ];
     }
 
-    async handleGetInventoryStatus(args: { characterName: string }) {
+    registerTools(registry: ToolRegistry): void {
+        registry.registerTools(this.getToolDefinitions(), {
+            "get-inventory-status": { validator: getInventoryStatusSchema, handler: args => this.handleGetInventoryStatus(args) },
+            "track-ammunition": { validator: trackAmmunitionSchema, handler: args => this.handleTrackAmmunition(args) },
+            "check-encumbrance": { validator: checkEncumbranceSchema, handler: args => this.handleCheckEncumbrance(args) },
+            "add-inventory-item": { validator: addInventoryItemSchema, handler: args => this.handleAddInventoryItem(args) },
+            "remove-inventory-item": { validator: removeInventoryItemSchema, handler: args => this.handleRemoveInventoryItem(args) },
+        });
+    }
+
+    async handleGetInventoryStatus(args: z.infer<typeof getInventoryStatusSchema>) {
         this.logger.info("Getting inventory status", { characterName: args.characterName });
 
         const response = await this.foundryClient.query(
@@ -270,8 +310,8 @@ Dropping Items in Combat:
         const character = response.data;
 
         // Get encumbrance values
-        const strengthBonus = Math.floor((character.system?.characteristics?.s?.value || 0) / 10);
-        const toughnessBonus = Math.floor((character.system?.characteristics?.t?.value || 0) / 10);
+        const strengthBonus = getCharacteristicBonus(character.system?.characteristics?.s?.value || 0);
+        const toughnessBonus = getCharacteristicBonus(character.system?.characteristics?.t?.value || 0);
         const maxEncumbrance = strengthBonus + toughnessBonus;
         const currentEncumbrance = character.system?.status?.encumbrance?.value || 0;
 
@@ -283,7 +323,7 @@ Dropping Items in Combat:
 
         if (currentEncumbrance > maxEncumbrance) {
             encumbranceStatus = "Over Encumbered";
-            encumbrancePenalty = "⚠️ **PENALTIES:** -20 to Agility tests, Movement halved, Cannot run";
+            encumbrancePenalty = `⚠️ **PENALTIES:** ${this.describeEncumbrancePenalty(currentEncumbrance, maxEncumbrance)}`;
             statusEmoji = "🔴";
         } else if (currentEncumbrance === maxEncumbrance) {
             encumbranceStatus = "At Limit";
@@ -421,11 +461,7 @@ Dropping Items in Combat:
         };
     }
 
-    async handleTrackAmmunition(args: {
-        characterName: string;
-        ammunitionType: string;
-        amount: number;
-    }) {
+    async handleTrackAmmunition(args: z.infer<typeof trackAmmunitionSchema>) {
         this.logger.info("Tracking ammunition", {
             characterName: args.characterName,
             ammunitionType: args.ammunitionType,
@@ -522,7 +558,7 @@ Dropping Items in Combat:
         };
     }
 
-    async handleCheckEncumbrance(args: { characterName: string }) {
+    async handleCheckEncumbrance(args: z.infer<typeof checkEncumbranceSchema>) {
         this.logger.info("Checking encumbrance", { characterName: args.characterName });
 
         const response = await this.foundryClient.query(
@@ -545,9 +581,9 @@ Dropping Items in Combat:
 
         const strengthValue = character.system?.characteristics?.s?.value || 0;
         const toughnessValue = character.system?.characteristics?.t?.value || 0;
-        const strengthBonus = Math.floor(strengthValue / 10);
-        const toughnessBonus = Math.floor(toughnessValue / 10);
-        const maxEncumbrance = strengthBonus + toughnessBonus;
+        const strengthBonus = getCharacteristicBonus(strengthValue);
+        const toughnessBonus = getCharacteristicBonus(toughnessValue);
+        const maxEncumbrance = getEncumbranceLimit(strengthValue, toughnessValue);
         const currentEncumbrance = character.system?.status?.encumbrance?.value || 0;
 
         let encumbranceReport = `⚖️ **Encumbrance Check** - ${character.name}\n\n`;
@@ -560,12 +596,10 @@ Dropping Items in Combat:
             encumbranceReport += `**Current:** ${currentEncumbrance} Enc\n`;
             encumbranceReport += `**Maximum:** ${maxEncumbrance} Enc\n`;
             encumbranceReport += `**Over Limit:** ${overBy} Enc\n\n`;
-            encumbranceReport += `⚠️ **PENALTIES APPLIED:**\n`;
-            encumbranceReport += `- -20 to all Agility-based tests\n`;
-            encumbranceReport += `- Movement speed halved\n`;
-            encumbranceReport += `- Cannot take Run action\n`;
-            encumbranceReport += `- May gain Fatigued condition\n`;
-            encumbranceReport += `- Physical tests become much harder\n\n`;
+            encumbranceReport += `⚠️ **PENALTIES APPLIED:** ${this.describeEncumbrancePenalty(currentEncumbrance, maxEncumbrance)}\n`;
+            encumbranceReport += `- Over the limit: -1 Movement, -10 to Agility tests\n`;
+            encumbranceReport += `- Over double the limit: -2 Movement, -20 to Agility tests\n`;
+            encumbranceReport += `- Over triple the limit: cannot move at all\n\n`;
             encumbranceReport += `💡 **SOLUTIONS:**\n`;
             encumbranceReport += `1. Drop ${overBy}+ Enc worth of items immediately\n`;
             encumbranceReport += `2. Store items on mount or pack animal\n`;
@@ -623,13 +657,7 @@ Dropping Items in Combat:
         };
     }
 
-    async handleAddInventoryItem(args: {
-        characterName: string;
-        itemName: string;
-        itemType: string;
-        encumbrance: number;
-        quantity?: number;
-    }) {
+    async handleAddInventoryItem(args: z.infer<typeof addInventoryItemSchema>) {
         this.logger.info("Adding inventory item", {
             characterName: args.characterName,
             itemName: args.itemName,
@@ -699,9 +727,10 @@ Dropping Items in Combat:
         if (updatedCharResponse.success && updatedCharResponse.data) {
             const updatedCharacter = updatedCharResponse.data;
             const currentEnc = updatedCharacter.system?.status?.encumbrance?.value || 0;
-            const strengthBonus = Math.floor((updatedCharacter.system?.characteristics?.s?.value || 0) / 10);
-            const toughnessBonus = Math.floor((updatedCharacter.system?.characteristics?.t?.value || 0) / 10);
-            const maxEnc = strengthBonus + toughnessBonus;
+            const maxEnc = getEncumbranceLimit(
+                updatedCharacter.system?.characteristics?.s?.value || 0,
+                updatedCharacter.system?.characteristics?.t?.value || 0
+            );
 
             resultText += `**Updated Encumbrance:** ${currentEnc} / ${maxEnc} Enc\n`;
 
@@ -709,10 +738,7 @@ Dropping Items in Combat:
                 const overBy = currentEnc - maxEnc;
                 resultText += `\n🔴 **WARNING: OVER ENCUMBERED!**\n\n`;
                 resultText += `${args.characterName} is now carrying too much weight (over by ${overBy} Enc)!\n\n`;
-                resultText += `⚠️ **PENALTIES:**\n`;
-                resultText += `- -20 to Agility tests\n`;
-                resultText += `- Movement halved\n`;
-                resultText += `- Cannot run\n\n`;
+                resultText += `⚠️ **PENALTIES:** ${this.describeEncumbrancePenalty(currentEnc, maxEnc)}\n\n`;
                 resultText += `💡 Drop ${overBy}+ Enc worth of items to restore normal movement.`;
             } else if (currentEnc === maxEnc) {
                 resultText += `\n🟡 **AT CARRYING LIMIT**\n`;
@@ -729,11 +755,7 @@ Dropping Items in Combat:
         };
     }
 
-    async handleRemoveInventoryItem(args: {
-        characterName: string;
-        itemName: string;
-        quantity?: number;
-    }) {
+    async handleRemoveInventoryItem(args: z.infer<typeof removeInventoryItemSchema>) {
         this.logger.info("Removing inventory item", {
             characterName: args.characterName,
             itemName: args.itemName,
@@ -811,9 +833,10 @@ Dropping Items in Combat:
             if (updatedResponse.success && updatedResponse.data) {
                 const updatedChar = updatedResponse.data;
                 const currentEnc = updatedChar.system?.status?.encumbrance?.value || 0;
-                const strengthBonus = Math.floor((updatedChar.system?.characteristics?.s?.value || 0) / 10);
-                const toughnessBonus = Math.floor((updatedChar.system?.characteristics?.t?.value || 0) / 10);
-                const maxEnc = strengthBonus + toughnessBonus;
+                const maxEnc = getEncumbranceLimit(
+                    updatedChar.system?.characteristics?.s?.value || 0,
+                    updatedChar.system?.characteristics?.t?.value || 0
+                );
 
                 resultText += `\n**Updated Encumbrance:** ${currentEnc} / ${maxEnc} Enc\n`;
 
@@ -865,4 +888,12 @@ Dropping Items in Combat:
             };
         }
     }
+
+    private describeEncumbrancePenalty(current: number, limit: number): string {
+        const penalty = getEncumbrancePenalty(current, limit);
+        if (penalty.immobile) {
+            return "Cannot move (more than triple the Encumbrance limit)";
+        }
+        return `${penalty.movement} Movement, ${penalty.agility} to Agility tests`;
+    }
 }
@@ -1,12 +1,102 @@
 import { z } from 'zod';
 import { FoundryClient } from '../foundry-client.js';
 import { Logger } from '../logger.js';
+import { ToolRegistry } from '../tool-registry.js';
 
 export interface ItemCreatorToolsOptions {
     foundryClient: FoundryClient;
     logger: Logger;
 }
 
+const createWeaponSchema = z.object({
+    characterName: z.string().optional(),
+    weaponName: z.string().min(1),
+    weaponGroup: z.enum(['basic', 'cavalry', 'fencing', 'brawling', 'flail', 'parry', 'polearm', 'twohanded', 'blackpowder', 'bow', 'crossbow', 'entangling', 'engineering', 'explosives', 'sling', 'throwing']),
+    damage: z.string(),
+    reach: z.enum(['personal', 'vshort', 'short', 'average', 'long', 'vLong', 'massive']),
+    range: z.number().optional(),
+    encumbrance: z.number().default(1),
+    qualities: z.array(z.object({
+        name: z.string(),
+        value: z.number().optional(),
+    })).default([]),
+    flaws: z.array(z.object({
+        name: z.string(),
+        value: z.number().optional(),
+    })).default([]),
+    description: z.string().default(''),
+});
+
+const createArmourSchema = z.object({
+    characterName: z.string().optional(),
+    armourName: z.string().min(1),
+    armourType: z.enum(['softLeather', 'boiledLeather', 'mail', 'plate', 'other', 'otherMetal']),
+    locations: z.array(z.object({
+        location: z.enum(['head', 'body', 'lArm', 'rArm', 'lLeg', 'rLeg']),
+        value: z.number(),
+    })),
+    encumbrance: z.number().default(1),
+    qualities: z.array(z.string()).default([]),
+    flaws: z.array(z.string()).default([]),
+    description: z.string().default(''),
+});
+
+const createTrappingSchema = z.object({
+    characterName: z.string().optional(),
+    trappingName: z.string().min(1),
+    trappingType: z.enum(['clothingAccessories', 'foodAndDrink', 'toolsAndKits', 'booksAndDocuments', 'tradeTools', 'drugsPoisonsHerbsDraughts', 'ingredient', 'misc']),
+    encumbrance: z.number().default(1),
+    quantity: z.number().default(1),
+    qualities: z.array(z.string()).default([]),
+    flaws: z.array(z.string()).default([]),
+    description: z.string().default(''),
+});
+
+const createAmmunitionSchema = z.object({
+    characterName: z.string(),
+    ammunitionName: z.string().min(1),
+    ammunitionGroup: z.enum(['bow', 'crossbow', 'sling', 'BPandEng', 'throwing', 'entangling']),
+    quantity: z.number().default(10),
+    encumbrance: z.number().default(0.1),
+    description: z.string().default(''),
+});
+
+const createContainerSchema = z.object({
+    characterName: z.string(),
+    containerName: z.string().min(1),
+    capacity: z.number(),
+    encumbrance: z.number().default(1),
+    description: z.string().default(''),
+});
+
+const modifyItemQualitiesSchema = z.object({
+    characterName: z.string(),
+    itemName: z.string().min(1),
+    addQualities: z.array(z.object({
+        name: z.string(),
+        value: z.number().optional(),
+    })).default([]),
+    removeQualities: z.array(z.string()).default([]),
+    addFlaws: z.array(z.object({
+        name: z.string(),
+        value: z.number().optional(),
+    })).default([]),
+    removeFlaws: z.array(z.string()).default([]),
+});
+
+const addItemToCharacterSchema = z.object({
+    characterName: z.string(),
+    itemName: z.string().min(1),
+    quantity: z.number().default(1),
+    equip: z.boolean().default(false),
+});
+
+const removeItemFromCharacterSchema = z.object({
+    characterName: z.string(),
+    itemName: z.string().min(1),
+    quantity: z.number().optional(),
+});
+
 /**
  * Advanced Item Creator and Manager for WFRP 4e
  * 
@@ -628,29 +718,21 @@ The system searches the WFRP4e compendiums for matching items by name.
         ];
     }
 
-    // Implementation methods continue...
-    async handleCreateWeapon(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().optional(),
-            weaponName: z.string().min(1),
-            weaponGroup: z.enum(['basic', 'cavalry', 'fencing', 'brawling', 'flail', 'parry', 'polearm', 'twohanded', 'blackpowder', 'bow', 'crossbow', 'entangling', 'engineering', 'explosives', 'sling', 'throwing']),
-            damage: z.string(),
-            reach: z.enum(['personal', 'vshort', 'short', 'average', 'long', 'vLong', 'massive']),
-            range: z.number().optional(),
-            encumbrance: z.number().default(1),
-            qualities: z.array(z.object({
-                name: z.string(),
-                value: z.number().optional(),
-            })).default([]),
-            flaws: z.array(z.object({
-                name: z.string(),
-                value: z.number().optional(),
-            })).default([]),
-            description: z.string().default(''),
+    registerTools(registry: ToolRegistry): void {
+        registry.registerTools(this.getToolDefinitions(), {
+            'create-weapon': { validator: createWeaponSchema, handler: args => this.handleCreateWeapon(args) },
+            'create-armour': { validator: createArmourSchema, handler: args => this.handleCreateArmour(args) },
+            'create-trapping': { validator: createTrappingSchema, handler: args => this.handleCreateTrapping(args) },
+            'create-ammunition': { validator: createAmmunitionSchema, handler: args => this.handleCreateAmmunition(args) },
+            'create-container': { validator: createContainerSchema, handler: args => this.handleCreateContainer(args) },
+            'modify-item-qualities': { validator: modifyItemQualitiesSchema, handler: args => this.handleModifyItemQualities(args) },
+            'add-item-to-character': { validator: addItemToCharacterSchema, handler: args => this.handleAddItemToCharacter(args) },
+            'remove-item-from-character': { validator: removeItemFromCharacterSchema, handler: args => this.handleRemoveItemFromCharacter(args) },
         });
+    }
 
-        const parsed = schema.parse(args);
-
+    // Implementation methods continue...
+    async handleCreateWeapon(parsed: z.infer<typeof createWeaponSchema>): Promise<any> {
         this.logger.info('Creating weapon', { weaponName: parsed.weaponName });
 
         try {
@@ -746,23 +828,7 @@ The system searches the WFRP4e compendiums for matching items by name.
         return response;
     }
 
-    async handleCreateArmour(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().optional(),
-            armourName: z.string().min(1),
-            armourType: z.enum(['softLeather', 'boiledLeather', 'mail', 'plate', 'other', 'otherMetal']),
-            locations: z.array(z.object({
-                location: z.enum(['head', 'body', 'lArm', 'rArm', 'lLeg', 'rLeg']),
-                value: z.number(),
-            })),
-            encumbrance: z.number().default(1),
-            qualities: z.array(z.string()).default([]),
-            flaws: z.array(z.string()).default([]),
-            description: z.string().default(''),
-        });
-
-        const parsed = schema.parse(args);
-
+    async handleCreateArmour(parsed: z.infer<typeof createArmourSchema>): Promise<any> {
         this.logger.info('Creating armour', { armourName: parsed.armourName });
 
         try {
@@ -865,20 +931,7 @@ The system searches the WFRP4e compendiums for matching items by name.
         return response;
     }
 
-    async handleCreateTrapping(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string().optional(),
-            trappingName: z.string().min(1),
-            trappingType: z.enum(['clothingAccessories', 'foodAndDrink', 'toolsAndKits', 'booksAndDocuments', 'tradeTools', 'drugsPoisonsHerbsDraughts', 'ingredient', 'misc']),
-            encumbrance: z.number().default(1),
-            quantity: z.number().default(1),
-            qualities: z.array(z.string()).default([]),
-            flaws: z.array(z.string()).default([]),
-            description: z.string().default(''),
-        });
-
-        const parsed = schema.parse(args);
-
+    async handleCreateTrapping(parsed: z.infer<typeof createTrappingSchema>): Promise<any> {
         this.logger.info('Creating trapping', { trappingName: parsed.trappingName });
 
         try {
@@ -962,18 +1015,7 @@ The system searches the WFRP4e compendiums for matching items by name.
         return response;
     }
 
-    async handleCreateAmmunition(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string(),
-            ammunitionName: z.string().min(1),
-            ammunitionGroup: z.enum(['bow', 'crossbow', 'sling', 'BPandEng', 'throwing', 'entangling']),
-            quantity: z.number().default(10),
-            encumbrance: z.number().default(0.1),
-            description: z.string().default(''),
-        });
-
-        const parsed = schema.parse(args);
-
+    async handleCreateAmmunition(parsed: z.infer<typeof createAmmunitionSchema>): Promise<any> {
         this.logger.info('Creating ammunition', { ammunitionName: parsed.ammunitionName });
 
         try {
@@ -1012,17 +1054,7 @@ The system searches the WFRP4e compendiums for matching items by name.
         }
     }
 
-    async handleCreateContainer(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string(),
-            containerName: z.string().min(1),
-            capacity: z.number(),
-            encumbrance: z.number().default(1),
-            description: z.string().default(''),
-        });
-
-        const parsed = schema.parse(args);
-
+    async handleCreateContainer(parsed: z.infer<typeof createContainerSchema>): Promise<any> {
         this.logger.info('Creating container', { containerName: parsed.containerName });
 
         try {
@@ -1060,24 +1092,7 @@ The system searches the WFRP4e compendiums for matching items by name.
         }
     }
 
-    async handleModifyItemQualities(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string(),
-            itemName: z.string().min(1),
-            addQualities: z.array(z.object({
-                name: z.string(),
-                value: z.number().optional(),
-            })).default([]),
-            removeQualities: z.array(z.string()).default([]),
-            addFlaws: z.array(z.object({
-                name: z.string(),
-                value: z.number().optional(),
-            })).default([]),
-            removeFlaws: z.array(z.string()).default([]),
-        });
-
-        const parsed = schema.parse(args);
-
+    async handleModifyItemQualities(parsed: z.infer<typeof modifyItemQualitiesSchema>): Promise<any> {
         this.logger.info('Modifying item qualities', { itemName: parsed.itemName });
 
         try {
@@ -1171,16 +1186,7 @@ The system searches the WFRP4e compendiums for matching items by name.
         }
     }
 
-    async handleAddItemToCharacter(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string(),
-            itemName: z.string().min(1),
-            quantity: z.number().default(1),
-            equip: z.boolean().default(false),
-        });
-
-        const parsed = schema.parse(args);
-
+    async handleAddItemToCharacter(parsed: z.infer<typeof addItemToCharacterSchema>): Promise<any> {
         this.logger.info('Adding item to character', { itemName: parsed.itemName, characterName: parsed.characterName });
 
         try {
@@ -1230,15 +1236,7 @@ The system searches the WFRP4e compendiums for matching items by name.
         }
     }
 
-    async handleRemoveItemFromCharacter(args: any): Promise<any> {
-        const schema = z.object({
-            characterName: z.string(),
-            itemName: z.string().min(1),
-            quantity: z.number().optional(),
-        });
-
-        const parsed = schema.parse(args);
-
+    async handleRemoveItemFromCharacter(parsed: z.infer<typeof removeItemFromCharacterSchema>): Promise<any> {
         this.logger.info('Removing item from character', { itemName: parsed.itemName, characterName: parsed.characterName });
 
         try {
@@ -1,13 +1,106 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
 import { FoundryClient } from '../foundry-client.js';
+import { previewBackgroundJob } from '../dry-run.js';
+import type { JobData as QueuedJob, JobQueue } from '../job-queue.js';
 import { Logger } from '../logger.js';
+import { ToolRegistry } from '../tool-registry.js';
+import { getProgressReporter } from '../progress.js';
+import { DEFAULT_WORKFLOW_STYLE, WorkflowMode, WorkflowTemplateRegistry } from '../workflow-templates.js';
 
 export interface MapGenerationToolsOptions {
   foundryClient: FoundryClient;
   logger: Logger;
   backendComfyUIHandlers?: any; // Access to backend ComfyUI service
+  workflowTemplates?: WorkflowTemplateRegistry | undefined;
+  /** Backend job queue, followed to stream progress to clients that ask for it */
+  jobQueue?: JobQueue | undefined;
 }
 
+const FINISHED_JOB_STATUSES = ['complete', 'failed', 'expired'];
+
+/** How long a call that streams progress waits for its job before falling back to check-map-status */
+const FOLLOW_JOB_TIMEOUT_MS = 15 * 60 * 1000;
+
+/** Blank strings count as not given */
+const optionalTextSchema = z.string().trim().optional().transform(value => value || undefined);
+const promptSchema = z.string().trim().min(1, 'Prompt is required');
+const sceneNameSchema = z.string().trim().min(1, 'Scene name is required');
+const seedSchema = z.coerce.number().int().min(0, 'seed must be a non-negative integer').optional();
+
+const generateMapSchema = z.object({
+  prompt: promptSchema,
+  scene_name: sceneNameSchema,
+  size: z.enum(['small', 'medium', 'large']).default('medium'),
+  grid_size: z.coerce.number().positive().default(70),
+  style: optionalTextSchema,
+  seed: seedSchema,
+});
+
+const generateLargeMapSchema = z.object({
+  prompt: promptSchema,
+  scene_name: sceneNameSchema,
+  columns: z.coerce.number().int().min(1).max(6),
+  rows: z.coerce.number().int().min(1).max(6),
+  overlap: z.coerce.number().int().min(64).max(512).optional(),
+  grid_size: z.coerce.number().positive().default(70),
+  floors: z.array(z.object({ name: z.string(), prompt: z.string() })).min(2).max(5).optional(),
+  stairs: z.object({ x: z.coerce.number().int().min(0), y: z.coerce.number().int().min(0) }).optional(),
+  style: z.string().optional(),
+  seed: seedSchema,
+});
+
+const varyMapSchema = z.object({
+  scene_identifier: optionalTextSchema,
+  prompt: promptSchema,
+  strength: z.coerce.number().min(0.05).max(1).optional(),
+  style: z.string().optional(),
+});
+
+const editMapRegionSchema = varyMapSchema.extend({
+  region: z.object({
+    x: z.coerce.number().min(0),
+    y: z.coerce.number().min(0),
+    width: z.coerce.number().min(1),
+    height: z.coerce.number().min(1),
+  }),
+});
+
+const regenerateMapSchema = z.object({
+  job_id: optionalTextSchema,
+  scene_identifier: optionalTextSchema,
+  seed: seedSchema,
+  new_seed: z.boolean().default(false),
+  prompt_addition: z.string().optional(),
+  style: z.string().optional(),
+  scene_name: z.string().optional(),
+}).refine(args => args.job_id || args.scene_identifier, { message: 'job_id or scene_identifier is required' });
+
+const checkMapStatusSchema = z.object({
+  job_id: z.string().trim().min(1, 'job_id is required'),
+});
+
+const cancelMapJobSchema = z.object({
+  job_id: z.string().trim().min(1, 'job_id is required'),
+});
+
+const listMapJobsSchema = z.object({
+  status: z.array(z.enum(['queued', 'generating', 'processing', 'complete', 'failed', 'expired'])).optional(),
+  search: optionalTextSchema,
+  since_hours: z.coerce.number().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const listScenesSchema = z.object({
+  filter: z.string().optional(),
+  include_active_only: z.boolean().default(false),
+});
+
+const switchSceneSchema = z.object({
+  scene_identifier: z.string().trim().min(1, 'scene_identifier is required'),
+  optimize_view: z.boolean().default(true),
+});
+
 interface JobData {
   id: string;
   status: 'queued' | 'generating' | 'processing' | 'complete' | 'failed' | 'expired';
@@ -25,6 +118,21 @@ interface JobData {
     scene_name: string;
     size: string;
     grid_size: number;
+    style?: string;
+    edit?: {
+      scene_id: string;
+      region?: { x: number; y: number; width: number; height: number };
+    };
+    portrait?: {
+      actor_id: string;
+      actor_name: string;
+    };
+    seed?: number;
+    tiled?: {
+      columns: number;
+      rows: number;
+      floors?: Array<{ name: string; prompt: string }>;
+    };
   };
 }
 
@@ -32,6 +140,8 @@ export class MapGenerationTools {
   private foundryClient: FoundryClient;
   private logger: Logger;
   private backendComfyUIHandlers: any;
+  private workflowTemplates: WorkflowTemplateRegistry | undefined;
+  private jobQueue: JobQueue | undefined;
   private jobs = new Map<string, JobData>(); // Simple in-memory job storage
   private jobStartTimes = new Map<string, number>();
   private lastStatusCheck = new Map<string, number>();
@@ -41,6 +151,8 @@ export class MapGenerationTools {
     this.foundryClient = options.foundryClient;
     this.logger = options.logger.child({ component: 'MapGenerationTools' });
     this.backendComfyUIHandlers = options.backendComfyUIHandlers;
+    this.workflowTemplates = options.workflowTemplates;
+    this.jobQueue = options.jobQueue;
   }
 
   getToolDefinitions(): Tool[] {
@@ -69,11 +181,204 @@ export class MapGenerationTools {
               type: 'number',
               default: 70,
               description: 'Pixels per grid square for Foundry scene setup. Recommended: 70 pixels for both D&D (5ft squares) and WFRP (2 yard squares)'
+            },
+            style: {
+              type: 'string',
+              default: DEFAULT_WORKFLOW_STYLE,
+              description: this.getStyleDescription('txt2img')
+            },
+            seed: {
+              type: 'integer',
+              minimum: 0,
+              description: 'Optional: sampler seed. The same prompt, size, style and seed give the same map; a random seed is used and reported when omitted'
             }
           },
           required: ['prompt', 'scene_name']
         }
       },
+      {
+        name: 'generate-large-map',
+        description: 'Generate a map bigger than generate-map allows (async), for towns, large dungeons or multi-storey buildings. The map is painted as a grid of overlapping 1024px tiles, each outpainted from its neighbours and blended into one background. With floors, one scene is created per floor and linked by stair notes that open a journal with links to the floors above and below. Takes several minutes; use check-map-status with the returned job ID. Example: "A 3x3 map of Ubersreik\'s docks" or "A coaching inn with cellar, taproom and upper rooms"',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            prompt: {
+              type: 'string',
+              description: 'Description of the whole area or building, used for every tile (enhanced like generate-map prompts)'
+            },
+            scene_name: {
+              type: 'string',
+              description: 'Scene name; with floors, each scene is named "<scene_name> - <floor name>"'
+            },
+            columns: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 6,
+              description: 'Tiles across. Each extra tile adds 768px with the default overlap'
+            },
+            rows: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 6,
+              description: 'Tiles down'
+            },
+            overlap: {
+              type: 'integer',
+              minimum: 64,
+              maximum: 512,
+              default: 256,
+              description: 'Pixels shared by neighbouring tiles (multiple of 8). More overlap gives smoother seams but a smaller map'
+            },
+            grid_size: {
+              type: 'number',
+              default: 70,
+              description: 'Pixels per grid square for Foundry scene setup'
+            },
+            floors: {
+              type: 'array',
+              minItems: 2,
+              maxItems: 5,
+              description: 'Optional: floors from the lowest up, each generated as its own map and scene, e.g. [{"name": "Cellar", "prompt": "wine cellar with barrels"}, {"name": "Taproom", "prompt": "tavern taproom with a long bar"}]',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  prompt: { type: 'string', description: 'Added to the main prompt for this floor' }
+                },
+                required: ['name', 'prompt']
+              }
+            },
+            stairs: {
+              type: 'object',
+              description: 'Grid square (column/row from the top-left, starting at 0) where the stair notes go on every floor (default: the centre)',
+              properties: {
+                x: { type: 'integer', minimum: 0 },
+                y: { type: 'integer', minimum: 0 }
+              },
+              required: ['x', 'y']
+            },
+            style: {
+              type: 'string',
+              default: DEFAULT_WORKFLOW_STYLE,
+              description: `${this.getStyleDescription('txt2img')} Tiles after the first are outpainted with the style's "-inpaint" variant when one exists`
+            },
+            seed: {
+              type: 'integer',
+              minimum: 0,
+              description: 'Optional: seed of the first tile; each later tile uses the next number'
+            }
+          },
+          required: ['prompt', 'scene_name', 'columns', 'rows']
+        }
+      },
+      {
+        name: 'vary-map',
+        description: 'Rework an existing scene\'s map image with AI (img2img, async): the background is regenerated from the current image guided by the prompt, then replaced in place so tokens, walls and lights stay where they are. Use check-map-status with the returned job ID. Example: "Make the Ubersreik Gate map snowy" or "Turn the tavern map into a burnt-out ruin"',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            scene_identifier: {
+              type: 'string',
+              description: 'Scene name or ID (default: the active scene)'
+            },
+            prompt: {
+              type: 'string',
+              description: 'What the map should look like after the change, e.g. "snow-covered town gate at night"'
+            },
+            strength: {
+              type: 'number',
+              minimum: 0.05,
+              maximum: 1,
+              default: 0.5,
+              description: 'How far to move away from the current image: 0.3 keeps the layout and changes details, 0.7+ reimagines it'
+            },
+            style: {
+              type: 'string',
+              description: this.getStyleDescription('img2img')
+            }
+          },
+          required: ['prompt']
+        }
+      },
+      {
+        name: 'edit-map-region',
+        description: 'Repaint one rectangle of an existing scene\'s map image with AI (inpainting, async), leaving the rest of the image, tokens and walls untouched. The region is given in grid squares from the map\'s top-left corner. Use check-map-status with the returned job ID. Example: "Put a collapsed well in squares 4,6 to 6,8 of the market map"',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            scene_identifier: {
+              type: 'string',
+              description: 'Scene name or ID (default: the active scene)'
+            },
+            prompt: {
+              type: 'string',
+              description: 'What to paint in the region, e.g. "collapsed stone well with scattered rubble"'
+            },
+            region: {
+              type: 'object',
+              description: 'Rectangle to repaint, in grid squares (x/y = column/row of the top-left square, starting at 0)',
+              properties: {
+                x: { type: 'number', minimum: 0 },
+                y: { type: 'number', minimum: 0 },
+                width: { type: 'number', minimum: 1 },
+                height: { type: 'number', minimum: 1 }
+              },
+              required: ['x', 'y', 'width', 'height']
+            },
+            strength: {
+              type: 'number',
+              minimum: 0.05,
+              maximum: 1,
+              default: 0.85,
+              description: 'How much the region may change (default 0.85, i.e. mostly new content)'
+            },
+            style: {
+              type: 'string',
+              description: this.getStyleDescription('inpaint')
+            }
+          },
+          required: ['prompt', 'region']
+        }
+      },
+      {
+        name: 'regenerate-map',
+        description: 'Generate a new scene from an earlier generate-map request (async). By default the prompt, size, style and seed are reused so the map is reproduced exactly; pass new_seed, seed or prompt_addition to iterate on it. The original comes from the job history or from the flags stored on the scene it created. Example: "Regenerate the Altdorf Market map with a new seed" or "Redo the sewer map, same seed, but flooded"',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            job_id: {
+              type: 'string',
+              description: 'ID of the generate-map job to start from'
+            },
+            scene_identifier: {
+              type: 'string',
+              description: 'Name or ID of a scene created by generate-map (alternative to job_id)'
+            },
+            seed: {
+              type: 'integer',
+              minimum: 0,
+              description: 'Optional: use this seed instead of the original one'
+            },
+            new_seed: {
+              type: 'boolean',
+              default: false,
+              description: 'Pick a random seed: same prompt and settings, different map'
+            },
+            prompt_addition: {
+              type: 'string',
+              description: 'Optional: text appended to the original prompt, e.g. "heavy snow". Keeping the seed keeps the overall composition'
+            },
+            style: {
+              type: 'string',
+              description: 'Optional: switch to another map style (default: the original style)'
+            },
+            scene_name: {
+              type: 'string',
+              description: 'Name for the new scene (default: the original name with "(regenerated)")'
+            }
+          }
+        }
+      },
       {
         name: 'check-map-status',
         description: 'Check status of map generation job (WAIT 25-40 seconds after starting before first check)',
@@ -102,6 +407,36 @@ export class MapGenerationTools {
           required: ['job_id']
         }
       },
+      {
+        name: 'list-map-jobs',
+        description: 'List map and portrait generation jobs, newest first, including jobs from before a backend restart. Shows status, scene name, prompt and result for each job. Example: "Which maps did we generate this week?" or "Show failed map jobs"',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            status: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: ['queued', 'generating', 'processing', 'complete', 'failed', 'expired']
+              },
+              description: 'Only show jobs with these statuses'
+            },
+            search: {
+              type: 'string',
+              description: 'Only show jobs whose prompt or scene name contains this text (case-insensitive)'
+            },
+            since_hours: {
+              type: 'number',
+              description: 'Only show jobs created in the last N hours'
+            },
+            limit: {
+              type: 'number',
+              default: 20,
+              description: 'Maximum number of jobs to show (1-100)'
+            }
+          }
+        }
+      },
       {
         name: 'list-scenes',
         description: 'List all available Foundry VTT scenes with their details',
@@ -143,66 +478,58 @@ export class MapGenerationTools {
     ];
   }
 
-  async listScenes(input: any): Promise<any> {
-    const safeInput = input ?? {};
+  registerTools(registry: ToolRegistry): void {
+    registry.registerTools(this.getToolDefinitions(), {
+      'generate-map': { validator: generateMapSchema, handler: args => this.generateMap(args) },
+      'check-map-status': { validator: checkMapStatusSchema, handler: args => this.checkMapStatus(args) },
+      'cancel-map-job': { validator: cancelMapJobSchema, handler: args => this.cancelMapJob(args) },
+      'vary-map': { validator: varyMapSchema, handler: args => this.varyMap(args) },
+      'edit-map-region': { validator: editMapRegionSchema, handler: args => this.editMapRegion(args) },
+      'generate-large-map': { validator: generateLargeMapSchema, handler: args => this.generateLargeMap(args) },
+      'regenerate-map': { validator: regenerateMapSchema, handler: args => this.regenerateMap(args) },
+      'list-map-jobs': { validator: listMapJobsSchema, handler: args => this.listMapJobs(args) },
+      'list-scenes': { validator: listScenesSchema, handler: args => this.listScenes(args) },
+      'switch-scene': { validator: switchSceneSchema, handler: args => this.switchScene(args) },
+    });
+  }
+
+  async listScenes(input: z.infer<typeof listScenesSchema>): Promise<any> {
     try {
-      const params = {
-        filter: typeof safeInput.filter === 'string' ? safeInput.filter : undefined,
-        include_active_only: Boolean(safeInput.include_active_only),
-      };
-      return await this.foundryClient.query('foundry-mcp-bridge.list-scenes', params);
+      return await this.foundryClient.query('foundry-mcp-bridge.list-scenes', input);
     } catch (error: any) {
-      this.logger.error('List scenes failed', { error, input: safeInput });
+      this.logger.error('List scenes failed', { error, input });
       return { success: false, error: error?.message ?? 'Unknown error' };
     }
   }
 
-  async switchScene(input: any): Promise<any> {
-    const safeInput = input ?? {};
+  async switchScene(input: z.infer<typeof switchSceneSchema>): Promise<any> {
     try {
-      const sceneIdentifier = typeof safeInput.scene_identifier === 'string' ? safeInput.scene_identifier : safeInput.sceneId;
-      if (!sceneIdentifier || typeof sceneIdentifier !== 'string' || !sceneIdentifier.trim()) {
-        return { success: false, error: 'scene_identifier is required' };
-      }
-
-      const params = {
-        scene_identifier: sceneIdentifier,
-        optimize_view: safeInput.optimize_view !== false,
-      };
-
-      return await this.foundryClient.query('foundry-mcp-bridge.switch-scene', params);
+      return await this.foundryClient.query('foundry-mcp-bridge.switch-scene', input);
     } catch (error: any) {
-      this.logger.error('Switch scene failed', { error, input: safeInput });
+      this.logger.error('Switch scene failed', { error, input });
       return { success: false, error: error?.message ?? 'Unknown error' };
     }
   }
 
-  async generateMap(input: any): Promise<any> {
-    const safeInput = input ?? {};
+  async generateMap(input: z.infer<typeof generateMapSchema>): Promise<any> {
     try {
-      this.logger.info('Map generation requested via MCP', { input: safeInput });
-
-      const prompt = typeof safeInput.prompt === 'string' ? safeInput.prompt.trim() : '';
-      if (!prompt) {
-        return 'Error: Prompt is required and must be a string.';
-      }
-
-      const sceneName = typeof safeInput.scene_name === 'string' ? safeInput.scene_name.trim() : '';
-      if (!sceneName) {
-        return 'Error: Scene name is required and must be a string.';
-      }
-
-      const size = typeof safeInput.size === 'string' ? safeInput.size : 'medium';
-      const gridSizeRaw = typeof safeInput.grid_size === 'number' ? safeInput.grid_size : Number(safeInput.grid_size);
-      const gridSize = Number.isFinite(gridSizeRaw) ? gridSizeRaw : 70;
+      this.logger.info('Map generation requested via MCP', { input });
 
+      const { prompt, scene_name: sceneName, size, grid_size: gridSize, style, seed } = input;
       const params = {
         prompt,
         scene_name: sceneName,
         size,
         grid_size: gridSize,
+        ...(style ? { style } : {}),
+        ...(seed !== undefined ? { seed } : {}),
       } as const;
 
+      const dryRunPreview = previewBackgroundJob('generate-map', () => `paint "${prompt}" (${params.size}, ${this.getSizePixels(params.size)}) and create the scene "${sceneName}"`);
+      if (dryRunPreview) {
+        return dryRunPreview;
+      }
+
       const response = await this.foundryClient.query('foundry-mcp-bridge.generate-map', params);
       if (response?.error) {
         throw new Error(response.error);
@@ -216,29 +543,25 @@ export class MapGenerationTools {
         `Prompt: ${params.prompt}`,
         `Size: ${params.size} (${this.getSizePixels(params.size)})`,
         `Grid size: ${params.grid_size}px`,
+        `Style: ${style ?? DEFAULT_WORKFLOW_STYLE}`,
+        `Seed: ${response?.seed ?? seed ?? 'random'}`,
         '',
         `Estimated time: ${estimatedTime}`,
         'Wait at least 25 seconds before calling check-map-status.',
         `Use job_id "${jobId}" when checking status.`,
       ];
 
-      return lines.join('\n');
+      return await this.followJob(jobId, lines);
     } catch (error: any) {
-      this.logger.error('Map generation failed', { error, input: safeInput });
+      this.logger.error('Map generation failed', { error, input });
       return `Error: ${error?.message ?? 'Unknown error'}`;
     }
   }
 
-  async checkMapStatus(input: any): Promise<any> {
-    const safeInput = input ?? {};
+  async checkMapStatus(input: z.infer<typeof checkMapStatusSchema>): Promise<any> {
+    const jobId = input.job_id;
     try {
-      const jobIdCandidate = typeof safeInput.job_id === 'string' ? safeInput.job_id : safeInput.jobId;
-      const jobId = typeof jobIdCandidate === 'string' ? jobIdCandidate.trim() : '';
-      if (!jobId) {
-        return 'Error: job_id is required.';
-      }
-
-      this.logger.info('Map status check requested via MCP', { jobId, input: safeInput });
+      this.logger.info('Map status check requested via MCP', { jobId });
 
       const response = await this.foundryClient.query('foundry-mcp-bridge.check-map-status', { job_id: jobId });
       if (response?.error) {
@@ -251,16 +574,23 @@ export class MapGenerationTools {
         return `Job ${jobId} not found. It may have expired or been cleaned up.`;
       }
 
+      const seedText = typeof job.seed === 'number' ? ` Seed: ${job.seed}.` : '';
+
       switch (job.status) {
         case 'queued':
-          return `Job ${jobId} is queued. Status: ${job.current_stage ?? 'Pending'}.`;
+          if (job.error) {
+            return `Job ${jobId} failed and will be retried. Reason: ${job.error}.${seedText}`;
+          }
+          return `Job ${jobId} is queued. Status: ${job.current_stage ?? 'Pending'}.${seedText}`;
         case 'generating':
         case 'processing':
-          return `Job ${jobId} in progress. Stage: ${job.current_stage ?? 'Processing'}. Progress: ${job.progress_percent ?? 0}%`;
+          return `Job ${jobId} in progress. Stage: ${job.current_stage ?? 'Processing'}. Progress: ${job.progress_percent ?? 0}%.${seedText}`;
         case 'complete': {
           const duration = job.result?.generation_time_ms;
           const durationText = typeof duration === 'number' ? ` Generation time: ${Math.round(duration / 1000)}s.` : '';
-          return `Job ${jobId} completed successfully.${durationText}`;
+          const scenes: Array<{ name: string }> = job.result?.scenes ?? [];
+          const scenesText = scenes.length > 0 ? ` Scenes: ${scenes.map(scene => `"${scene.name}"`).join(', ')}.` : '';
+          return `Job ${jobId} completed successfully.${durationText}${seedText}${scenesText}`;
         }
         case 'failed':
           return `Job ${jobId} failed. Reason: ${job.error ?? 'Unknown error'}.`;
@@ -270,21 +600,15 @@ export class MapGenerationTools {
           return `Job ${jobId} returned status "${job.status}".`;
       }
     } catch (error: any) {
-      this.logger.error('Status check failed', { error, input: safeInput });
+      this.logger.error('Status check failed', { error, jobId });
       return `Error checking status: ${error?.message ?? 'Unknown error'}`;
     }
   }
 
-  async cancelMapJob(input: any): Promise<any> {
-    const safeInput = input ?? {};
+  async cancelMapJob(input: z.infer<typeof cancelMapJobSchema>): Promise<any> {
+    const jobId = input.job_id;
     try {
-      const jobIdCandidate = typeof safeInput.job_id === 'string' ? safeInput.job_id : safeInput.jobId;
-      const jobId = typeof jobIdCandidate === 'string' ? jobIdCandidate.trim() : '';
-      if (!jobId) {
-        return 'Error: job_id is required.';
-      }
-
-      this.logger.info('Map job cancellation requested via MCP', { jobId, input: safeInput });
+      this.logger.info('Map job cancellation requested via MCP', { jobId });
 
       const response = await this.foundryClient.query('foundry-mcp-bridge.cancel-map-job', { job_id: jobId });
       if (response?.error) {
@@ -296,11 +620,320 @@ export class MapGenerationTools {
       const message = response?.message ?? 'Map generation job cancelled.';
       return `${message} (status: ${status})`;
     } catch (error: any) {
-      this.logger.error('Map job cancellation failed', { error, input: safeInput });
+      this.logger.error('Map job cancellation failed', { error, jobId });
       return `Error cancelling job: ${error?.message ?? 'Unknown error'}`;
     }
   }
 
+  async varyMap(input: z.infer<typeof varyMapSchema>): Promise<any> {
+    return this.startMapEdit(input);
+  }
+
+  async editMapRegion(input: z.infer<typeof editMapRegionSchema>): Promise<any> {
+    return this.startMapEdit(input, input.region);
+  }
+
+  async generateLargeMap(input: z.infer<typeof generateLargeMapSchema>): Promise<any> {
+    try {
+      if (!this.backendComfyUIHandlers) {
+        return 'Error: Map generation backend is not available.';
+      }
+
+      const { prompt, scene_name: sceneName, floors } = input;
+
+      this.logger.info('Large map generation requested via MCP', { input });
+
+      const dryRunPreview = previewBackgroundJob('generate-large-map', () => {
+        const floorText = floors?.length ? ` with ${floors.length} linked floor scenes` : '';
+        return `paint "${prompt}" as ${input.columns}x${input.rows} tiles and create "${sceneName}"${floorText}`;
+      });
+      if (dryRunPreview) {
+        return dryRunPreview;
+      }
+
+      const response = await this.backendComfyUIHandlers.handleMessage({
+        type: 'generate-tiled-map-request',
+        data: {
+          prompt,
+          scene_name: sceneName,
+          columns: input.columns,
+          rows: input.rows,
+          ...(input.overlap !== undefined ? { overlap: input.overlap } : {}),
+          grid_size: input.grid_size,
+          floors,
+          stairs: input.stairs,
+          style: input.style,
+          seed: input.seed
+        }
+      });
+      if (response?.status !== 'success') {
+        return `Error: ${response?.message ?? 'Failed to start large map generation'}`;
+      }
+
+      const lines = [
+        `Large map generation started. Job ID: ${response.jobId}`,
+        '',
+        `Prompt: ${prompt}`,
+        `Size: ${response.width}x${response.height}px (${response.gridColumns}x${response.gridRows} grid squares)`,
+        `Tiles: ${response.tiles}${response.floors > 1 ? ` per floor, ${response.floors} floors` : ''}`,
+        `Seed: ${response.seed}`,
+        '',
+        `Estimated time: ${response.estimatedTime}`,
+        response.floors > 1
+          ? 'One scene per floor is created when the job completes, linked by stair notes and a journal entry. Use undo-change to remove them again.'
+          : 'The scene is created when the job completes.',
+        `Use job_id "${response.jobId}" with check-map-status.`,
+      ];
+
+      return await this.followJob(response.jobId, lines);
+    } catch (error: any) {
+      this.logger.error('Large map generation failed', { error, input });
+      return `Error: ${error?.message ?? 'Unknown error'}`;
+    }
+  }
+
+  async regenerateMap(input: z.infer<typeof regenerateMapSchema>): Promise<any> {
+    try {
+      if (!this.backendComfyUIHandlers) {
+        return 'Error: Map generation backend is not available.';
+      }
+
+      const { job_id: jobId, scene_identifier: sceneIdentifier, seed } = input;
+
+      this.logger.info('Map regeneration requested via MCP', { input });
+
+      const dryRunPreview = previewBackgroundJob('regenerate-map', () => {
+        const source = jobId ? `job ${jobId}` : `scene "${sceneIdentifier}"`;
+        const seedText = seed !== undefined ? `seed ${seed}` : input.new_seed ? 'a new random seed' : 'the original seed';
+        return `create a new scene from ${source} with ${seedText}`;
+      });
+      if (dryRunPreview) {
+        return dryRunPreview;
+      }
+
+      const response = await this.backendComfyUIHandlers.handleMessage({
+        type: 'regenerate-map-request',
+        data: {
+          job_id: jobId,
+          scene_identifier: jobId ? undefined : sceneIdentifier,
+          seed,
+          new_seed: input.new_seed,
+          prompt_addition: input.prompt_addition,
+          style: input.style,
+          scene_name: input.scene_name
+        }
+      });
+      if (response?.status !== 'success') {
+        return `Error: ${response?.message ?? 'Failed to start map regeneration'}`;
+      }
+
+      const seedNote = response.seed === response.sourceSeed ? ' (same as the original)' : ` (original: ${response.sourceSeed})`;
+      const lines = [
+        `Map regeneration started from ${response.source}. Job ID: ${response.jobId}`,
+        '',
+        `Scene: ${response.sceneName}`,
+        `Prompt: ${response.prompt}`,
+        `Size: ${response.size} (${this.getSizePixels(response.size)})`,
+        `Style: ${response.style ?? DEFAULT_WORKFLOW_STYLE}`,
+        `Seed: ${response.seed}${seedNote}`,
+        '',
+        `Estimated time: ${response.estimatedTime}`,
+        'Wait at least 25 seconds before calling check-map-status.',
+        `Use job_id "${response.jobId}" when checking status.`,
+      ];
+
+      return await this.followJob(response.jobId, lines);
+    } catch (error: any) {
+      this.logger.error('Map regeneration failed', { error, input });
+      return `Error: ${error?.message ?? 'Unknown error'}`;
+    }
+  }
+
+  async listMapJobs(input: z.infer<typeof listMapJobsSchema>): Promise<any> {
+    try {
+      if (!this.backendComfyUIHandlers) {
+        return 'Error: Map generation backend is not available.';
+      }
+
+      this.logger.info('Map job listing requested via MCP', { input });
+
+      // The job queue lives in this process, so ask the backend handler directly rather than round-tripping through Foundry
+      const response = await this.backendComfyUIHandlers.handleMessage({
+        type: 'list-map-jobs-request',
+        data: {
+          status: input.status,
+          search: input.search,
+          since: input.since_hours !== undefined ? Date.now() - input.since_hours * 60 * 60 * 1000 : undefined,
+          limit: input.limit
+        }
+      });
+      if (response?.status !== 'success') {
+        return `Error: ${response?.message ?? 'Failed to list map jobs'}`;
+      }
+
+      const jobs: JobData[] = response.jobs ?? [];
+      if (jobs.length === 0) {
+        return 'No map generation jobs found.';
+      }
+
+      const lines = [`Map generation jobs (${jobs.length}, newest first):`, ''];
+      for (const job of jobs) {
+        const created = new Date(job.created_at).toLocaleString();
+        const scene = job.params.scene_name ? `"${job.params.scene_name}"` : '(no scene name)';
+        const tiled = job.params.tiled;
+        const kind = job.params.portrait
+          ? 'portrait'
+          : job.params.edit
+            ? (job.params.edit.region ? 'region edit' : 'variation')
+            : tiled
+              ? `${tiled.columns}x${tiled.rows} tiles${tiled.floors ? `, ${tiled.floors.length} floors` : ''}`
+              : job.params.size;
+        const style = job.params.style ?? (job.params.edit || job.params.portrait ? 'default' : DEFAULT_WORKFLOW_STYLE);
+        const seed = typeof job.params.seed === 'number' ? `, seed ${job.params.seed}` : '';
+        lines.push(`- ${job.id} | ${job.status} | ${scene} | ${kind}, ${style}${seed} | created ${created}`);
+        lines.push(`  Prompt: ${job.params.prompt}`);
+
+        if (job.status === 'complete') {
+          const duration = job.result?.generation_time_ms;
+          const durationText = typeof duration === 'number' ? `, ${Math.round(duration / 1000)}s` : '';
+          const walls = typeof job.result?.walls_detected === 'number' ? `, ${job.result.walls_detected} walls` : '';
+          lines.push(`  Result: ${job.result?.image_url ?? 'image saved'}${walls}${durationText}`);
+        } else if (job.status === 'failed') {
+          lines.push(`  Error: ${job.error ?? 'Unknown error'} (attempts: ${job.attempts}/${job.max_attempts})`);
+        } else if (job.status !== 'expired') {
+          lines.push(`  Stage: ${job.current_stage} (${job.progress_percent}%)`);
+        }
+      }
+
+      return lines.join('\n');
+    } catch (error: any) {
+      this.logger.error('Map job listing failed', { error, input });
+      return `Error listing map jobs: ${error?.message ?? 'Unknown error'}`;
+    }
+  }
+
+  private async startMapEdit(
+    input: z.infer<typeof varyMapSchema>,
+    region?: z.infer<typeof editMapRegionSchema>['region']
+  ): Promise<any> {
+    const toolName = region ? 'edit-map-region' : 'vary-map';
+    try {
+      if (!this.backendComfyUIHandlers) {
+        return 'Error: Map generation backend is not available.';
+      }
+
+      const { prompt, scene_identifier: sceneIdentifier } = input;
+
+      this.logger.info('Map edit requested via MCP', { tool: toolName, input });
+
+      const dryRunPreview = previewBackgroundJob(toolName, () => {
+        const target = sceneIdentifier ? `scene "${sceneIdentifier}"` : 'the active scene';
+        const area = region ? ` in the ${region.width}x${region.height} squares from column ${region.x}, row ${region.y}` : '';
+        return `repaint the background of ${target}${area} with "${prompt}" and replace it in place`;
+      });
+      if (dryRunPreview) {
+        return dryRunPreview;
+      }
+
+      const response = await this.backendComfyUIHandlers.handleMessage({
+        type: 'vary-map-request',
+        data: {
+          scene_identifier: sceneIdentifier,
+          prompt,
+          strength: input.strength,
+          style: input.style,
+          region
+        }
+      });
+      if (response?.status !== 'success') {
+        return `Error: ${response?.message ?? 'Failed to start map edit'}`;
+      }
+
+      const lines = [
+        `${region ? 'Region edit' : 'Map variation'} started for scene "${response.sceneName}". Job ID: ${response.jobId}`,
+        '',
+        `Prompt: ${prompt}`,
+        `Strength: ${response.strength}`,
+        ...(response.region ? [`Repainting pixels ${response.region.x},${response.region.y} (${response.region.width}x${response.region.height})`] : []),
+        '',
+        `Estimated time: ${response.estimatedTime}`,
+        'The scene background is replaced when the job completes; tokens and walls are kept. Use undo-change to restore the previous image.',
+        `Use job_id "${response.jobId}" with check-map-status.`,
+      ];
+
+      return await this.followJob(response.jobId, lines);
+    } catch (error: any) {
+      this.logger.error('Map edit failed', { tool: toolName, error, input });
+      return `Error: ${error?.message ?? 'Unknown error'}`;
+    }
+  }
+
+  /**
+   * When the client sent a progress token, stay on the call until the job finishes, streaming its stages,
+   * instead of leaving the client to poll check-map-status
+   */
+  private async followJob(jobId: string, startedLines: string[]): Promise<string> {
+    const reportProgress = getProgressReporter();
+    const jobQueue = this.jobQueue;
+    if (!reportProgress || !jobQueue || !(await jobQueue.getJob(jobId))) {
+      return startedLines.join('\n');
+    }
+
+    const finished = await new Promise<boolean>((resolve) => {
+      let stopListening = () => {};
+      const timer = setTimeout(() => {
+        stopListening();
+        resolve(false);
+      }, FOLLOW_JOB_TIMEOUT_MS);
+
+      // The initial snapshot below can land after a newer update, but MCP progress must only ever increase
+      let highestProgress = 0;
+      const onUpdate = (job: QueuedJob) => {
+        if (job.id !== jobId) return;
+        highestProgress = Math.max(highestProgress, job.progress_percent);
+        reportProgress(highestProgress, 100, job.current_stage);
+        // A failed attempt is requeued with its error; report it now rather than waiting out the retries
+        if (FINISHED_JOB_STATUSES.includes(job.status) || (job.status === 'queued' && job.error)) {
+          clearTimeout(timer);
+          stopListening();
+          resolve(true);
+        }
+      };
+
+      stopListening = jobQueue.addJobListener(onUpdate);
+      // The job may have moved on before the listener was added
+      jobQueue.getJob(jobId).then(job => job && onUpdate(job)).catch(() => {});
+    });
+
+    // Polling instructions are moot once the final status is included
+    const summary = startedLines.filter(line => !/check-map-status|checking status|^Estimated time/.test(line));
+    while (summary.length > 0 && summary[summary.length - 1] === '') {
+      summary.pop();
+    }
+
+    const status = await this.checkMapStatus({ job_id: jobId });
+    return [
+      ...summary,
+      '',
+      ...(finished ? [] : [`Still running after ${FOLLOW_JOB_TIMEOUT_MS / 60000} minutes; use check-map-status with job_id "${jobId}".`]),
+      status,
+    ].join('\n');
+  }
+
+  private getStyleDescription(mode: WorkflowMode): string {
+    const base = mode === 'txt2img'
+      ? 'ComfyUI workflow template to generate with. Styles are JSON files in the server\'s workflow directory, so new checkpoints, LoRAs or pipelines can be added without rebuilding.'
+      : `ComfyUI ${mode} workflow template to use (default: the built-in battlemap ${mode} pipeline).`;
+    if (!this.workflowTemplates) {
+      return base;
+    }
+
+    const styles = this.workflowTemplates.list(mode)
+      .map(template => template.description ? `"${template.name}" (${template.description})` : `"${template.name}"`)
+      .join(', ');
+    return `${base} Available: ${styles}`;
+  }
+
   private getSizePixels(size: string): string {
     switch (size) {
       case 'small':
@@ -0,0 +1,276 @@
+import { z } from 'zod';
+import { FoundryClient } from '../foundry-client.js';
+import { Logger } from '../logger.js';
+import { ToolRegistry } from '../tool-registry.js';
+import { WFRP_DIFFICULTY_KEYS, resolveCharacteristicKey } from '@foundry-mcp/shared';
+
+export interface OpposedTestToolsOptions {
+    foundryClient: FoundryClient;
+    logger: Logger;
+}
+
+export interface OpposedTestSide {
+    characterName: string;
+    test: string;
+    difficulty?: string | undefined;
+    modifier?: number | undefined;
+    testName?: string | undefined;
+}
+
+/**
+ * Result of one side's d100 test, as returned by the rollSkill/rollCharacteristic bridge queries
+ */
+export interface WFRPTestRoll {
+    actorId: string;
+    actorName: string;
+    testName: string;
+    testType: 'skill' | 'characteristic';
+    skillName?: string;
+    characteristic: string;
+    baseValue: number;
+    target: number;
+    roll: number;
+    sl: number;
+    success: boolean;
+    critical: boolean;
+    fumble: boolean;
+    outcome: string;
+}
+
+export interface OpposedTestResult {
+    attacker: WFRPTestRoll;
+    defender: WFRPTestRoll;
+    winner: 'attacker' | 'defender' | 'draw';
+    margin: number;
+    tieBroken: boolean;
+}
+
+const opposedTestSchema = z.object({
+    attackerName: z.string().min(1, 'Attacker name cannot be empty'),
+    attackerTest: z.string().min(1, 'Attacker test cannot be empty'),
+    attackerDifficulty: z.enum(WFRP_DIFFICULTY_KEYS).optional(),
+    attackerModifier: z.number().optional(),
+    defenderName: z.string().min(1, 'Defender name cannot be empty'),
+    defenderTest: z.string().min(1, 'Defender test cannot be empty'),
+    defenderDifficulty: z.enum(WFRP_DIFFICULTY_KEYS).optional(),
+    defenderModifier: z.number().optional(),
+    awardAdvantage: z.boolean().default(false),
+});
+
+export class OpposedTestTools {
+    private foundryClient: FoundryClient;
+    private logger: Logger;
+
+    constructor({ foundryClient, logger }: OpposedTestToolsOptions) {
+        this.foundryClient = foundryClient;
+        this.logger = logger.child({ component: 'OpposedTestTools' });
+    }
+
+    getToolDefinitions() {
+        return [
+            {
+                name: 'opposed-test',
+                description: 'Resolve a WFRP 4e Opposed Test between two characters. Both sides roll d100 against their Skill or Characteristic through Foundry (results are posted to chat), the higher SL wins, and ties go to the higher Skill/Characteristic value. Reports the winner and SL margin, and can award Advantage to the winner. Common pairings: Melee vs Melee (parry), Melee vs Dodge, Charm vs Cool, Stealth vs Perception, Intimidate vs Cool, Strength vs Strength. Example: "Opposed test: Hans Stealth vs the guard\'s Perception" or "Gustav (Melee Basic) attacks the Orc, who parries with Melee Basic, award Advantage"',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        attackerName: {
+                            type: 'string',
+                            description: 'Name or ID of the character initiating the test',
+                        },
+                        attackerTest: {
+                            type: 'string',
+                            description: 'Skill (e.g. "Melee (Basic)", "Charm") or Characteristic (e.g. "ws", "Strength") the initiator tests',
+                        },
+                        attackerDifficulty: {
+                            type: 'string',
+                            enum: [...WFRP_DIFFICULTY_KEYS],
+                            description: 'Difficulty for the initiator (default: challenging, +0)',
+                        },
+                        attackerModifier: {
+                            type: 'number',
+                            description: 'Additional modifier for the initiator (e.g. +10 for Advantage, -10 for Prone)',
+                        },
+                        defenderName: {
+                            type: 'string',
+                            description: 'Name or ID of the opposing character',
+                        },
+                        defenderTest: {
+                            type: 'string',
+                            description: 'Skill or Characteristic the opponent tests in response (e.g. "Dodge", "Cool", "Perception")',
+                        },
+                        defenderDifficulty: {
+                            type: 'string',
+                            enum: [...WFRP_DIFFICULTY_KEYS],
+                            description: 'Difficulty for the opponent (default: challenging, +0)',
+                        },
+                        defenderModifier: {
+                            type: 'number',
+                            description: 'Additional modifier for the opponent',
+                        },
+                        awardAdvantage: {
+                            type: 'boolean',
+                            description: 'Award +1 Advantage to the winner (combat Opposed Tests). Default: false',
+                        },
+                    },
+                    required: ['attackerName', 'attackerTest', 'defenderName', 'defenderTest'],
+                },
+            },
+        ];
+    }
+
+    registerTools(registry: ToolRegistry): void {
+        registry.registerTools(this.getToolDefinitions(), {
+            'opposed-test': { validator: opposedTestSchema, handler: args => this.handleOpposedTest(args) },
+        });
+    }
+
+    async handleOpposedTest(params: z.infer<typeof opposedTestSchema>): Promise<any> {
+        this.logger.info('Resolving opposed test', {
+            attacker: params.attackerName,
+            defender: params.defenderName,
+        });
+
+        try {
+            const result = await this.resolveOpposedTest(
+                {
+                    characterName: params.attackerName,
+                    test: params.attackerTest,
+                    difficulty: params.attackerDifficulty,
+                    modifier: params.attackerModifier,
+                },
+                {
+                    characterName: params.defenderName,
+                    test: params.defenderTest,
+                    difficulty: params.defenderDifficulty,
+                    modifier: params.defenderModifier,
+                }
+            );
+
+            const { attacker, defender } = result;
+
+            let response = `# ⚔️ Opposed Test: ${attacker.actorName} vs ${defender.actorName}\n\n`;
+            response += `| | ${attacker.actorName} | ${defender.actorName} |\n`;
+            response += `|---|---|---|\n`;
+            response += `| Test | ${this.describeTest(attacker)} | ${this.describeTest(defender)} |\n`;
+            response += `| Roll | ${attacker.roll} vs ${attacker.target} | ${defender.roll} vs ${defender.target} |\n`;
+            response += `| SL | ${this.formatSL(attacker)} | ${this.formatSL(defender)} |\n`;
+            response += `| Outcome | ${attacker.outcome}${this.doubleTag(attacker)} | ${defender.outcome}${this.doubleTag(defender)} |\n\n`;
+
+            if (result.winner === 'draw') {
+                response += `## 🤝 Stalemate\n\n`;
+                response += `Both sides scored the same SL with equal ${this.describeTest(attacker)}/${this.describeTest(defender)} values. Neither side prevails — roll again or let the situation stand.\n`;
+                return response;
+            }
+
+            const winner = result.winner === 'attacker' ? attacker : defender;
+            const loser = result.winner === 'attacker' ? defender : attacker;
+
+            response += `## 🏆 ${winner.actorName} wins by ${result.margin} SL\n\n`;
+            if (result.tieBroken) {
+                response += `SL was tied; ${winner.actorName} wins with the higher value (${winner.baseValue} vs ${loser.baseValue}).\n\n`;
+            }
+
+            if (params.awardAdvantage) {
+                const newAdvantage = await this.awardAdvantage(winner.actorId, 1);
+                response += `⚔️ ${winner.actorName} gains +1 Advantage (now ${newAdvantage}).\n\n`;
+            }
+
+            response += `**Margin of victory**: use the ${result.margin} SL difference for damage (add to weapon damage) or to scale the narrative effect.\n`;
+
+            return response;
+        } catch (error) {
+            this.logger.error('Failed to resolve opposed test', error);
+            throw new Error(`Failed to resolve opposed test: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Roll both sides of an Opposed Test and compare SL, breaking ties by Skill/Characteristic value
+     */
+    async resolveOpposedTest(attackerSide: OpposedTestSide, defenderSide: OpposedTestSide): Promise<OpposedTestResult> {
+        const attacker = await this.rollTest(attackerSide);
+        const defender = await this.rollTest(defenderSide);
+
+        let winner: OpposedTestResult['winner'] = 'draw';
+        let tieBroken = false;
+
+        if (attacker.sl !== defender.sl) {
+            winner = attacker.sl > defender.sl ? 'attacker' : 'defender';
+        } else if (attacker.baseValue !== defender.baseValue) {
+            winner = attacker.baseValue > defender.baseValue ? 'attacker' : 'defender';
+            tieBroken = true;
+        }
+
+        return {
+            attacker,
+            defender,
+            winner,
+            margin: Math.abs(attacker.sl - defender.sl),
+            tieBroken,
+        };
+    }
+
+    /**
+     * Add Advantage to an actor through the same updateActor path AdvantageTools uses
+     */
+    async awardAdvantage(actorId: string, amount: number): Promise<number> {
+        const character = await this.foundryClient.query('foundry-mcp-bridge.getCharacterInfo', {
+            characterId: actorId,
+        });
+
+        if (!character) {
+            throw new Error(`Character "${actorId}" not found`);
+        }
+
+        const system = character.system as any;
+        const advantageCurrent = system.status?.advantage?.value || 0;
+        const advantageMax = system.status?.advantage?.max || 10;
+        const newAdvantage = Math.min(advantageMax, advantageCurrent + amount);
+
+        await this.foundryClient.query('foundry-mcp-bridge.updateActor', {
+            actorId: character.id,
+            updateData: {
+                'system.status.advantage.value': newAdvantage,
+            },
+        });
+
+        return newAdvantage;
+    }
+
+    /**
+     * Roll one side's Skill or Characteristic test through the bridge
+     */
+    async rollTest(side: OpposedTestSide): Promise<WFRPTestRoll> {
+        const characteristic = resolveCharacteristicKey(side.test);
+        const method = characteristic ? 'foundry-mcp-bridge.rollCharacteristic' : 'foundry-mcp-bridge.rollSkill';
+
+        const response = await this.foundryClient.query(method, {
+            characterName: side.characterName,
+            ...(characteristic ? { characteristic } : { skillName: side.test.trim() }),
+            ...(side.difficulty ? { difficulty: side.difficulty } : {}),
+            modifier: side.modifier || 0,
+            testName: side.testName ?? `Opposed ${side.test}`,
+        });
+
+        if (!response?.success) {
+            throw new Error(response?.error || `Failed to roll ${side.test} for ${side.characterName}`);
+        }
+
+        return response.data as WFRPTestRoll;
+    }
+
+    private describeTest(roll: WFRPTestRoll): string {
+        return roll.testType === 'skill' ? roll.skillName || roll.testName : roll.characteristic.toUpperCase();
+    }
+
+    private formatSL(roll: WFRPTestRoll): string {
+        return `${roll.success ? '+' : '-'}${Math.abs(roll.sl)}`;
+    }
+
+    private doubleTag(roll: WFRPTestRoll): string {
+        if (roll.critical) return ' (Critical!)';
+        if (roll.fumble) return ' (Fumble!)';
+        return '';
+    }
+}
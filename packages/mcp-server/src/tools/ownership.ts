@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { FoundryClient } from '../foundry-client.js';
 import { Logger } from '../logger.js';
+import { ToolRegistry } from '../tool-registry.js';
 
 export interface OwnershipToolsOptions {
   foundryClient: FoundryClient;
@@ -17,6 +18,24 @@ const OwnershipLevels = {
 
 const ownershipLevelSchema = z.enum(['NONE', 'LIMITED', 'OBSERVER', 'OWNER']);
 
+const assignActorOwnershipSchema = z.object({
+  actorIdentifier: z.string().min(1),
+  playerIdentifier: z.string().min(1),
+  permissionLevel: ownershipLevelSchema,
+  confirmBulkOperation: z.boolean().optional(),
+});
+
+const removeActorOwnershipSchema = z.object({
+  actorIdentifier: z.string().min(1),
+  playerIdentifier: z.string().min(1),
+  confirmRemoval: z.boolean().optional(),
+});
+
+const listActorOwnershipSchema = z.object({
+  actorIdentifier: z.string().optional(),
+  playerIdentifier: z.string().optional(),
+});
+
 export class OwnershipTools {
   private foundryClient: FoundryClient;
   private logger: Logger;
@@ -102,38 +121,23 @@ export class OwnershipTools {
     ];
   }
 
-  /**
-   * Handle tool execution
-   */
-  async handleToolCall(name: string, args: any) {
-    try {
-      switch (name) {
-        case 'assign-actor-ownership':
-          return await this.assignActorOwnership(args);
-        case 'remove-actor-ownership':
-          return await this.removeActorOwnership(args);
-        case 'list-actor-ownership':
-          return await this.listActorOwnership(args);
-        default:
-          throw new Error(`Unknown ownership tool: ${name}`);
-      }
-    } catch (error) {
-      this.logger.error(`Error in ownership tool ${name}:`, error);
-      throw error;
-    }
+  registerTools(registry: ToolRegistry): void {
+    registry.registerTools(this.getToolDefinitions(), {
+      'assign-actor-ownership': { validator: assignActorOwnershipSchema, handler: args => this.assignActorOwnership(args) },
+      'remove-actor-ownership': { validator: removeActorOwnershipSchema, handler: args => this.removeActorOwnership(args) },
+      'list-actor-ownership': { validator: listActorOwnershipSchema, handler: args => this.listActorOwnership(args) },
+    });
   }
 
   /**
    * Assign actor ownership permissions
    */
-  private async assignActorOwnership(args: any) {
+  private async assignActorOwnership(args: z.infer<typeof assignActorOwnershipSchema>) {
     const { actorIdentifier, playerIdentifier, permissionLevel, confirmBulkOperation = false } = args;
     
     this.logger.info(`Assigning ${permissionLevel} ownership of "${actorIdentifier}" to "${playerIdentifier}"`);
 
-    // Validate permission level
-    const validatedLevel = ownershipLevelSchema.parse(permissionLevel);
-    const numericLevel = OwnershipLevels[validatedLevel];
+    const numericLevel = OwnershipLevels[permissionLevel];
 
     // Resolve actors and players
     const actors = await this.resolveActors(actorIdentifier);
@@ -166,7 +170,7 @@ export class OwnershipTools {
           results.push({
             actor: actor.name,
             player: player.name,
-            permission: validatedLevel,
+            permission: permissionLevel,
             success: result.success,
             message: result.message,
             error: result.error,
@@ -175,7 +179,7 @@ export class OwnershipTools {
           results.push({
             actor: actor.name,
             player: player.name,
-            permission: validatedLevel,
+            permission: permissionLevel,
             success: false,
             error: error instanceof Error ? error.message : 'Unknown error',
           });
@@ -196,7 +200,7 @@ export class OwnershipTools {
   /**
    * Remove actor ownership (set to NONE)
    */
-  private async removeActorOwnership(args: any) {
+  private async removeActorOwnership(args: z.infer<typeof removeActorOwnershipSchema>) {
     const { actorIdentifier, playerIdentifier, confirmRemoval = false } = args;
 
     if (!confirmRemoval) {
@@ -218,7 +222,7 @@ export class OwnershipTools {
   /**
    * List actor ownership permissions
    */
-  private async listActorOwnership(args: any) {
+  private async listActorOwnership(args: z.infer<typeof listActorOwnershipSchema>) {
     const { actorIdentifier, playerIdentifier } = args;
 
     this.logger.info(`Listing actor ownership for actor: "${actorIdentifier || 'all'}", player: "${playerIdentifier || 'all'}"`);
@@ -0,0 +1,151 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { previewBackgroundJob } from '../dry-run.js';
+import { FoundryClient } from '../foundry-client.js';
+import { Logger } from '../logger.js';
+import { ToolRegistry } from '../tool-registry.js';
+import { DEFAULT_PORTRAIT_STYLE, WorkflowTemplateRegistry } from '../workflow-templates.js';
+
+export interface PortraitGenerationToolsOptions {
+  foundryClient: FoundryClient;
+  logger: Logger;
+  backendComfyUIHandlers?: any; // Access to backend ComfyUI service
+  workflowTemplates?: WorkflowTemplateRegistry | undefined;
+}
+
+const generatePortraitSchema = z.object({
+  actorName: z.string().trim().optional(),
+  actorId: z.string().trim().optional(),
+  description: z.string().trim().default(''),
+  style: z.string().optional(),
+}).refine(args => args.actorId || args.actorName, { message: 'actorName or actorId is required' });
+
+export class PortraitGenerationTools {
+  private foundryClient: FoundryClient;
+  private logger: Logger;
+  private backendComfyUIHandlers: any;
+  private workflowTemplates: WorkflowTemplateRegistry | undefined;
+
+  constructor(options: PortraitGenerationToolsOptions) {
+    this.foundryClient = options.foundryClient;
+    this.logger = options.logger.child({ component: 'PortraitGenerationTools' });
+    this.backendComfyUIHandlers = options.backendComfyUIHandlers;
+    this.workflowTemplates = options.workflowTemplates;
+  }
+
+  getToolDefinitions(): Tool[] {
+    return [
+      {
+        name: 'generate-portrait',
+        description: 'Generate AI portrait art for an actor through ComfyUI (async) and set it as the actor image, plus a round token cut from it as the prototype token image. Without a description the prompt is built from the actor\'s name, species and current career. Use check-map-status with the returned job ID. Example: "Make a portrait for Gunther the rat catcher" or "Give the new NPC a scarred, one-eyed face"',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            actorName: {
+              type: 'string',
+              description: 'Name of the actor to generate art for'
+            },
+            actorId: {
+              type: 'string',
+              description: 'ID of the actor (alternative to actorName)'
+            },
+            description: {
+              type: 'string',
+              description: 'Optional: appearance to paint, e.g. "grizzled dwarf with a braided grey beard and a miner\'s lamp". Added to species and career'
+            },
+            style: {
+              type: 'string',
+              default: DEFAULT_PORTRAIT_STYLE,
+              description: this.getStyleDescription()
+            }
+          }
+        }
+      }
+    ];
+  }
+
+  registerTools(registry: ToolRegistry): void {
+    registry.registerTools(this.getToolDefinitions(), {
+      'generate-portrait': { validator: generatePortraitSchema, handler: args => this.generatePortrait(args) },
+    });
+  }
+
+  async generatePortrait(input: z.infer<typeof generatePortraitSchema>): Promise<any> {
+    try {
+      if (!this.backendComfyUIHandlers) {
+        return 'Error: Map generation backend is not available.';
+      }
+
+      this.logger.info('Portrait generation requested via MCP', { input });
+
+      const identifier = input.actorId || input.actorName;
+      const actor = await this.foundryClient.query('foundry-mcp-bridge.getCharacterInfo', { characterName: identifier });
+      if (actor?.error) {
+        return `Error: ${actor.error}`;
+      }
+
+      const prompt = this.buildPrompt(actor, input.description);
+
+      const dryRunPreview = previewBackgroundJob('generate-portrait', () => `paint "${prompt}" and set it as the portrait and token image of ${actor.name}`);
+      if (dryRunPreview) {
+        return dryRunPreview;
+      }
+
+      const response = await this.backendComfyUIHandlers.handleMessage({
+        type: 'generate-portrait-request',
+        data: {
+          actor_id: actor.id,
+          actor_name: actor.name,
+          prompt,
+          style: input.style
+        }
+      });
+      if (response?.status !== 'success') {
+        return `Error: ${response?.message ?? 'Failed to start portrait generation'}`;
+      }
+
+      const lines = [
+        `Portrait generation started for ${actor.name}. Job ID: ${response.jobId}`,
+        '',
+        `Prompt: ${prompt}`,
+        '',
+        `Estimated time: ${response.estimatedTime}`,
+        'When the job completes the actor image and prototype token are updated; tokens already placed on scenes keep their image. Use undo-change to restore the previous art.',
+        `Use job_id "${response.jobId}" with check-map-status.`,
+      ];
+
+      return lines.join('\n');
+    } catch (error: any) {
+      this.logger.error('Portrait generation failed', { error, input });
+      return `Error: ${error?.message ?? 'Unknown error'}`;
+    }
+  }
+
+  /**
+   * "<description>, <gender> <species> <career>" from the WFRP actor details
+   */
+  private buildPrompt(actor: any, description: string): string {
+    const details = actor.system?.details ?? {};
+    const career = (actor.items ?? []).find((item: any) => item.type === 'career' && item.system?.current?.value === true);
+
+    const identity = [details.gender?.value, details.species?.value, career?.name]
+      .filter((part: unknown) => typeof part === 'string' && part.trim())
+      .join(' ')
+      .toLowerCase();
+
+    const subject = identity || actor.name;
+    return description ? `${description}, ${subject}` : subject;
+  }
+
+  private getStyleDescription(): string {
+    const base = 'ComfyUI portrait workflow template to use. Add styles as JSON files with "mode": "portrait" in the server\'s workflow directory.';
+    if (!this.workflowTemplates) {
+      return base;
+    }
+
+    const styles = this.workflowTemplates.list('portrait')
+      .map(template => template.description ? `"${template.name}" (${template.description})` : `"${template.name}"`)
+      .join(', ');
+    return `${base} Available: ${styles}`;
+  }
+}
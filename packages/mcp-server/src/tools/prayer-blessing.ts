@@ -1,6 +1,43 @@
 import { z } from "zod";
 import { FoundryClient } from "../foundry-client.js";
 import { Logger } from "../logger.js";
+import { ToolRegistry } from "../tool-registry.js";
+
+const getActiveBlessingsSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+});
+
+const invokePrayerSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+    prayerName: z.string().min(1, "Prayer name cannot be empty"),
+    deity: z.string().min(1, "Deity cannot be empty"),
+    difficulty: z.enum(["easy", "average", "challenging", "difficult", "hard", "very-hard"]),
+    target: z.string().optional(),
+});
+
+const checkDivineFavorSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+});
+
+const addSinPointSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+    sinPoints: z.number().int().min(1).max(10),
+    reason: z.string(),
+    deity: z.string().min(1, "Deity cannot be empty"),
+});
+
+const performPenanceSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+    penanceType: z.enum(["confession", "vigil", "donation", "service", "pilgrimage", "quest"]),
+    sinReduction: z.number().min(1),
+    description: z.string(),
+});
+
+const endBlessingSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+    blessingName: z.string().min(1, "Blessing name cannot be empty"),
+    reason: z.string(),
+});
 
 export class PrayerBlessingTools {
     constructor(
@@ -317,7 +354,18 @@ Some blessings fade gradually:
         ];
     }
 
-    async handleGetActiveBlessings(args: { characterName: string }) {
+    registerTools(registry: ToolRegistry): void {
+        registry.registerTools(this.getToolDefinitions(), {
+            "get-active-blessings": { validator: getActiveBlessingsSchema, handler: args => this.handleGetActiveBlessings(args) },
+            "invoke-prayer": { validator: invokePrayerSchema, handler: args => this.handleInvokePrayer(args) },
+            "check-divine-favor": { validator: checkDivineFavorSchema, handler: args => this.handleCheckDivineFavor(args) },
+            "add-sin-point": { validator: addSinPointSchema, handler: args => this.handleAddSinPoint(args) },
+            "perform-penance": { validator: performPenanceSchema, handler: args => this.handlePerformPenance(args) },
+            "end-blessing": { validator: endBlessingSchema, handler: args => this.handleEndBlessing(args) },
+        });
+    }
+
+    async handleGetActiveBlessings(args: z.infer<typeof getActiveBlessingsSchema>) {
         this.logger.info("Getting active blessings", { characterName: args.characterName });
 
         const response = await this.foundryClient.query(
@@ -440,13 +488,7 @@ ${character.name} has no active divine blessings or prayers currently affecting
         };
     }
 
-    async handleInvokePrayer(args: {
-        characterName: string;
-        prayerName: string;
-        deity: string;
-        difficulty: string;
-        target?: string;
-    }) {
+    async handleInvokePrayer(args: z.infer<typeof invokePrayerSchema>) {
         this.logger.info("Invoking prayer", {
             characterName: args.characterName,
             prayerName: args.prayerName,
@@ -638,7 +680,7 @@ Use \`perform-penance\` to seek redemption!`,
         };
     }
 
-    async handleCheckDivineFavor(args: { characterName: string }) {
+    async handleCheckDivineFavor(args: z.infer<typeof checkDivineFavorSchema>) {
         this.logger.info("Checking divine favor", { characterName: args.characterName });
 
         const response = await this.foundryClient.query(
@@ -764,12 +806,7 @@ Use \`perform-penance\` to seek redemption!`,
         };
     }
 
-    async handleAddSinPoint(args: {
-        characterName: string;
-        sinPoints: number;
-        reason: string;
-        deity: string;
-    }) {
+    async handleAddSinPoint(args: z.infer<typeof addSinPointSchema>) {
         this.logger.info("Adding sin points", {
             characterName: args.characterName,
             sinPoints: args.sinPoints,
@@ -872,12 +909,7 @@ Use \`perform-penance\` to seek redemption!`,
         };
     }
 
-    async handlePerformPenance(args: {
-        characterName: string;
-        penanceType: string;
-        sinReduction: number;
-        description: string;
-    }) {
+    async handlePerformPenance(args: z.infer<typeof performPenanceSchema>) {
         this.logger.info("Performing penance", {
             characterName: args.characterName,
             penanceType: args.penanceType,
@@ -996,11 +1028,7 @@ Use \`perform-penance\` to seek redemption!`,
         };
     }
 
-    async handleEndBlessing(args: {
-        characterName: string;
-        blessingName: string;
-        reason: string;
-    }) {
+    async handleEndBlessing(args: z.infer<typeof endBlessingSchema>) {
         this.logger.info("Ending blessing", {
             characterName: args.characterName,
             blessingName: args.blessingName,
@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { FoundryClient } from '../foundry-client.js';
 import { Logger } from '../logger.js';
+import { ToolRegistry } from '../tool-registry.js';
 import { ErrorHandler } from '../utils/error-handler.js';
 
 export interface QuestCreationToolsOptions {
@@ -27,6 +28,39 @@ interface QuestJournalResult {
   success: boolean;
 }
 
+const createQuestJournalSchema = z.object({
+  questTitle: z.string().min(1, 'Quest title is required'),
+  questDescription: z.string().min(1, 'Quest description is required'),
+  questType: z.enum(['main', 'side', 'personal', 'mystery', 'fetch', 'escort', 'kill', 'collection']).optional(),
+  difficulty: z.enum(['easy', 'medium', 'hard', 'deadly']).optional(),
+  location: z.string().optional(),
+  questGiver: z.string().optional(),
+  npcName: z.string().optional(),
+  rewards: z.string().optional()
+});
+
+const linkQuestToNpcSchema = z.object({
+  journalId: z.string().min(1, 'Journal ID is required'),
+  npcName: z.string().min(1, 'NPC name is required'),
+  relationship: z.enum(['quest_giver', 'target', 'ally', 'enemy', 'contact'])
+});
+
+const updateQuestJournalSchema = z.object({
+  journalId: z.string().min(1, 'Journal ID is required'),
+  newContent: z.string().min(1, 'New content is required'),
+  updateType: z.enum(['progress', 'completion', 'failure', 'modification'])
+});
+
+const listJournalsSchema = z.object({
+  filterQuests: z.boolean().optional().default(false),
+  includeContent: z.boolean().optional().default(false)
+});
+
+const searchJournalsSchema = z.object({
+  searchQuery: z.string().min(1, 'Search query is required'),
+  searchType: z.enum(['title', 'content', 'both']).optional().default('both')
+});
+
 export class QuestCreationTools {
   private foundryClient: FoundryClient;
   private logger: Logger;
@@ -172,25 +206,21 @@ export class QuestCreationTools {
     ];
   }
 
+  registerTools(registry: ToolRegistry): void {
+    registry.registerTools(this.getToolDefinitions(), {
+      'create-quest-journal': { validator: createQuestJournalSchema, handler: args => this.handleCreateQuestJournal(args) },
+      'link-quest-to-npc': { validator: linkQuestToNpcSchema, handler: args => this.handleLinkQuestToNPC(args) },
+      'update-quest-journal': { validator: updateQuestJournalSchema, handler: args => this.handleUpdateQuestJournal(args) },
+      'list-journals': { validator: listJournalsSchema, handler: args => this.handleListJournals(args) },
+      'search-journals': { validator: searchJournalsSchema, handler: args => this.handleSearchJournals(args) },
+    });
+  }
+
   /**
    * Handle create quest journal request
    */
-  async handleCreateQuestJournal(args: any): Promise<any> {
+  async handleCreateQuestJournal(request: z.infer<typeof createQuestJournalSchema>): Promise<any> {
     try {
-      // Validate arguments
-      const requestSchema = z.object({
-        questTitle: z.string().min(1, 'Quest title is required'),
-        questDescription: z.string().min(1, 'Quest description is required'),
-        questType: z.enum(['main', 'side', 'personal', 'mystery', 'fetch', 'escort', 'kill', 'collection']).optional(),
-        difficulty: z.enum(['easy', 'medium', 'hard', 'deadly']).optional(),
-        location: z.string().optional(),
-        questGiver: z.string().optional(),
-        npcName: z.string().optional(),
-        rewards: z.string().optional()
-      });
-
-      const request = requestSchema.parse(args);
-
       // Generate formatted quest content
       const questContent = this.generateQuestContent(request);
 
@@ -220,16 +250,8 @@ export class QuestCreationTools {
   /**
    * Handle link quest to NPC request
    */
-  async handleLinkQuestToNPC(args: any): Promise<any> {
+  async handleLinkQuestToNPC(request: z.infer<typeof linkQuestToNpcSchema>): Promise<any> {
     try {
-      const requestSchema = z.object({
-        journalId: z.string().min(1, 'Journal ID is required'),
-        npcName: z.string().min(1, 'NPC name is required'),
-        relationship: z.enum(['quest_giver', 'target', 'ally', 'enemy', 'contact'])
-      });
-
-      const request = requestSchema.parse(args);
-
       // Get journal content first
       const journalResult = await this.foundryClient.query('foundry-mcp-bridge.getJournalContent', {
         journalId: request.journalId
@@ -268,16 +290,8 @@ export class QuestCreationTools {
   /**
    * Handle update quest journal request
    */
-  async handleUpdateQuestJournal(args: any): Promise<any> {
+  async handleUpdateQuestJournal(request: z.infer<typeof updateQuestJournalSchema>): Promise<any> {
     try {
-      const requestSchema = z.object({
-        journalId: z.string().min(1, 'Journal ID is required'),
-        newContent: z.string().min(1, 'New content is required'),
-        updateType: z.enum(['progress', 'completion', 'failure', 'modification'])
-      });
-
-      const request = requestSchema.parse(args);
-
       // Auto-convert Markdown to plain text with warning (don't block)
       request.newContent = this.convertMarkdownToPlainText(request.newContent);
 
@@ -361,15 +375,8 @@ export class QuestCreationTools {
   /**
    * Handle list journals request
    */
-  async handleListJournals(args: any): Promise<any> {
+  async handleListJournals(request: z.infer<typeof listJournalsSchema>): Promise<any> {
     try {
-      const requestSchema = z.object({
-        filterQuests: z.boolean().optional().default(false),
-        includeContent: z.boolean().optional().default(false)
-      });
-
-      const request = requestSchema.parse(args);
-
       // Get all journals
       const journals = await this.foundryClient.query('foundry-mcp-bridge.listJournals', {});
 
@@ -415,15 +422,8 @@ export class QuestCreationTools {
   /**
    * Handle search journals request
    */
-  async handleSearchJournals(args: any): Promise<any> {
+  async handleSearchJournals(request: z.infer<typeof searchJournalsSchema>): Promise<any> {
     try {
-      const requestSchema = z.object({
-        searchQuery: z.string().min(1, 'Search query is required'),
-        searchType: z.enum(['title', 'content', 'both']).optional().default('both')
-      });
-
-      const request = requestSchema.parse(args);
-
       // Get all journals
       const journals = await this.foundryClient.query('foundry-mcp-bridge.listJournals', {});
 
@@ -1,6 +1,35 @@
 import { z } from "zod";
 import { FoundryClient } from "../foundry-client.js";
 import { Logger } from "../logger.js";
+import { ToolRegistry } from "../tool-registry.js";
+
+const createRolltableSchema = z.object({
+    name: z.string().min(1, "Table name cannot be empty"),
+    description: z.string().optional(),
+    formula: z.string().optional(),
+    entries: z.array(z.object({
+        text: z.string(),
+        weight: z.number().optional(),
+        range: z.tuple([z.number(), z.number()]).optional(),
+    })),
+    replacement: z.boolean().optional(),
+    displayRoll: z.boolean().optional(),
+});
+
+const listRolltablesSchema = z.object({});
+
+const getRolltableSchema = z.object({
+    tableId: z.string().min(1, "Table ID cannot be empty"),
+});
+
+const rollOnTableSchema = z.object({
+    tableId: z.string().min(1, "Table ID cannot be empty"),
+    rollMode: z.enum(["public", "private", "blind", "self"]).optional(),
+});
+
+const deleteRolltableSchema = z.object({
+    tableId: z.string().min(1, "Table ID cannot be empty"),
+});
 
 export class RollTableTools {
     constructor(
@@ -160,14 +189,17 @@ WARNING: This permanently removes the table. Make sure you have the correct tabl
         ];
     }
 
-    async handleCreateRollTable(args: {
-        name: string;
-        description?: string;
-        formula?: string;
-        entries: Array<{ text: string; weight?: number; range?: [number, number] }>;
-        replacement?: boolean;
-        displayRoll?: boolean;
-    }) {
+    registerTools(registry: ToolRegistry): void {
+        registry.registerTools(this.getToolDefinitions(), {
+            "create-rolltable": { validator: createRolltableSchema, handler: args => this.handleCreateRollTable(args) },
+            "list-rolltables": { validator: listRolltablesSchema, handler: args => this.handleListRollTables(args) },
+            "get-rolltable": { validator: getRolltableSchema, handler: args => this.handleGetRollTable(args) },
+            "roll-on-table": { validator: rollOnTableSchema, handler: args => this.handleRollOnTable(args) },
+            "delete-rolltable": { validator: deleteRolltableSchema, handler: args => this.handleDeleteRollTable(args) },
+        });
+    }
+
+    async handleCreateRollTable(args: z.infer<typeof createRolltableSchema>) {
         this.logger.info("Creating RollTable", {
             name: args.name,
             entryCount: args.entries.length,
@@ -261,7 +293,7 @@ WARNING: This permanently removes the table. Make sure you have the correct tabl
         }
     }
 
-    async handleListRollTables(args: {}) {
+    async handleListRollTables(args: z.infer<typeof listRolltablesSchema>) {
         this.logger.info("Listing RollTables");
 
         try {
@@ -302,7 +334,7 @@ WARNING: This permanently removes the table. Make sure you have the correct tabl
         }
     }
 
-    async handleGetRollTable(args: { tableId: string }) {
+    async handleGetRollTable(args: z.infer<typeof getRolltableSchema>) {
         this.logger.info("Getting RollTable", { tableId: args.tableId });
 
         try {
@@ -347,7 +379,7 @@ WARNING: This permanently removes the table. Make sure you have the correct tabl
         }
     }
 
-    async handleRollOnTable(args: { tableId: string; rollMode?: string }) {
+    async handleRollOnTable(args: z.infer<typeof rollOnTableSchema>) {
         this.logger.info("Rolling on RollTable", {
             tableId: args.tableId,
             rollMode: args.rollMode || "public"
@@ -381,7 +413,7 @@ WARNING: This permanently removes the table. Make sure you have the correct tabl
         }
     }
 
-    async handleDeleteRollTable(args: { tableId: string }) {
+    async handleDeleteRollTable(args: z.infer<typeof deleteRolltableSchema>) {
         this.logger.info("Deleting RollTable", { tableId: args.tableId });
 
         try {
@@ -1,12 +1,20 @@
 import { z } from 'zod';
 import { FoundryClient } from '../foundry-client.js';
 import { Logger } from '../logger.js';
+import { ToolRegistry } from '../tool-registry.js';
 
 export interface SceneToolsOptions {
   foundryClient: FoundryClient;
   logger: Logger;
 }
 
+const getCurrentSceneSchema = z.object({
+  includeTokens: z.boolean().default(true),
+  includeHidden: z.boolean().default(false),
+});
+
+const getWorldInfoSchema = z.object({});
+
 export class SceneTools {
   private foundryClient: FoundryClient;
   private logger: Logger;
@@ -51,13 +59,15 @@ export class SceneTools {
     ];
   }
 
-  async handleGetCurrentScene(args: any): Promise<any> {
-    const schema = z.object({
-      includeTokens: z.boolean().default(true),
-      includeHidden: z.boolean().default(false),
+  registerTools(registry: ToolRegistry): void {
+    registry.registerTools(this.getToolDefinitions(), {
+      'get-current-scene': { validator: getCurrentSceneSchema, handler: args => this.handleGetCurrentScene(args) },
+      'get-world-info': { validator: getWorldInfoSchema, handler: args => this.handleGetWorldInfo(args) },
     });
+  }
 
-    const { includeTokens, includeHidden } = schema.parse(args);
+  async handleGetCurrentScene(args: z.infer<typeof getCurrentSceneSchema>): Promise<any> {
+    const { includeTokens, includeHidden } = args;
 
     this.logger.info('Getting current scene information', { includeTokens, includeHidden });
 
@@ -78,7 +88,7 @@ export class SceneTools {
     }
   }
 
-  async handleGetWorldInfo(_args: any): Promise<any> {
+  async handleGetWorldInfo(_args: z.infer<typeof getWorldInfoSchema>): Promise<any> {
     this.logger.info('Getting world information');
 
     try {
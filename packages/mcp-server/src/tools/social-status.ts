@@ -1,6 +1,35 @@
 import { z } from "zod";
 import { FoundryClient } from "../foundry-client.js";
 import { Logger } from "../logger.js";
+import { ToolRegistry } from "../tool-registry.js";
+import { WFRP_STATUS_TIER_NAMES, getCharacteristicBonus, getStandingTier } from "@foundry-mcp/shared";
+
+const getSocialStatusSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+});
+
+const changeSocialStatusSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+    newStanding: z.number().int().min(0).max(10),
+    reason: z.string(),
+});
+
+const makeSocialTestSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+    skillName: z.string().min(1, "Skill name cannot be empty"),
+    targetName: z.string(),
+    targetStatus: z.number(),
+    situationModifier: z.number().optional(),
+});
+
+const calculateIncomeSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+});
+
+const checkReputationSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+    location: z.string().optional(),
+});
 
 export class SocialStatusTools {
     constructor(
@@ -345,7 +374,17 @@ Reputation Scope:
         ];
     }
 
-    async handleGetSocialStatus(args: { characterName: string }) {
+    registerTools(registry: ToolRegistry): void {
+        registry.registerTools(this.getToolDefinitions(), {
+            "get-social-status": { validator: getSocialStatusSchema, handler: args => this.handleGetSocialStatus(args) },
+            "change-social-status": { validator: changeSocialStatusSchema, handler: args => this.handleChangeSocialStatus(args) },
+            "make-social-test": { validator: makeSocialTestSchema, handler: args => this.handleMakeSocialTest(args) },
+            "calculate-income": { validator: calculateIncomeSchema, handler: args => this.handleCalculateIncome(args) },
+            "check-reputation": { validator: checkReputationSchema, handler: args => this.handleCheckReputation(args) },
+        });
+    }
+
+    async handleGetSocialStatus(args: z.infer<typeof getSocialStatusSchema>) {
         this.logger.info("Getting social status", { characterName: args.characterName });
 
         const response = await this.foundryClient.query(
@@ -371,27 +410,14 @@ Reputation Scope:
         const statusTier = character.system?.details?.status?.tier || "brass";
 
         // Determine tier and description
-        let tier = "";
-        let tierEmoji = "";
-        let tierDescription = "";
-        let incomeRange = "";
-
-        if (standing <= 1) {
-            tier = "Brass";
-            tierEmoji = "🟤";
-            tierDescription = "Lower class - Peasants and laborers";
-            incomeRange = "1-2d10 brass pennies/day";
-        } else if (standing <= 4) {
-            tier = "Silver";
-            tierEmoji = "⚪";
-            tierDescription = "Middle class - Craftsmen and professionals";
-            incomeRange = "1-4 gold crowns/day";
-        } else {
-            tier = "Gold";
-            tierEmoji = "🟡";
-            tierDescription = "Upper class - Knights and nobility";
-            incomeRange = "10+ gold crowns/day";
-        }
+        const tierDetails = {
+            brass: { emoji: "🟤", description: "Lower class - Peasants and laborers", income: "1-2d10 brass pennies/day" },
+            silver: { emoji: "⚪", description: "Middle class - Craftsmen and professionals", income: "1-4 gold crowns/day" },
+            gold: { emoji: "🟡", description: "Upper class - Knights and nobility", income: "10+ gold crowns/day" },
+        };
+        const tierKey = getStandingTier(standing);
+        const tier = WFRP_STATUS_TIER_NAMES[tierKey];
+        const { emoji: tierEmoji, description: tierDescription, income: incomeRange } = tierDetails[tierKey];
 
         let statusReport = `👑 **${character.name}** - Social Status\n\n`;
         statusReport += `${tierEmoji} **Status Tier:** ${tier}\n`;
@@ -452,7 +478,7 @@ Reputation Scope:
 
         // Fellowship for social tests
         const fellowship = character.system?.characteristics?.fel?.value || 0;
-        const felBonus = Math.floor(fellowship / 10);
+        const felBonus = getCharacteristicBonus(fellowship);
         statusReport += `**Fellowship:** ${fellowship} (Bonus: ${felBonus})\n`;
 
         // Check for social skills
@@ -477,11 +503,7 @@ Reputation Scope:
         };
     }
 
-    async handleChangeSocialStatus(args: {
-        characterName: string;
-        newStanding: number;
-        reason: string;
-    }) {
+    async handleChangeSocialStatus(args: z.infer<typeof changeSocialStatusSchema>) {
         this.logger.info("Changing social status", {
             characterName: args.characterName,
             newStanding: args.newStanding,
@@ -532,8 +554,8 @@ Reputation Scope:
         const direction = change > 0 ? "increased" : "decreased";
 
         // Determine old and new tiers
-        const oldTier = oldStanding <= 1 ? "Brass" : oldStanding <= 4 ? "Silver" : "Gold";
-        const newTier = args.newStanding <= 1 ? "Brass" : args.newStanding <= 4 ? "Silver" : "Gold";
+        const oldTier = WFRP_STATUS_TIER_NAMES[getStandingTier(oldStanding)];
+        const newTier = WFRP_STATUS_TIER_NAMES[getStandingTier(args.newStanding)];
         const tierChanged = oldTier !== newTier;
 
         let resultText = `👑 **Social Status Change**\n\n`;
@@ -635,13 +657,7 @@ Reputation Scope:
         };
     }
 
-    async handleMakeSocialTest(args: {
-        characterName: string;
-        skillName: string;
-        targetName: string;
-        targetStatus: number;
-        situationModifier?: number;
-    }) {
+    async handleMakeSocialTest(args: z.infer<typeof makeSocialTestSchema>) {
         this.logger.info("Making social test", {
             characterName: args.characterName,
             skillName: args.skillName,
@@ -849,7 +865,7 @@ Reputation Scope:
         };
     }
 
-    async handleCalculateIncome(args: { characterName: string }) {
+    async handleCalculateIncome(args: z.infer<typeof calculateIncomeSchema>) {
         this.logger.info("Calculating income", { characterName: args.characterName });
 
         const response = await this.foundryClient.query(
@@ -1017,7 +1033,7 @@ Reputation Scope:
         };
     }
 
-    async handleCheckReputation(args: { characterName: string; location?: string }) {
+    async handleCheckReputation(args: z.infer<typeof checkReputationSchema>) {
         this.logger.info("Checking reputation", { characterName: args.characterName });
 
         const response = await this.foundryClient.query(
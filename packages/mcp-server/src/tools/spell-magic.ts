@@ -1,11 +1,57 @@
 import { z } from "zod";
 import { FoundryClient } from "../foundry-client.js";
 import { Logger } from "../logger.js";
+import { ToolRegistry } from "../tool-registry.js";
+import { getCharacteristicBonus } from "@foundry-mcp/shared";
+import { CorruptionMutationTools } from "./corruption-mutation.js";
+import { MiscastTableResult, rollDiceExpression, rollMiscastTable } from "../data/miscast-tables.js";
+
+const getKnownSpellsSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+    lore: z.string().optional(),
+});
+
+const castSpellSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+    spellName: z.string().min(1, "Spell name cannot be empty"),
+    channelledSL: z.number().optional(),
+    target: z.string().optional(),
+    modifier: z.number().optional(),
+});
+
+const channelPowerSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+    lore: z.string().min(1, "Lore cannot be empty"),
+    modifier: z.number().optional(),
+});
+
+const checkMiscastSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+    spellName: z.string().min(1, "Spell name cannot be empty"),
+    failureLevel: z.number(),
+    castingNumber: z.number(),
+    roll: z.number().optional(),
+});
+
+const memorizeSpellSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+    spellName: z.string().min(1, "Spell name cannot be empty"),
+    forgetSpell: z.string().optional(),
+});
+
+const learnNewSpellSchema = z.object({
+    characterName: z.string().min(1, "Character name cannot be empty"),
+    spellName: z.string().min(1, "Spell name cannot be empty"),
+    lore: z.string().min(1, "Lore cannot be empty"),
+    castingNumber: z.number(),
+    source: z.enum(["teacher", "scroll", "grimoire", "research"]),
+});
 
 export class SpellMagicTools {
     constructor(
         private foundryClient: FoundryClient,
-        private logger: Logger
+        private logger: Logger,
+        private corruptionTools: CorruptionMutationTools
     ) { }
 
     getToolDefinitions() {
@@ -104,14 +150,13 @@ Critical Success (SL +6):
 - May gain additional benefits
 
 Failure & Miscast:
-- Minor Miscast (failed by 0-2): Minor consequences
-- Major Miscast (failed by 3-5): Serious effects
-- Critical Miscast (failed by 6+): Catastrophic results
+- Minor Miscast (failed by 0-2): roll on the Minor Miscast table
+- Major Miscast (failed by 3-5): roll on the Major Miscast table
+- Catastrophic Miscast (failed by 6+): roll twice on the Major Miscast table
 
-Miscast Effects:
-- Minor: Headache, nosebleed, temporary weakness
-- Major: Physical damage, Corruption, lose spell
-- Critical: Mutation, summon daemon, explosion
+Miscast results are applied automatically: Corruption is added, damage
+(ignoring TB and armour) and conditions are applied to the caster, and the
+result is posted to chat.
 
 Example Spells:
 - "Dart" (petty): CN 0, minor magic missile
@@ -247,13 +292,15 @@ Factors Affecting Miscasts:
 - Tzeentch's Curse: Wizards attract chaos
 - Location (unstable magic): Enhanced danger
 
-Miscast Table (d100):
-01-20: Minor effect (nosebleed, headache)
-21-40: Moderate damage and condition
-41-60: Corruption and spell loss
-61-80: Mutation roll required
-81-95: Daemonic manifestation
-96-00: Catastrophic explosion
+Miscast Tables (d100):
+- Minor Miscast table: Witchsign, Soul Drain, Aethyric Shock, Soulfire...
+- Major Miscast table: Ghostly Voices, Hellfire, Blood Price, Chaos Taint...
+- Catastrophic miscasts roll twice on the Major table
+- 96-00 on either table: roll twice more
+
+The rolled result is applied automatically: Corruption goes through the
+Corruption tracker (with threshold checks), damage ignores TB and armour,
+conditions are added to the caster, and the result is posted to chat.
 
 After Miscast:
 - Character may be hesitant to cast
@@ -279,6 +326,10 @@ After Miscast:
                             type: "number",
                             description: "Casting Number of the spell (affects miscast severity)",
                         },
+                        roll: {
+                            type: "number",
+                            description: "Optional: d100 result (1-100) to look up on the miscast table instead of rolling",
+                        },
                     },
                     required: ["characterName", "spellName", "failureLevel", "castingNumber"],
                 },
@@ -427,7 +478,18 @@ Adding to Grimoire:
         ];
     }
 
-    async handleGetKnownSpells(args: { characterName: string; lore?: string }) {
+    registerTools(registry: ToolRegistry): void {
+        registry.registerTools(this.getToolDefinitions(), {
+            "get-known-spells": { validator: getKnownSpellsSchema, handler: args => this.handleGetKnownSpells(args) },
+            "cast-spell": { validator: castSpellSchema, handler: args => this.handleCastSpell(args) },
+            "channel-power": { validator: channelPowerSchema, handler: args => this.handleChannelPower(args) },
+            "check-miscast": { validator: checkMiscastSchema, handler: args => this.handleCheckMiscast(args) },
+            "memorize-spell": { validator: memorizeSpellSchema, handler: args => this.handleMemorizeSpell(args) },
+            "learn-new-spell": { validator: learnNewSpellSchema, handler: args => this.handleLearnNewSpell(args) },
+        });
+    }
+
+    async handleGetKnownSpells(args: z.infer<typeof getKnownSpellsSchema>) {
         this.logger.info("Getting known spells", { characterName: args.characterName });
 
         const response = await this.foundryClient.query(
@@ -490,7 +552,7 @@ ${character.name} has not yet learned any arcane spells. Wizards learn spells th
 
         // Get Intelligence Bonus for memorization limit
         const intelligence = character.system?.characteristics?.int?.value || 0;
-        const intBonus = Math.floor(intelligence / 10);
+        const intBonus = getCharacteristicBonus(intelligence);
         const memorizedCount = spells.filter((s: any) => s.system?.memorized?.value).length;
 
         spellReport += `💭 **Memorization:** ${memorizedCount} / ${intBonus} (Intelligence Bonus)\n\n`;
@@ -542,7 +604,7 @@ ${character.name} has not yet learned any arcane spells. Wizards learn spells th
 
         // Willpower for max channelling
         const willpower = character.system?.characteristics?.wp?.value || 0;
-        const wpBonus = Math.floor(willpower / 10);
+        const wpBonus = getCharacteristicBonus(willpower);
         spellReport += `\n**Willpower:** ${willpower} (Bonus: ${wpBonus}) - Max Channelling SL: ${wpBonus}\n`;
 
         spellReport += `\n💡 Use \`cast-spell\` to invoke magic or \`channel-power\` to accumulate SL first.\n`;
@@ -553,37 +615,29 @@ ${character.name} has not yet learned any arcane spells. Wizards learn spells th
         };
     }
 
-    async handleCastSpell(args: {
-        characterName: string;
-        spellName: string;
-        channelledSL?: number;
-        target?: string;
-        modifier?: number;
-    }) {
+    async handleCastSpell(args: z.infer<typeof castSpellSchema>) {
         this.logger.info("Casting spell", {
             characterName: args.characterName,
             spellName: args.spellName,
         });
 
         // Get character and spell info
-        const charResponse = await this.foundryClient.query(
+        const character = await this.foundryClient.query(
             "foundry-mcp-bridge.getCharacterInfo",
             { characterName: args.characterName }
         );
 
-        if (!charResponse.success || !charResponse.data) {
+        if (!character) {
             return {
                 content: [
                     {
                         type: "text",
-                        text: `❌ Failed to get character info: ${charResponse.error || "Unknown error"}`,
+                        text: `❌ Character "${args.characterName}" not found`,
                     },
                 ],
             };
         }
 
-        const character = charResponse.data;
-
         // Find the spell
         const spell = character.items?.find(
             (item: any) => item.type === "spell" && item.name === args.spellName
@@ -685,44 +739,10 @@ ${character.name} has not yet learned any arcane spells. Wizards learn spells th
             resultText += `- Achieved: ${totalSL} SL\n`;
             resultText += `- Failed by: ${failedBy} SL\n\n`;
 
-            // Determine miscast severity
-            let severity = "";
-            let effects = "";
-
-            if (failedBy <= 2) {
-                severity = "🟡 **MINOR MISCAST**";
-                effects = `**Effects:**\n`;
-                effects += `- Headache and nosebleed\n`;
-                effects += `- -10 to next casting test\n`;
-                effects += `- Spell energy dissipates harmlessly\n`;
-                effects += `- Minor magical backlash (flickering lights, cold breeze)\n`;
-                effects += `- No lasting damage\n\n`;
-                effects += `The wizard shakes off the failed casting. A learning experience.`;
-            } else if (failedBy <= 5) {
-                severity = "🟠 **MAJOR MISCAST**";
-                effects = `**Serious Effects:**\n`;
-                effects += `- Take 1d10 wounds (ignoring armor)\n`;
-                effects += `- Gain 1-2 Corruption points\n`;
-                effects += `- Lose spell temporarily (forget until rest)\n`;
-                effects += `- Magical backlash affects area (lights explode, cold wave)\n`;
-                effects += `- May gain Fatigued or Stunned condition\n`;
-                effects += `- -20 to next casting test\n\n`;
-                effects += `⚠️ The winds of magic lash back violently! Use \`check-miscast\` for detailed effects.`;
-            } else {
-                severity = "🔴 **CRITICAL MISCAST - CATASTROPHIC!**";
-                effects = `**CATASTROPHIC EFFECTS:**\n`;
-                effects += `- Take 2d10 wounds (ignoring armor)\n`;
-                effects += `- Gain 1d10 Corruption points (roll mutation table!)\n`;
-                effects += `- Risk of summoning a daemon\n`;
-                effects += `- Magical explosion affects large area (everyone nearby)\n`;
-                effects += `- May PERMANENTLY lose the spell\n`;
-                effects += `- Unconscious or death possible\n`;
-                effects += `- Reality tears, strange phenomena\n\n`;
-                effects += `💀 **EXTREME DANGER!** The fabric of reality rebels against the failed magic!\n`;
-                effects += `Use \`check-miscast\` immediately to determine full catastrophic effects!`;
-            }
+            const corruption = character.system?.status?.corruption?.value || 0;
+            const severityLevel = this.getMiscastSeverity(failedBy, corruption);
 
-            resultText += `${severity}\n\n${effects}`;
+            resultText += await this.resolveMiscast(character, args.spellName, severityLevel);
         }
 
         return {
@@ -730,11 +750,7 @@ ${character.name} has not yet learned any arcane spells. Wizards learn spells th
         };
     }
 
-    async handleChannelPower(args: {
-        characterName: string;
-        lore: string;
-        modifier?: number;
-    }) {
+    async handleChannelPower(args: z.infer<typeof channelPowerSchema>) {
         this.logger.info("Channelling power", {
             characterName: args.characterName,
             lore: args.lore,
@@ -758,7 +774,7 @@ ${character.name} has not yet learned any arcane spells. Wizards learn spells th
 
         const character = response.data;
         const willpower = character.system?.characteristics?.wp?.value || 0;
-        const wpBonus = Math.floor(willpower / 10);
+        const wpBonus = getCharacteristicBonus(willpower);
 
         // Capitalize lore name for skill (e.g., 'fire' -> 'Fire')
         const capitalizedLore = args.lore.charAt(0).toUpperCase() + args.lore.slice(1);
@@ -867,125 +883,50 @@ ${character.name} has not yet learned any arcane spells. Wizards learn spells th
         };
     }
 
-    async handleCheckMiscast(args: {
-        characterName: string;
-        spellName: string;
-        failureLevel: number;
-        castingNumber: number;
-    }) {
+    async handleCheckMiscast(args: z.infer<typeof checkMiscastSchema>) {
         this.logger.info("Checking miscast", {
             characterName: args.characterName,
             spellName: args.spellName,
             failureLevel: args.failureLevel,
         });
 
-        const response = await this.foundryClient.query(
+        const character = await this.foundryClient.query(
             "foundry-mcp-bridge.getCharacterInfo",
             { characterName: args.characterName }
         );
 
-        if (!response.success || !response.data) {
+        if (!character) {
             return {
                 content: [
                     {
                         type: "text",
-                        text: `❌ Failed to get character info: ${response.error || "Unknown error"}`,
+                        text: `❌ Character "${args.characterName}" not found`,
                     },
                 ],
             };
         }
 
-        const character = response.data;
         const corruption = character.system?.status?.corruption?.value || 0;
         const failedBy = Math.abs(args.failureLevel);
-
-        // Determine severity (corruption makes it worse)
-        let severity = "";
-        let severityLevel = 0;
-
-        if (failedBy <= 2) {
-            severityLevel = 1;
-            severity = "MINOR MISCAST";
-        } else if (failedBy <= 5) {
-            severityLevel = 2;
-            severity = "MAJOR MISCAST";
-        } else {
-            severityLevel = 3;
-            severity = "CRITICAL MISCAST";
-        }
-
-        // Corruption increases severity
-        if (corruption >= 6) {
-            severityLevel = Math.min(3, severityLevel + 1);
-        }
+        const severityLevel = this.getMiscastSeverity(failedBy, corruption);
+        const severity = ["", "MINOR MISCAST", "MAJOR MISCAST", "CATASTROPHIC MISCAST"][severityLevel];
 
         let resultText = `💥 **MISCAST EFFECTS** - ${args.spellName}\n\n`;
-        resultText += `**Caster:** ${args.characterName}\n`;
+        resultText += `**Caster:** ${character.name}\n`;
         resultText += `**Failed By:** ${failedBy} SL\n`;
         resultText += `**Casting Number:** ${args.castingNumber}\n`;
         resultText += `**Corruption:** ${corruption} ${corruption >= 6 ? "(INCREASES SEVERITY)" : ""}\n`;
         resultText += `**Severity:** ${severity}\n\n`;
 
-        // Roll d100 for specific effect
-        const d100 = Math.floor(Math.random() * 100) + 1;
-        resultText += `**Miscast Roll:** ${d100}\n\n`;
-
-        let effect = "";
-
-        if (severityLevel === 1) {
-            // Minor Miscast
-            if (d100 <= 20) {
-                effect = `**Nosebleed:**\n- Blood streams from nose\n- -10 to next casting test\n- Looks concerning but harmless\n- Wipes away in a minute`;
-            } else if (d100 <= 40) {
-                effect = `**Headache:**\n- Splitting headache\n- -10 to all Intelligence tests for 1 hour\n- -5 to casting tests\n- Aspirin helps (if available)`;
-            } else if (d100 <= 60) {
-                effect = `**Magical Discharge:**\n- Harmless sparks and flashes\n- Hair stands on end\n- Nearby candles flicker\n- Minor property damage`;
-            } else if (d100 <= 80) {
-                effect = `**Temporary Weakness:**\n- Fatigued condition for 10 minutes\n- -10 to physical tests\n- Need to catch breath\n- Rest helps`;
-            } else {
-                effect = `**Magical Hiccups:**\n- Random magical sparks when speaking\n- -10 to social tests for 1 hour\n- Harmless but embarrassing\n- Color changes with each hiccup`;
-            }
-        } else if (severityLevel === 2) {
-            // Major Miscast
-            if (d100 <= 20) {
-                effect = `**Magical Backlash:**\n- Take 1d10 wounds (ignoring armor)\n- Knocked back 1d10 feet\n- Stunned for 1 round\n- Roll 1d10 for wounds: ${Math.floor(Math.random() * 10) + 1} wounds taken!`;
-            } else if (d100 <= 40) {
-                effect = `**Corruption Surge:**\n- Gain 2 Corruption points\n- Physical marks appear (veins darken, eyes glow)\n- -10 to Fellowship tests until corruption cleansed\n- Check corruption threshold!`;
-            } else if (d100 <= 60) {
-                effect = `**Spell Burned Out:**\n- Lose ${args.spellName} temporarily\n- Cannot cast this spell until completing 8 hours rest\n- Grimoire page smolders but not destroyed\n- Painful lesson learned`;
-            } else if (d100 <= 80) {
-                effect = `**Area Backlash:**\n- Everyone within 10 feet takes 1d10 damage\n- Random magical effects in area\n- Items may be damaged\n- Party will NOT be happy\n- Roll 1d10: ${Math.floor(Math.random() * 10) + 1} damage to area!`;
-            } else {
-                effect = `**Magical Overload:**\n- Fatigued AND Stunned conditions\n- Cannot cast spells for 1 hour\n- -20 to all tests for 10 minutes\n- Physical collapse (may fall unconscious)`;
-            }
-        } else {
-            // Critical Miscast
-            if (d100 <= 20) {
-                effect = `**CATASTROPHIC EXPLOSION:**\n- Take 2d10 wounds (ignoring armor)\n- Everyone within 20 feet takes 1d10 wounds\n- Structure damage (roof/walls may collapse)\n- Magical shockwave visible for miles\n- Roll 2d10: ${Math.floor(Math.random() * 10) + 1 + Math.floor(Math.random() * 10) + 1} wounds taken!\n- ⚠️ This could be fatal!`;
-            } else if (d100 <= 40) {
-                effect = `**CORRUPTION SURGE:**\n- Gain 1d10 Corruption points\n- IMMEDIATE mutation roll required!\n- Physical transformation begins\n- May attract Chaos attention\n- Roll 1d10: ${Math.floor(Math.random() * 10) + 1} corruption gained!\n- 💀 Check mutation table NOW!`;
-            } else if (d100 <= 60) {
-                effect = `**DAEMONIC MANIFESTATION:**\n- Tear in reality opens\n- Lesser daemon summoned (hostile to all!)\n- Combat begins immediately\n- Daemon bound to this location\n- May spread corruption\n- 🔥 EXTREME DANGER! Initiative roll!`;
-            } else if (d100 <= 80) {
-                effect = `**SPELL PERMANENTLY LOST:**\n- ${args.spellName} ERASED from grimoire\n- Pages crumble to ash\n- Cannot relearn for 1d10 months\n- Knowledge burned from mind\n- Psychological trauma (-10 WP for week)\n- 💔 The spell is gone forever (for now)`;
-            } else {
-                effect = `**REALITY TEAR:**\n- Rift to Realm of Chaos opens\n- Warp energy floods area\n- Everyone gains 1d10 Corruption\n- Mutations likely for all nearby\n- Area permanently tainted\n- Strange phenomena persist\n- 💀 THIS IS VERY BAD!\n- Witch hunters may investigate\n- Party reputation destroyed`;
-            }
-        }
-
-        resultText += `## Effect\n${effect}\n\n`;
+        resultText += await this.resolveMiscast(character, args.spellName, severityLevel, args.roll);
 
-        resultText += `---\n`;
-        resultText += `**Immediate Actions Required:**\n`;
-        if (severityLevel >= 2) {
-            resultText += `1. Apply damage/conditions immediately\n`;
-            resultText += `2. Update corruption status\n`;
-            resultText += `3. Check for mutations if corruption high\n`;
-        }
+        resultText += `\n---\n`;
+        resultText += `**Remaining GM Actions:**\n`;
+        resultText += `1. Resolve any Tests named in the effect (Cool, Endurance...)\n`;
+        resultText += `2. Narrate effects on bystanders and the surroundings\n`;
         if (severityLevel === 3) {
-            resultText += `4. Roll initiative if daemon summoned\n`;
-            resultText += `5. Consider party morale/reputation\n`;
-            resultText += `6. Plan how to hide this from authorities\n`;
+            resultText += `3. Roll initiative if a daemon manifests\n`;
+            resultText += `4. Consider who witnessed this — witch hunters may follow\n`;
         }
 
         resultText += `\n⚠️ **Lesson:** Magic is dangerous. Channel carefully and don't overreach!`;
@@ -995,11 +936,7 @@ ${character.name} has not yet learned any arcane spells. Wizards learn spells th
         };
     }
 
-    async handleMemorizeSpell(args: {
-        characterName: string;
-        spellName: string;
-        forgetSpell?: string;
-    }) {
+    async handleMemorizeSpell(args: z.infer<typeof memorizeSpellSchema>) {
         this.logger.info("Memorizing spell", {
             characterName: args.characterName,
             spellName: args.spellName,
@@ -1023,7 +960,7 @@ ${character.name} has not yet learned any arcane spells. Wizards learn spells th
 
         const character = response.data;
         const intelligence = character.system?.characteristics?.int?.value || 0;
-        const intBonus = Math.floor(intelligence / 10);
+        const intBonus = getCharacteristicBonus(intelligence);
 
         // Find spell
         const spell = character.items?.find(
@@ -1148,13 +1085,7 @@ ${character.name} has not yet learned any arcane spells. Wizards learn spells th
         };
     }
 
-    async handleLearnNewSpell(args: {
-        characterName: string;
-        spellName: string;
-        lore: string;
-        castingNumber: number;
-        source: string;
-    }) {
+    async handleLearnNewSpell(args: z.infer<typeof learnNewSpellSchema>) {
         this.logger.info("Learning new spell", {
             characterName: args.characterName,
             spellName: args.spellName,
@@ -1261,4 +1192,105 @@ ${character.name} has not yet learned any arcane spells. Wizards learn spells th
             content: [{ type: "text", text: resultText }],
         };
     }
+
+    /**
+     * Miscast severity: 1 = Minor, 2 = Major, 3 = Catastrophic. High Corruption (6+) makes it one step worse.
+     */
+    private getMiscastSeverity(failedBy: number, corruption: number): number {
+        let severityLevel = failedBy <= 2 ? 1 : failedBy <= 5 ? 2 : 3;
+        if (corruption >= 6) {
+            severityLevel = Math.min(3, severityLevel + 1);
+        }
+        return severityLevel;
+    }
+
+    /**
+     * Roll on the Minor/Major Miscast table and apply the result to the caster:
+     * Corruption goes through the corruption tracker, damage and conditions are applied in Foundry,
+     * and the outcome is posted to chat.
+     */
+    private async resolveMiscast(character: any, spellName: string, severityLevel: number, roll?: number): Promise<string> {
+        const results: MiscastTableResult[] = rollMiscastTable(severityLevel === 1 ? "minor" : "major", roll);
+        if (severityLevel === 3) {
+            results.push(...rollMiscastTable("major"));
+        }
+
+        const headings = ["", "🟡 **MINOR MISCAST**", "🟠 **MAJOR MISCAST**", "🔴 **CATASTROPHIC MISCAST** (two Major Miscasts)"];
+        let text = `${headings[severityLevel]}\n\n`;
+        for (const result of results) {
+            text += `**${result.table === "minor" ? "Minor" : "Major"} Miscast ${String(result.roll).padStart(2, "0")} — ${result.entry.name}:** ${result.entry.effect}\n\n`;
+        }
+
+        const damage = results.reduce((total, result) => total + (result.entry.damage ? rollDiceExpression(result.entry.damage) : 0), 0);
+        const corruption = results.reduce((total, result) => total + (result.entry.corruption ? rollDiceExpression(result.entry.corruption) : 0), 0);
+        const conditions = results.flatMap((result) => result.entry.conditions);
+        const applied: string[] = [];
+        let corruptionReport = "";
+
+        if (damage > 0) {
+            const woundsCurrent = Number(character.system?.status?.wounds?.value) || 0;
+            const newWounds = Math.max(0, woundsCurrent - damage);
+            await this.foundryClient.query("foundry-mcp-bridge.updateActor", {
+                actorId: character.id,
+                updateData: { "system.status.wounds.value": newWounds },
+            });
+            applied.push(`${damage} Wound${damage === 1 ? "" : "s"} ignoring TB and armour (Wounds ${woundsCurrent} → ${newWounds})`);
+            if (newWounds === 0) {
+                applied.push(`⚠️ Reduced to 0 Wounds — roll a Critical Wound with \`add-critical-wound\``);
+            }
+        }
+
+        if (conditions.length > 0) {
+            const conditionResult = await this.foundryClient.query("foundry-mcp-bridge.addConditions", {
+                actorId: character.id,
+                conditions,
+            });
+            for (const condition of conditionResult?.applied || []) {
+                applied.push(`${condition.key.charAt(0).toUpperCase()}${condition.key.slice(1)} Condition${condition.value > 1 ? ` ×${condition.value}` : ""}`);
+            }
+            for (const key of conditionResult?.skipped || []) {
+                applied.push(`⚠️ Could not apply the ${key} Condition automatically`);
+            }
+        }
+
+        if (corruption > 0) {
+            // add-corruption accepts at most 10 points per call
+            for (let remaining = corruption; remaining > 0; remaining -= 10) {
+                corruptionReport = await this.corruptionTools.handleAddCorruption({
+                    characterName: character.id,
+                    amount: Math.min(10, remaining),
+                    reason: `Miscast while casting ${spellName}`,
+                });
+            }
+            applied.push(`+${corruption} Corruption`);
+        }
+
+        text += `**Applied to ${character.name}:**\n`;
+        text += applied.length > 0 ? applied.map((line) => `- ${line}`).join("\n") : "- No mechanical effect on the caster";
+        text += `\n\n`;
+
+        try {
+            await this.foundryClient.query("foundry-mcp-bridge.postChatMessage", {
+                actorId: character.id,
+                flavor: `Miscast: ${spellName}`,
+                content: `<div class="mcp-wfrp-miscast">${results
+                    .map((result) => `<p><strong>${result.entry.name}</strong> (${result.table === "minor" ? "Minor" : "Major"} Miscast, ${result.roll}): ${result.entry.effect}</p>`)
+                    .join("")}${applied.length > 0 ? `<ul>${applied.map((line) => `<li>${line}</li>`).join("")}</ul>` : ""}</div>`,
+                flags: {
+                    miscast: {
+                        spellName,
+                        results: results.map((result) => ({ table: result.table, roll: result.roll, name: result.entry.name })),
+                    },
+                },
+            });
+        } catch (error) {
+            this.logger.warn("Failed to post miscast to chat", error);
+        }
+
+        if (corruptionReport) {
+            text += `---\n\n${corruptionReport}\n`;
+        }
+
+        return text;
+    }
 }
@@ -0,0 +1,161 @@
+import { inflateSync } from 'zlib';
+
+export interface DecodedImage {
+  width: number;
+  height: number;
+  /** One luminance value (0-255) per pixel, row-major */
+  luminance: Uint8Array;
+}
+
+export interface DecodedRgbImage {
+  width: number;
+  height: number;
+  /** Three bytes (R, G, B) per pixel, row-major; alpha is dropped */
+  rgb: Uint8Array;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** Samples per pixel for each supported PNG colour type */
+const CHANNELS: Record<number, number> = {
+  0: 1, // greyscale
+  2: 3, // RGB
+  4: 2, // greyscale + alpha
+  6: 4, // RGBA
+};
+
+/**
+ * Image dimensions from the IHDR chunk, or null if the buffer is not a PNG
+ */
+export function readPngSize(buffer: Buffer): { width: number; height: number } | null {
+  if (buffer.length < 24 || !buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return null;
+  }
+  return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+}
+
+/**
+ * Decode an 8-bit, non-interlaced PNG (what ComfyUI writes) into a luminance map
+ * Uses only zlib so map analysis needs no native image libraries
+ */
+export function decodePngLuminance(buffer: Buffer): DecodedImage {
+  const { width, height, channels, pixels } = decodePixels(buffer);
+
+  const luminance = new Uint8Array(width * height);
+  for (let i = 0, p = 0; i < luminance.length; i++, p += channels) {
+    luminance[i] = channels >= 3
+      ? Math.round(0.299 * pixels[p]! + 0.587 * pixels[p + 1]! + 0.114 * pixels[p + 2]!)
+      : pixels[p]!;
+  }
+
+  return { width, height, luminance };
+}
+
+/**
+ * Decode an 8-bit, non-interlaced PNG into RGB, for compositing generated tiles
+ */
+export function decodePngRgb(buffer: Buffer): DecodedRgbImage {
+  const { width, height, channels, pixels } = decodePixels(buffer);
+
+  const rgb = new Uint8Array(width * height * 3);
+  for (let i = 0, p = 0; i < width * height; i++, p += channels) {
+    const grey = channels < 3;
+    rgb[i * 3] = pixels[p]!;
+    rgb[i * 3 + 1] = grey ? pixels[p]! : pixels[p + 1]!;
+    rgb[i * 3 + 2] = grey ? pixels[p]! : pixels[p + 2]!;
+  }
+
+  return { width, height, rgb };
+}
+
+function decodePixels(buffer: Buffer): { width: number; height: number; channels: number; pixels: Uint8Array } {
+  if (buffer.length < PNG_SIGNATURE.length || !buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error('Not a PNG image');
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlace = 0;
+  const idat: Buffer[] = [];
+
+  let offset = 8;
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      bitDepth = data[8]!;
+      colorType = data[9]!;
+      interlace = data[12]!;
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+
+    offset += 12 + length; // length + type + data + CRC
+  }
+
+  const channels = CHANNELS[colorType];
+  if (!width || !height || !channels) {
+    throw new Error(`Unsupported PNG colour type ${colorType}`);
+  }
+  if (bitDepth !== 8 || interlace !== 0) {
+    throw new Error(`Unsupported PNG format (bit depth ${bitDepth}, interlace ${interlace})`);
+  }
+
+  const raw = inflateSync(Buffer.concat(idat));
+  const stride = width * channels;
+  const pixels = unfilter(raw, height, stride, channels);
+
+  return { width, height, channels, pixels };
+}
+
+/**
+ * Reverse the per-scanline PNG filters (None, Sub, Up, Average, Paeth)
+ */
+function unfilter(raw: Buffer, height: number, stride: number, bytesPerPixel: number): Uint8Array {
+  const output = new Uint8Array(height * stride);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)]!;
+    const source = y * (stride + 1) + 1;
+    const row = y * stride;
+    const previous = row - stride;
+
+    for (let x = 0; x < stride; x++) {
+      const value = raw[source + x]!;
+      const left = x >= bytesPerPixel ? output[row + x - bytesPerPixel]! : 0;
+      const up = y > 0 ? output[previous + x]! : 0;
+      const upLeft = y > 0 && x >= bytesPerPixel ? output[previous + x - bytesPerPixel]! : 0;
+
+      let predictor = 0;
+      switch (filter) {
+        case 0: predictor = 0; break;
+        case 1: predictor = left; break;
+        case 2: predictor = up; break;
+        case 3: predictor = (left + up) >> 1; break;
+        case 4: predictor = paeth(left, up, upLeft); break;
+        default: throw new Error(`Invalid PNG filter type ${filter}`);
+      }
+
+      output[row + x] = (value + predictor) & 0xff;
+    }
+  }
+
+  return output;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
@@ -0,0 +1,63 @@
+import { deflateSync } from 'zlib';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Encode 8-bit RGB pixels (row-major, three bytes per pixel) as a PNG
+ * Counterpart to decodePngRgb; used to upload outpainting inputs and save stitched maps
+ */
+export function encodePngRgb(width: number, height: number, rgb: Uint8Array): Buffer {
+  const stride = width * 3;
+  if (rgb.length !== stride * height) {
+    throw new Error(`Expected ${stride * height} bytes of RGB data for ${width}x${height}, got ${rgb.length}`);
+  }
+
+  // Filter type 0 (None) on every scanline; deflate does the real work on map textures
+  const raw = Buffer.alloc(height * (stride + 1));
+  for (let y = 0; y < height; y++) {
+    raw.set(rgb.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // colour type: RGB
+  // compression, filter and interlace methods stay 0
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const output = Buffer.alloc(12 + data.length);
+  output.writeUInt32BE(data.length, 0);
+  output.write(type, 4, 'ascii');
+  data.copy(output, 8);
+  output.writeUInt32BE(crc32(output.subarray(4, 8 + data.length)), 8 + data.length);
+  return output;
+}
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]!) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
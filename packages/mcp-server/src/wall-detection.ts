@@ -0,0 +1,339 @@
+import { DecodedImage, decodePngLuminance } from './utils/png-decoder.js';
+
+/**
+ * Wall data in the shape SocketBridge.createSceneWalls expects
+ */
+export interface DetectedWall {
+  c: [number, number, number, number];
+  movement: number;
+  sight: number;
+  door: number;
+  doorState: number;
+}
+
+export interface WallDetectionOptions {
+  /** Foundry grid size in scene pixels */
+  gridSize: number;
+  /** Scene dimensions in pixels (defaults to the image size) */
+  sceneWidth?: number;
+  sceneHeight?: number;
+  /** Minimum luminance gap between floor and wall cells before any walls are placed */
+  minContrast?: number;
+  /** Fraction of a cell boundary that must be traced by edges to count as a wall */
+  minEdgeCoverage?: number;
+}
+
+export interface WallDetectionResult {
+  walls: DetectedWall[];
+  wallCount: number;
+  doorCount: number;
+  columns: number;
+  rows: number;
+  solidCells: number;
+}
+
+// Foundry CONST.WALL_MOVEMENT_TYPES.NORMAL / WALL_SENSE_TYPES.NORMAL / WALL_DOOR_TYPES.DOOR
+const WALL_NORMAL = 20;
+const DOOR = 1;
+const DOOR_CLOSED = 0;
+
+const DEFAULT_MIN_CONTRAST = 40;
+const DEFAULT_MIN_EDGE_COVERAGE = 0.5;
+
+type Segment = [number, number, number, number];
+
+/**
+ * Detect walls and door candidates on a generated battlemap PNG
+ *
+ * Each grid cell is classified as floor or solid by Otsu-thresholding cell luminance (battlemap
+ * walls are drawn dark), then every floor/solid cell boundary traced by Sobel edges becomes a wall
+ * segment on the grid line. One-cell gaps in a wall with floor on both sides become doors.
+ * Collinear segments are merged so a room side is a single wall document.
+ */
+export function detectWalls(png: Buffer, options: WallDetectionOptions): WallDetectionResult {
+  return detectWallsInImage(decodePngLuminance(png), options);
+}
+
+export function detectWallsInImage(image: DecodedImage, options: WallDetectionOptions): WallDetectionResult {
+  const sceneWidth = options.sceneWidth ?? image.width;
+  const sceneHeight = options.sceneHeight ?? image.height;
+  const grid = options.gridSize;
+  const scaleX = image.width / sceneWidth;
+  const scaleY = image.height / sceneHeight;
+  const cellWidth = grid * scaleX;
+  const cellHeight = grid * scaleY;
+  const columns = Math.floor(sceneWidth / grid);
+  const rows = Math.floor(sceneHeight / grid);
+
+  const empty: WallDetectionResult = { walls: [], wallCount: 0, doorCount: 0, columns, rows, solidCells: 0 };
+  if (columns < 2 || rows < 2 || cellWidth < 4 || cellHeight < 4) {
+    return empty;
+  }
+
+  const edges = detectEdges(image);
+
+  // Mean luminance per cell
+  const means = new Float64Array(columns * rows);
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      means[row * columns + column] = regionMean(image, column * cellWidth, row * cellHeight, cellWidth, cellHeight);
+    }
+  }
+
+  const threshold = otsuThreshold(Array.from(means));
+  const dark = Array.from(means).filter(value => value <= threshold);
+  const light = Array.from(means).filter(value => value > threshold);
+  if (dark.length === 0 || light.length === 0 || average(light) - average(dark) < (options.minContrast ?? DEFAULT_MIN_CONTRAST)) {
+    // Uniform lighting (outdoor maps, open fields): nothing wall-like to trace
+    return empty;
+  }
+
+  const solid = removeSpeckle(Array.from(means, value => value <= threshold), columns, rows);
+  const isSolid = (column: number, row: number): boolean => solid[row * columns + column]!;
+  const minEdgeCoverage = options.minEdgeCoverage ?? DEFAULT_MIN_EDGE_COVERAGE;
+  const bandX = Math.max(1, Math.round(cellWidth / 8));
+  const bandY = Math.max(1, Math.round(cellHeight / 8));
+
+  const horizontal: Segment[] = [];
+  const vertical: Segment[] = [];
+  const doors: Segment[] = [];
+
+  // Boundaries between vertically adjacent cells run along horizontal grid lines
+  for (let row = 1; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      if (isSolid(column, row - 1) === isSolid(column, row)) continue;
+      const coverage = edgeCoverage(edges, image.width, column * cellWidth, row * cellHeight - bandY, cellWidth, bandY * 2, 'horizontal');
+      if (coverage >= minEdgeCoverage) {
+        horizontal.push([column * grid, row * grid, (column + 1) * grid, row * grid]);
+      }
+    }
+  }
+
+  for (let column = 1; column < columns; column++) {
+    for (let row = 0; row < rows; row++) {
+      if (isSolid(column - 1, row) === isSolid(column, row)) continue;
+      const coverage = edgeCoverage(edges, image.width, column * cellWidth - bandX, row * cellHeight, bandX * 2, cellHeight, 'vertical');
+      if (coverage >= minEdgeCoverage) {
+        vertical.push([column * grid, row * grid, column * grid, (row + 1) * grid]);
+      }
+    }
+  }
+
+  // Doorways: a floor cell pinched between two solid cells, with floor on the other two sides
+  for (let row = 1; row < rows - 1; row++) {
+    for (let column = 1; column < columns - 1; column++) {
+      if (isSolid(column, row)) continue;
+
+      const solidSides = isSolid(column - 1, row) && isSolid(column + 1, row);
+      const solidEnds = isSolid(column, row - 1) && isSolid(column, row + 1);
+      const openSides = !isSolid(column - 1, row) && !isSolid(column + 1, row);
+      const openEnds = !isSolid(column, row - 1) && !isSolid(column, row + 1);
+
+      if (solidSides && openEnds) {
+        const y = (row + 0.5) * grid;
+        doors.push([column * grid, y, (column + 1) * grid, y]);
+      } else if (solidEnds && openSides) {
+        const x = (column + 0.5) * grid;
+        doors.push([x, row * grid, x, (row + 1) * grid]);
+      }
+    }
+  }
+
+  const walls: DetectedWall[] = [
+    ...mergeCollinear(horizontal, 'horizontal'),
+    ...mergeCollinear(vertical, 'vertical'),
+  ].map(c => ({ c, movement: WALL_NORMAL, sight: WALL_NORMAL, door: 0, doorState: DOOR_CLOSED }));
+
+  for (const c of doors) {
+    walls.push({ c, movement: WALL_NORMAL, sight: WALL_NORMAL, door: DOOR, doorState: DOOR_CLOSED });
+  }
+
+  return {
+    walls,
+    wallCount: walls.length - doors.length,
+    doorCount: doors.length,
+    columns,
+    rows,
+    solidCells: solid.filter(Boolean).length,
+  };
+}
+
+/**
+ * Sobel edge map, thresholded with Otsu's method on the gradient magnitude
+ */
+function detectEdges(image: DecodedImage): Uint8Array {
+  const { width, height, luminance } = image;
+  const magnitude = new Float32Array(width * height);
+  let max = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const tl = luminance[i - width - 1]!, t = luminance[i - width]!, tr = luminance[i - width + 1]!;
+      const l = luminance[i - 1]!, r = luminance[i + 1]!;
+      const bl = luminance[i + width - 1]!, b = luminance[i + width]!, br = luminance[i + width + 1]!;
+      const gx = (tr + 2 * r + br) - (tl + 2 * l + bl);
+      const gy = (bl + 2 * b + br) - (tl + 2 * t + tr);
+      const value = Math.sqrt(gx * gx + gy * gy);
+      magnitude[i] = value;
+      if (value > max) max = value;
+    }
+  }
+
+  const edges = new Uint8Array(width * height);
+  if (max === 0) {
+    return edges;
+  }
+
+  const histogram = new Array<number>(256).fill(0);
+  for (const value of magnitude) {
+    histogram[Math.round((value / max) * 255)]!++;
+  }
+  const cutoff = (otsuFromHistogram(histogram) / 255) * max;
+
+  for (let i = 0; i < magnitude.length; i++) {
+    edges[i] = magnitude[i]! > cutoff ? 1 : 0;
+  }
+
+  return edges;
+}
+
+function regionMean(image: DecodedImage, x: number, y: number, width: number, height: number): number {
+  const x0 = Math.max(0, Math.floor(x));
+  const y0 = Math.max(0, Math.floor(y));
+  const x1 = Math.min(image.width, Math.floor(x + width));
+  const y1 = Math.min(image.height, Math.floor(y + height));
+  let sum = 0;
+  let count = 0;
+
+  for (let row = y0; row < y1; row++) {
+    for (let column = x0; column < x1; column++) {
+      sum += image.luminance[row * image.width + column]!;
+      count++;
+    }
+  }
+
+  return count > 0 ? sum / count : 0;
+}
+
+/**
+ * Fraction of positions along a boundary band that have an edge pixel somewhere across the band
+ */
+function edgeCoverage(
+  edges: Uint8Array,
+  imageWidth: number,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  orientation: 'horizontal' | 'vertical'
+): number {
+  const imageHeight = edges.length / imageWidth;
+  const x0 = Math.max(0, Math.floor(x));
+  const y0 = Math.max(0, Math.floor(y));
+  const x1 = Math.min(imageWidth, Math.floor(x + width));
+  const y1 = Math.min(imageHeight, Math.floor(y + height));
+  const [alongStart, alongEnd, acrossStart, acrossEnd] = orientation === 'horizontal' ? [x0, x1, y0, y1] : [y0, y1, x0, x1];
+  let covered = 0;
+
+  for (let along = alongStart; along < alongEnd; along++) {
+    for (let across = acrossStart; across < acrossEnd; across++) {
+      const index = orientation === 'horizontal' ? across * imageWidth + along : along * imageWidth + across;
+      if (edges[index]) {
+        covered++;
+        break;
+      }
+    }
+  }
+
+  return alongEnd > alongStart ? covered / (alongEnd - alongStart) : 0;
+}
+
+/**
+ * Drop solid cells with no solid neighbour (dark rugs, tokens, shadows) and fill floor cells
+ * enclosed on all eight sides
+ */
+function removeSpeckle(solid: boolean[], columns: number, rows: number): boolean[] {
+  return solid.map((value, index) => {
+    const column = index % columns;
+    const row = Math.floor(index / columns);
+    let neighbours = 0;
+    let total = 0;
+
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (dx === 0 && dy === 0) continue;
+        const x = column + dx;
+        const y = row + dy;
+        if (x < 0 || y < 0 || x >= columns || y >= rows) continue;
+        total++;
+        if (solid[y * columns + x]) neighbours++;
+      }
+    }
+
+    if (value && neighbours === 0) return false;
+    if (!value && neighbours === total) return true;
+    return value;
+  });
+}
+
+function mergeCollinear(segments: Segment[], orientation: 'horizontal' | 'vertical'): Segment[] {
+  const fixed = orientation === 'horizontal' ? 1 : 0;
+  const start = orientation === 'horizontal' ? 0 : 1;
+  const sorted = [...segments].sort((a, b) => a[fixed] - b[fixed] || a[start] - b[start]);
+  const merged: Segment[] = [];
+
+  for (const segment of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && last[fixed] === segment[fixed] && last[start + 2] === segment[start]) {
+      last[start + 2] = segment[start + 2];
+    } else {
+      merged.push([...segment]);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Otsu threshold for continuous 0-255 values; values up to the returned threshold form the dark class
+ */
+function otsuThreshold(values: number[]): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (const value of values) {
+    histogram[Math.max(0, Math.min(255, Math.round(value)))]!++;
+  }
+  return otsuFromHistogram(histogram) + 0.5;
+}
+
+function otsuFromHistogram(histogram: number[]): number {
+  const total = histogram.reduce((sum, count) => sum + count, 0);
+  const weightedTotal = histogram.reduce((sum, count, value) => sum + count * value, 0);
+  let backgroundWeight = 0;
+  let backgroundSum = 0;
+  let bestVariance = -1;
+  let threshold = 0;
+
+  for (let value = 0; value < 256; value++) {
+    backgroundWeight += histogram[value]!;
+    if (backgroundWeight === 0) continue;
+    const foregroundWeight = total - backgroundWeight;
+    if (foregroundWeight === 0) break;
+
+    backgroundSum += value * histogram[value]!;
+    const backgroundMean = backgroundSum / backgroundWeight;
+    const foregroundMean = (weightedTotal - backgroundSum) / foregroundWeight;
+    const variance = backgroundWeight * foregroundWeight * (backgroundMean - foregroundMean) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = value;
+    }
+  }
+
+  return threshold;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
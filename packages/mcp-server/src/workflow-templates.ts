@@ -0,0 +1,411 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from './logger.js';
+
+export const DEFAULT_WORKFLOW_STYLE = 'battlemap';
+export const DEFAULT_VARIATION_STYLE = 'battlemap-vary';
+export const DEFAULT_INPAINT_STYLE = 'battlemap-inpaint';
+export const DEFAULT_PORTRAIT_STYLE = 'portrait';
+
+/**
+ * txt2img creates a map from scratch; img2img reworks a whole input image ({{input_image}}, {{denoise}});
+ * inpaint repaints only the {{mask_x}}/{{mask_y}}/{{mask_width}}/{{mask_height}} rectangle of it;
+ * portrait is text-to-image character art for actors rather than maps
+ */
+export type WorkflowMode = 'txt2img' | 'img2img' | 'inpaint' | 'portrait';
+
+const WORKFLOW_MODES: WorkflowMode[] = ['txt2img', 'img2img', 'inpaint', 'portrait'];
+
+/**
+ * A ComfyUI workflow in API format with {{placeholder}} strings, plus the prompt wrapping for its checkpoint
+ */
+export interface WorkflowTemplate {
+  name: string;
+  description: string;
+  mode: WorkflowMode;
+  /** Wraps the user's prompt; must contain {{prompt}} */
+  promptTemplate: string;
+  negativePrompt: string;
+  workflow: Record<string, any>;
+  /** File the template was loaded from; undefined for the built-in template */
+  source?: string;
+}
+
+export interface WorkflowVariables {
+  prompt: string;
+  negative_prompt?: string;
+  seed: number;
+  width: number;
+  height: number;
+  [name: string]: string | number | undefined;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z_][a-z0-9_]*)\s*\}\}/gi;
+const EXACT_PLACEHOLDER_PATTERN = /^\{\{\s*([a-z_][a-z0-9_]*)\s*\}\}$/i;
+
+const BATTLEMAP_PROMPT = '2d DnD battlemap of {{prompt}}, top-down view, overhead perspective, aerial';
+const BATTLEMAP_NEGATIVE_PROMPT = 'grid, low angle, isometric, oblique, horizon, text, watermark, logo, caption, people, creatures, monsters, blurry, artifacts';
+
+/**
+ * dDBattlemapsSDXL nodes shared by the built-in pipelines: checkpoint, prompts, VAE and output
+ */
+const BATTLEMAP_BASE_NODES: Record<string, any> = {
+  "1": { // CheckpointLoaderSimple
+    "inputs": {
+      "ckpt_name": "dDBattlemapsSDXL10_upscaleV10.safetensors"
+    },
+    "class_type": "CheckpointLoaderSimple"
+  },
+  "2": { // CLIP Text Encode (Positive)
+    "inputs": {
+      "text": "{{prompt}}",
+      "clip": ["1", 1]
+    },
+    "class_type": "CLIPTextEncode"
+  },
+  "3": { // CLIP Text Encode (Negative)
+    "inputs": {
+      "text": "{{negative_prompt}}",
+      "clip": ["1", 1]
+    },
+    "class_type": "CLIPTextEncode"
+  },
+  "9": { // VAE Loader
+    "inputs": {
+      "vae_name": "sdxl_vae.safetensors"
+    },
+    "class_type": "VAELoader"
+  },
+  "6": { // VAE Decode
+    "inputs": {
+      "samples": ["5", 0],
+      "vae": ["9", 0]
+    },
+    "class_type": "VAEDecode"
+  },
+  "7": { // Save Image
+    "inputs": {
+      "filename_prefix": "battlemap",
+      "images": ["6", 0]
+    },
+    "class_type": "SaveImage"
+  }
+};
+
+function battlemapSampler(latent: [string, number], denoise: number | string): Record<string, any> {
+  return {
+    "inputs": {
+      "seed": "{{seed}}",
+      "steps": 35, // SDXL optimized
+      "cfg": 10.0, // D&D Battlemaps SDXL guidelines
+      "denoise": denoise,
+      "sampler_name": "dpmpp_2m",
+      "scheduler": "karras",
+      "model": ["1", 0],
+      "positive": ["2", 0],
+      "negative": ["3", 0],
+      "latent_image": latent
+    },
+    "class_type": "KSampler"
+  };
+}
+
+/**
+ * The dDBattlemapsSDXL text-to-image pipeline the server has always used
+ */
+const BUILT_IN_TEMPLATE: WorkflowTemplate = {
+  name: DEFAULT_WORKFLOW_STYLE,
+  description: 'Top-down fantasy battlemap (dDBattlemapsSDXL checkpoint)',
+  mode: 'txt2img',
+  promptTemplate: BATTLEMAP_PROMPT,
+  negativePrompt: BATTLEMAP_NEGATIVE_PROMPT,
+  workflow: {
+    ...BATTLEMAP_BASE_NODES,
+    "4": { // Empty Latent Image
+      "inputs": {
+        "width": "{{width}}",
+        "height": "{{height}}",
+        "batch_size": 1
+      },
+      "class_type": "EmptyLatentImage"
+    },
+    "5": battlemapSampler(["4", 0], 1.0)
+  }
+};
+
+/**
+ * Rework an existing map as a whole: encode it and sample with partial denoise
+ */
+const BUILT_IN_VARIATION_TEMPLATE: WorkflowTemplate = {
+  name: DEFAULT_VARIATION_STYLE,
+  description: 'Variation of an existing battlemap (img2img, dDBattlemapsSDXL)',
+  mode: 'img2img',
+  promptTemplate: BATTLEMAP_PROMPT,
+  negativePrompt: BATTLEMAP_NEGATIVE_PROMPT,
+  workflow: {
+    ...BATTLEMAP_BASE_NODES,
+    "10": { // Load the uploaded scene background
+      "inputs": {
+        "image": "{{input_image}}"
+      },
+      "class_type": "LoadImage"
+    },
+    "11": { // VAE Encode
+      "inputs": {
+        "pixels": ["10", 0],
+        "vae": ["9", 0]
+      },
+      "class_type": "VAEEncode"
+    },
+    "5": battlemapSampler(["11", 0], "{{denoise}}")
+  }
+};
+
+/**
+ * Repaint one rectangle of an existing map; the mask is built from core nodes so no mask image is needed
+ */
+const BUILT_IN_INPAINT_TEMPLATE: WorkflowTemplate = {
+  name: DEFAULT_INPAINT_STYLE,
+  description: 'Repaint a region of an existing battlemap (masked img2img, dDBattlemapsSDXL)',
+  mode: 'inpaint',
+  promptTemplate: BATTLEMAP_PROMPT,
+  negativePrompt: BATTLEMAP_NEGATIVE_PROMPT,
+  workflow: {
+    ...BUILT_IN_VARIATION_TEMPLATE.workflow,
+    "12": { // Empty mask covering the whole image
+      "inputs": {
+        "value": 0.0,
+        "width": "{{width}}",
+        "height": "{{height}}"
+      },
+      "class_type": "SolidMask"
+    },
+    "13": { // Filled mask the size of the region
+      "inputs": {
+        "value": 1.0,
+        "width": "{{mask_width}}",
+        "height": "{{mask_height}}"
+      },
+      "class_type": "SolidMask"
+    },
+    "14": { // Region mask placed on the image
+      "inputs": {
+        "destination": ["12", 0],
+        "source": ["13", 0],
+        "x": "{{mask_x}}",
+        "y": "{{mask_y}}",
+        "operation": "add"
+      },
+      "class_type": "MaskComposite"
+    },
+    "15": { // Only denoise inside the mask
+      "inputs": {
+        "samples": ["11", 0],
+        "mask": ["14", 0]
+      },
+      "class_type": "SetLatentNoiseMask"
+    },
+    "5": battlemapSampler(["15", 0], "{{denoise}}")
+  }
+};
+
+/**
+ * Head-and-shoulders character art on the stock SDXL base checkpoint (the battlemap model cannot do faces)
+ */
+const BUILT_IN_PORTRAIT_TEMPLATE: WorkflowTemplate = {
+  name: DEFAULT_PORTRAIT_STYLE,
+  description: 'Painted head-and-shoulders character portrait (SDXL base)',
+  mode: 'portrait',
+  promptTemplate: 'fantasy character portrait of {{prompt}}, head and shoulders, facing the viewer, detailed oil painting, grim renaissance Old World, muted colours',
+  negativePrompt: 'text, watermark, signature, frame, border, multiple people, cropped head, blurry, deformed, extra limbs, modern clothing',
+  workflow: {
+    ...BATTLEMAP_BASE_NODES,
+    "1": { // CheckpointLoaderSimple
+      "inputs": {
+        "ckpt_name": "sd_xl_base_1.0.safetensors"
+      },
+      "class_type": "CheckpointLoaderSimple"
+    },
+    "4": { // Empty Latent Image
+      "inputs": {
+        "width": "{{width}}",
+        "height": "{{height}}",
+        "batch_size": 1
+      },
+      "class_type": "EmptyLatentImage"
+    },
+    "5": { // KSampler
+      "inputs": {
+        "seed": "{{seed}}",
+        "steps": 30,
+        "cfg": 7.0,
+        "denoise": 1.0,
+        "sampler_name": "dpmpp_2m",
+        "scheduler": "karras",
+        "model": ["1", 0],
+        "positive": ["2", 0],
+        "negative": ["3", 0],
+        "latent_image": ["4", 0]
+      },
+      "class_type": "KSampler"
+    },
+    "7": { // Save Image
+      "inputs": {
+        "filename_prefix": "portrait",
+        "images": ["6", 0]
+      },
+      "class_type": "SaveImage"
+    }
+  }
+};
+
+const BUILT_IN_TEMPLATES = [BUILT_IN_TEMPLATE, BUILT_IN_VARIATION_TEMPLATE, BUILT_IN_INPAINT_TEMPLATE, BUILT_IN_PORTRAIT_TEMPLATE];
+
+/**
+ * Workflow templates for map generation: the built-in battlemap pipelines plus every *.json file in
+ * the workflow directory. Files are re-read on each lookup so new styles work without a restart;
+ * a file named after a built-in style replaces it.
+ */
+export class WorkflowTemplateRegistry {
+  private directory: string;
+  private logger: Logger;
+
+  constructor(options: { directory: string; logger: Logger }) {
+    this.directory = options.directory;
+    this.logger = options.logger.child({ component: 'WorkflowTemplates' });
+  }
+
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  list(mode?: WorkflowMode): WorkflowTemplate[] {
+    const templates = new Map<string, WorkflowTemplate>(BUILT_IN_TEMPLATES.map(template => [template.name, template]));
+
+    for (const file of this.listFiles()) {
+      try {
+        const template = this.loadFile(file);
+        templates.set(template.name, template);
+      } catch (error) {
+        this.logger.warn('Skipping invalid workflow template', {
+          file,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return Array.from(templates.values())
+      .filter(template => !mode || template.mode === mode)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Look up a style; with a mode, a style built for a different pipeline is rejected
+   */
+  get(style: string = DEFAULT_WORKFLOW_STYLE, mode?: WorkflowMode): WorkflowTemplate {
+    const name = style.trim().toLowerCase();
+    const file = this.listFiles().find(entry => path.basename(entry, '.json').toLowerCase() === name);
+
+    // Let a broken file surface its error instead of silently falling back
+    const template = file ? this.loadFile(file) : BUILT_IN_TEMPLATES.find(entry => entry.name === name);
+    if (!template) {
+      const available = this.list(mode).map(entry => entry.name).join(', ');
+      throw new Error(`Unknown map style "${style}". Available styles: ${available}`);
+    }
+
+    if (mode && template.mode !== mode) {
+      const available = this.list(mode).map(entry => entry.name).join(', ');
+      throw new Error(`Map style "${template.name}" has mode "${template.mode}"; this needs a "${mode}" style (${available})`);
+    }
+
+    return template;
+  }
+
+  /**
+   * Build the ComfyUI prompt graph for a style, substituting {{placeholders}}.
+   * A string that is exactly one placeholder takes the variable's type (so seeds and sizes stay numbers).
+   */
+  render(style: string | undefined, variables: WorkflowVariables, mode?: WorkflowMode): Record<string, any> {
+    const template = this.get(style, mode);
+    const values: Record<string, string | number | undefined> = {
+      ...variables,
+      prompt: template.promptTemplate.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+        name.toLowerCase() === 'prompt' ? variables.prompt : match),
+      negative_prompt: variables.negative_prompt ?? template.negativePrompt,
+    };
+
+    return substitute(template.workflow, values, template.name);
+  }
+
+  private listFiles(): string[] {
+    try {
+      return fs.readdirSync(this.directory)
+        .filter(entry => entry.toLowerCase().endsWith('.json'))
+        .map(entry => path.join(this.directory, entry));
+    } catch {
+      // No workflow directory yet: only the built-in style is available
+      return [];
+    }
+  }
+
+  private loadFile(file: string): WorkflowTemplate {
+    let raw: any;
+    try {
+      raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+      throw new Error(`Workflow template ${path.basename(file)} is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (!raw || typeof raw.workflow !== 'object' || Array.isArray(raw.workflow)) {
+      throw new Error(`Workflow template ${path.basename(file)} must have a "workflow" object in ComfyUI API format`);
+    }
+
+    const promptTemplate = typeof raw.prompt_template === 'string' ? raw.prompt_template : '{{prompt}}';
+    if (!/\{\{\s*prompt\s*\}\}/i.test(promptTemplate)) {
+      throw new Error(`Workflow template ${path.basename(file)} has a prompt_template without {{prompt}}`);
+    }
+
+    const mode = raw.mode ?? 'txt2img';
+    if (!WORKFLOW_MODES.includes(mode)) {
+      throw new Error(`Workflow template ${path.basename(file)} has unknown mode "${mode}" (expected ${WORKFLOW_MODES.join(', ')})`);
+    }
+
+    return {
+      name: path.basename(file, '.json').toLowerCase(),
+      description: typeof raw.description === 'string' ? raw.description : '',
+      mode,
+      promptTemplate,
+      negativePrompt: typeof raw.negative_prompt === 'string' ? raw.negative_prompt : BATTLEMAP_NEGATIVE_PROMPT,
+      workflow: raw.workflow,
+      source: file,
+    };
+  }
+}
+
+function substitute(value: any, variables: Record<string, string | number | undefined>, style: string): any {
+  if (typeof value === 'string') {
+    const lookup = (name: string): string | number => {
+      const entry = variables[name.toLowerCase()];
+      if (entry === undefined) {
+        throw new Error(`Map style "${style}" uses {{${name}}}, which this request does not provide`);
+      }
+      return entry;
+    };
+
+    const exact = value.match(EXACT_PLACEHOLDER_PATTERN);
+    if (exact) {
+      return lookup(exact[1]!);
+    }
+    return value.replace(PLACEHOLDER_PATTERN, (_match, name: string) => String(lookup(name)));
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(entry => substitute(entry, variables, style));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, substitute(entry, variables, style)]));
+  }
+
+  return value;
+}
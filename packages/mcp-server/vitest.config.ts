@@ -4,6 +4,8 @@ export default defineConfig({
   test: {
     globals: true,
     environment: 'node',
+    // The shared WFRP rules are tested from here alongside the server
+    include: ['src/**/*.{test,spec}.ts', '../../shared/src/**/*.{test,spec}.ts'],
     coverage: {
       provider: 'v8',
       reporter: ['text', 'json', 'html'],
@@ -2,4 +2,5 @@
 
 export * from './types.js';
 export * from './schemas.js';
-export * from './constants.js';
\ No newline at end of file
+export * from './constants.js';
+export * from './wfrp/index.js';
\ No newline at end of file
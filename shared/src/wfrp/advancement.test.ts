@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CHARACTERISTIC_ADVANCE_COSTS,
+  getAdvanceCost,
+  getAdvancesCost,
+  getTalentCost,
+  SKILL_ADVANCE_COSTS,
+} from './advancement.js';
+
+describe('advancement costs', () => {
+  it('matches the characteristic advance table', () => {
+    expect(CHARACTERISTIC_ADVANCE_COSTS).toEqual([25, 30, 40, 50, 70, 90, 120, 150, 190, 230, 280, 330, 390, 450, 520]);
+  });
+
+  it('matches the skill advance table', () => {
+    expect(SKILL_ADVANCE_COSTS).toEqual([10, 15, 20, 30, 40, 60, 80, 110, 140, 180, 220, 270, 320, 380, 440]);
+  });
+
+  it('charges each advance by the band of 5 it falls in', () => {
+    expect(getAdvanceCost('characteristic', 0)).toBe(25);
+    expect(getAdvanceCost('characteristic', 4)).toBe(25);
+    expect(getAdvanceCost('characteristic', 6)).toBe(30);
+    expect(getAdvanceCost('characteristic', 69)).toBe(450);
+    expect(getAdvanceCost('skill', 11)).toBe(20);
+  });
+
+  it('charges an advance bought at exactly 5 or 10 advances at the lower band', () => {
+    expect(getAdvanceCost('characteristic', 5)).toBe(25);
+    expect(getAdvanceCost('characteristic', 10)).toBe(30);
+    expect(getAdvanceCost('skill', 5)).toBe(10);
+    expect(getAdvanceCost('skill', 10)).toBe(15);
+  });
+
+  it('keeps charging the last band beyond 70 advances', () => {
+    expect(getAdvanceCost('characteristic', 70)).toBe(450);
+    expect(getAdvanceCost('characteristic', 71)).toBe(520);
+    expect(getAdvanceCost('characteristic', 120)).toBe(520);
+    expect(getAdvanceCost('skill', 95)).toBe(440);
+  });
+
+  it('doubles advances bought outside the current career', () => {
+    expect(getAdvanceCost('characteristic', 0, false)).toBe(50);
+    expect(getAdvanceCost('skill', 6, false)).toBe(30);
+  });
+
+  it('adds up several advances across a band boundary', () => {
+    expect(getAdvancesCost('skill', 3, 4)).toBe(10 + 10 + 10 + 15);
+    expect(getAdvancesCost('characteristic', 0, 5)).toBe(125);
+    expect(getAdvancesCost('characteristic', 0, 0)).toBe(0);
+  });
+
+  it('charges 100 XP times the number of times a talent has been taken, as the rulebook does', () => {
+    expect(getTalentCost(0)).toBe(100);
+    expect(getTalentCost(1)).toBe(200);
+    expect(getTalentCost(3)).toBe(400);
+  });
+
+  it('charges a talent taken a second and third time 200 + 300 XP, not a flat 100 per rank', () => {
+    expect(getTalentCost(1) + getTalentCost(2)).toBe(500);
+  });
+});
@@ -0,0 +1,51 @@
+// WFRP 4e experience costs (Core Rulebook, Character chapter: Advancement)
+
+/**
+ * XP cost per characteristic advance, by band of 5 advances (0–5, 6–10 … 66–70, 71+)
+ */
+export const CHARACTERISTIC_ADVANCE_COSTS = [25, 30, 40, 50, 70, 90, 120, 150, 190, 230, 280, 330, 390, 450, 520] as const;
+
+/**
+ * XP cost per skill advance, by band of 5 advances (0–5, 6–10 … 66–70, 71+)
+ */
+export const SKILL_ADVANCE_COSTS = [10, 15, 20, 30, 40, 60, 80, 110, 140, 180, 220, 270, 320, 380, 440] as const;
+
+/**
+ * XP per talent rank: the Nth time a talent is taken costs N × 100
+ */
+export const TALENT_RANK_COST = 100;
+
+/**
+ * Advances bought outside the current career cost double
+ */
+export const OUT_OF_CAREER_MULTIPLIER = 2;
+
+export type AdvanceType = 'characteristic' | 'skill';
+
+/**
+ * XP cost of the next single advance, given the advances already taken
+ */
+export function getAdvanceCost(type: AdvanceType, currentAdvances: number, inCareer = true): number {
+  const costs = type === 'characteristic' ? CHARACTERISTIC_ADVANCE_COSTS : SKILL_ADVANCE_COSTS;
+  // 0–5 current advances is the first band, so the advance bought at 5, 10 … is still charged at the lower band
+  const band = Math.min(Math.max(0, Math.ceil(currentAdvances / 5) - 1), costs.length - 1);
+  return costs[band]! * (inCareer ? 1 : OUT_OF_CAREER_MULTIPLIER);
+}
+
+/**
+ * Total XP to buy several advances in a row, starting from the advances already taken
+ */
+export function getAdvancesCost(type: AdvanceType, currentAdvances: number, count: number, inCareer = true): number {
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    total += getAdvanceCost(type, currentAdvances + i, inCareer);
+  }
+  return total;
+}
+
+/**
+ * XP cost of taking a talent again, given how many times it has been taken already
+ */
+export function getTalentCost(timesTaken: number): number {
+  return TALENT_RANK_COST * (Math.max(0, timesTaken) + 1);
+}
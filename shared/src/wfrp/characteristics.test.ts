@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { getCharacteristicBonus, resolveCharacteristicKey, WFRP_CHARACTERISTIC_KEYS } from './characteristics.js';
+
+describe('characteristics', () => {
+  it('lists the ten characteristics in sheet order', () => {
+    expect(WFRP_CHARACTERISTIC_KEYS).toEqual(['ws', 'bs', 's', 't', 'i', 'ag', 'dex', 'int', 'wp', 'fel']);
+  });
+
+  it('takes the tens digit as the bonus', () => {
+    expect(getCharacteristicBonus(34)).toBe(3);
+    expect(getCharacteristicBonus(9)).toBe(0);
+    expect(getCharacteristicBonus(40)).toBe(4);
+    expect(getCharacteristicBonus(100)).toBe(10);
+  });
+
+  it('resolves keys, abbreviations and full names', () => {
+    expect(resolveCharacteristicKey('WS')).toBe('ws');
+    expect(resolveCharacteristicKey('weapon skill')).toBe('ws');
+    expect(resolveCharacteristicKey('Weaponskill')).toBe('ws');
+    expect(resolveCharacteristicKey('Willpower')).toBe('wp');
+    expect(resolveCharacteristicKey(' fel ')).toBe('fel');
+    expect(resolveCharacteristicKey('Luck')).toBeNull();
+  });
+});
@@ -0,0 +1,44 @@
+// WFRP 4e characteristic metadata
+
+/**
+ * Characteristic keys in character sheet order
+ */
+export const WFRP_CHARACTERISTIC_KEYS = ['ws', 'bs', 's', 't', 'i', 'ag', 'dex', 'int', 'wp', 'fel'] as const;
+
+export type WFRPCharacteristicKey = (typeof WFRP_CHARACTERISTIC_KEYS)[number];
+
+/**
+ * Display names and abbreviations
+ */
+export const WFRP_CHARACTERISTICS: Record<WFRPCharacteristicKey, { name: string; abbreviation: string }> = {
+  ws: { name: 'Weapon Skill', abbreviation: 'WS' },
+  bs: { name: 'Ballistic Skill', abbreviation: 'BS' },
+  s: { name: 'Strength', abbreviation: 'S' },
+  t: { name: 'Toughness', abbreviation: 'T' },
+  i: { name: 'Initiative', abbreviation: 'I' },
+  ag: { name: 'Agility', abbreviation: 'Ag' },
+  dex: { name: 'Dexterity', abbreviation: 'Dex' },
+  int: { name: 'Intelligence', abbreviation: 'Int' },
+  wp: { name: 'Willpower', abbreviation: 'WP' },
+  fel: { name: 'Fellowship', abbreviation: 'Fel' },
+};
+
+/**
+ * Resolve a characteristic key from its key, abbreviation or full name ("WS", "weapon skill", "Weaponskill")
+ */
+export function resolveCharacteristicKey(nameOrKey: string): WFRPCharacteristicKey | null {
+  const normalized = nameOrKey.trim().toLowerCase().replace(/\s+/g, '');
+  for (const key of WFRP_CHARACTERISTIC_KEYS) {
+    if (key === normalized || WFRP_CHARACTERISTICS[key].name.toLowerCase().replace(/\s+/g, '') === normalized) {
+      return key;
+    }
+  }
+  return null;
+}
+
+/**
+ * Characteristic Bonus: the tens digit of the characteristic (e.g. 34 → 3)
+ */
+export function getCharacteristicBonus(value: number): number {
+  return Math.floor((Number(value) || 0) / 10);
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { getEncumbranceLimit, getEncumbrancePenalty } from './encumbrance.js';
+
+describe('encumbrance', () => {
+  it('sets the limit at Strength Bonus plus Toughness Bonus', () => {
+    expect(getEncumbranceLimit(35, 42)).toBe(7);
+    expect(getEncumbranceLimit(29, 31)).toBe(5);
+  });
+
+  it('has no penalty up to the limit', () => {
+    expect(getEncumbrancePenalty(7, 7)).toEqual({ level: 0, movement: 0, agility: 0, immobile: false });
+  });
+
+  it('costs 1 Movement and 10 Agility over the limit', () => {
+    expect(getEncumbrancePenalty(8, 7)).toEqual({ level: 1, movement: -1, agility: -10, immobile: false });
+    expect(getEncumbrancePenalty(14, 7)).toMatchObject({ level: 1 });
+  });
+
+  it('costs 2 Movement and 20 Agility over double the limit', () => {
+    expect(getEncumbrancePenalty(15, 7)).toEqual({ level: 2, movement: -2, agility: -20, immobile: false });
+    expect(getEncumbrancePenalty(21, 7)).toMatchObject({ level: 2 });
+  });
+
+  it('leaves the character unable to move over triple the limit', () => {
+    expect(getEncumbrancePenalty(22, 7)).toMatchObject({ level: 3, immobile: true });
+  });
+});
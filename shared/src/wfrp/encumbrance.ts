@@ -0,0 +1,35 @@
+// WFRP 4e encumbrance (Core Rulebook, Consumers' Guide: Encumbrance)
+
+import { getCharacteristicBonus } from './characteristics.js';
+
+export interface EncumbrancePenalty {
+  /** 0 = within limit, 1 = over limit, 2 = over double, 3 = over triple */
+  level: 0 | 1 | 2 | 3;
+  movement: number;
+  agility: number;
+  immobile: boolean;
+}
+
+/**
+ * Encumbrance limit: Strength Bonus + Toughness Bonus
+ */
+export function getEncumbranceLimit(strength: number, toughness: number): number {
+  return getCharacteristicBonus(strength) + getCharacteristicBonus(toughness);
+}
+
+/**
+ * Penalties for carrying more than the limit: −1 Movement and −10 Agility over the limit,
+ * −2 Movement and −20 Agility over double, unable to move over triple
+ */
+export function getEncumbrancePenalty(current: number, limit: number): EncumbrancePenalty {
+  if (current > limit * 3) {
+    return { level: 3, movement: 0, agility: 0, immobile: true };
+  }
+  if (current > limit * 2) {
+    return { level: 2, movement: -2, agility: -20, immobile: false };
+  }
+  if (current > limit) {
+    return { level: 1, movement: -1, agility: -10, immobile: false };
+  }
+  return { level: 0, movement: 0, agility: 0, immobile: false };
+}
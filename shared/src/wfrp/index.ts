@@ -0,0 +1,7 @@
+// WFRP 4e core rules shared by the MCP tools
+
+export * from './characteristics.js';
+export * from './advancement.js';
+export * from './tests.js';
+export * from './status.js';
+export * from './encumbrance.js';
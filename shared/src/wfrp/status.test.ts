@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { compareStatus, formatStatus, getStandingTier, parseStatus, toBrassPennies } from './status.js';
+
+describe('social status', () => {
+  it('parses career status strings', () => {
+    expect(parseStatus('Silver 3')).toEqual({ tier: 'silver', standing: 3 });
+    expect(parseStatus('b2')).toEqual({ tier: 'brass', standing: 2 });
+    expect(parseStatus(' GOLD 1 ')).toEqual({ tier: 'gold', standing: 1 });
+    expect(parseStatus('Copper 1')).toBeNull();
+    expect(parseStatus('Silver')).toBeNull();
+  });
+
+  it('formats a status for display', () => {
+    expect(formatStatus({ tier: 'brass', standing: 4 })).toBe('Brass 4');
+  });
+
+  it('ranks tier above Standing', () => {
+    expect(compareStatus({ tier: 'gold', standing: 1 }, { tier: 'silver', standing: 5 })).toBeGreaterThan(0);
+    expect(compareStatus({ tier: 'silver', standing: 2 }, { tier: 'silver', standing: 4 })).toBeLessThan(0);
+    expect(compareStatus({ tier: 'brass', standing: 3 }, { tier: 'brass', standing: 3 })).toBe(0);
+  });
+
+  it('maps single-number Standing to a tier', () => {
+    expect(getStandingTier(0)).toBe('brass');
+    expect(getStandingTier(1)).toBe('brass');
+    expect(getStandingTier(2)).toBe('silver');
+    expect(getStandingTier(4)).toBe('silver');
+    expect(getStandingTier(5)).toBe('gold');
+  });
+
+  it('converts coin at 20 shillings to the crown and 12 pennies to the shilling', () => {
+    expect(toBrassPennies({ ss: 1 })).toBe(12);
+    expect(toBrassPennies({ gc: 1 })).toBe(240);
+    expect(toBrassPennies({ gc: 1, ss: 2, bp: 3 })).toBe(267);
+    expect(toBrassPennies({})).toBe(0);
+  });
+});
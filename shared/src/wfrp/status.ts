@@ -0,0 +1,63 @@
+// WFRP 4e social status and money (Core Rulebook, Society chapter)
+
+export const WFRP_STATUS_TIERS = ['brass', 'silver', 'gold'] as const;
+
+export type WFRPStatusTier = (typeof WFRP_STATUS_TIERS)[number];
+
+export interface WFRPStatus {
+  tier: WFRPStatusTier;
+  standing: number;
+}
+
+export const WFRP_STATUS_TIER_NAMES: Record<WFRPStatusTier, string> = {
+  brass: 'Brass',
+  silver: 'Silver',
+  gold: 'Gold',
+};
+
+/**
+ * Coinage: 1 Gold Crown = 20 Silver Shillings, 1 Silver Shilling = 12 Brass Pennies
+ */
+export const SHILLINGS_PER_CROWN = 20;
+export const PENNIES_PER_SHILLING = 12;
+
+/**
+ * Parse a career status string such as "Silver 3" or "b2"
+ */
+export function parseStatus(status: string): WFRPStatus | null {
+  const match = status.trim().toLowerCase().match(/^(brass|silver|gold|b|s|g)\s*(\d+)$/);
+  if (!match) {
+    return null;
+  }
+
+  const tier = WFRP_STATUS_TIERS.find((candidate) => candidate.startsWith(match[1]!))!;
+  return { tier, standing: parseInt(match[2]!, 10) };
+}
+
+export function formatStatus(status: WFRPStatus): string {
+  return `${WFRP_STATUS_TIER_NAMES[status.tier]} ${status.standing}`;
+}
+
+/**
+ * Order two statuses: negative when a is lower than b. Tier outranks Standing.
+ */
+export function compareStatus(a: WFRPStatus, b: WFRPStatus): number {
+  const tierDifference = WFRP_STATUS_TIERS.indexOf(a.tier) - WFRP_STATUS_TIERS.indexOf(b.tier);
+  return tierDifference !== 0 ? tierDifference : a.standing - b.standing;
+}
+
+/**
+ * Tier for the single-number Standing scale stored on actors (0–1 Brass, 2–4 Silver, 5+ Gold)
+ */
+export function getStandingTier(standing: number): WFRPStatusTier {
+  if (standing <= 1) return 'brass';
+  if (standing <= 4) return 'silver';
+  return 'gold';
+}
+
+/**
+ * Convert a purse to Brass Pennies
+ */
+export function toBrassPennies(purse: { gc?: number; ss?: number; bp?: number }): number {
+  return ((purse.gc || 0) * SHILLINGS_PER_CROWN + (purse.ss || 0)) * PENNIES_PER_SHILLING + (purse.bp || 0);
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { calculateSL, describeTestOutcome, isDoubleRoll, resolveTest, WFRP_DIFFICULTIES } from './tests.js';
+
+describe('test resolution', () => {
+  it('matches the difficulty table', () => {
+    expect(WFRP_DIFFICULTIES).toEqual({
+      'very-easy': 60,
+      easy: 40,
+      average: 20,
+      challenging: 0,
+      difficult: -10,
+      hard: -20,
+      'very-hard': -30,
+    });
+  });
+
+  it('counts Success Levels as tens of the target minus tens of the roll', () => {
+    expect(calculateSL(45, 23, true)).toBe(2);
+    expect(calculateSL(45, 41, true)).toBe(0);
+    expect(calculateSL(45, 78, false)).toBe(-3);
+  });
+
+  it('never gives a success negative SL or a failure positive SL', () => {
+    expect(calculateSL(25, 4, true)).toBe(2);
+    expect(calculateSL(3, 5, true)).toBe(0);
+    expect(calculateSL(110, 97, false)).toBe(0);
+  });
+
+  it('always succeeds on 01-05 and always fails on 96-00', () => {
+    expect(resolveTest(0, 5)).toMatchObject({ success: true, autoSuccess: true, sl: 0 });
+    expect(resolveTest(10, 6)).toMatchObject({ success: true, autoSuccess: false });
+    expect(resolveTest(0, 6)).toMatchObject({ success: false, autoSuccess: false });
+    expect(resolveTest(120, 96)).toMatchObject({ success: false, autoFailure: true, sl: 0 });
+    expect(resolveTest(120, 95)).toMatchObject({ success: true, autoFailure: false, sl: 3 });
+  });
+
+  it('treats 11, 22 ... 99 and 00 as doubles', () => {
+    for (const roll of [11, 22, 33, 44, 55, 66, 77, 88, 99, 100]) {
+      expect(isDoubleRoll(roll)).toBe(true);
+    }
+    for (const roll of [1, 10, 12, 50, 98]) {
+      expect(isDoubleRoll(roll)).toBe(false);
+    }
+  });
+
+  it('makes a double a critical on a success and a fumble on a failure', () => {
+    expect(resolveTest(50, 33)).toMatchObject({ success: true, critical: true, fumble: false });
+    expect(resolveTest(30, 44)).toMatchObject({ success: false, critical: false, fumble: true });
+    expect(resolveTest(120, 100)).toMatchObject({ success: false, fumble: true });
+    expect(resolveTest(50, 32)).toMatchObject({ isDouble: false, critical: false, fumble: false });
+  });
+
+  it('names outcomes by SL: Marginal 0-1, plain 2-3, Impressive 4-5, Astounding 6+', () => {
+    expect(describeTestOutcome(0, true)).toBe('Marginal Success');
+    expect(describeTestOutcome(1, true)).toBe('Marginal Success');
+    expect(describeTestOutcome(3, true)).toBe('Success');
+    expect(describeTestOutcome(5, true)).toBe('Impressive Success');
+    expect(describeTestOutcome(6, true)).toBe('Astounding Success');
+    expect(describeTestOutcome(0, false)).toBe('Marginal Failure');
+    expect(describeTestOutcome(-2, false)).toBe('Failure');
+    expect(describeTestOutcome(-4, false)).toBe('Impressive Failure');
+    expect(describeTestOutcome(-7, false)).toBe('Astounding Failure');
+  });
+});
@@ -0,0 +1,81 @@
+// WFRP 4e test resolution (Core Rulebook, Rules chapter: Tests)
+
+/**
+ * Test difficulty modifiers
+ */
+export const WFRP_DIFFICULTIES = {
+  'very-easy': 60,
+  easy: 40,
+  average: 20,
+  challenging: 0,
+  difficult: -10,
+  hard: -20,
+  'very-hard': -30,
+} as const;
+
+export type WFRPDifficulty = keyof typeof WFRP_DIFFICULTIES;
+
+export const WFRP_DIFFICULTY_KEYS = Object.keys(WFRP_DIFFICULTIES) as [WFRPDifficulty, ...WFRPDifficulty[]];
+
+export interface WFRPTestOutcome {
+  success: boolean;
+  sl: number;
+  autoSuccess: boolean;
+  autoFailure: boolean;
+  isDouble: boolean;
+  critical: boolean;
+  fumble: boolean;
+}
+
+/**
+ * Doubles (11, 22 … 99 and 00) are criticals on a success and fumbles on a failure
+ */
+export function isDoubleRoll(roll: number): boolean {
+  return roll === 100 || (roll % 11 === 0 && roll > 0 && roll < 100);
+}
+
+/**
+ * Success Levels: tens of the target minus tens of the roll.
+ * A success is never below +0 and a failure never above −0.
+ */
+export function calculateSL(target: number, roll: number, success: boolean): number {
+  const sl = Math.floor(target / 10) - Math.floor(roll / 10);
+  return success ? Math.max(0, sl) : Math.min(0, sl);
+}
+
+/**
+ * Resolve a d100 roll against a target: 01–05 always succeed, 96–00 always fail
+ */
+export function resolveTest(target: number, roll: number): WFRPTestOutcome {
+  const autoSuccess = roll <= 5;
+  const autoFailure = roll >= 96;
+  const success = autoSuccess || (!autoFailure && roll <= target);
+  const isDouble = isDoubleRoll(roll);
+
+  return {
+    success,
+    sl: calculateSL(target, roll, success),
+    autoSuccess,
+    autoFailure,
+    isDouble,
+    critical: isDouble && success,
+    fumble: isDouble && !success,
+  };
+}
+
+/**
+ * Outcome descriptor for a test result (Astounding, Impressive, Success, Marginal …)
+ */
+export function describeTestOutcome(sl: number, success: boolean): string {
+  const magnitude = Math.abs(sl);
+  if (success) {
+    if (magnitude >= 6) return 'Astounding Success';
+    if (magnitude >= 4) return 'Impressive Success';
+    if (magnitude >= 2) return 'Success';
+    return 'Marginal Success';
+  }
+  if (magnitude >= 6) return 'Astounding Failure';
+  if (magnitude >= 4) return 'Impressive Failure';
+  if (magnitude >= 2) return 'Failure';
+  return 'Marginal Failure';
+}